@@ -0,0 +1,410 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Bell, BellRing, Terminal, ArrowLeft, Plus, Trash2, Pencil, Pause, Play, Send, RefreshCw } from 'lucide-react';
+import Link from 'next/link';
+import { authHeaders, useNexusSession } from '@/lib/auth-client';
+import type { AlertRule, AlertDelivery, DeliveryStatus } from '@/lib/alert-dispatcher';
+import type { AlertChannelType } from '@/lib/alerts/channel';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ALERTING UI
+// ==========================================
+
+interface RuleForm {
+  id: string | null; // null while creating
+  name: string;
+  channel: AlertChannelType;
+  target: string;
+  minRoiPct: string;
+  maxRisk: string;
+  minNetProfit: string;
+  brands: string;
+  sources: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  id: null, name: '', channel: 'WEBHOOK', target: '', minRoiPct: '', maxRisk: '', minNetProfit: '', brands: '', sources: '', enabled: true
+};
+
+const splitList = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const STATUS_STYLE: Record<DeliveryStatus, string> = {
+  PENDING: 'text-zinc-400',
+  RETRYING: 'text-amber-400',
+  DELIVERED: 'text-emerald-400',
+  FAILED: 'text-red-400'
+};
+
+// Describes a rule the way an operator would say it
+const describeRule = (rule: AlertRule) => {
+  const parts: string[] = [];
+  if (rule.minRoiPct !== null) parts.push(`net ROI ≥ ${rule.minRoiPct}%`);
+  if (rule.maxRisk !== null) parts.push(`risk ≤ ${rule.maxRisk}`);
+  if (rule.minNetProfit !== null) parts.push(`net ≥ $${rule.minNetProfit}`);
+  const scope = rule.brands.length ? ` on ${rule.brands.join(', ')}` : '';
+  return `${parts.length ? parts.join(' and ') : 'every signal'}${scope}`;
+};
+
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+export default function AlertingDashboard() {
+  const session = useNexusSession();
+  const owner = session?.email || '';
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus | ''>('');
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [busy, setBusy] = useState(false);
+  const [logs, setLogs] = useState<string[]>([]);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
+  };
+
+  const fetchRules = useCallback(async () => {
+    if (!owner) return;
+    try {
+      const response = await fetch('/api/nexus/alerts/rules', { headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        setRules(result.rules || []);
+      } else {
+        addLog(`FETCH_ERROR: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Rule fetch error. Check connection.");
+    }
+  }, [owner]);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const query = statusFilter ? `?status=${statusFilter}` : '';
+      const response = await fetch(`/api/nexus/alerts/deliveries${query}`, { headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) setDeliveries(result.deliveries || []);
+    } catch (err) {
+      addLog("Delivery log fetch error. Check connection.");
+    }
+  }, [statusFilter]);
+
+  useEffect(() => { fetchRules(); }, [fetchRules]);
+  useEffect(() => { fetchDeliveries(); }, [fetchDeliveries]);
+
+  const toPayload = (f: RuleForm) => ({
+    name: f.name,
+    channel: f.channel,
+    target: f.target,
+    minRoiPct: f.minRoiPct,
+    maxRisk: f.maxRisk,
+    minNetProfit: f.minNetProfit,
+    brands: splitList(f.brands),
+    sources: splitList(f.sources),
+    enabled: f.enabled
+  });
+
+  const fromRule = (rule: AlertRule): RuleForm => ({
+    id: rule.id,
+    name: rule.name,
+    channel: rule.channel,
+    target: rule.target || '',
+    minRoiPct: rule.minRoiPct !== null ? String(rule.minRoiPct) : '',
+    maxRisk: rule.maxRisk !== null ? String(rule.maxRisk) : '',
+    minNetProfit: rule.minNetProfit !== null ? String(rule.minNetProfit) : '',
+    brands: rule.brands.join(', '),
+    sources: rule.sources.join(', '),
+    enabled: rule.enabled
+  });
+
+  const saveRule = async (f: RuleForm = form) => {
+    setBusy(true);
+    try {
+      const response = await fetch(f.id ? `/api/nexus/alerts/rules/${f.id}` : '/api/nexus/alerts/rules', {
+        method: f.id ? 'PUT' : 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify(toPayload(f))
+      });
+      const result = await response.json();
+      if (response.ok) {
+        addLog(`${f.id ? 'Updated' : 'Created'} '${f.name}'.`);
+        setForm(EMPTY_FORM);
+        await fetchRules();
+      } else {
+        addLog(`Save failed: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Save error. Check connection.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/nexus/alerts/rules/${rule.id}`, { method: 'DELETE', headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        addLog(`Removed '${rule.name}'.`);
+        setRules(current => current.filter(r => r.id !== rule.id));
+      } else {
+        addLog(`Delete failed: ${result.details || result.error}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const testRule = async (rule: AlertRule) => {
+    addLog(`Sending test through '${rule.name}'...`);
+    try {
+      const response = await fetch(`/api/nexus/alerts/rules/${rule.id}/test`, { method: 'POST', headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        for (const d of result.deliveries as AlertDelivery[]) {
+          addLog(`${d.channel} → ${d.destination.slice(0, 40)}: ${d.status}${d.lastError ? ` (${d.lastError})` : ''}`);
+        }
+        await fetchDeliveries();
+      } else {
+        addLog(`Test failed: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Test error. Check connection.");
+    }
+  };
+
+  const retryDue = async () => {
+    const response = await fetch('/api/nexus/alerts/deliveries', { method: 'POST', headers: await authHeaders() });
+    const result = await response.json();
+    addLog(response.ok ? `Retried ${result.retried} due deliveries.` : `Retry failed: ${result.details || result.error}`);
+    await fetchDeliveries();
+  };
+
+  // Registers the service worker and hands this browser's push subscription to the server
+  const enablePush = async () => {
+    if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+      addLog("This browser does not support Web Push.");
+      return;
+    }
+    try {
+      const keyResponse = await fetch('/api/nexus/alerts/push', { headers: await authHeaders() });
+      const keyResult = await keyResponse.json();
+      if (!keyResponse.ok) {
+        addLog(`Push unavailable: ${keyResult.details || keyResult.error}`);
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.register('/nexus-sw.js');
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(keyResult.publicKey)
+      });
+      const response = await fetch('/api/nexus/alerts/push', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ subscription: subscription.toJSON() })
+      });
+      const result = await response.json();
+      addLog(response.ok ? `Push enabled for ${owner} on this browser.` : `Subscribe failed: ${result.details || result.error}`);
+    } catch (err) {
+      addLog(`Push setup failed: ${err instanceof Error ? err.message : 'permission denied'}`);
+    }
+  };
+
+  const inputClass = "w-full bg-black/40 border border-rose-900/40 rounded-lg px-3 py-2 text-xs text-zinc-200 placeholder:text-zinc-700 focus:outline-none focus:border-rose-500/60";
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-rose-500 font-mono p-4 selection:bg-rose-900/30 overflow-x-hidden">
+
+      {/* HEADER */}
+      <header className="flex justify-between items-center border-b border-rose-900/50 pb-4 mb-6">
+        <div>
+          <Link href="/" className="flex items-center gap-2 text-zinc-500 hover:text-rose-400 transition-colors mb-2 text-[10px] uppercase font-bold">
+            <ArrowLeft className="w-3 h-3" /> Back to Nexus Core
+          </Link>
+          <motion.h1
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-2xl font-bold tracking-tighter text-rose-400 drop-shadow-[0_0_12px_rgba(251,113,133,0.4)]"
+          >
+            ALERT_MATRIX
+          </motion.h1>
+          <p className="text-[10px] text-rose-800 mt-1 uppercase tracking-widest">v1.0 // Webhook · Email · Web Push</p>
+        </div>
+        <button
+          onClick={enablePush}
+          disabled={!owner}
+          className="flex items-center gap-2 bg-rose-950/20 px-3 py-1.5 rounded-full border border-rose-900/30 text-[10px] font-bold tracking-tighter disabled:opacity-40"
+        >
+          <BellRing className="w-3 h-3" /> PUSH ON THIS DEVICE
+        </button>
+      </header>
+
+      {/* OPERATOR */}
+      <section className="mb-4 text-[10px] text-zinc-600 uppercase font-bold">
+        Rules and push subscriptions belong to <span className="text-rose-400 normal-case">{owner || '...'}</span>
+      </section>
+
+      {/* EDITOR */}
+      <section className="bg-zinc-900/30 backdrop-blur-xl border border-white/5 rounded-2xl p-5 mb-6 shadow-2xl space-y-3">
+        <div className="flex items-center gap-2 mb-2">
+          <Bell className="w-4 h-4 text-zinc-500" />
+          <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold">{form.id ? `Edit ${form.name}` : 'New Rule'}</h2>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <input className={`${inputClass} col-span-2`} placeholder="Name (e.g. Hermès steals)" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          <select className={inputClass} value={form.channel} onChange={e => setForm({ ...form, channel: e.target.value as AlertChannelType })}>
+            <option value="WEBHOOK">WEBHOOK</option>
+            <option value="EMAIL">EMAIL</option>
+            <option value="WEB_PUSH">WEB PUSH</option>
+          </select>
+        </div>
+        {form.channel !== 'WEB_PUSH' && (
+          <input
+            className={inputClass}
+            placeholder={form.channel === 'WEBHOOK' ? 'Webhook URL (https://hooks.example.com/nexus)' : 'Email address'}
+            value={form.target}
+            onChange={e => setForm({ ...form, target: e.target.value })}
+          />
+        )}
+        <div className="grid grid-cols-3 gap-2">
+          <input className={inputClass} type="number" placeholder="Min net ROI %" value={form.minRoiPct} onChange={e => setForm({ ...form, minRoiPct: e.target.value })} />
+          <input className={inputClass} type="number" step="0.05" min="0" max="1" placeholder="Max risk (0-1)" value={form.maxRisk} onChange={e => setForm({ ...form, maxRisk: e.target.value })} />
+          <input className={inputClass} type="number" min="0" placeholder="Min net $" value={form.minNetProfit} onChange={e => setForm({ ...form, minNetProfit: e.target.value })} />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input className={inputClass} placeholder="Brands, comma separated (empty = any)" value={form.brands} onChange={e => setForm({ ...form, brands: e.target.value })} />
+          <input className={inputClass} placeholder="Sources, comma separated (empty = any)" value={form.sources} onChange={e => setForm({ ...form, sources: e.target.value })} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase font-bold">
+            <input type="checkbox" checked={form.enabled} onChange={e => setForm({ ...form, enabled: e.target.checked })} /> Enabled
+          </label>
+          <div className="flex gap-2">
+            {form.id && (
+              <button onClick={() => setForm(EMPTY_FORM)} className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-zinc-800/50 text-zinc-500 border border-zinc-700">
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={() => saveRule()}
+              disabled={busy || !owner || !form.name.trim()}
+              className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-rose-500/10 border border-rose-500/50 text-rose-400 hover:bg-rose-500/20 disabled:opacity-40 flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> {form.id ? 'Save' : 'Create'}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {/* TERMINAL LOGS */}
+      <section className="mb-6 bg-black/40 border border-rose-900/20 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-rose-900">
+          <Terminal className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Alert Telemetry</span>
+        </div>
+        <div className="space-y-1">
+          {logs.map((log, i) => (
+            <div key={i} className="text-[10px] text-rose-700/80 leading-tight">{log}</div>
+          ))}
+          {logs.length === 0 && <div className="text-[10px] text-rose-900/50 italic">Awaiting alert events...</div>}
+        </div>
+      </section>
+
+      {/* RULE LIST */}
+      <section className="mb-8">
+        <div className="space-y-3">
+          <AnimatePresence mode="popLayout">
+            {rules.length === 0 ? (
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-center text-zinc-800 text-xs py-10 uppercase tracking-widest opacity-50">
+                {owner ? 'No rules yet. Deals only show up on the live feed.' : 'Loading session...'}
+              </motion.div>
+            ) : (
+              rules.map((rule) => (
+                <motion.div
+                  layout
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                  key={rule.id}
+                  className="bg-zinc-900/20 border border-white/5 p-3 rounded-xl flex flex-col gap-2"
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <span className="text-[10px] text-zinc-600 uppercase font-bold block mb-0.5">
+                        {rule.channel} {'//'} {rule.enabled ? 'ARMED' : 'PAUSED'}
+                      </span>
+                      <h3 className={`text-xs font-bold ${rule.enabled ? 'text-zinc-200' : 'text-zinc-600'}`}>{rule.name}</h3>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={() => testRule(rule)} title="Send test" className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-rose-400 transition-colors">
+                        <Send className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => saveRule({ ...fromRule(rule), enabled: !rule.enabled })} disabled={busy} title={rule.enabled ? 'Pause' : 'Resume'} className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-rose-400 transition-colors">
+                        {rule.enabled ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                      </button>
+                      <button onClick={() => setForm(fromRule(rule))} className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-rose-400 transition-colors">
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => deleteRule(rule)} disabled={busy} className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-red-400 transition-colors">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="text-[9px] text-zinc-500 uppercase font-bold space-y-0.5">
+                    <div><span className="text-rose-500">WHEN:</span> {describeRule(rule)}</div>
+                    {rule.target && <div className="normal-case"><span className="text-rose-500 uppercase">TO:</span> {rule.target}</div>}
+                    {rule.secret && <div className="normal-case"><span className="text-rose-500 uppercase">HMAC SECRET:</span> <span className="select-all text-zinc-400">{rule.secret}</span></div>}
+                  </div>
+                </motion.div>
+              ))
+            )}
+          </AnimatePresence>
+        </div>
+      </section>
+
+      {/* DELIVERY LOG */}
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold">Delivery Log</h2>
+          <div className="flex gap-2">
+            <select className="bg-black/40 border border-rose-900/40 rounded-lg px-2 py-1 text-[10px] text-zinc-300" value={statusFilter} onChange={e => setStatusFilter(e.target.value as DeliveryStatus | '')}>
+              <option value="">ALL</option>
+              <option value="DELIVERED">DELIVERED</option>
+              <option value="RETRYING">RETRYING</option>
+              <option value="FAILED">FAILED</option>
+              <option value="PENDING">PENDING</option>
+            </select>
+            <button onClick={retryDue} title="Retry due deliveries now" className="p-1.5 rounded-lg border border-zinc-800 text-zinc-500 hover:text-rose-400 transition-colors">
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          {deliveries.length === 0 && <div className="text-[10px] text-zinc-700 italic">No deliveries yet.</div>}
+          {deliveries.map(d => (
+            <div key={d.id} className="bg-zinc-900/20 border border-white/5 rounded-lg px-3 py-2 text-[10px] flex justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-zinc-300 truncate">{d.payload?.signal?.targetName} <span className="text-zinc-600">{'//'} {d.payload?.rule?.name}</span></div>
+                <div className="text-zinc-600 truncate">{d.channel} → {d.destination}</div>
+                {d.lastError && <div className="text-red-400/70 truncate">{d.lastError}</div>}
+              </div>
+              <div className="text-right shrink-0">
+                <div className={`font-bold ${STATUS_STYLE[d.status]}`}>{d.status}</div>
+                <div className="text-zinc-600">{d.attempts} attempt{d.attempts === 1 ? '' : 's'}</div>
+                <div className="text-zinc-700">{new Date(d.createdAt).toLocaleString()}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'motion/react';
+import { BarChart3, ArrowLeft, RefreshCw } from 'lucide-react';
+import Link from 'next/link';
+import { authHeaders, useNexusSession } from '@/lib/auth-client';
+import type { PnlReport, PnlBucket, AnalyticsPeriod } from '@/lib/pnl-analytics';
+
+// ==========================================
+// VOIDLOGIC NEXUS: P&L ANALYTICS UI
+// ==========================================
+
+const RANGES = [
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+  { label: '1Y', days: 365 }
+];
+
+const money = (n: number | null, currency = 'USD') => n === null ? '—' : n.toLocaleString(undefined, { style: 'currency', currency, maximumFractionDigits: 0 });
+const signed = (n: number | null, suffix = '%') => n === null ? '—' : `${n > 0 ? '+' : ''}${n}${suffix}`;
+
+// Paired horizontal bars: expected (outline) vs realized (fill) per bucket
+function EstimateBars({ buckets, label, currency }: { buckets: PnlBucket[]; label: (key: string) => string; currency: string }) {
+  const sold = buckets.filter(b => b.sold > 0);
+  const max = Math.max(1, ...sold.flatMap(b => [Math.abs(b.expectedNet), Math.abs(b.realizedNet)]));
+  if (sold.length === 0) {
+    return <div className="text-[10px] text-zinc-700 italic">No sales in range.</div>;
+  }
+  return (
+    <div className="space-y-2">
+      {sold.map(b => (
+        <div key={b.key}>
+          <div className="flex justify-between text-[9px] uppercase font-bold text-zinc-500 mb-0.5">
+            <span className="truncate">{label(b.key)} <span className="text-zinc-700">({b.sold} sold)</span></span>
+            <span className={b.realizedNet >= b.expectedNet ? 'text-emerald-400' : 'text-red-400'}>
+              {money(b.realizedNet, currency)} / {money(b.expectedNet, currency)} ({signed(b.profitErrorPct)})
+            </span>
+          </div>
+          <div className="relative h-2 bg-zinc-900 rounded-full overflow-hidden">
+            <div className="absolute inset-y-0 left-0 border border-sky-500/50 rounded-full" style={{ width: `${(Math.abs(b.expectedNet) / max) * 100}%` }} />
+            <div
+              className={`absolute inset-y-0 left-0 rounded-full ${b.realizedNet >= 0 ? 'bg-sky-400/70' : 'bg-red-500/70'}`}
+              style={{ width: `${(Math.abs(b.realizedNet) / max) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Time series as grouped SVG columns, scaled to fit the card on a phone
+function PeriodChart({ buckets, currency }: { buckets: PnlBucket[]; currency: string }) {
+  if (buckets.length === 0) {
+    return <div className="text-[10px] text-zinc-700 italic">No acquisitions in range.</div>;
+  }
+  const width = 300;
+  const height = 120;
+  const max = Math.max(1, ...buckets.flatMap(b => [Math.abs(b.expectedNet), Math.abs(b.realizedNet)]));
+  const slot = width / buckets.length;
+  const bar = Math.max(2, slot * 0.35);
+  const scale = (v: number) => (Math.abs(v) / max) * (height - 16);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-32">
+      {buckets.map((b, i) => {
+        const x = i * slot + slot / 2;
+        return (
+          <g key={b.key}>
+            <rect x={x - bar} y={height - 12 - scale(b.expectedNet)} width={bar} height={scale(b.expectedNet)} className="fill-sky-900/60" />
+            <rect
+              x={x}
+              y={height - 12 - scale(b.realizedNet)}
+              width={bar}
+              height={scale(b.realizedNet)}
+              className={b.realizedNet >= 0 ? 'fill-sky-400' : 'fill-red-500'}
+            >
+              <title>{`${b.key}: realized ${money(b.realizedNet, currency)} vs expected ${money(b.expectedNet, currency)}`}</title>
+            </rect>
+            {(buckets.length <= 8 || i % Math.ceil(buckets.length / 8) === 0) && (
+              <text x={x} y={height - 2} textAnchor="middle" className="fill-zinc-600 text-[7px] font-mono">{b.key.slice(5)}</text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function BucketTable({ buckets, label }: { buckets: PnlBucket[]; label: (key: string) => string }) {
+  return (
+    <table className="w-full text-[9px] uppercase font-bold">
+      <thead>
+        <tr className="text-zinc-600 text-left">
+          <th className="py-1">Key</th>
+          <th>Acq</th>
+          <th>Sold</th>
+          <th title="Average sale price / estimated value">Val Ratio</th>
+          <th>Days</th>
+        </tr>
+      </thead>
+      <tbody>
+        {buckets.map(b => (
+          <tr key={b.key} className="text-zinc-400 border-t border-zinc-900">
+            <td className="py-1 truncate max-w-[8rem]">{label(b.key)}</td>
+            <td>{b.acquired}</td>
+            <td>{b.sold}</td>
+            <td className={b.avgValueRatio === null ? '' : b.avgValueRatio >= 1 ? 'text-emerald-400' : b.avgValueRatio >= 0.9 ? 'text-amber-400' : 'text-red-400'}>
+              {b.avgValueRatio === null ? '—' : `${b.avgValueRatio.toFixed(2)}x`}
+            </td>
+            <td>{b.avgDaysToSell ?? '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AnalyticsDashboard() {
+  useNexusSession();
+  const [report, setReport] = useState<PnlReport | null>(null);
+  const [days, setDays] = useState(90);
+  const [period, setPeriod] = useState<AnalyticsPeriod>('WEEK');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const from = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString();
+      const response = await fetch(`/api/nexus/analytics?from=${encodeURIComponent(from)}&period=${period}`, { headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        setReport(result);
+        setError(null);
+      } else {
+        setError(result.details || result.error);
+      }
+    } catch (err) {
+      setError('Analytics fetch error. Check connection.');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, period]);
+
+  useEffect(() => { fetchReport(); }, [fetchReport]);
+
+  const s = report?.summary;
+  const tiles = s ? [
+    { label: 'Realized Net', value: money(s.realizedNet, report?.currency), tone: s.realizedNet >= 0 ? 'text-emerald-400' : 'text-red-400' },
+    { label: 'Expected Net', value: money(s.expectedNet, report?.currency), tone: 'text-sky-300' },
+    { label: 'Estimate Error', value: signed(s.profitErrorPct), tone: (s.profitErrorPct ?? 0) >= 0 ? 'text-emerald-400' : 'text-red-400' },
+    { label: 'Capital Tied Up', value: money(s.capitalTiedUp, report?.currency), tone: 'text-amber-400', sub: `${s.unsoldItems} unsold` },
+    { label: 'Avg Days to Sell', value: s.avgDaysToSell === null ? '—' : `${s.avgDaysToSell}d`, tone: 'text-sky-300', sub: `${s.itemsSold} sold` },
+    { label: 'Hit Rate', value: s.hitRate === null ? '—' : `${s.hitRate}%`, tone: 'text-sky-300', sub: `${s.signalsExecuted}/${s.signalsFound} signals` },
+    { label: 'Condition Match', value: s.conditionMatchRate === null ? '—' : `${s.conditionMatchRate}%`, tone: 'text-sky-300', sub: 'est = actual' }
+  ] : [];
+
+  const card = "bg-zinc-900/30 backdrop-blur-xl border border-white/5 rounded-2xl p-4 mb-4 shadow-2xl";
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-sky-500 font-mono p-4 selection:bg-sky-900/30 overflow-x-hidden">
+
+      {/* HEADER */}
+      <header className="flex justify-between items-center border-b border-sky-900/50 pb-4 mb-6">
+        <div>
+          <Link href="/" className="flex items-center gap-2 text-zinc-500 hover:text-sky-400 transition-colors mb-2 text-[10px] uppercase font-bold">
+            <ArrowLeft className="w-3 h-3" /> Back to Nexus Core
+          </Link>
+          <motion.h1
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-2xl font-bold tracking-tighter text-sky-400 drop-shadow-[0_0_12px_rgba(56,189,248,0.4)]"
+          >
+            PNL_ANALYTICS
+          </motion.h1>
+          <p className="text-[10px] text-sky-800 mt-1 uppercase tracking-widest">v1.0 // Estimate vs Reality</p>
+        </div>
+        <button onClick={fetchReport} disabled={loading} className="p-2 rounded-full border border-sky-900/40 text-sky-500 hover:text-sky-300 disabled:opacity-40">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </header>
+
+      {/* RANGE */}
+      <div className="flex justify-between mb-4">
+        <div className="flex gap-2">
+          {RANGES.map(r => (
+            <button
+              key={r.label}
+              onClick={() => setDays(r.days)}
+              className={`px-3 py-1 rounded-full text-[9px] font-black uppercase border ${days === r.days ? 'bg-sky-500/20 border-sky-500/60 text-sky-300' : 'bg-zinc-900/30 border-zinc-800 text-zinc-500'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {(['WEEK', 'MONTH'] as AnalyticsPeriod[]).map(p => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`px-3 py-1 rounded-full text-[9px] font-black uppercase border ${period === p ? 'bg-sky-500/20 border-sky-500/60 text-sky-300' : 'bg-zinc-900/30 border-zinc-800 text-zinc-500'}`}
+            >
+              {p}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="text-[10px] text-red-400 mb-4">ERROR: {error}</div>}
+
+      {report && (
+        <>
+          {/* SUMMARY */}
+          <section className="grid grid-cols-2 gap-2 mb-4">
+            {tiles.map(t => (
+              <div key={t.label} className="bg-zinc-900/30 border border-white/5 rounded-xl p-3">
+                <div className="text-[9px] uppercase font-bold text-zinc-600">{t.label}</div>
+                <div className={`text-lg font-black tracking-tighter ${t.tone}`}>{t.value}</div>
+                {t.sub && <div className="text-[9px] text-zinc-600 font-bold uppercase">{t.sub}</div>}
+              </div>
+            ))}
+          </section>
+
+          <section className={card}>
+            <div className="flex items-center gap-2 mb-3">
+              <BarChart3 className="w-4 h-4 text-zinc-500" />
+              <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold">Net by {period === 'WEEK' ? 'Week' : 'Month'} Acquired</h2>
+            </div>
+            <PeriodChart buckets={report.byPeriod} currency={report.currency} />
+            <div className="flex gap-4 text-[9px] uppercase font-bold text-zinc-600 mt-1">
+              <span className="flex items-center gap-1"><span className="w-2 h-2 bg-sky-900/60 inline-block" /> Expected</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-2 bg-sky-400 inline-block" /> Realized</span>
+            </div>
+          </section>
+
+          <section className={card}>
+            <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold mb-3">Estimated vs Realized by Brand</h2>
+            <EstimateBars buckets={report.byBrand} label={k => k} currency={report.currency} />
+          </section>
+
+          <section className={card}>
+            <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold mb-1">By Condition Score</h2>
+            <p className="text-[9px] text-zinc-600 mb-3">A value ratio away from 1.00x means that grade&apos;s multiplier is mispriced.</p>
+            <EstimateBars buckets={report.byCondition} label={k => `Grade ${k}/5`} currency={report.currency} />
+            <div className="mt-3"><BucketTable buckets={report.byCondition} label={k => `${k}/5`} /></div>
+          </section>
+
+          <section className={card}>
+            <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold mb-3">By Source</h2>
+            <EstimateBars buckets={report.bySource} label={k => k} currency={report.currency} />
+            <div className="mt-3"><BucketTable buckets={report.bySource} label={k => k} /></div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AlertDispatcher, type DeliveryStatus } from '@/lib/alert-dispatcher';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ALERT DELIVERY LOG ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const STATUSES: DeliveryStatus[] = ['PENDING', 'RETRYING', 'DELIVERED', 'FAILED'];
+
+// The signed-in user's deliveries, newest first: ?status=FAILED&ruleId=...&limit=100
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const params = new URL(request.url).searchParams;
+    const status = params.get('status')?.toUpperCase() as DeliveryStatus | undefined;
+    if (status && !STATUSES.includes(status)) {
+        return NextResponse.json({ error: 'INVALID_STATUS', allowed: STATUSES }, { status: 400 });
+    }
+    const limit = Math.min(Math.max(Number(params.get('limit')) || 100, 1), 500);
+
+    const { data: rules, error: rulesError } = await supabase.from('nexus_alert_rules').select('id').eq('owner', session.email);
+    if (rulesError) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: rulesError.message }, { status: 500 });
+    }
+    const ruleId = params.get('ruleId');
+    const ruleIds = rules.map(r => r.id as string).filter(id => !ruleId || id === ruleId);
+
+    let query = supabase.from('nexus_alert_deliveries').select('*').in('ruleId', ruleIds).order('createdAt', { ascending: false }).limit(limit);
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ deliveries: data }, { status: 200 });
+}
+
+// Retries every delivery whose backoff has elapsed; for deployments without the in-process scheduler
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    try {
+        const retried = await new AlertDispatcher(supabase).retryDue();
+        return NextResponse.json({ retried }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { vapidConfigFromEnv } from '@/lib/alerts';
+
+// ==========================================
+// VOIDLOGIC NEXUS: WEB PUSH SUBSCRIPTION ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The VAPID public key the browser needs for pushManager.subscribe()
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+    const { publicKey } = vapidConfigFromEnv();
+    if (!publicKey) {
+        return NextResponse.json({ error: 'PUSH_NOT_CONFIGURED', details: 'Set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY.' }, { status: 503 });
+    }
+    return NextResponse.json({ publicKey }, { status: 200 });
+}
+
+// Body: { subscription: PushSubscription.toJSON() }; the browser is registered to the signed-in user
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const body = await request.json().catch(() => ({}));
+    const owner = session.email;
+    const endpoint = body?.subscription?.endpoint;
+    const keys = body?.subscription?.keys;
+    if (typeof endpoint !== 'string' || !endpoint.startsWith('https://') || typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string') {
+        return NextResponse.json({ error: 'INVALID_SUBSCRIPTION', details: 'subscription.endpoint and subscription.keys are required.' }, { status: 400 });
+    }
+
+    const { error } = await supabase.from('nexus_push_subscriptions').upsert({
+        endpoint,
+        owner,
+        keys: { p256dh: keys.p256dh, auth: keys.auth },
+        userAgent: request.headers.get('user-agent'),
+        createdAt: new Date().toISOString()
+    }, { onConflict: 'endpoint' });
+    if (error) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ status: 'SUBSCRIBED' }, { status: 201 });
+}
+
+// Body: { endpoint }
+export async function DELETE(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body?.endpoint !== 'string') {
+        return NextResponse.json({ error: 'INVALID_SUBSCRIPTION', details: 'endpoint is required.' }, { status: 400 });
+    }
+
+    const { error } = await supabase.from('nexus_push_subscriptions').delete().eq('endpoint', body.endpoint).eq('owner', session.email);
+    if (error) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ status: 'UNSUBSCRIBED' }, { status: 200 });
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize, hasRole } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { parseAlertRule } from '@/lib/alert-dispatcher';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ALERT RULE ENTRY ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Replaces the rule. The webhook secret is kept unless a new one is sent.
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    // Other users' rules are reported as missing rather than forbidden
+    const { data: existing, error: lookupError } = await supabase.from('nexus_alert_rules').select('*').eq('id', id).eq('owner', session.email).maybeSingle();
+    if (lookupError) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: lookupError.message }, { status: 500 });
+    }
+    if (!existing) {
+        return NextResponse.json({ error: 'RULE_NOT_FOUND' }, { status: 404 });
+    }
+
+    let rule;
+    try {
+        rule = parseAlertRule({ secret: existing.secret, ...(await request.json()), owner: session.email });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid rule payload';
+        return NextResponse.json({ error: 'INVALID_RULE', details: errorMsg }, { status: 400 });
+    }
+
+    // Webhooks make the server call a URL of the owner's choosing, so only operators may set one up or fire it
+    if (rule.channel === 'WEBHOOK' && !hasRole(session, 'operator')) {
+        return NextResponse.json({ error: 'FORBIDDEN', details: `Webhook rules require the operator role; you are ${session.role}.` }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.from('nexus_alert_rules').update(rule).eq('id', id).select().maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: error.message }, { status: 500 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Alerting: Updated rule '${rule.name}'${rule.enabled ? '' : ' (paused)'}.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'alert_rule.update',
+        entityType: 'alert_rule',
+        entityId: id,
+        before: existing,
+        after: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ rule: data }, { status: 200 });
+}
+
+// Pending retries for a removed rule fail on their next attempt
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const { data, error } = await supabase.from('nexus_alert_rules').delete().eq('id', id).eq('owner', session.email).select().maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: error.message }, { status: 500 });
+    }
+    if (!data) {
+        return NextResponse.json({ error: 'RULE_NOT_FOUND' }, { status: 404 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Alerting: Removed rule '${data.name}'.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'alert_rule.delete',
+        entityType: 'alert_rule',
+        entityId: id,
+        before: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ status: 'DELETED', id }, { status: 200 });
+}
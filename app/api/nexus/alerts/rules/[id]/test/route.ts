@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize, hasRole } from '@/lib/auth';
+import { AlertDispatcher, type AlertRule } from '@/lib/alert-dispatcher';
+import type { MarketSignal } from '@/lib/nexus-engine';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ALERT RULE TEST ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Used when the ledger is empty so a fresh install can still verify its channels
+const SAMPLE_SIGNAL = {
+    id: 'TEST-0000',
+    source: 'Nexus',
+    targetName: 'Hermès Evelyne III PM (test alert)',
+    brandCategory: 'Hermès',
+    conditionScore: 4,
+    listedPrice: 1650,
+    currency: 'USD',
+    listedPriceBase: 1650,
+    baseCurrency: 'USD',
+    listingType: 'FIXED_PRICE',
+    estimatedValue: 2650,
+    netProfit: 512.4,
+    roiPct: 29.5,
+    riskScore: 0.05,
+    url: 'https://example.com/nexus-test-alert'
+} as MarketSignal;
+
+// Sends the newest signal (or a sample) through the rule's destinations, ignoring its filters
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const { data: rule, error } = await supabase.from('nexus_alert_rules').select('*').eq('id', id).eq('owner', session.email).maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: error.message }, { status: 500 });
+    }
+    if (!rule) {
+        return NextResponse.json({ error: 'RULE_NOT_FOUND' }, { status: 404 });
+    }
+
+    // Webhooks make the server call a URL of the owner's choosing, so only operators may set one up or fire it
+    if (rule.channel === 'WEBHOOK' && !hasRole(session, 'operator')) {
+        return NextResponse.json({ error: 'FORBIDDEN', details: `Webhook rules require the operator role; you are ${session.role}.` }, { status: 403 });
+    }
+
+    try {
+        const { data: latest } = await supabase.from('nexus_signals').select('*').order('timestamp', { ascending: false }).limit(1).maybeSingle();
+        const deliveries = await new AlertDispatcher(supabase).sendTest(rule as AlertRule, (latest as MarketSignal | null) || SAMPLE_SIGNAL);
+        return NextResponse.json({ deliveries }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'TEST_FAILURE', details: errorMsg }, { status: 422 });
+    }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize, hasRole } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { parseAlertRule } from '@/lib/alert-dispatcher';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ALERT RULES ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// The signed-in user's rules
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const { data, error } = await supabase.from('nexus_alert_rules').select('*').eq('owner', session.email).order('name', { ascending: true });
+    if (error) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ rules: data }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    // Rules always belong to whoever creates them
+    let rule;
+    try {
+        rule = parseAlertRule({ ...(await request.json()), owner: session.email });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid rule payload';
+        return NextResponse.json({ error: 'INVALID_RULE', details: errorMsg }, { status: 400 });
+    }
+
+    // Webhooks make the server call a URL of the owner's choosing, so only operators may set one up or fire it
+    if (rule.channel === 'WEBHOOK' && !hasRole(session, 'operator')) {
+        return NextResponse.json({ error: 'FORBIDDEN', details: `Webhook rules require the operator role; you are ${session.role}.` }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.from('nexus_alert_rules').insert(rule).select().single();
+    if (error) {
+        return NextResponse.json({ error: 'ALERT_FAILURE', details: error.message }, { status: 500 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Alerting: ${rule.owner} added ${rule.channel} rule '${rule.name}'.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'alert_rule.create',
+        entityType: 'alert_rule',
+        entityId: data.id,
+        after: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ rule: data }, { status: 201 });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { PnlAnalytics, type AnalyticsPeriod } from '@/lib/pnl-analytics';
+
+// ==========================================
+// VOIDLOGIC NEXUS: P&L ANALYTICS ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Estimated vs realized P&L: ?from=2026-01-01&to=2026-03-31&period=WEEK|MONTH
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const params = new URL(request.url).searchParams;
+    const period = (params.get('period') || 'WEEK').toUpperCase() as AnalyticsPeriod;
+    if (period !== 'WEEK' && period !== 'MONTH') {
+        return NextResponse.json({ error: 'INVALID_PERIOD', allowed: ['WEEK', 'MONTH'] }, { status: 400 });
+    }
+
+    const range: { from?: string; to?: string } = {};
+    for (const field of ['from', 'to'] as const) {
+        const value = params.get(field);
+        if (!value) continue;
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) {
+            return NextResponse.json({ error: 'INVALID_DATE', field }, { status: 400 });
+        }
+        range[field] = date.toISOString();
+    }
+
+    try {
+        const report = await new PnlAnalytics(supabase).report({ ...range, period });
+        return NextResponse.json(report, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'ANALYTICS_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { actorFor, requestIp } from '@/lib/audit-log';
+import { ApprovalQueue, APPROVED_KEY_PREFIX, REJECTION_CATEGORIES, type RejectionCategory } from '@/lib/approval-queue';
+import { SignalExecutor } from '@/lib/signal-executor';
+
+// ==========================================
+// VOIDLOGIC NEXUS: APPROVAL DECISION ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_REASON_LENGTH = 500;
+
+// One decision per call:
+//   { decision: 'approve', confirmAmount }   confirmAmount must equal the queued amount
+//   { decision: 'reject', category, reason } the signal moves to REJECTED
+//   { decision: 'snooze', minutes }
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'buyer');
+    if (denied) return denied;
+
+    const body = await request.json().catch(() => ({}));
+    const actor = actorFor(session);
+    const ip = requestIp(request);
+
+    try {
+        const queue = new ApprovalQueue(supabase);
+        const approval = await queue.get(id);
+        if (!approval) {
+            return NextResponse.json({ error: 'APPROVAL_NOT_FOUND' }, { status: 404 });
+        }
+
+        switch (body?.decision) {
+            case 'approve': {
+                const confirmAmount = Number(body.confirmAmount);
+                if (!Number.isFinite(confirmAmount)) {
+                    return NextResponse.json({ error: 'CONFIRMATION_REQUIRED', details: 'confirmAmount must repeat the amount being approved.', amount: approval.amount }, { status: 400 });
+                }
+
+                const approved = await queue.approve(approval, confirmAmount, actor, ip);
+                if ('error' in approved) {
+                    if (approved.error === 'EXPIRED') return NextResponse.json({ error: 'APPROVAL_EXPIRED' }, { status: 410 });
+                    if (approved.error === 'AMOUNT_MISMATCH') return NextResponse.json({ error: 'AMOUNT_MISMATCH', amount: approval.amount }, { status: 409 });
+                    return NextResponse.json({ error: 'APPROVAL_NOT_PENDING', status: approval.status }, { status: 409 });
+                }
+
+                // The approval is spent either way; a failed purchase needs a fresh request.
+                // A human bought this, so it gets its own key even when the autopilot queued it.
+                const result = await new SignalExecutor(supabase).execute({
+                    signalId: approval.signalId,
+                    price: confirmAmount,
+                    idempotencyKey: `${APPROVED_KEY_PREFIX}${approval.id}`,
+                    actor,
+                    ip,
+                    approvalId: approval.id
+                });
+                const outcome = result.outcome === 'REJECTED' ? `REJECTED:${result.reason.code}` : result.outcome;
+                await queue.recordOutcome(approval.id, outcome);
+
+                const ok = result.outcome === 'SUCCESS' || result.outcome === 'PAYMENT_PENDING';
+                return NextResponse.json({ approval: { ...approved, outcome }, execution: result }, { status: ok ? 200 : 409 });
+            }
+
+            case 'reject': {
+                const category = String(body.category || '').toUpperCase() as RejectionCategory;
+                const reason = typeof body.reason === 'string' ? body.reason.trim().slice(0, MAX_REASON_LENGTH) : '';
+                if (!REJECTION_CATEGORIES.includes(category) || !reason) {
+                    return NextResponse.json({ error: 'INVALID_REJECTION', details: 'A category and a reason are required.', categories: REJECTION_CATEGORIES }, { status: 400 });
+                }
+                const rejected = await queue.reject(approval, category, reason, actor, ip);
+                if (!rejected) {
+                    return NextResponse.json({ error: 'APPROVAL_NOT_PENDING', status: approval.status }, { status: 409 });
+                }
+                return NextResponse.json({ approval: rejected }, { status: 200 });
+            }
+
+            case 'snooze': {
+                const minutes = Number(body.minutes);
+                if (!Number.isFinite(minutes) || minutes <= 0) {
+                    return NextResponse.json({ error: 'INVALID_SNOOZE', details: 'minutes must be a positive number.' }, { status: 400 });
+                }
+                const snoozed = await queue.snooze(approval, minutes, actor, ip);
+                if (!snoozed) {
+                    return NextResponse.json({ error: 'APPROVAL_NOT_PENDING', status: approval.status }, { status: 409 });
+                }
+                return NextResponse.json({ approval: snoozed }, { status: 200 });
+            }
+
+            default:
+                return NextResponse.json({ error: 'INVALID_DECISION', allowed: ['approve', 'reject', 'snooze'] }, { status: 400 });
+        }
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'APPROVALS_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
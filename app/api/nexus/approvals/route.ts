@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { ApprovalQueue, type ApprovalStatus } from '@/lib/approval-queue';
+
+// ==========================================
+// VOIDLOGIC NEXUS: APPROVAL QUEUE ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const STATUSES: ApprovalStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'EXPIRED'];
+
+// ?status=PENDING (default) | APPROVED | REJECTED | EXPIRED, plus &snoozed=true to include snoozed entries.
+// Each entry carries its signal, so the approver sees the listing, valuation and cost breakdown without a second request.
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const params = new URL(request.url).searchParams;
+    const status = (params.get('status')?.toUpperCase() || 'PENDING') as ApprovalStatus;
+    if (!STATUSES.includes(status)) {
+        return NextResponse.json({ error: 'INVALID_STATUS', allowed: STATUSES }, { status: 400 });
+    }
+
+    try {
+        const queue = new ApprovalQueue(supabase);
+        const approvals = await queue.list(status, Number(params.get('limit')) || undefined, params.get('snoozed') === 'true');
+
+        const signalIds = [...new Set(approvals.map(a => a.signalId))];
+        const { data: signals, error } = signalIds.length
+            ? await supabase.from('nexus_signals').select('*').in('id', signalIds)
+            : { data: [], error: null };
+        if (error) throw new Error(error.message);
+        const byId = new Map((signals || []).map(s => [s.id, s]));
+
+        return NextResponse.json({
+            approvals: approvals.map(a => ({ ...a, signal: byId.get(a.signalId) ?? null })),
+            summary: await queue.rejectionSummary()
+        }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'APPROVALS_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog, auditToCsv, type AuditActorType } from '@/lib/audit-log';
+
+// ==========================================
+// VOIDLOGIC NEXUS: AUDIT TRAIL ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ACTOR_TYPES: AuditActorType[] = ['USER', 'SCHEDULER', 'GOD_MODE'];
+
+// ?actor=&actorType=&action=&entityType=&entityId=&from=&to=&limit=, plus &format=csv for a download
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    const params = new URL(request.url).searchParams;
+    const actorType = params.get('actorType')?.toUpperCase() as AuditActorType | undefined;
+    if (actorType && !ACTOR_TYPES.includes(actorType)) {
+        return NextResponse.json({ error: 'INVALID_ACTOR_TYPE', allowed: ACTOR_TYPES }, { status: 400 });
+    }
+    for (const key of ['from', 'to']) {
+        const value = params.get(key);
+        if (value && Number.isNaN(Date.parse(value))) {
+            return NextResponse.json({ error: 'INVALID_DATE', details: `${key} must be an ISO date.` }, { status: 400 });
+        }
+    }
+
+    try {
+        const entries = await new AuditLog(supabase).list({
+            actor: params.get('actor') || undefined,
+            actorType,
+            action: params.get('action') || undefined,
+            entityType: params.get('entityType') || undefined,
+            entityId: params.get('entityId') || undefined,
+            from: params.get('from') || undefined,
+            to: params.get('to') || undefined,
+            limit: Number(params.get('limit')) || undefined
+        });
+
+        if (params.get('format') === 'csv') {
+            return new NextResponse(auditToCsv(entries), {
+                status: 200,
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="nexus-audit-${new Date().toISOString().slice(0, 10)}.csv"`
+                }
+            });
+        }
+        return NextResponse.json({ entries }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'AUDIT_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
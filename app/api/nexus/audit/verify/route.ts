@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog } from '@/lib/audit-log';
+
+// ==========================================
+// VOIDLOGIC NEXUS: AUDIT CHAIN VERIFICATION ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+// Recomputes every hash from the first entry. `headHash` is worth noting somewhere outside the
+// database: a chain rewritten from scratch still verifies, but no longer ends in that hash.
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    try {
+        const result = await new AuditLog(supabase).verify();
+        if (!result.ok) {
+            await supabase.from('nexus_logs').insert({
+                level: 'ERROR',
+                message: `Audit chain verification FAILED at entry ${result.brokenAt}: ${result.reason}`,
+                timestamp: new Date().toISOString()
+            });
+        }
+        return NextResponse.json(result, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'AUDIT_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
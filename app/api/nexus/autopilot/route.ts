@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { actorFor, requestIp } from '@/lib/audit-log';
+import { Autopilot, parseAutopilotPolicy, type AutopilotPolicyInput } from '@/lib/autopilot';
+
+// ==========================================
+// VOIDLOGIC NEXUS: GOD MODE AUTOPILOT ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Current policy plus today's autopilot spend against its limit
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    try {
+        const state = await new Autopilot(supabase).getState();
+        return NextResponse.json(state, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'AUTOPILOT_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
+
+// Arms, disarms or retunes God Mode. Arming attributes every autopilot buy to the caller.
+// Takes effect on the next sweep.
+export async function PUT(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'buyer');
+    if (denied) return denied;
+
+    let patch: AutopilotPolicyInput;
+    try {
+        patch = parseAutopilotPolicy(await request.json());
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid policy payload';
+        return NextResponse.json({ error: 'INVALID_POLICY', details: errorMsg }, { status: 400 });
+    }
+    if (Object.keys(patch).length === 0) {
+        return NextResponse.json({ error: 'INVALID_POLICY', details: 'No policy fields supplied.' }, { status: 400 });
+    }
+
+    try {
+        const autopilot = new Autopilot(supabase);
+        await autopilot.updatePolicy(patch, actorFor(session), requestIp(request));
+        return NextResponse.json(await autopilot.getState(), { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'AUTOPILOT_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
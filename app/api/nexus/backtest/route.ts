@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { connect, authorize } from '@/lib/auth';
+import { compareRules, loadLiveDataset, resolveRules, CURRENT_RULES, type BacktestDataset, type BacktestRules } from '@/lib/backtest';
+import { FxRateStore } from '@/lib/fx-rate-store';
+
+// ==========================================
+// VOIDLOGIC NEXUS: BACKTEST ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FIXTURE_PATH = path.join(process.cwd(), 'fixtures', 'backtest', 'dataset.json');
+
+// The rules currently in force, as a starting point for a candidate
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+    return NextResponse.json({ rules: CURRENT_RULES }, { status: 200 });
+}
+
+// Replays a dataset through a candidate rule set and the baseline (current rules unless given).
+// Body: { candidate: Partial<BacktestRules>, baseline?: Partial<BacktestRules>, dataset?: 'fixture' | 'live' }
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    let body: { candidate?: Partial<BacktestRules>; baseline?: Partial<BacktestRules>; dataset?: string };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'INVALID_JSON' }, { status: 400 });
+    }
+
+    let candidate: BacktestRules;
+    let baseline: BacktestRules;
+    try {
+        candidate = resolveRules({ label: 'candidate', ...body.candidate });
+        baseline = resolveRules(body.baseline);
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'INVALID_RULES', details: errorMsg }, { status: 400 });
+    }
+
+    const source = body.dataset || 'fixture';
+    if (source !== 'fixture' && source !== 'live') {
+        return NextResponse.json({ error: 'INVALID_DATASET', allowed: ['fixture', 'live'] }, { status: 400 });
+    }
+
+    try {
+        let dataset: BacktestDataset;
+        if (source === 'live') {
+            // Live replay only sees listings the current rules already let through
+            dataset = await loadLiveDataset(supabase, (await new FxRateStore(supabase).table()).list());
+        } else {
+            dataset = JSON.parse(await readFile(FIXTURE_PATH, 'utf8')) as BacktestDataset;
+        }
+
+        const comparison = await compareRules(dataset, candidate, baseline);
+        return NextResponse.json(comparison, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'BACKTEST_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { parseBrandEntry } from '@/lib/brand-catalog';
+
+// ==========================================
+// VOIDLOGIC NEXUS: BRAND CATALOG ENTRY ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    let entry;
+    try {
+        entry = parseBrandEntry({ ...(await request.json()), id });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid brand payload';
+        return NextResponse.json({ error: 'INVALID_BRAND', details: errorMsg }, { status: 400 });
+    }
+
+    const { data: before } = await supabase.from('nexus_brands').select('*').eq('id', id).maybeSingle();
+    const { data, error } = await supabase.from('nexus_brands').update(entry).eq('id', id).select().maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'CATALOG_FAILURE', details: error.message }, { status: 500 });
+    }
+    if (!data) {
+        return NextResponse.json({ error: 'BRAND_NOT_FOUND' }, { status: 404 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Brand Catalog: Updated ${entry.name}.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'brand.update',
+        entityType: 'brand',
+        entityId: id,
+        before,
+        after: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ brand: data }, { status: 200 });
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    const { data, error } = await supabase.from('nexus_brands').delete().eq('id', id).select().maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'CATALOG_FAILURE', details: error.message }, { status: 500 });
+    }
+    if (!data) {
+        return NextResponse.json({ error: 'BRAND_NOT_FOUND' }, { status: 404 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Brand Catalog: Removed ${data.name}.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'brand.delete',
+        entityType: 'brand',
+        entityId: id,
+        before: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ status: 'DELETED', id }, { status: 200 });
+}
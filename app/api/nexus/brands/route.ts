@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { parseBrandEntry } from '@/lib/brand-catalog';
+
+// ==========================================
+// VOIDLOGIC NEXUS: BRAND CATALOG ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const { data, error } = await supabase.from('nexus_brands').select('*').order('name', { ascending: true });
+    if (error) {
+        return NextResponse.json({ error: 'CATALOG_FAILURE', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ brands: data }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    let entry;
+    try {
+        entry = parseBrandEntry(await request.json());
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid brand payload';
+        return NextResponse.json({ error: 'INVALID_BRAND', details: errorMsg }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.from('nexus_brands').insert(entry).select().single();
+    if (error) {
+        const status = error.code === '23505' ? 409 : 500; // unique_violation
+        return NextResponse.json({ error: 'CATALOG_FAILURE', details: error.message }, { status });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Brand Catalog: Added ${entry.name} (${entry.tier}).`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'brand.create',
+        entityType: 'brand',
+        entityId: data.id,
+        after: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ brand: data }, { status: 201 });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import type { SoldComp } from '@/lib/valuation-engine';
+import { BrandCatalog } from '@/lib/brand-catalog';
+import { createEmbeddingProvider } from '@/lib/embeddings';
+import { embedComps } from '@/lib/semantic-matcher';
+import { DEFAULT_BASE_CURRENCY, normalizeCurrency } from '@/lib/fx';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SOLD COMPS INGESTION ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+
+    try {
+        const { denied } = await authorize(request, supabase, 'operator');
+        if (denied) return denied;
+
+        const { comps } = await request.json();
+        if (!Array.isArray(comps) || comps.length === 0) {
+            return NextResponse.json({ error: 'MISSING_COMPS' }, { status: 400 });
+        }
+
+        const invalid = comps.filter((c: Partial<SoldComp>) =>
+            !c.id || !c.brand || !c.title || !c.soldAt || !(Number(c.soldPrice) > 0) ||
+            ![1, 2, 3, 4, 5].includes(Number(c.conditionScore)) ||
+            (c.currency !== undefined && !normalizeCurrency(c.currency))
+        );
+        if (invalid.length > 0) {
+            return NextResponse.json({ error: 'INVALID_COMPS', count: invalid.length }, { status: 400 });
+        }
+
+        // Vectors for nearest-comp valuation. An embedding outage doesn't block ingestion; reindex later.
+        // Sale prices keep their own currency; the valuation converts them to the base currency at the current rate
+        let rows: SoldComp[] = comps.map((c: SoldComp) => ({ ...c, currency: normalizeCurrency(c.currency) || DEFAULT_BASE_CURRENCY, embedding: null, embeddingModel: null }));
+        let indexed = true;
+        try {
+            rows = await embedComps(rows, createEmbeddingProvider(), await BrandCatalog.load());
+        } catch (embedError: unknown) {
+            indexed = false;
+            const embedMsg = embedError instanceof Error ? embedError.message : 'Unknown error';
+            await supabase.from('nexus_logs').insert({
+                level: 'WARN',
+                message: `Comp Ingestion: embedding failed (${embedMsg}). Stored without vectors; run /api/nexus/similar/reindex.`,
+                timestamp: new Date().toISOString()
+            });
+        }
+
+        const { error } = await supabase.from('nexus_comps').upsert(rows, { onConflict: 'id' });
+        if (error) throw new Error(error.message);
+
+        await supabase.from('nexus_logs').insert({
+            level: 'INFO',
+            message: `Comp Ingestion: ${comps.length} sold listings recorded.`,
+            timestamp: new Date().toISOString()
+        });
+
+        return NextResponse.json({ status: 'COMPS_RECORDED', count: comps.length, indexed }, { status: 200 });
+
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown fatal error in Comps Route';
+        await supabase.from('nexus_logs').insert({
+            level: 'ERROR',
+            message: `Comp Ingestion Failed: ${errorMsg}`,
+            timestamp: new Date().toISOString()
+        });
+        return NextResponse.json({ error: 'COMPS_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
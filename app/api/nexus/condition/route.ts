@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { connect, authorize } from '@/lib/auth';
+import { gradeCondition, measureAccuracy, type ConditionFixture } from '@/lib/condition-grader';
+import type { ConditionScore } from '@/lib/sources';
+
+// ==========================================
+// VOIDLOGIC NEXUS: CONDITION GRADER ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FIXTURE_PATH = path.join(process.cwd(), 'fixtures', 'condition', 'labeled.json');
+
+// Accuracy test: grades the labeled fixture set and fails (422) if exact agreement drops below the floor
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    try {
+        const fixture = JSON.parse(await readFile(FIXTURE_PATH, 'utf8')) as ConditionFixture;
+        const report = measureAccuracy(fixture);
+        if (!report.passed) {
+            return NextResponse.json({ error: 'ACCURACY_BELOW_FLOOR', ...report }, { status: 422 });
+        }
+        return NextResponse.json(report, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'GRADER_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
+
+// Grades a single listing so a lexicon change can be tried against real text.
+// Body: { title, description?, condition?, conditionScore? }
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    let body: { title?: unknown; description?: unknown; condition?: unknown; conditionScore?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'INVALID_JSON' }, { status: 400 });
+    }
+
+    if (typeof body.title !== 'string' || body.title.trim() === '') {
+        return NextResponse.json({ error: 'TITLE_REQUIRED' }, { status: 400 });
+    }
+    const code = body.conditionScore === undefined || body.conditionScore === null ? undefined : Number(body.conditionScore);
+    if (code !== undefined && ![1, 2, 3, 4, 5].includes(code)) {
+        return NextResponse.json({ error: 'INVALID_CONDITION_SCORE', allowed: [1, 2, 3, 4, 5] }, { status: 400 });
+    }
+
+    const grade = gradeCondition({
+        title: body.title,
+        description: typeof body.description === 'string' ? body.description : '',
+        condition: typeof body.condition === 'string' ? body.condition : '',
+        conditionScore: code as ConditionScore | undefined
+    });
+    return NextResponse.json(grade, { status: 200 });
+}
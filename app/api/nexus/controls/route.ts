@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { ExecutionGuard, type ExecutionControls } from '@/lib/execution-guard';
+
+// ==========================================
+// VOIDLOGIC NEXUS: EXECUTION CONTROLS ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const NUMERIC_FIELDS = [
+    'dailyBudget', 'weeklyBudget', 'monthlyBudget', 'maxItemPrice', 'maxItemsPerBrand', 'minRoiPct',
+    'approvalAmount', 'approvalMinCondition', 'approvalExpiryMinutes'
+] as const;
+
+// Current limits, kill switch and live budget consumption
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    try {
+        const state = await new ExecutionGuard(supabase).getState();
+        return NextResponse.json(state, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'CONTROLS_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
+
+// Updates limits and/or flips the kill switch. Takes effect on the next execution attempt.
+export async function PUT(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'buyer');
+    if (denied) return denied;
+
+    try {
+        const body = await request.json();
+        const patch: Partial<ExecutionControls> = {};
+
+        if (body.killSwitch !== undefined) patch.killSwitch = body.killSwitch === true;
+        for (const field of NUMERIC_FIELDS) {
+            if (body[field] === undefined) continue;
+            const value = Number(body[field]);
+            if (!Number.isFinite(value) || value < 0) {
+                return NextResponse.json({ error: 'INVALID_CONTROL', field }, { status: 400 });
+            }
+            patch[field] = value;
+        }
+        if (patch.approvalMinCondition !== undefined && (!Number.isInteger(patch.approvalMinCondition) || patch.approvalMinCondition < 1 || patch.approvalMinCondition > 5)) {
+            return NextResponse.json({ error: 'INVALID_CONTROL', field: 'approvalMinCondition' }, { status: 400 });
+        }
+        if (patch.approvalExpiryMinutes !== undefined && patch.approvalExpiryMinutes < 1) {
+            return NextResponse.json({ error: 'INVALID_CONTROL', field: 'approvalExpiryMinutes' }, { status: 400 });
+        }
+
+        const guard = new ExecutionGuard(supabase);
+        const before = await guard.getControls();
+        const controls = await guard.updateControls(patch);
+
+        await supabase.from('nexus_logs').insert({
+            level: patch.killSwitch ? 'CRITICAL' : 'INFO',
+            message: patch.killSwitch !== undefined
+                ? `Kill switch ${patch.killSwitch ? 'ENGAGED. All execution halted.' : 'released.'} (${session.email})`
+                : `Execution controls updated by ${session.email}: ${Object.keys(patch).join(', ')}.`,
+            timestamp: new Date().toISOString()
+        });
+
+        await new AuditLog(supabase).record({
+            actor: actorFor(session),
+            action: 'controls.update',
+            entityType: 'execution_controls',
+            entityId: 'global',
+            before,
+            after: controls,
+            ip: requestIp(request)
+        });
+
+        return NextResponse.json({ ...(await guard.getState()), controls }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'CONTROLS_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
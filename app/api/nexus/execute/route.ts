@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import Stripe from 'stripe';
-import { createClient } from '@supabase/supabase-js';
+import { connect, authorize } from '@/lib/auth';
+import { actorFor, requestIp } from '@/lib/audit-log';
+import { SignalExecutor } from '@/lib/signal-executor';
 
 // ==========================================
 // VOIDLOGIC NEXUS: EXECUTION ROUTE (STRIPE)
@@ -9,72 +10,65 @@ import { createClient } from '@supabase/supabase-js';
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255; // Stripe's limit
+
 export async function POST(request: Request) {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-    
-    if (!supabaseUrl || !supabaseKey) {
+    const supabase = connect();
+    if (!supabase) {
         return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    try {
-        // 1. Authenticate
-        const authHeader = request.headers.get('authorization');
-        const expectedKey = process.env.NEXT_PUBLIC_NEXUS_GOD_MODE_KEY || 'demo-key';
-        if (authHeader !== `Bearer ${expectedKey}`) {
-            return NextResponse.json({ error: 'UNAUTHORIZED_ACCESS' }, { status: 401 });
-        }
-
-        const { signalId, price } = await request.json();
-
-        if (!signalId) {
-            return NextResponse.json({ error: 'MISSING_SIGNAL_ID' }, { status: 400 });
-        }
+    // 1. Authenticate: only buyers can spend money
+    const { session, denied } = await authorize(request, supabase, 'buyer');
+    if (denied) return denied;
 
-        // 2. Initialize Stripe
-        const stripeKey = process.env.STRIPE_SECRET_KEY || 'sk_test_dummy';
-        const stripe = new Stripe(stripeKey, { apiVersion: '2026-02-25.clover' });
-
-        // 3. Execute Payment (Simulated for autonomous bot)
-        // In a real autonomous system, you might use Stripe Issuing to generate a virtual card
-        // or process a direct payment intent if you are the merchant.
-        // Here we simulate a successful headless checkout.
-        
-        let transactionId = `sim_tx_${Date.now()}`;
-        
-        if (stripeKey !== 'sk_test_dummy') {
-            const paymentIntent = await stripe.paymentIntents.create({
-                amount: Math.round(price * 100), // Convert to cents
-                currency: 'usd',
-                payment_method: 'pm_card_visa', // Dummy test card
-                confirm: true,
-                automatic_payment_methods: { enabled: true, allow_redirects: 'never' }
-            });
-            transactionId = paymentIntent.id;
-        } else {
-            // Simulate network delay for dummy key
-            await new Promise(res => setTimeout(res, 1500));
-        }
-
-        // 4. Update DB Status
-        await supabase.from('nexus_signals').update({ status: 'EXECUTED' }).eq('id', signalId);
+    // `price` is optional and only used to detect a stale client view; we always charge the stored price
+    const { signalId, price } = await request.json().catch(() => ({}));
+    if (!signalId) {
+        return NextResponse.json({ error: 'MISSING_SIGNAL_ID' }, { status: 400 });
+    }
 
-        await supabase.from('nexus_logs').insert({
-            level: 'INFO',
-            message: `Target Executed: ${signalId}. Transaction ID: ${transactionId}`,
-            timestamp: new Date().toISOString()
-        });
+    // Without a header every attempt on the same signal shares one key, so a double tap still charges once
+    const idempotencyKey = request.headers.get('idempotency-key') || `nexus-exec-${signalId}`;
+    if (idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        return NextResponse.json({ error: 'INVALID_IDEMPOTENCY_KEY' }, { status: 400 });
+    }
 
-        return NextResponse.json({ status: 'SUCCESS', transactionId }, { status: 200 });
+    // 2. Guardrails, approval queue, claim, charge and order; shared with the God Mode autopilot
+    const result = await new SignalExecutor(supabase).execute({
+        signalId,
+        price,
+        idempotencyKey,
+        actor: actorFor(session),
+        ip: requestIp(request)
+    });
 
-    } catch (error: any) {
-        await supabase.from('nexus_logs').insert({
-            level: 'ERROR',
-            message: `Execution Failed: ${error.message}`,
-            timestamp: new Date().toISOString()
-        });
-        return NextResponse.json({ error: 'EXECUTION_FAILURE', details: error.message }, { status: 500 });
+    switch (result.outcome) {
+        case 'SUCCESS':
+            return NextResponse.json({
+                status: 'SUCCESS',
+                transactionId: result.transactionId,
+                orderId: result.orderId,
+                amount: result.amount,
+                ...(result.replayed ? { replayed: true } : {})
+            }, { status: 200 });
+        case 'PAYMENT_PENDING':
+            return NextResponse.json({ status: 'PAYMENT_PENDING', transactionId: result.transactionId, orderId: result.orderId, amount: result.amount }, { status: 202 });
+        case 'APPROVAL_REQUIRED':
+            return NextResponse.json({ status: 'APPROVAL_REQUIRED', approvalId: result.approvalId, expiresAt: result.expiresAt, triggers: result.triggers }, { status: 202 });
+        case 'NOT_FOUND':
+            return NextResponse.json({ error: 'SIGNAL_NOT_FOUND' }, { status: 404 });
+        case 'IN_PROGRESS':
+            return NextResponse.json({ error: 'EXECUTION_IN_PROGRESS' }, { status: 409 });
+        case 'NOT_PENDING':
+            return NextResponse.json({ error: 'SIGNAL_NOT_PENDING', status: result.status }, { status: 409 });
+        case 'PRICE_CHANGED':
+            return NextResponse.json({ error: 'PRICE_CHANGED', listedPrice: result.listedPrice }, { status: 409 });
+        case 'REJECTED':
+            return NextResponse.json({ error: 'GUARDRAIL_REJECTED', reason: result.reason }, { status: 403 });
+        case 'KEY_REUSED':
+            return NextResponse.json({ error: 'IDEMPOTENCY_KEY_REUSED' }, { status: 409 });
+        case 'FAILED':
+            return NextResponse.json({ error: 'EXECUTION_FAILURE', details: result.error }, { status: 500 });
     }
 }
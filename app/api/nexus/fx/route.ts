@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { FxRateStore } from '@/lib/fx-rate-store';
+import { normalizeCurrency } from '@/lib/fx';
+
+// ==========================================
+// VOIDLOGIC NEXUS: FX RATES ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Latest rate per currency against the base currency. `?currency=EUR` adds that currency's rate history.
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const param = new URL(request.url).searchParams.get('currency');
+    const currency = param ? normalizeCurrency(param) : null;
+    if (param && !currency) {
+        return NextResponse.json({ error: 'INVALID_CURRENCY', details: 'currency must be an ISO 4217 code.' }, { status: 400 });
+    }
+
+    try {
+        const store = new FxRateStore(supabase);
+        const state = await store.getState();
+        const history = currency ? await store.history(currency) : undefined;
+        return NextResponse.json({ ...state, history }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'FX_LOOKUP_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
+
+// Fetches fresh rates from NEXUS_FX_PROVIDER now instead of waiting for the next sweep to find them stale
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    try {
+        const store = new FxRateStore(supabase);
+        await store.refresh();
+        return NextResponse.json(await store.getState(), { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        await supabase.from('nexus_logs').insert({
+            level: 'ERROR',
+            message: `FX refresh failed: ${errorMsg}`,
+            timestamp: new Date().toISOString()
+        });
+        return NextResponse.json({ error: 'FX_REFRESH_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
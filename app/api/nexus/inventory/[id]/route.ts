@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { InventoryLedger, compareToEstimate, costBasis, parseInventoryUpdate, type InventoryUpdate } from '@/lib/inventory-ledger';
+
+// ==========================================
+// VOIDLOGIC NEXUS: INVENTORY ENTRY ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    try {
+        const item = await new InventoryLedger(supabase).get(id);
+        if (!item) {
+            return NextResponse.json({ error: 'ITEM_NOT_FOUND' }, { status: 404 });
+        }
+        return NextResponse.json({ item: { ...item, costBasis: costBasis(item), variance: compareToEstimate(item) } }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'INVENTORY_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
+
+// Intake and refurbishment details: actual condition, real shipping, location, photos, costs
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    let patch: InventoryUpdate;
+    try {
+        patch = parseInventoryUpdate(await request.json());
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid inventory payload';
+        return NextResponse.json({ error: 'INVALID_INVENTORY_UPDATE', details: errorMsg }, { status: 400 });
+    }
+
+    try {
+        const item = await new InventoryLedger(supabase).update(id, patch);
+        if (!item) {
+            return NextResponse.json({ error: 'ITEM_NOT_FOUND' }, { status: 404 });
+        }
+
+        await supabase.from('nexus_logs').insert({
+            level: 'INFO',
+            message: `Inventory ${item.targetName}: updated ${Object.keys(patch).join(', ')}.`,
+            timestamp: new Date().toISOString()
+        });
+
+        return NextResponse.json({ item: { ...item, costBasis: costBasis(item), variance: compareToEstimate(item) } }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'INVENTORY_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { InventoryLedger, compareToEstimate, costBasis } from '@/lib/inventory-ledger';
+import { OrderLifecycle } from '@/lib/order-lifecycle';
+import { RESALE_CHANNEL_FEES } from '@/lib/profit-calculator';
+
+// ==========================================
+// VOIDLOGIC NEXUS: INVENTORY SALE ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Records the resale: { salePrice, channel, sellingCost?, soldAt? }. Moves the order LISTED -> SOLD.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    try {
+        const body = await request.json();
+        const salePrice = Number(body.salePrice);
+        const channel = String(body.channel || '').toLowerCase();
+        const sellingCost = body.sellingCost === undefined ? undefined : Number(body.sellingCost);
+        if (!Number.isFinite(salePrice) || salePrice <= 0 || !channel) {
+            return NextResponse.json({ error: 'INVALID_SALE', details: 'salePrice and channel are required.' }, { status: 400 });
+        }
+        if (sellingCost !== undefined && (!Number.isFinite(sellingCost) || sellingCost < 0)) {
+            return NextResponse.json({ error: 'INVALID_SALE', details: 'sellingCost must be a non-negative number.' }, { status: 400 });
+        }
+        if (!RESALE_CHANNEL_FEES[channel] && sellingCost === undefined) {
+            return NextResponse.json({ error: 'INVALID_SALE', details: `Unknown channel '${channel}'. Provide sellingCost.` }, { status: 400 });
+        }
+
+        const ledger = new InventoryLedger(supabase);
+        const item = await ledger.get(id);
+        if (!item) {
+            return NextResponse.json({ error: 'ITEM_NOT_FOUND' }, { status: 404 });
+        }
+        if (item.status === 'SOLD') {
+            return NextResponse.json({ error: 'ALREADY_SOLD' }, { status: 409 });
+        }
+
+        // The order state machine decides whether a sale is legal right now
+        if (item.orderId) {
+            const lifecycle = new OrderLifecycle(supabase);
+            const order = await lifecycle.getOrder(item.orderId);
+            const moved = order ? await lifecycle.transition(order, 'SOLD', { actor: 'OPERATOR', note: `Sold on ${channel} for ${salePrice}` }) : null;
+            if (!moved) {
+                return NextResponse.json({ error: 'INVALID_TRANSITION', from: order?.status ?? null, to: 'SOLD' }, { status: 409 });
+            }
+        }
+
+        const sold = await ledger.recordSale(item, { salePrice, channel, sellingCost, soldAt: body.soldAt });
+
+        await supabase.from('nexus_logs').insert({
+            level: 'INFO',
+            message: `Inventory ${sold.targetName} sold on ${channel} for ${salePrice}. Realized net ${sold.realizedNetProfit}.`,
+            timestamp: new Date().toISOString()
+        });
+
+        return NextResponse.json({ item: { ...sold, costBasis: costBasis(sold), variance: compareToEstimate(sold) } }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'INVENTORY_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
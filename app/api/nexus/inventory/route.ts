@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { InventoryLedger, compareToEstimate, costBasis, type InventoryStatus } from '@/lib/inventory-ledger';
+
+// ==========================================
+// VOIDLOGIC NEXUS: INVENTORY ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const STATUSES: InventoryStatus[] = ['INBOUND', 'IN_STOCK', 'LISTED', 'SOLD', 'RETURNED'];
+
+// Every tracked item with its landed cost and estimate variance, optionally ?status=IN_STOCK
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const status = new URL(request.url).searchParams.get('status')?.toUpperCase() as InventoryStatus | undefined;
+    if (status && !STATUSES.includes(status)) {
+        return NextResponse.json({ error: 'INVALID_STATUS', allowed: STATUSES }, { status: 400 });
+    }
+
+    try {
+        const items = await new InventoryLedger(supabase).list(status);
+        return NextResponse.json({
+            items: items.map(item => ({ ...item, costBasis: costBasis(item), variance: compareToEstimate(item) }))
+        }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'INVENTORY_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
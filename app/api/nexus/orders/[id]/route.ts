@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { OrderLifecycle, OPERATOR_STATUSES, type OrderStatus } from '@/lib/order-lifecycle';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ORDER ENTRY ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Order plus its full transition history
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    try {
+        const order = await new OrderLifecycle(supabase).getOrder(id);
+        if (!order) {
+            return NextResponse.json({ error: 'ORDER_NOT_FOUND' }, { status: 404 });
+        }
+
+        const { data: events, error } = await supabase
+            .from('nexus_order_events')
+            .select('*')
+            .eq('orderId', id)
+            .order('createdAt', { ascending: true });
+        if (error) throw new Error(error.message);
+
+        return NextResponse.json({ order, events }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'ORDERS_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
+
+// Operator-driven moves through fulfilment: { status, note?, trackingNumber? }
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    try {
+        const body = await request.json();
+        const status = String(body.status || '').toUpperCase() as OrderStatus;
+        if (!OPERATOR_STATUSES.includes(status)) {
+            return NextResponse.json({ error: 'INVALID_STATUS', allowed: OPERATOR_STATUSES }, { status: 400 });
+        }
+
+        const lifecycle = new OrderLifecycle(supabase);
+        const order = await lifecycle.getOrder(id);
+        if (!order) {
+            return NextResponse.json({ error: 'ORDER_NOT_FOUND' }, { status: 404 });
+        }
+
+        const moved = await lifecycle.transition(order, status, {
+            actor: 'OPERATOR',
+            note: typeof body.note === 'string' ? body.note : undefined,
+            patch: typeof body.trackingNumber === 'string' ? { trackingNumber: body.trackingNumber } : undefined
+        });
+        if (!moved) {
+            return NextResponse.json({ error: 'INVALID_TRANSITION', from: order.status, to: status }, { status: 409 });
+        }
+
+        await supabase.from('nexus_logs').insert({
+            level: 'INFO',
+            message: `Order ${id}: ${order.status} -> ${status}.`,
+            timestamp: new Date().toISOString()
+        });
+
+        return NextResponse.json({ order: moved }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'ORDERS_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
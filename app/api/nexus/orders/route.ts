@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ORDERS ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Latest orders, optionally filtered with ?status=PAID
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const status = new URL(request.url).searchParams.get('status');
+    let query = supabase.from('nexus_orders').select('*').order('createdAt', { ascending: false }).limit(100);
+    if (status) query = query.eq('status', status.toUpperCase());
+
+    const { data, error } = await query;
+    if (error) {
+        return NextResponse.json({ error: 'ORDERS_FAILURE', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ orders: data }, { status: 200 });
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { parseSweepSchedule } from '@/lib/sweep-scheduler';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SWEEP SCHEDULE ENTRY ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Replaces the schedule definition; pause or resume by sending enabled: false / true
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    let schedule;
+    try {
+        schedule = parseSweepSchedule(await request.json());
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid schedule payload';
+        return NextResponse.json({ error: 'INVALID_SCHEDULE', details: errorMsg }, { status: 400 });
+    }
+
+    const { data: before } = await supabase.from('nexus_sweep_schedules').select('*').eq('id', id).maybeSingle();
+    const { data, error } = await supabase
+        .from('nexus_sweep_schedules')
+        .update(schedule)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'SCHEDULE_FAILURE', details: error.message }, { status: 500 });
+    }
+    if (!data) {
+        return NextResponse.json({ error: 'SCHEDULE_NOT_FOUND' }, { status: 404 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Sweep Schedule: Updated '${schedule.name}'${schedule.enabled ? '' : ' (paused)'}.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'schedule.update',
+        entityType: 'schedule',
+        entityId: id,
+        before,
+        after: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ schedule: data }, { status: 200 });
+}
+
+// Past runs keep their scheduleId after the schedule is gone
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    const { data, error } = await supabase.from('nexus_sweep_schedules').delete().eq('id', id).select().maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'SCHEDULE_FAILURE', details: error.message }, { status: 500 });
+    }
+    if (!data) {
+        return NextResponse.json({ error: 'SCHEDULE_NOT_FOUND' }, { status: 404 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Sweep Schedule: Removed '${data.name}'.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'schedule.delete',
+        entityType: 'schedule',
+        entityId: id,
+        before: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ status: 'DELETED', id }, { status: 200 });
+}
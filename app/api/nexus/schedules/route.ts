@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { parseSweepSchedule } from '@/lib/sweep-scheduler';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SWEEP SCHEDULES ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const { data, error } = await supabase.from('nexus_sweep_schedules').select('*').order('name', { ascending: true });
+    if (error) {
+        return NextResponse.json({ error: 'SCHEDULE_FAILURE', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ schedules: data }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    let schedule;
+    try {
+        schedule = parseSweepSchedule(await request.json());
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid schedule payload';
+        return NextResponse.json({ error: 'INVALID_SCHEDULE', details: errorMsg }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.from('nexus_sweep_schedules').insert(schedule).select().single();
+    if (error) {
+        return NextResponse.json({ error: 'SCHEDULE_FAILURE', details: error.message }, { status: 500 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Sweep Schedule: Created '${schedule.name}' (${schedule.cron}).`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'schedule.create',
+        entityType: 'schedule',
+        entityId: data.id,
+        after: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ schedule: data }, { status: 201 });
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { parseSavedSearch } from '@/lib/saved-searches';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SAVED SEARCH ENTRY ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Replaces the search definition; pause or resume by sending enabled: false / true
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    let search;
+    try {
+        search = parseSavedSearch(await request.json());
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid search payload';
+        return NextResponse.json({ error: 'INVALID_SEARCH', details: errorMsg }, { status: 400 });
+    }
+
+    const { data: before } = await supabase.from('nexus_searches').select('*').eq('id', id).maybeSingle();
+    const { data, error } = await supabase
+        .from('nexus_searches')
+        .update({ ...search, updatedAt: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'SEARCH_FAILURE', details: error.message }, { status: 500 });
+    }
+    if (!data) {
+        return NextResponse.json({ error: 'SEARCH_NOT_FOUND' }, { status: 404 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Saved Search: Updated '${search.name}'${search.enabled ? '' : ' (paused)'}.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'search.update',
+        entityType: 'search',
+        entityId: id,
+        before,
+        after: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ search: data }, { status: 200 });
+}
+
+// Signals keep their searchId after the search is gone
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    const { data, error } = await supabase.from('nexus_searches').delete().eq('id', id).select().maybeSingle();
+    if (error) {
+        return NextResponse.json({ error: 'SEARCH_FAILURE', details: error.message }, { status: 500 });
+    }
+    if (!data) {
+        return NextResponse.json({ error: 'SEARCH_NOT_FOUND' }, { status: 404 });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Saved Search: Removed '${data.name}'.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'search.delete',
+        entityType: 'search',
+        entityId: id,
+        before: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ status: 'DELETED', id }, { status: 200 });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { AuditLog, actorFor, requestIp } from '@/lib/audit-log';
+import { parseSavedSearch } from '@/lib/saved-searches';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SAVED SEARCHES ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const { data, error } = await supabase.from('nexus_searches').select('*').order('name', { ascending: true });
+    if (error) {
+        return NextResponse.json({ error: 'SEARCH_FAILURE', details: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ searches: data }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { session, denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    let search;
+    try {
+        search = parseSavedSearch(await request.json());
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Invalid search payload';
+        return NextResponse.json({ error: 'INVALID_SEARCH', details: errorMsg }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.from('nexus_searches').insert(search).select().single();
+    if (error) {
+        const status = error.code === '23505' ? 409 : 500; // unique_violation
+        return NextResponse.json({ error: 'SEARCH_FAILURE', details: error.message }, { status });
+    }
+
+    await supabase.from('nexus_logs').insert({
+        level: 'INFO',
+        message: `Saved Search: Created '${search.name}'${search.cron ? ` (${search.cron})` : ''}.`,
+        timestamp: new Date().toISOString()
+    });
+
+    await new AuditLog(supabase).record({
+        actor: actorFor(session),
+        action: 'search.create',
+        entityType: 'search',
+        entityId: data.id,
+        after: data,
+        ip: requestIp(request)
+    });
+
+    return NextResponse.json({ search: data }, { status: 201 });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { SemanticMatcher } from '@/lib/semantic-matcher';
+import { BrandCatalog } from '@/lib/brand-catalog';
+
+// ==========================================
+// VOIDLOGIC NEXUS: EMBEDDING REINDEX ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Embeds signals and comps that have no vector from the current provider, one batch per call.
+// Body: { batchSize?: number }. Repeat while the response says `remaining: true`.
+export async function POST(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'operator');
+    if (denied) return denied;
+
+    const body = await request.json().catch(() => ({}));
+    const batchSize = Math.min(Math.max(Math.round(Number(body?.batchSize) || 200), 1), 1000);
+
+    try {
+        const report = await new SemanticMatcher(supabase).reindex(batchSize, await BrandCatalog.load());
+        return NextResponse.json(report, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        await supabase.from('nexus_logs').insert({
+            level: 'ERROR',
+            message: `Embedding reindex failed: ${errorMsg}`,
+            timestamp: new Date().toISOString()
+        });
+        return NextResponse.json({ error: 'REINDEX_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
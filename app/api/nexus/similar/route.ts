@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { connect, authorize } from '@/lib/auth';
+import { SemanticMatcher } from '@/lib/semantic-matcher';
+
+// ==========================================
+// VOIDLOGIC NEXUS: MORE LIKE THIS ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ?signalId=... for listings like a stored signal, or ?q=free text (optionally &brand=).
+// Returns similar signals, the nearest sold comps and, for a signal, the rest of its product group.
+export async function GET(request: Request) {
+    const supabase = connect();
+    if (!supabase) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    const { denied } = await authorize(request, supabase, 'viewer');
+    if (denied) return denied;
+
+    const params = new URL(request.url).searchParams;
+    const signalId = params.get('signalId') || undefined;
+    const text = params.get('q') || undefined;
+    if (!signalId && !text?.trim()) {
+        return NextResponse.json({ error: 'MISSING_QUERY', details: 'Pass signalId or q.' }, { status: 400 });
+    }
+
+    try {
+        const result = await new SemanticMatcher(supabase).findSimilar({
+            signalId,
+            text,
+            brand: params.get('brand') || undefined,
+            limit: Number(params.get('limit')) || undefined
+        });
+        if (!result) return NextResponse.json({ error: 'SIGNAL_NOT_FOUND' }, { status: 404 });
+        return NextResponse.json(result, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'SIMILARITY_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
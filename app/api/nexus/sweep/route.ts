@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
-import { NexusHunter } from '@/lib/nexus-engine';
-import { createClient } from '@supabase/supabase-js';
+import { runRecordedSweep } from '@/lib/sweep-scheduler';
+import type { SavedSearch } from '@/lib/saved-searches';
+import { connect, authorize } from '@/lib/auth';
+import { actorFor, requestIp } from '@/lib/audit-log';
 
 // ==========================================
 // VOIDLOGIC NEXUS: SWEEP EXECUTION ROUTE
@@ -12,52 +14,65 @@ export const dynamic = 'force-dynamic'; // Never cache this route
 
 export async function POST(request: Request) {
     const startTime = Date.now();
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-    
     // Failsafe check
-    if (!supabaseUrl || !supabaseKey) {
+    const supabase = connect();
+    if (!supabase) {
         return NextResponse.json(
             { error: 'CRITICAL: Database connection severed. Check env vars.' },
             { status: 500 }
         );
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
     try {
-        // Authenticate the request (Basic barrier to keep out unauthorized bots)
-        const authHeader = request.headers.get('authorization');
-        const expectedKey = process.env.NEXT_PUBLIC_NEXUS_GOD_MODE_KEY || 'demo-key';
-        if (authHeader !== `Bearer ${expectedKey}`) {
+        // Sweeping needs an operator session
+        const { session, denied } = await authorize(request, supabase, 'operator');
+        if (denied) {
             await supabase.from('nexus_logs').insert({
                 level: 'WARN',
                 message: 'Unauthorized sweep attempt blocked.',
                 timestamp: new Date().toISOString()
             });
-            return NextResponse.json({ error: 'UNAUTHORIZED_ACCESS' }, { status: 401 });
+            return denied;
+        }
+
+        // Optional source selection, e.g. { "sources": ["ebay"] }, or a saved search, e.g. { "searchId": "..." }.
+        // Empty body sweeps every registered source.
+        const body = await request.json().catch(() => ({}));
+        const sources: string[] | undefined = Array.isArray(body?.sources) ? body.sources : undefined;
+
+        let search: SavedSearch | undefined;
+        if (typeof body?.searchId === 'string' && body.searchId) {
+            const { data, error } = await supabase.from('nexus_searches').select('*').eq('id', body.searchId).maybeSingle();
+            if (error) throw new Error(`Saved search lookup failed: ${error.message}`);
+            if (!data) return NextResponse.json({ error: 'SEARCH_NOT_FOUND' }, { status: 404 });
+            search = data as SavedSearch;
         }
 
-        // Initialize the Hunter
-        const engine = new NexusHunter();
-        
         // Log engine spin-up
         await supabase.from('nexus_logs').insert({
             level: 'INFO',
-            message: 'Manual sweep initiated via Control Center.',
+            message: search ? `Manual sweep for saved search '${search.name}' initiated by ${session.email}.` : `Manual sweep initiated by ${session.email}.`,
             timestamp: new Date().toISOString()
         });
 
-        // Execute the dependency trace and scrape
-        const signals = await engine.runSweep();
+        // Execute the dependency trace and scrape under the shared sweep lease
+        const { run, report } = await runRecordedSweep('MANUAL', { sources, search }, null, actorFor(session), requestIp(request));
+
+        if (run.status === 'SKIPPED') {
+            return NextResponse.json({ error: 'SWEEP_IN_PROGRESS', runId: run.id }, { status: 409 });
+        }
 
         const executionTime = Date.now() - startTime;
 
         return NextResponse.json({
             status: 'SWEEP_COMPLETE',
-            signalsFound: signals.length,
+            runId: run.id,
+            runStatus: run.status,
+            signalsFound: report?.signals.length ?? 0,
+            sources: run.sourceCounts,
+            errors: run.errors,
             executionTimeMs: executionTime,
-            data: signals
+            data: report?.signals ?? []
         }, { status: 200 });
 
     } catch (error: unknown) {
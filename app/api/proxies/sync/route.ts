@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { ProxyCommander } from '@/lib/proxy-core';
-import { createClient } from '@supabase/supabase-js';
+import { connect, authorize } from '@/lib/auth';
 
 // ==========================================
 // VOIDLOGIC NEXUS: PROXY FLEET SYNC ROUTE
@@ -12,21 +12,14 @@ export const dynamic = 'force-dynamic';
 
 export async function POST(request: Request) {
     const startTime = Date.now();
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-
-    if (!supabaseUrl || !supabaseKey) {
+    const supabase = connect();
+    if (!supabase) {
         return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
     try {
-        const authHeader = request.headers.get('authorization');
-        const expectedKey = process.env.NEXT_PUBLIC_NEXUS_GOD_MODE_KEY || 'demo-key';
-        if (authHeader !== `Bearer ${expectedKey}`) {
-            return NextResponse.json({ error: 'UNAUTHORIZED_ACCESS' }, { status: 401 });
-        }
+        const { denied } = await authorize(request, supabase, 'operator');
+        if (denied) return denied;
 
         const commander = new ProxyCommander();
         
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+import { OrderLifecycle } from '@/lib/order-lifecycle';
+
+// ==========================================
+// VOIDLOGIC NEXUS: STRIPE WEBHOOK ROUTE
+// ==========================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// A claim this old without processedAt belongs to a delivery that died mid-way (crash, timeout)
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+export async function POST(request: Request) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || '';
+
+    if (!supabaseUrl || !supabaseKey) {
+        return NextResponse.json({ error: 'CRITICAL: Database connection severed.' }, { status: 500 });
+    }
+    if (!webhookSecret) {
+        return NextResponse.json({ error: 'WEBHOOK_SECRET_MISSING' }, { status: 500 });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // 1. Verify the signature against the raw body; Stripe's signature is the only auth on this route
+    const payload = await request.text();
+    const signature = request.headers.get('stripe-signature') || '';
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_dummy', { apiVersion: '2026-02-25.clover' });
+
+    let event: Stripe.Event;
+    try {
+        event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json({ error: 'INVALID_SIGNATURE', details: errorMsg }, { status: 400 });
+    }
+
+    // 2. Deduplicate: Stripe delivers at least once. Only a processed event is a duplicate; a claim that
+    // never finished is taken over once stale, and a fresh one makes Stripe retry later.
+    const { error: claimError } = await supabase
+        .from('nexus_stripe_events')
+        .insert({ id: event.id, type: event.type, receivedAt: new Date().toISOString() });
+    if (claimError) {
+        if (claimError.code !== '23505') {
+            return NextResponse.json({ error: 'WEBHOOK_FAILURE', details: claimError.message }, { status: 500 });
+        }
+
+        const { data: existing, error: lookupError } = await supabase
+            .from('nexus_stripe_events')
+            .select('processedAt')
+            .eq('id', event.id)
+            .maybeSingle();
+        if (lookupError) {
+            return NextResponse.json({ error: 'WEBHOOK_FAILURE', details: lookupError.message }, { status: 500 });
+        }
+        if (existing?.processedAt) {
+            return NextResponse.json({ received: true, duplicate: true }, { status: 200 });
+        }
+
+        const now = new Date();
+        const { data: reclaimed, error: reclaimError } = await supabase
+            .from('nexus_stripe_events')
+            .update({ receivedAt: now.toISOString() })
+            .eq('id', event.id)
+            .is('processedAt', null)
+            .lt('receivedAt', new Date(now.getTime() - STALE_CLAIM_MS).toISOString())
+            .select('id');
+        if (reclaimError) {
+            return NextResponse.json({ error: 'WEBHOOK_FAILURE', details: reclaimError.message }, { status: 500 });
+        }
+        if (!reclaimed || reclaimed.length === 0) {
+            return NextResponse.json({ error: 'EVENT_IN_PROGRESS' }, { status: 409 });
+        }
+        await supabase.from('nexus_logs').insert({
+            level: 'WARN',
+            message: `Stripe ${event.type} (${event.id}) was claimed but never processed. Reprocessing.`,
+            timestamp: now.toISOString()
+        });
+    }
+
+    // 3. Drive the order lifecycle
+    try {
+        const outcome = await new OrderLifecycle(supabase).applyStripeEvent(event);
+
+        await supabase.from('nexus_stripe_events').update({ processedAt: new Date().toISOString() }).eq('id', event.id);
+        await supabase.from('nexus_logs').insert({
+            level: event.type === 'charge.dispute.created' || event.type === 'payment_intent.payment_failed' ? 'CRITICAL' : 'INFO',
+            message: `Stripe ${event.type}: ${outcome}`,
+            timestamp: new Date().toISOString()
+        });
+
+        return NextResponse.json({ received: true, outcome }, { status: 200 });
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+
+        // Release the event so Stripe's retry gets processed instead of deduplicated
+        await supabase.from('nexus_stripe_events').delete().eq('id', event.id);
+        await supabase.from('nexus_logs').insert({
+            level: 'ERROR',
+            message: `Stripe ${event.type} (${event.id}) failed: ${errorMsg}`,
+            timestamp: new Date().toISOString()
+        });
+        return NextResponse.json({ error: 'WEBHOOK_FAILURE', details: errorMsg }, { status: 500 });
+    }
+}
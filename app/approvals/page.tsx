@@ -0,0 +1,321 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Gavel, Terminal, ArrowLeft, Check, X, AlarmClock, ExternalLink, RefreshCw } from 'lucide-react';
+import Link from 'next/link';
+import { authHeaders, useNexusSession } from '@/lib/auth-client';
+import type { Approval, ApprovalStatus, RejectionCategory, RejectionSummary } from '@/lib/approval-queue';
+import type { CostBreakdown } from '@/lib/profit-calculator';
+
+// ==========================================
+// VOIDLOGIC NEXUS: APPROVAL QUEUE UI
+// ==========================================
+
+interface QueuedSignal {
+  id: string;
+  source: string;
+  targetName: string;
+  brandCategory: string;
+  modelName: string | null;
+  conditionScore: number;
+  listedPrice: number;
+  currency: string;
+  estimatedValue: number;
+  valuationConfidence: 'HIGH' | 'MEDIUM' | 'LOW' | 'NONE';
+  compsUsed: number;
+  costBreakdown: CostBreakdown;
+  netProfit: number;
+  roiPct: number;
+  riskScore: number;
+  riskReasons: string[];
+  url: string;
+  status: string;
+}
+
+type QueueEntry = Approval & { signal: QueuedSignal | null };
+
+// Mirrors REJECTION_CATEGORIES; the server module is not bundled into the page
+const CATEGORIES: RejectionCategory[] = ['PRICE', 'CONDITION', 'AUTHENTICITY', 'VALUATION', 'DUPLICATE', 'OTHER'];
+const TABS: ApprovalStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'EXPIRED'];
+
+const money = (n: number, currency = 'USD') => Number(n).toLocaleString(undefined, { style: 'currency', currency });
+
+const minutesLeft = (iso: string) => Math.max(0, Math.round((new Date(iso).getTime() - Date.now()) / 60_000));
+
+export default function ApprovalQueueDashboard() {
+  const session = useNexusSession();
+  const canDecide = session?.role === 'buyer';
+  const [tab, setTab] = useState<ApprovalStatus>('PENDING');
+  const [showSnoozed, setShowSnoozed] = useState(false);
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [summary, setSummary] = useState<RejectionSummary | null>(null);
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<{ id: string; category: RejectionCategory; reason: string } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [, setNow] = useState(Date.now());
+  const [logs, setLogs] = useState<string[]>([]);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
+  };
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/nexus/approvals?status=${tab}${showSnoozed ? '&snoozed=true' : ''}`, { headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        setEntries(result.approvals || []);
+        setSummary(result.summary || null);
+      } else {
+        addLog(`FETCH_ERROR: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Approval queue fetch error. Check connection.");
+    }
+  }, [tab, showSnoozed]);
+
+  useEffect(() => { fetchQueue(); }, [fetchQueue]);
+
+  // Re-render every 30s so the countdowns move; refetch each minute so expiries show up
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), 30_000);
+    const refresh = setInterval(fetchQueue, 60_000);
+    return () => { clearInterval(tick); clearInterval(refresh); };
+  }, [fetchQueue]);
+
+  const decide = async (id: string, body: Record<string, unknown>) => {
+    setBusy(id);
+    try {
+      const response = await fetch(`/api/nexus/approvals/${id}`, {
+        method: 'PUT',
+        headers: await authHeaders(),
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+      if (response.ok) {
+        const execution = result.execution;
+        addLog(execution
+          ? `Approved ${result.approval.signalId}: ${execution.outcome}${execution.transactionId ? ` (TX ${execution.transactionId})` : ''}.`
+          : `${String(body.decision).toUpperCase()}: ${result.approval.signalId}.`);
+      } else if (result.execution) {
+        const execution = result.execution;
+        addLog(`[ERROR] Approved, but the purchase did not go through: ${execution.outcome}${execution.reason ? ` [${execution.reason.code}] ${execution.reason.message}` : ''}.`);
+      } else {
+        addLog(`[ERROR] ${result.error}${result.details ? `: ${result.details}` : ''}`);
+      }
+    } catch (err) {
+      addLog("[ERROR] Network failure while recording the decision.");
+    } finally {
+      setBusy(null);
+      setConfirming(null);
+      setRejecting(null);
+      fetchQueue();
+    }
+  };
+
+  const snoozed = (e: QueueEntry) => e.snoozedUntil !== null && new Date(e.snoozedUntil).getTime() > Date.now();
+  const ordered = tab === 'PENDING' ? [...entries.filter(e => !snoozed(e)), ...entries.filter(snoozed)] : entries;
+
+  const inputClass = "w-full bg-black/40 border border-orange-900/40 rounded-lg px-3 py-2 text-xs text-zinc-200 placeholder:text-zinc-700 focus:outline-none focus:border-orange-500/60";
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-orange-500 font-mono p-4 selection:bg-orange-900/30 overflow-x-hidden">
+
+      {/* HEADER */}
+      <header className="flex justify-between items-center border-b border-orange-900/50 pb-4 mb-6">
+        <div>
+          <Link href="/" className="flex items-center gap-2 text-zinc-500 hover:text-orange-400 transition-colors mb-2 text-[10px] uppercase font-bold">
+            <ArrowLeft className="w-3 h-3" /> Back to Nexus Core
+          </Link>
+          <motion.h1
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-2xl font-bold tracking-tighter text-orange-400 drop-shadow-[0_0_12px_rgba(251,146,60,0.4)]"
+          >
+            APPROVAL_QUEUE
+          </motion.h1>
+          <p className="text-[10px] text-orange-800 mt-1 uppercase tracking-widest">v1.0 // Human in the loop</p>
+        </div>
+        <button onClick={fetchQueue} className="flex items-center gap-2 bg-orange-950/20 px-3 py-1.5 rounded-full border border-orange-900/30 text-[10px] font-bold tracking-tighter">
+          <RefreshCw className="w-3 h-3" /> REFRESH
+        </button>
+      </header>
+
+      {/* TABS */}
+      <nav className="flex gap-2 mb-6">
+        {TABS.map(t => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-tighter border ${
+              tab === t ? 'bg-orange-500/10 border-orange-500/50 text-orange-400' : 'bg-zinc-800/50 border-zinc-700 text-zinc-500'
+            }`}
+          >
+            {t}
+          </button>
+        ))}
+        {tab === 'PENDING' && (
+          <button
+            onClick={() => setShowSnoozed(v => !v)}
+            className={`ml-auto px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-tighter border ${
+              showSnoozed ? 'bg-orange-500/10 border-orange-500/50 text-orange-400' : 'bg-zinc-800/50 border-zinc-700 text-zinc-500'
+            }`}
+          >
+            {showSnoozed ? 'Hide snoozed' : 'Show snoozed'}
+          </button>
+        )}
+      </nav>
+
+      {/* REJECTION SUMMARY */}
+      {summary && summary.total > 0 && (
+        <section className="bg-zinc-900/20 border border-white/5 rounded-xl p-3 mb-6 text-[9px] uppercase font-bold text-zinc-500">
+          <div className="mb-1">Rejections, last 30 days: <span className="text-orange-400">{summary.total}</span></div>
+          <div className="flex flex-wrap gap-3">
+            {Object.entries(summary.byCategory).map(([k, v]) => <span key={k}><span className="text-orange-500">{k}:</span> {v}</span>)}
+            <span className="text-zinc-700">{'//'}</span>
+            {Object.entries(summary.byTrigger).map(([k, v]) => <span key={k}><span className="text-orange-500">QUEUED FOR {k}:</span> {v}</span>)}
+          </div>
+        </section>
+      )}
+
+      {/* TERMINAL LOGS */}
+      <section className="mb-6 bg-black/40 border border-orange-900/20 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-orange-900">
+          <Terminal className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Approval Telemetry</span>
+        </div>
+        <div className="space-y-1">
+          {logs.map((log, i) => (
+            <div key={i} className="text-[10px] text-orange-700/80 leading-tight">{log}</div>
+          ))}
+          {logs.length === 0 && <div className="text-[10px] text-orange-900/50 italic">{entries.length} {tab.toLowerCase()} requests.</div>}
+        </div>
+      </section>
+
+      {/* QUEUE */}
+      <section className="space-y-3">
+        {ordered.length === 0 && <div className="text-center text-zinc-800 text-xs py-10 uppercase tracking-widest opacity-50">Nothing {tab.toLowerCase()}.</div>}
+        <AnimatePresence mode="popLayout">
+          {ordered.map(entry => {
+            const sig = entry.signal;
+            const cost = sig?.costBreakdown;
+            const isSnoozed = snoozed(entry);
+            const base = entry.baseCurrency || entry.currency || 'USD'; // Triggers and margin math
+            return (
+              <motion.div
+                layout
+                key={entry.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: isSnoozed ? 0.5 : 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95 }}
+                className="bg-zinc-900/20 border border-white/5 rounded-2xl p-4 space-y-3"
+              >
+                <div className="flex justify-between items-start gap-3">
+                  <div className="min-w-0">
+                    <span className="text-[10px] text-zinc-600 uppercase font-bold block mb-1">{sig?.source ?? '?'} {'//'} {entry.signalId}</span>
+                    <h3 className="text-xs font-bold text-zinc-200 leading-tight line-clamp-2">{sig?.targetName ?? 'Signal no longer in the ledger'}</h3>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {entry.triggers.map(t => (
+                        <span key={t.code} title={t.message} className="text-[9px] font-bold text-orange-400 bg-orange-950/30 px-1.5 py-0.5 rounded border border-orange-500/20">
+                          {t.code === 'AMOUNT' ? `${money(t.current, base)} > ${money(t.limit, base)}` : `COND ${t.current} < ${t.limit}`}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0 text-[9px] uppercase font-bold">
+                    <div className="text-sm font-black text-orange-400">{money(entry.amount, entry.currency)}</div>
+                    {entry.currency && entry.currency !== base && (
+                      <div className="text-zinc-500">≈ {money(entry.amountBase, base)}</div>
+                    )}
+                    {entry.status === 'PENDING' ? (
+                      <div className={minutesLeft(entry.expiresAt) <= 5 ? 'text-red-400' : 'text-zinc-500'}>
+                        {isSnoozed ? `Snoozed · ` : ''}Expires in {minutesLeft(entry.expiresAt)}m
+                      </div>
+                    ) : (
+                      <div className="text-zinc-500">{entry.status}{entry.outcome ? ` · ${entry.outcome}` : ''}</div>
+                    )}
+                    <div className="text-zinc-700 normal-case">by {entry.requestedByType === 'GOD_MODE' ? 'God Mode' : entry.requestedBy}</div>
+                  </div>
+                </div>
+
+                {sig && cost && (
+                  <div className="grid grid-cols-2 gap-3 text-[9px] uppercase font-bold text-zinc-500">
+                    <div className="space-y-0.5">
+                      <div className="text-orange-600 mb-1">Valuation</div>
+                      <div>{sig.brandCategory}{sig.modelName ? ` · ${sig.modelName}` : ''} · COND {sig.conditionScore}/5</div>
+                      <div>Est. value {money(sig.estimatedValue, base)} · <span className={sig.valuationConfidence === 'HIGH' ? 'text-emerald-400' : sig.valuationConfidence === 'MEDIUM' ? 'text-amber-400' : 'text-red-400'}>{sig.valuationConfidence}</span> ({sig.compsUsed} comps)</div>
+                      <div title={sig.riskReasons?.join('\n')}>
+                        Risk <span className={sig.riskScore >= 0.6 ? 'text-red-400' : sig.riskScore >= 0.3 ? 'text-amber-400' : 'text-emerald-400'}>{Number(sig.riskScore).toFixed(2)}</span>
+                        {sig.riskReasons?.length ? <span className="normal-case text-zinc-600"> · {sig.riskReasons.join('; ')}</span> : null}
+                      </div>
+                      <a href={sig.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-zinc-400 hover:text-orange-400">
+                        <ExternalLink className="w-3 h-3" /> Listing
+                      </a>
+                    </div>
+                    <div className="space-y-0.5">
+                      <div className="text-orange-600 mb-1">Margin math ({cost.resaleChannel})</div>
+                      <div className="flex justify-between"><span>Price + ship + tax</span><span>{money(cost.purchasePrice, base)} + {money(cost.inboundShipping, base)} + {money(cost.salesTax, base)}</span></div>
+                      <div className="flex justify-between"><span>Acquisition</span><span className="text-zinc-300">{money(cost.acquisitionCost, base)}</span></div>
+                      <div className="flex justify-between"><span>Resale</span><span>{money(cost.resalePrice, base)}</span></div>
+                      <div className="flex justify-between"><span>Fees · ship · auth</span><span>−{money(cost.finalValueFee + cost.paymentProcessing, base)} · −{money(cost.outboundShipping, base)} · −{money(cost.authentication, base)}</span></div>
+                      <div className="flex justify-between"><span>Net</span><span className="text-emerald-400">{money(sig.netProfit, base)} ({sig.roiPct}%)</span></div>
+                    </div>
+                  </div>
+                )}
+
+                {entry.status === 'REJECTED' && (
+                  <div className="text-[10px] text-zinc-400"><span className="text-red-400 font-bold">[{entry.rejectionCategory}]</span> {entry.rejectionReason} <span className="text-zinc-600">— {entry.decidedBy}</span></div>
+                )}
+
+                {entry.status === 'PENDING' && canDecide && (
+                  rejecting?.id === entry.id ? (
+                    <div className="flex gap-2">
+                      <select className={`${inputClass} w-36`} value={rejecting.category} onChange={e => setRejecting({ ...rejecting, category: e.target.value as RejectionCategory })}>
+                        {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                      <input className={inputClass} placeholder="Reason (kept for tuning the rules)" value={rejecting.reason} onChange={e => setRejecting({ ...rejecting, reason: e.target.value })} />
+                      <button
+                        onClick={() => decide(entry.id, { decision: 'reject', category: rejecting.category, reason: rejecting.reason })}
+                        disabled={busy === entry.id || !rejecting.reason.trim()}
+                        className="px-3 rounded-lg text-[10px] font-black uppercase bg-red-500/10 border border-red-500/50 text-red-400 disabled:opacity-40"
+                      >
+                        Reject
+                      </button>
+                      <button onClick={() => setRejecting(null)} className="px-3 rounded-lg text-[10px] font-black uppercase bg-zinc-800/50 border border-zinc-700 text-zinc-500">Cancel</button>
+                    </div>
+                  ) : (
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => decide(entry.id, { decision: 'snooze', minutes: 15 })} disabled={busy === entry.id} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase bg-zinc-800/50 border border-zinc-700 text-zinc-400 disabled:opacity-40">
+                        <AlarmClock className="w-3 h-3" /> 15m
+                      </button>
+                      <button onClick={() => setRejecting({ id: entry.id, category: 'PRICE', reason: '' })} disabled={busy === entry.id} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase bg-zinc-800/50 border border-red-900/50 text-red-400 disabled:opacity-40">
+                        <X className="w-3 h-3" /> Reject
+                      </button>
+                      {confirming === entry.id ? (
+                        <>
+                          <button onClick={() => setConfirming(null)} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase bg-zinc-800/50 border border-zinc-700 text-zinc-500">Cancel</button>
+                          <button
+                            onClick={() => decide(entry.id, { decision: 'approve', confirmAmount: entry.amount })}
+                            disabled={busy === entry.id}
+                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase bg-orange-500 text-black border border-orange-400 shadow-[0_0_20px_rgba(251,146,60,0.4)] disabled:opacity-40"
+                          >
+                            <Check className="w-3 h-3" /> Confirm buy {money(entry.amount, entry.currency)}
+                          </button>
+                        </>
+                      ) : (
+                        <button onClick={() => setConfirming(entry.id)} disabled={busy === entry.id} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase bg-orange-500/10 border border-orange-500/50 text-orange-400 hover:bg-orange-500/20 disabled:opacity-40">
+                          <Gavel className="w-3 h-3" /> Approve
+                        </button>
+                      )}
+                    </div>
+                  )
+                )}
+              </motion.div>
+            );
+          })}
+        </AnimatePresence>
+      </section>
+    </div>
+  );
+}
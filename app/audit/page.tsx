@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'motion/react';
+import { ScrollText, Terminal, ArrowLeft, Download, ShieldCheck, Search } from 'lucide-react';
+import Link from 'next/link';
+import { authHeaders, useNexusSession } from '@/lib/auth-client';
+import type { AuditEntry, AuditActorType, ChainVerification } from '@/lib/audit-log';
+
+// ==========================================
+// VOIDLOGIC NEXUS: AUDIT TRAIL UI
+// ==========================================
+
+interface Filters {
+  actor: string;
+  actorType: AuditActorType | '';
+  action: string;
+  entityId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { actor: '', actorType: '', action: '', entityId: '', from: '', to: '' };
+
+// Trailing dot = every action in that family
+const ACTION_OPTIONS = [
+  'sweep.run', 'execution.', 'execution.charge', 'execution.reject', 'controls.update', 'godmode.toggle', 'autopilot.update',
+  'approval.', 'brand.', 'search.', 'schedule.', 'alert_rule.'
+];
+
+const ACTOR_STYLE: Record<AuditActorType, string> = {
+  USER: 'text-teal-400',
+  SCHEDULER: 'text-zinc-400',
+  GOD_MODE: 'text-red-400'
+};
+
+const toQuery = (f: Filters, extra: Record<string, string> = {}) => {
+  const params = new URLSearchParams(extra);
+  if (f.actor) params.set('actor', f.actor);
+  if (f.actorType) params.set('actorType', f.actorType);
+  if (f.action) params.set('action', f.action);
+  if (f.entityId) params.set('entityId', f.entityId);
+  if (f.from) params.set('from', new Date(f.from).toISOString());
+  if (f.to) params.set('to', new Date(`${f.to}T23:59:59.999`).toISOString());
+  return params.toString();
+};
+
+export default function AuditTrailDashboard() {
+  useNexusSession();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [logs, setLogs] = useState<string[]>([]);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
+  };
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/nexus/audit?${toQuery(applied, { limit: '500' })}`, { headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        setEntries(result.entries || []);
+      } else {
+        addLog(`FETCH_ERROR: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Audit fetch error. Check connection.");
+    }
+  }, [applied]);
+
+  useEffect(() => { fetchEntries(); }, [fetchEntries]);
+
+  // The route needs the bearer token, so the file comes through fetch rather than a plain link
+  const exportCsv = async () => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/nexus/audit?${toQuery(applied, { format: 'csv', limit: '5000' })}`, { headers: await authHeaders() });
+      if (!response.ok) {
+        addLog(`Export failed: HTTP ${response.status}`);
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `nexus-audit-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+      addLog("CSV export downloaded.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const verifyChain = async () => {
+    setBusy(true);
+    addLog("Recomputing hash chain...");
+    try {
+      const response = await fetch('/api/nexus/audit/verify', { headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        setVerification(result);
+        addLog(result.ok ? `Chain intact: ${result.checked} entries verified.` : `CHAIN BROKEN at #${result.brokenAt}: ${result.reason}`);
+      } else {
+        addLog(`Verification failed: ${result.details || result.error}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = "w-full bg-black/40 border border-teal-900/40 rounded-lg px-3 py-2 text-xs text-zinc-200 placeholder:text-zinc-700 focus:outline-none focus:border-teal-500/60";
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-teal-500 font-mono p-4 selection:bg-teal-900/30 overflow-x-hidden">
+
+      {/* HEADER */}
+      <header className="flex justify-between items-center border-b border-teal-900/50 pb-4 mb-6">
+        <div>
+          <Link href="/" className="flex items-center gap-2 text-zinc-500 hover:text-teal-400 transition-colors mb-2 text-[10px] uppercase font-bold">
+            <ArrowLeft className="w-3 h-3" /> Back to Nexus Core
+          </Link>
+          <motion.h1
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-2xl font-bold tracking-tighter text-teal-400 drop-shadow-[0_0_12px_rgba(45,212,191,0.4)]"
+          >
+            AUDIT_TRAIL
+          </motion.h1>
+          <p className="text-[10px] text-teal-800 mt-1 uppercase tracking-widest">v1.0 // Append-only · SHA-256 chained</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={verifyChain} disabled={busy} className="flex items-center gap-2 bg-teal-950/20 px-3 py-1.5 rounded-full border border-teal-900/30 text-[10px] font-bold tracking-tighter disabled:opacity-40">
+            <ShieldCheck className="w-3 h-3" /> VERIFY
+          </button>
+          <button onClick={exportCsv} disabled={busy} className="flex items-center gap-2 bg-teal-950/20 px-3 py-1.5 rounded-full border border-teal-900/30 text-[10px] font-bold tracking-tighter disabled:opacity-40">
+            <Download className="w-3 h-3" /> CSV
+          </button>
+        </div>
+      </header>
+
+      {verification && (
+        <section className={`border rounded-xl p-3 mb-6 text-[10px] font-bold uppercase ${verification.ok ? 'bg-teal-950/20 border-teal-500/30 text-teal-400' : 'bg-red-950/20 border-red-500/40 text-red-400'}`}>
+          {verification.ok
+            ? <>Chain intact · {verification.checked} entries · head #{verification.headSeq} <span className="normal-case text-zinc-500 break-all">{verification.headHash}</span></>
+            : <>Chain broken at #{verification.brokenAt}: <span className="normal-case">{verification.reason}</span></>}
+        </section>
+      )}
+
+      {/* FILTERS */}
+      <section className="bg-zinc-900/30 backdrop-blur-xl border border-white/5 rounded-2xl p-5 mb-6 shadow-2xl space-y-3">
+        <div className="flex items-center gap-2 mb-2">
+          <ScrollText className="w-4 h-4 text-zinc-500" />
+          <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold">Filter</h2>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <input className={inputClass} placeholder="Actor (email or 'scheduler')" value={filters.actor} onChange={e => setFilters({ ...filters, actor: e.target.value })} />
+          <select className={inputClass} value={filters.actorType} onChange={e => setFilters({ ...filters, actorType: e.target.value as AuditActorType | '' })}>
+            <option value="">ANY ACTOR</option>
+            <option value="USER">USER</option>
+            <option value="SCHEDULER">SCHEDULER</option>
+            <option value="GOD_MODE">GOD MODE</option>
+          </select>
+          <select className={inputClass} value={filters.action} onChange={e => setFilters({ ...filters, action: e.target.value })}>
+            <option value="">ANY ACTION</option>
+            {ACTION_OPTIONS.map(a => <option key={a} value={a}>{a.endsWith('.') ? `${a}*` : a}</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <input className={inputClass} placeholder="Entity ID (signal, brand...)" value={filters.entityId} onChange={e => setFilters({ ...filters, entityId: e.target.value })} />
+          <input className={inputClass} type="date" value={filters.from} onChange={e => setFilters({ ...filters, from: e.target.value })} />
+          <input className={inputClass} type="date" value={filters.to} onChange={e => setFilters({ ...filters, to: e.target.value })} />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => { setFilters(EMPTY_FILTERS); setApplied(EMPTY_FILTERS); }} className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-zinc-800/50 text-zinc-500 border border-zinc-700">
+            Clear
+          </button>
+          <button onClick={() => setApplied(filters)} className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-teal-500/10 border border-teal-500/50 text-teal-400 hover:bg-teal-500/20 flex items-center gap-1">
+            <Search className="w-3 h-3" /> Apply
+          </button>
+        </div>
+      </section>
+
+      {/* TERMINAL LOGS */}
+      <section className="mb-6 bg-black/40 border border-teal-900/20 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-teal-900">
+          <Terminal className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Audit Telemetry</span>
+        </div>
+        <div className="space-y-1">
+          {logs.map((log, i) => (
+            <div key={i} className="text-[10px] text-teal-700/80 leading-tight">{log}</div>
+          ))}
+          {logs.length === 0 && <div className="text-[10px] text-teal-900/50 italic">{entries.length} entries loaded.</div>}
+        </div>
+      </section>
+
+      {/* ENTRIES */}
+      <section className="space-y-1">
+        {entries.length === 0 && <div className="text-center text-zinc-800 text-xs py-10 uppercase tracking-widest opacity-50">No audit entries match.</div>}
+        {entries.map(entry => (
+          <div key={entry.seq} className="bg-zinc-900/20 border border-white/5 rounded-lg px-3 py-2 text-[10px]">
+            <button onClick={() => setExpanded(expanded === entry.seq ? null : entry.seq)} className="w-full flex justify-between gap-3 text-left">
+              <div className="min-w-0">
+                <div className="text-zinc-300 truncate">
+                  <span className="text-zinc-600">#{entry.seq}</span> <span className="font-bold">{entry.action}</span> <span className="text-zinc-500">{entry.entityType}{entry.entityId ? ` ${entry.entityId}` : ''}</span>
+                </div>
+                <div className="truncate">
+                  <span className={`font-bold ${ACTOR_STYLE[entry.actorType]}`}>{entry.actorType}</span> <span className="text-zinc-500">{entry.actor}</span>
+                  {entry.ip && <span className="text-zinc-700"> {'//'} {entry.ip}</span>}
+                </div>
+              </div>
+              <div className="text-right shrink-0 text-zinc-600">{new Date(entry.createdAt).toLocaleString()}</div>
+            </button>
+            {expanded === entry.seq && (
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                <pre className="bg-black/40 rounded p-2 text-[9px] text-zinc-500 overflow-x-auto whitespace-pre-wrap break-all">{JSON.stringify(entry.before, null, 2)}</pre>
+                <pre className="bg-black/40 rounded p-2 text-[9px] text-zinc-300 overflow-x-auto whitespace-pre-wrap break-all">{JSON.stringify(entry.after, null, 2)}</pre>
+                <div className="col-span-2 text-[9px] text-zinc-700 break-all">prev {entry.prevHash} → {entry.hash}</div>
+              </div>
+            )}
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Tag, Terminal, ArrowLeft, Plus, Trash2, Pencil, Database } from 'lucide-react';
+import Link from 'next/link';
+import { authHeaders, useNexusSession } from '@/lib/auth-client';
+import { DEFAULT_BRAND_CATALOG, type BrandEntry, type BrandTier } from '@/lib/brand-catalog';
+
+// ==========================================
+// VOIDLOGIC NEXUS: BRAND CATALOG UI
+// ==========================================
+
+interface BrandForm {
+  id: string | null; // null while creating
+  name: string;
+  tier: BrandTier;
+  aliases: string;
+  models: string;
+  negativeKeywords: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: BrandForm = { id: null, name: '', tier: 'CORE', aliases: '', models: '', negativeKeywords: '', active: true };
+
+const splitList = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+export default function BrandCatalogDashboard() {
+  useNexusSession();
+  const [brands, setBrands] = useState<BrandEntry[]>([]);
+  const [form, setForm] = useState<BrandForm>(EMPTY_FORM);
+  const [busy, setBusy] = useState(false);
+  const [logs, setLogs] = useState<string[]>([]);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
+  };
+
+  const fetchBrands = useCallback(async () => {
+    try {
+      const response = await fetch('/api/nexus/brands', { headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        setBrands(result.brands || []);
+      } else {
+        addLog(`FETCH_ERROR: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Catalog fetch error. Check connection.");
+    }
+  }, []);
+
+  useEffect(() => { fetchBrands(); }, [fetchBrands]);
+
+  const saveBrand = async () => {
+    setBusy(true);
+    const payload = {
+      name: form.name,
+      tier: form.tier,
+      aliases: splitList(form.aliases),
+      models: splitList(form.models),
+      negativeKeywords: splitList(form.negativeKeywords),
+      active: form.active
+    };
+
+    try {
+      const response = await fetch(form.id ? `/api/nexus/brands/${form.id}` : '/api/nexus/brands', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify(payload)
+      });
+      const result = await response.json();
+      if (response.ok) {
+        addLog(`${form.id ? 'Updated' : 'Added'} ${payload.name}.`);
+        setForm(EMPTY_FORM);
+        await fetchBrands();
+      } else {
+        addLog(`Save failed: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Save error. Check connection.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteBrand = async (brand: BrandEntry) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/nexus/brands/${brand.id}`, { method: 'DELETE', headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        addLog(`Removed ${brand.name}.`);
+        setBrands(current => current.filter(b => b.id !== brand.id));
+      } else {
+        addLog(`Delete failed: ${result.details || result.error}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Writes the built-in catalog into an empty nexus_brands table
+  const importDefaults = async () => {
+    setBusy(true);
+    addLog(`Importing ${DEFAULT_BRAND_CATALOG.length} built-in brands...`);
+    let imported = 0;
+    for (const brand of DEFAULT_BRAND_CATALOG) {
+      const response = await fetch('/api/nexus/brands', { method: 'POST', headers: await authHeaders(), body: JSON.stringify(brand) });
+      if (response.ok) imported++;
+    }
+    addLog(`Imported ${imported}/${DEFAULT_BRAND_CATALOG.length} brands.`);
+    await fetchBrands();
+    setBusy(false);
+  };
+
+  const editBrand = (brand: BrandEntry) => {
+    setForm({
+      id: brand.id,
+      name: brand.name,
+      tier: brand.tier,
+      aliases: brand.aliases.join(', '),
+      models: brand.models.join(', '),
+      negativeKeywords: brand.negativeKeywords.join(', '),
+      active: brand.active
+    });
+  };
+
+  const inputClass = "w-full bg-black/40 border border-violet-900/40 rounded-lg px-3 py-2 text-xs text-zinc-200 placeholder:text-zinc-700 focus:outline-none focus:border-violet-500/60";
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-violet-500 font-mono p-4 selection:bg-violet-900/30 overflow-x-hidden">
+
+      {/* HEADER */}
+      <header className="flex justify-between items-center border-b border-violet-900/50 pb-4 mb-6">
+        <div>
+          <Link href="/" className="flex items-center gap-2 text-zinc-500 hover:text-violet-400 transition-colors mb-2 text-[10px] uppercase font-bold">
+            <ArrowLeft className="w-3 h-3" /> Back to Nexus Core
+          </Link>
+          <motion.h1
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-2xl font-bold tracking-tighter text-violet-400 drop-shadow-[0_0_12px_rgba(167,139,250,0.4)]"
+          >
+            BRAND_CATALOG
+          </motion.h1>
+          <p className="text-[10px] text-violet-800 mt-1 uppercase tracking-widest">v1.0 // Alias &amp; Model Matrix</p>
+        </div>
+        <div className="flex items-center gap-3 bg-violet-950/20 px-3 py-1.5 rounded-full border border-violet-900/30">
+          <span className="text-[10px] font-bold tracking-tighter">{brands.length} BRANDS</span>
+        </div>
+      </header>
+
+      {/* EDITOR */}
+      <section className="bg-zinc-900/30 backdrop-blur-xl border border-white/5 rounded-2xl p-5 mb-6 shadow-2xl space-y-3">
+        <div className="flex items-center gap-2 mb-2">
+          <Tag className="w-4 h-4 text-zinc-500" />
+          <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold">{form.id ? `Edit ${form.name}` : 'New Brand'}</h2>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <input className={`${inputClass} col-span-2`} placeholder="Canonical name (e.g. Hermès)" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          <select className={inputClass} value={form.tier} onChange={e => setForm({ ...form, tier: e.target.value as BrandTier })}>
+            <option value="ULTRA">ULTRA</option>
+            <option value="HIGH">HIGH</option>
+            <option value="CORE">CORE</option>
+          </select>
+        </div>
+        <input className={inputClass} placeholder="Aliases, comma separated (Hermes, LV, YSL)" value={form.aliases} onChange={e => setForm({ ...form, aliases: e.target.value })} />
+        <input className={inputClass} placeholder="Models, comma separated (Birkin, Speedy, Neverfull)" value={form.models} onChange={e => setForm({ ...form, models: e.target.value })} />
+        <input className={inputClass} placeholder="Negative keywords, comma separated (perfume, keychain)" value={form.negativeKeywords} onChange={e => setForm({ ...form, negativeKeywords: e.target.value })} />
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase font-bold">
+            <input type="checkbox" checked={form.active} onChange={e => setForm({ ...form, active: e.target.checked })} /> Active
+          </label>
+          <div className="flex gap-2">
+            {form.id && (
+              <button onClick={() => setForm(EMPTY_FORM)} className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-zinc-800/50 text-zinc-500 border border-zinc-700">
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={saveBrand}
+              disabled={busy || !form.name.trim()}
+              className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-violet-500/10 border border-violet-500/50 text-violet-400 hover:bg-violet-500/20 disabled:opacity-40 flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> {form.id ? 'Save' : 'Add'}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {/* TERMINAL LOGS */}
+      <section className="mb-6 bg-black/40 border border-violet-900/20 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-violet-900">
+          <Terminal className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Catalog Telemetry</span>
+        </div>
+        <div className="space-y-1">
+          {logs.map((log, i) => (
+            <div key={i} className="text-[10px] text-violet-700/80 leading-tight">{log}</div>
+          ))}
+          {logs.length === 0 && <div className="text-[10px] text-violet-900/50 italic">Awaiting catalog events...</div>}
+        </div>
+      </section>
+
+      {/* CATALOG LIST */}
+      <section>
+        <div className="space-y-3">
+          <AnimatePresence mode="popLayout">
+            {brands.length === 0 ? (
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-center text-zinc-800 text-xs py-10 flex flex-col items-center gap-3">
+                <span className="uppercase tracking-widest opacity-50">Catalog empty. The engine is using the built-in list.</span>
+                <button
+                  onClick={importDefaults}
+                  disabled={busy}
+                  className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-violet-500/10 border border-violet-500/50 text-violet-400 flex items-center gap-1"
+                >
+                  <Database className="w-3 h-3" /> Import Built-in Catalog
+                </button>
+              </motion.div>
+            ) : (
+              brands.map((brand) => (
+                <motion.div
+                  layout
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                  key={brand.id}
+                  className="bg-zinc-900/20 border border-white/5 p-3 rounded-xl flex flex-col gap-2"
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <span className="text-[10px] text-zinc-600 uppercase font-bold block mb-0.5">{brand.tier} {'//'} {brand.id}</span>
+                      <h3 className={`text-xs font-bold ${brand.active ? 'text-zinc-200' : 'text-zinc-600 line-through'}`}>{brand.name}</h3>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={() => editBrand(brand)} className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-violet-400 transition-colors">
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => deleteBrand(brand)} disabled={busy} className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-red-400 transition-colors">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="text-[9px] text-zinc-500 uppercase font-bold space-y-0.5">
+                    {brand.aliases.length > 0 && <div><span className="text-violet-500">ALIASES:</span> {brand.aliases.join(', ')}</div>}
+                    {brand.models.length > 0 && <div><span className="text-violet-500">MODELS:</span> {brand.models.join(', ')}</div>}
+                    {brand.negativeKeywords.length > 0 && <div><span className="text-red-500/70">EXCLUDE:</span> {brand.negativeKeywords.join(', ')}</div>}
+                  </div>
+                </motion.div>
+              ))
+            )}
+          </AnimatePresence>
+        </div>
+      </section>
+    </div>
+  );
+}
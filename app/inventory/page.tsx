@@ -0,0 +1,350 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Package, Terminal, ArrowLeft, Save, Camera, DollarSign, ChevronRight } from 'lucide-react';
+import Link from 'next/link';
+import { authHeaders, useNexusSession } from '@/lib/auth-client';
+import type { InventoryItem, InventoryStatus, EstimateVariance, PhotoKind } from '@/lib/inventory-ledger';
+import { ORDER_TRANSITIONS, OPERATOR_STATUSES, type OrderStatus } from '@/lib/order-lifecycle';
+
+// ==========================================
+// VOIDLOGIC NEXUS: INVENTORY OPERATIONS UI
+// ==========================================
+
+type InventoryRow = InventoryItem & { costBasis: number; variance: EstimateVariance };
+
+interface IntakeForm {
+  actualCondition: string;
+  inboundShipping: string;
+  refurbishmentCost: string;
+  storageLocation: string;
+  notes: string;
+  photoUrl: string;
+  photoKind: PhotoKind;
+}
+
+const FILTERS: (InventoryStatus | 'ALL')[] = ['ALL', 'INBOUND', 'IN_STOCK', 'LISTED', 'SOLD', 'RETURNED'];
+const CHANNELS = ['ebay', 'poshmark', 'direct'];
+
+const money = (n: number | null, currency = 'USD') => n === null ? '—' : Number(n).toLocaleString(undefined, { style: 'currency', currency });
+
+const toForm = (item: InventoryRow): IntakeForm => ({
+  actualCondition: item.actualCondition?.toString() ?? '',
+  inboundShipping: item.inboundShipping.toString(),
+  refurbishmentCost: item.refurbishmentCost.toString(),
+  storageLocation: item.storageLocation ?? '',
+  notes: item.notes ?? '',
+  photoUrl: '',
+  photoKind: 'ARRIVAL'
+});
+
+export default function InventoryDashboard() {
+  useNexusSession();
+  const [items, setItems] = useState<InventoryRow[]>([]);
+  const [orderStatus, setOrderStatus] = useState<Record<string, OrderStatus>>({});
+  const [filter, setFilter] = useState<InventoryStatus | 'ALL'>('ALL');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [form, setForm] = useState<IntakeForm | null>(null);
+  const [sale, setSale] = useState({ salePrice: '', channel: 'ebay' });
+  const [busy, setBusy] = useState(false);
+  const [logs, setLogs] = useState<string[]>([]);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
+  };
+
+  const fetchInventory = useCallback(async () => {
+    try {
+      const query = filter === 'ALL' ? '' : `?status=${filter}`;
+      const [inventoryResponse, ordersResponse] = await Promise.all([
+        fetch(`/api/nexus/inventory${query}`, { headers: await authHeaders() }),
+        fetch('/api/nexus/orders', { headers: await authHeaders() })
+      ]);
+      const inventory = await inventoryResponse.json();
+      const orders = await ordersResponse.json();
+      if (inventoryResponse.ok) {
+        setItems(inventory.items || []);
+      } else {
+        addLog(`FETCH_ERROR: ${inventory.details || inventory.error}`);
+      }
+      if (ordersResponse.ok) {
+        setOrderStatus(Object.fromEntries((orders.orders || []).map((o: { id: string; status: OrderStatus }) => [o.id, o.status])));
+      }
+    } catch (err) {
+      addLog("Inventory fetch error. Check connection.");
+    }
+  }, [filter]);
+
+  useEffect(() => { fetchInventory(); }, [fetchInventory]);
+
+  const selectItem = (item: InventoryRow) => {
+    if (selected === item.id) {
+      setSelected(null);
+      setForm(null);
+      return;
+    }
+    setSelected(item.id);
+    setForm(toForm(item));
+    setSale({ salePrice: Math.round(item.estimatedValue).toString(), channel: item.expectedChannel });
+  };
+
+  const replaceItem = (updated: InventoryRow) => {
+    setItems(current => current.map(i => i.id === updated.id ? updated : i));
+  };
+
+  const saveIntake = async (item: InventoryRow) => {
+    if (!form) return;
+    setBusy(true);
+    const photos = form.photoUrl.trim()
+      ? [...item.photos, { url: form.photoUrl.trim(), kind: form.photoKind, takenAt: new Date().toISOString() }]
+      : undefined;
+
+    try {
+      const response = await fetch(`/api/nexus/inventory/${item.id}`, {
+        method: 'PUT',
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          actualCondition: form.actualCondition ? Number(form.actualCondition) : null,
+          inboundShipping: form.inboundShipping,
+          refurbishmentCost: form.refurbishmentCost,
+          storageLocation: form.storageLocation,
+          notes: form.notes,
+          ...(photos ? { photos } : {})
+        })
+      });
+      const result = await response.json();
+      if (response.ok) {
+        replaceItem(result.item);
+        setForm(toForm(result.item));
+        addLog(`Intake saved for ${item.targetName}.`);
+      } else {
+        addLog(`Save failed: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Save error. Check connection.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const advanceOrder = async (item: InventoryRow, to: OrderStatus) => {
+    if (!item.orderId) return;
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/nexus/orders/${item.orderId}`, {
+        method: 'PUT',
+        headers: await authHeaders(),
+        body: JSON.stringify({ status: to })
+      });
+      const result = await response.json();
+      if (response.ok) {
+        addLog(`${item.targetName}: order -> ${to}.`);
+        await fetchInventory();
+      } else {
+        addLog(`Transition failed: ${result.error}${result.from ? ` (${result.from} -> ${result.to})` : ''}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const recordSale = async (item: InventoryRow) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/nexus/inventory/${item.id}/sale`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ salePrice: Number(sale.salePrice), channel: sale.channel })
+      });
+      const result = await response.json();
+      if (response.ok) {
+        replaceItem(result.item);
+        addLog(`[SOLD] ${item.targetName} for ${money(result.item.salePrice, result.item.currency)}. Net ${money(result.item.realizedNetProfit, result.item.currency)}.`);
+      } else {
+        addLog(`Sale failed: ${result.details || result.error}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = "w-full bg-black/40 border border-amber-900/40 rounded-lg px-3 py-2 text-xs text-zinc-200 placeholder:text-zinc-700 focus:outline-none focus:border-amber-500/60";
+  const capital = items.filter(i => i.status !== 'SOLD' && i.status !== 'RETURNED').reduce((sum, i) => sum + i.costBasis, 0);
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-amber-500 font-mono p-4 selection:bg-amber-900/30 overflow-x-hidden">
+
+      {/* HEADER */}
+      <header className="flex justify-between items-center border-b border-amber-900/50 pb-4 mb-6">
+        <div>
+          <Link href="/" className="flex items-center gap-2 text-zinc-500 hover:text-amber-400 transition-colors mb-2 text-[10px] uppercase font-bold">
+            <ArrowLeft className="w-3 h-3" /> Back to Nexus Core
+          </Link>
+          <motion.h1
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-2xl font-bold tracking-tighter text-amber-400 drop-shadow-[0_0_12px_rgba(251,191,36,0.4)]"
+          >
+            INVENTORY_LEDGER
+          </motion.h1>
+          <p className="text-[10px] text-amber-800 mt-1 uppercase tracking-widest">v1.0 // Intake, Refurb &amp; Resale</p>
+        </div>
+        <div className="flex flex-col items-end gap-1 bg-amber-950/20 px-3 py-1.5 rounded-2xl border border-amber-900/30">
+          <span className="text-[10px] font-bold tracking-tighter">{items.length} ITEMS</span>
+          <span className="text-[9px] text-amber-700 font-bold">{money(capital, items[0]?.currency)} DEPLOYED</span>
+        </div>
+      </header>
+
+      {/* FILTERS */}
+      <div className="flex gap-2 mb-4 overflow-x-auto">
+        {FILTERS.map(f => (
+          <button
+            key={f}
+            onClick={() => setFilter(f)}
+            className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-tighter border transition-all ${
+              filter === f ? 'bg-amber-500/20 border-amber-500/60 text-amber-300' : 'bg-zinc-900/30 border-zinc-800 text-zinc-500'
+            }`}
+          >
+            {f.replace('_', ' ')}
+          </button>
+        ))}
+      </div>
+
+      {/* TERMINAL LOGS */}
+      <section className="mb-6 bg-black/40 border border-amber-900/20 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-amber-900">
+          <Terminal className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Warehouse Telemetry</span>
+        </div>
+        <div className="space-y-1">
+          {logs.map((log, i) => (
+            <div key={i} className="text-[10px] text-amber-700/80 leading-tight">{log}</div>
+          ))}
+          {logs.length === 0 && <div className="text-[10px] text-amber-900/50 italic">Awaiting warehouse events...</div>}
+        </div>
+      </section>
+
+      {/* ITEMS */}
+      <section className="space-y-3">
+        <AnimatePresence mode="popLayout">
+          {items.length === 0 ? (
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-center text-zinc-800 text-xs py-10 uppercase tracking-widest opacity-50">
+              No inventory. Items appear here once a purchase is paid.
+            </motion.div>
+          ) : (
+            items.map((item) => {
+              const order = item.orderId ? orderStatus[item.orderId] : undefined;
+              const nextSteps = order ? ORDER_TRANSITIONS[order].filter(s => OPERATOR_STATUSES.includes(s) && s !== 'SOLD') : [];
+              return (
+                <motion.div
+                  layout
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                  key={item.id}
+                  className="bg-zinc-900/20 border border-white/5 p-3 rounded-xl flex flex-col gap-2"
+                >
+                  <button onClick={() => selectItem(item)} className="flex justify-between items-start text-left">
+                    <div>
+                      <span className="text-[10px] text-zinc-600 uppercase font-bold block mb-0.5">
+                        {item.brandCategory} {'//'} {item.status}{order ? ` · ORDER ${order}` : ''}
+                      </span>
+                      <h3 className="text-xs font-bold text-zinc-200 line-clamp-1">{item.targetName}</h3>
+                    </div>
+                    <div className="flex flex-col items-end gap-1 shrink-0 ml-2">
+                      <span className="text-xs font-black text-amber-400 bg-amber-950/40 px-2 py-1 rounded-lg border border-amber-500/20">{money(item.costBasis, item.currency)}</span>
+                      {item.realizedNetProfit !== null && (
+                        <span className={`text-[9px] font-bold ${item.realizedNetProfit >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                          NET {money(item.realizedNetProfit, item.currency)} (EXP {money(item.expectedNetProfit, item.currency)})
+                        </span>
+                      )}
+                    </div>
+                  </button>
+
+                  <div className="flex flex-wrap gap-3 text-[9px] text-zinc-500 uppercase font-bold">
+                    <span><span className="text-amber-500">COND:</span> est {item.estimatedCondition}/5 · actual {item.actualCondition ?? '?'}/5</span>
+                    <span><span className="text-amber-500">EST VAL:</span> {money(item.estimatedValue, item.currency)}</span>
+                    {item.storageLocation && <span><span className="text-amber-500">LOC:</span> {item.storageLocation}</span>}
+                    <span className="flex items-center gap-1"><Camera className="w-3 h-3" /> {item.photos.length}</span>
+                    {item.variance.valueErrorPct !== null && (
+                      <span><span className="text-amber-500">VAL ERR:</span> {item.variance.valueErrorPct > 0 ? '+' : ''}{item.variance.valueErrorPct}%</span>
+                    )}
+                  </div>
+
+                  {selected === item.id && form && (
+                    <div className="border-t border-amber-900/30 pt-3 mt-1 space-y-2">
+                      <div className="grid grid-cols-3 gap-2">
+                        <select className={inputClass} value={form.actualCondition} onChange={e => setForm({ ...form, actualCondition: e.target.value })}>
+                          <option value="">Actual cond.</option>
+                          {[5, 4, 3, 2, 1].map(g => <option key={g} value={g}>{g}/5</option>)}
+                        </select>
+                        <input className={inputClass} placeholder="Inbound ship" value={form.inboundShipping} onChange={e => setForm({ ...form, inboundShipping: e.target.value })} />
+                        <input className={inputClass} placeholder="Refurb cost" value={form.refurbishmentCost} onChange={e => setForm({ ...form, refurbishmentCost: e.target.value })} />
+                      </div>
+                      <input className={inputClass} placeholder="Storage location (e.g. Shelf B3)" value={form.storageLocation} onChange={e => setForm({ ...form, storageLocation: e.target.value })} />
+                      <div className="grid grid-cols-3 gap-2">
+                        <input className={`${inputClass} col-span-2`} placeholder="Add photo URL" value={form.photoUrl} onChange={e => setForm({ ...form, photoUrl: e.target.value })} />
+                        <select className={inputClass} value={form.photoKind} onChange={e => setForm({ ...form, photoKind: e.target.value as PhotoKind })}>
+                          <option value="ARRIVAL">ARRIVAL</option>
+                          <option value="DEFECT">DEFECT</option>
+                          <option value="AUTHENTICATION">AUTH</option>
+                          <option value="LISTING">LISTING</option>
+                        </select>
+                      </div>
+                      <textarea className={inputClass} rows={2} placeholder="Notes" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+
+                      <div className="flex flex-wrap justify-between gap-2">
+                        <div className="flex gap-2">
+                          {nextSteps.map(step => (
+                            <button
+                              key={step}
+                              onClick={() => advanceOrder(item, step)}
+                              disabled={busy}
+                              className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-tighter bg-zinc-800/50 text-zinc-400 border border-zinc-700 hover:text-amber-400 disabled:opacity-40 flex items-center gap-1"
+                            >
+                              <ChevronRight className="w-3 h-3" /> {step}
+                            </button>
+                          ))}
+                        </div>
+                        <button
+                          onClick={() => saveIntake(item)}
+                          disabled={busy}
+                          className="px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-amber-500/10 border border-amber-500/50 text-amber-400 hover:bg-amber-500/20 disabled:opacity-40 flex items-center gap-1"
+                        >
+                          <Save className="w-3 h-3" /> Save
+                        </button>
+                      </div>
+
+                      {order === 'LISTED' && (
+                        <div className="grid grid-cols-3 gap-2 border-t border-amber-900/30 pt-2">
+                          <input className={inputClass} placeholder="Sale price" value={sale.salePrice} onChange={e => setSale({ ...sale, salePrice: e.target.value })} />
+                          <select className={inputClass} value={sale.channel} onChange={e => setSale({ ...sale, channel: e.target.value })}>
+                            {CHANNELS.map(c => <option key={c} value={c}>{c.toUpperCase()}</option>)}
+                          </select>
+                          <button
+                            onClick={() => recordSale(item)}
+                            disabled={busy || !sale.salePrice}
+                            className="rounded-lg text-[10px] font-black uppercase tracking-tighter bg-emerald-500/10 border border-emerald-500/50 text-emerald-400 hover:bg-emerald-500/20 disabled:opacity-40 flex items-center justify-center gap-1"
+                          >
+                            <DollarSign className="w-3 h-3" /> Sold
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </motion.div>
+              );
+            })
+          )}
+        </AnimatePresence>
+      </section>
+
+      <footer className="mt-12 pt-6 border-t border-zinc-900/50 text-center pb-8">
+        <div className="flex justify-center items-center gap-2 text-[9px] text-zinc-700 uppercase tracking-[0.3em] font-black">
+          <Package className="w-3 h-3" /> Estimates frozen at purchase
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { KeyRound, Mail, Terminal } from 'lucide-react';
+import { getBrowserSupabase } from '@/lib/auth-client';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SIGN-IN
+// ==========================================
+
+export default function LoginScreen() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [logs, setLogs] = useState<string[]>([]);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
+  };
+
+  const nextPath = () => {
+    const next = new URLSearchParams(window.location.search).get('next') || '/';
+    return next.startsWith('/') && !next.startsWith('//') ? next : '/';
+  };
+
+  const signInWithPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const supabase = getBrowserSupabase();
+    if (!supabase) {
+      addLog("ERROR: Supabase credentials missing.");
+      return;
+    }
+    setBusy(true);
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    setBusy(false);
+    if (error) {
+      addLog(`Sign-in failed: ${error.message}`);
+    } else {
+      window.location.href = nextPath();
+    }
+  };
+
+  const sendMagicLink = async () => {
+    const supabase = getBrowserSupabase();
+    if (!supabase || !email) return;
+    setBusy(true);
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: `${window.location.origin}${nextPath()}` }
+    });
+    setBusy(false);
+    addLog(error ? `Link failed: ${error.message}` : `Sign-in link sent to ${email}.`);
+  };
+
+  const inputClass = "w-full bg-black/40 border border-emerald-900/40 rounded-lg px-3 py-2 text-xs text-zinc-200 placeholder:text-zinc-700 focus:outline-none focus:border-emerald-500/60";
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-emerald-500 font-mono p-4 selection:bg-emerald-900/30 flex flex-col justify-center max-w-md mx-auto">
+      <motion.h1
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-2xl font-bold tracking-tighter text-emerald-400 drop-shadow-[0_0_12px_rgba(52,211,153,0.4)]"
+      >
+        VOIDLOGIC_NEXUS
+      </motion.h1>
+      <p className="text-[10px] text-emerald-800 mt-1 mb-6 uppercase tracking-widest">Operator authentication required</p>
+
+      <form onSubmit={signInWithPassword} className="bg-zinc-900/30 backdrop-blur-xl border border-white/5 rounded-2xl p-5 mb-6 shadow-2xl space-y-3">
+        <input className={inputClass} type="email" autoComplete="email" placeholder="Email" value={email} onChange={e => setEmail(e.target.value.trim())} />
+        <input className={inputClass} type="password" autoComplete="current-password" placeholder="Password" value={password} onChange={e => setPassword(e.target.value)} />
+        <button
+          type="submit"
+          disabled={busy || !email || !password}
+          className="w-full flex items-center justify-center gap-2 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/50 text-emerald-400 font-black py-3 rounded-xl text-xs uppercase tracking-tighter disabled:opacity-40"
+        >
+          <KeyRound className="w-4 h-4" /> Sign In
+        </button>
+        <button
+          type="button"
+          onClick={sendMagicLink}
+          disabled={busy || !email}
+          className="w-full flex items-center justify-center gap-2 bg-zinc-800/50 border border-zinc-700 text-zinc-400 font-black py-2 rounded-xl text-[10px] uppercase tracking-tighter disabled:opacity-40"
+        >
+          <Mail className="w-3 h-3" /> Email me a sign-in link
+        </button>
+      </form>
+
+      <section className="bg-black/40 border border-emerald-900/20 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-emerald-900">
+          <Terminal className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Auth Telemetry</span>
+        </div>
+        <div className="space-y-1">
+          {logs.map((log, i) => (
+            <div key={i} className="text-[10px] text-emerald-700/80 leading-tight">{log}</div>
+          ))}
+          {logs.length === 0 && <div className="text-[10px] text-emerald-900/50 italic">Accounts are issued by an administrator.</div>}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -1,49 +1,150 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Shield, Zap, Target, Terminal, ExternalLink, AlertTriangle } from 'lucide-react';
+import { Shield, Zap, Target, Terminal, ExternalLink, AlertTriangle, Clock, Power, Layers, Gavel } from 'lucide-react';
 import Link from 'next/link';
+import { authHeaders, getBrowserSupabase, signOut, useNexusSession } from '@/lib/auth-client';
+import type { ListingAttributes } from '@/lib/extraction/schema';
 
 // ==========================================
 // VOIDLOGIC NEXUS: MOBILE CONTROL CENTER
 // ==========================================
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-
-// Helper to get supabase client safely
-const getSupabase = () => {
-  if (!supabaseUrl || !supabaseKey) return null;
-  return createClient(supabaseUrl, supabaseKey);
-};
-
 interface Signal {
   id: string;
   targetName: string;
   profitMargin: number;
   conditionScore: number;
+  conditionReasons?: string[];
   listedPrice: number;
+  currency: string;
+  baseCurrency?: string;
+  listedPriceBase?: number;
+  fxRate?: number;
+  fxAsOf?: string;
+  listingType?: 'FIXED_PRICE' | 'AUCTION';
+  bidCount?: number | null;
+  endsAt?: string | null;
+  projectedPrice?: number | null;
+  projectedPriceBase?: number | null;
+  projectionBasis?: 'HISTORY' | 'DEFAULT' | null;
+  estimatedValue: number;
+  netProfit: number;
+  roiPct: number;
+  riskScore: number;
+  riskReasons: string[];
+  priceDropPct?: number;
+  relistCount?: number;
+  valuationConfidence: 'HIGH' | 'MEDIUM' | 'LOW' | 'NONE';
+  compsUsed: number;
   status: string;
   source: string;
+  searchId?: string | null;
+  productGroupId?: string | null;
+  attributes?: ListingAttributes | null;
   timestamp: string;
 }
 
+interface SweepRun {
+  id: string;
+  trigger: 'MANUAL' | 'SCHEDULED';
+  status: 'RUNNING' | 'SUCCESS' | 'PARTIAL' | 'FAILED' | 'SKIPPED';
+  startedAt: string;
+  durationMs: number | null;
+  signalsFound: number;
+  errors: string[];
+}
+
+interface GuardState {
+  controls: {
+    killSwitch: boolean;
+    maxItemPrice: number;
+    maxItemsPerBrand: number;
+    minRoiPct: number;
+    approvalAmount: number;
+    approvalMinCondition: number;
+    approvalExpiryMinutes: number;
+  };
+  budgets: { period: 'DAY' | 'WEEK' | 'MONTH'; limit: number; spent: number; remaining: number }[];
+  brandCounts: Record<string, number>;
+}
+
+interface AutopilotState {
+  policy: {
+    enabled: boolean;
+    minRoiPct: number;
+    maxRisk: number;
+    maxItemPrice: number;
+    minCondition: number;
+    minConfidence: 'HIGH' | 'MEDIUM' | 'LOW' | 'NONE';
+    brands: string[];
+    dailySpendLimit: number;
+    armedBy: string | null;
+  };
+  spentToday: number;
+  remainingToday: number;
+}
+
+// Lets Intl pick the symbol and decimals (none for JPY)
+const money = (n: number, currency = 'USD') => Number(n).toLocaleString(undefined, { style: 'currency', currency });
+
+const timeLeft = (endsAt: string, now: number) => {
+  const minutes = Math.floor((new Date(endsAt).getTime() - now) / 60000);
+  if (minutes <= 0) return 'ended';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${Math.floor(minutes / 1440)}d ${Math.floor((minutes % 1440) / 60)}h`;
+};
+
 export default function NexusDashboard() {
   const [signals, setSignals] = useState<Signal[]>([]);
-  const [isGodMode, setIsGodMode] = useState(false);
   const [systemStatus, setSystemStatus] = useState<'ONLINE' | 'HUNTING' | 'OFFLINE'>('ONLINE');
   const [logs, setLogs] = useState<string[]>([]);
   const [executing, setExecuting] = useState<Record<string, 'LOADING' | 'SUCCESS' | 'ERROR'>>({});
+  const [runs, setRuns] = useState<SweepRun[]>([]);
+  const [guard, setGuard] = useState<GuardState | null>(null);
+  const [autopilot, setAutopilot] = useState<AutopilotState | null>(null);
+  const [searchNames, setSearchNames] = useState<Record<string, string>>({});
+  const [endingSoon, setEndingSoon] = useState<Signal[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const session = useNexusSession();
+  const isGodMode = autopilot?.policy.enabled ?? false;
+
+  // The routes enforce these too; the UI just greys out what the role cannot do
+  const canBuy = session?.role === 'buyer';
+  const canSweep = canBuy || session?.role === 'operator';
 
-  const addLog = (msg: string) => {
+  const addLog = useCallback((msg: string) => {
     setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
-  };
+  }, []);
+
+  // Stable so the realtime subscription below can refresh them without resubscribing
+  const fetchGuard = useCallback(async () => {
+    try {
+      const response = await fetch('/api/nexus/controls', {
+        headers: await authHeaders()
+      });
+      if (response.ok) setGuard(await response.json());
+    } catch (err) {
+      addLog("Guardrail state unavailable.");
+    }
+  }, [addLog]);
+
+  const fetchAutopilot = useCallback(async () => {
+    try {
+      const response = await fetch('/api/nexus/autopilot', {
+        headers: await authHeaders()
+      });
+      if (response.ok) setAutopilot(await response.json());
+    } catch (err) {
+      addLog("Autopilot state unavailable.");
+    }
+  }, [addLog]);
 
   // Real-time Supabase Subscription Trace
   useEffect(() => {
-    const supabase = getSupabase();
+    const supabase = getBrowserSupabase();
     if (!supabase) {
       addLog("ERROR: Supabase credentials missing.");
       setSystemStatus('OFFLINE');
@@ -65,27 +166,102 @@ export default function NexusDashboard() {
       }
     };
 
+    const fetchRuns = async () => {
+      const { data } = await supabase
+        .from('nexus_sweep_runs')
+        .select('*')
+        .order('startedAt', { ascending: false })
+        .limit(5);
+      if (data) setRuns(data);
+    };
+
+    // Names for the saved-search tag on each signal
+    const fetchSearchNames = async () => {
+      const { data } = await supabase.from('nexus_searches').select('id, name');
+      if (data) setSearchNames(Object.fromEntries(data.map(s => [s.id, s.name])));
+    };
+
+    // Watched auctions still open, soonest close first
+    const fetchEndingSoon = async () => {
+      const { data } = await supabase
+        .from('nexus_signals')
+        .select('*')
+        .eq('listingType', 'AUCTION')
+        .eq('status', 'PENDING')
+        .gt('endsAt', new Date().toISOString())
+        .order('endsAt', { ascending: true })
+        .limit(10);
+      if (data) setEndingSoon(data);
+    };
+
     fetchInitial();
+    fetchEndingSoon();
+    fetchRuns();
+    fetchSearchNames();
+    fetchGuard();
+    fetchAutopilot();
+
+    const runsChannel = supabase.channel('realtime:nexus_sweep_runs')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'nexus_sweep_runs' }, () => { fetchRuns(); })
+      .subscribe();
 
     const channel = supabase.channel('realtime:nexus_signals')
       .on('postgres_changes', { event: '*', schema: 'public', table: 'nexus_signals' }, (payload) => {
+        if ((payload.new as Signal | undefined)?.listingType === 'AUCTION') fetchEndingSoon();
         if (payload.eventType === 'INSERT') {
           setSignals((current) => [payload.new as Signal, ...current].slice(0, 10));
           addLog(`NEW_SIGNAL: ${payload.new.targetName} detected.`);
-          
-          // GOD MODE: Auto-execute if enabled
-          if (isGodMode && payload.new.status === 'PENDING') {
-            addLog(`[GOD MODE] Auto-executing target ${payload.new.id}...`);
-            executeTarget(payload.new.id, payload.new.listedPrice);
-          }
         } else if (payload.eventType === 'UPDATE') {
           setSignals((current) => current.map(sig => sig.id === payload.new.id ? payload.new as Signal : sig));
+          // The engine's autopilot buys server-side; the dashboard only reports it
+          if (['EXECUTED', 'FAILED'].includes(payload.new.status) && payload.new.executionKey?.startsWith('nexus-auto-')) {
+            addLog(`[GOD MODE] Autopilot took ${payload.new.id}: ${payload.new.status}.`);
+            fetchAutopilot();
+            fetchGuard();
+          }
         }
       })
       .subscribe();
 
-    return () => { supabase.removeChannel(channel); };
-  }, []);
+    // Keeps the countdowns moving and drops auctions once they close
+    const clock = setInterval(() => setNow(Date.now()), 30000);
+
+    return () => {
+      clearInterval(clock);
+      supabase.removeChannel(channel);
+      supabase.removeChannel(runsChannel);
+    };
+  }, [addLog, fetchGuard, fetchAutopilot]);
+
+  const toggleKillSwitch = async () => {
+    const engage = !guard?.controls.killSwitch;
+    const response = await fetch('/api/nexus/controls', {
+      method: 'PUT',
+      headers: await authHeaders(),
+      body: JSON.stringify({ killSwitch: engage })
+    });
+    if (response.ok) {
+      setGuard(await response.json());
+      addLog(engage ? "KILL SWITCH ENGAGED. ALL EXECUTION HALTED." : "Kill switch released.");
+    } else {
+      addLog("[ERROR] Kill switch toggle failed.");
+    }
+  };
+
+  // God Mode is a server-side policy: the engine buys on every sweep whether or not this tab is open
+  const toggleGodMode = async () => {
+    const response = await fetch('/api/nexus/autopilot', {
+      method: 'PUT',
+      headers: await authHeaders(),
+      body: JSON.stringify({ enabled: !isGodMode })
+    });
+    if (!response.ok) {
+      addLog("[ERROR] God Mode toggle failed.");
+      return;
+    }
+    setAutopilot(await response.json());
+    addLog(isGodMode ? "God Mode disarmed." : "GOD MODE ARMED. Autopilot executes on the next sweep.");
+  };
 
   const executeTarget = async (signalId: string, price: number) => {
     setExecuting(prev => ({ ...prev, [signalId]: 'LOADING' }));
@@ -94,10 +270,7 @@ export default function NexusDashboard() {
     try {
       const response = await fetch('/api/nexus/execute', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_NEXUS_GOD_MODE_KEY || 'demo-key'}`
-        },
+        headers: await authHeaders({ 'Idempotency-Key': `nexus-exec-${signalId}` }),
         body: JSON.stringify({ signalId, price })
       });
       
@@ -105,9 +278,18 @@ export default function NexusDashboard() {
       if (response.ok && result.status === 'SUCCESS') {
         setExecuting(prev => ({ ...prev, [signalId]: 'SUCCESS' }));
         addLog(`[SUCCESS] Target ${signalId} acquired. TX: ${result.transactionId}`);
+        fetchGuard();
+      } else if (result.status === 'APPROVAL_REQUIRED') {
+        setExecuting(prev => { const next = { ...prev }; delete next[signalId]; return next; });
+        addLog(`[APPROVAL] ${signalId} queued for approval until ${new Date(result.expiresAt).toLocaleTimeString()}.`);
+      } else if (response.status === 202) {
+        // Status now follows the signal row, which the Stripe webhook settles
+        setExecuting(prev => { const next = { ...prev }; delete next[signalId]; return next; });
+        addLog(`[PENDING] Payment ${result.transactionId} for ${signalId} awaiting confirmation.`);
+        fetchGuard();
       } else {
         setExecuting(prev => ({ ...prev, [signalId]: 'ERROR' }));
-        addLog(`[ERROR] Checkout failed for ${signalId}: ${result.error}`);
+        addLog(`[ERROR] Checkout failed for ${signalId}: ${result.reason ? `[${result.reason.code}] ${result.reason.message}` : result.error}`);
       }
     } catch (err) {
       setExecuting(prev => ({ ...prev, [signalId]: 'ERROR' }));
@@ -122,14 +304,12 @@ export default function NexusDashboard() {
     try {
       const response = await fetch('/api/nexus/sweep', {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_NEXUS_GOD_MODE_KEY || 'demo-key'}`
-        }
+        headers: await authHeaders()
       });
       
       const result = await response.json();
       if (response.ok) {
-        addLog(`Sweep complete. Found ${result.signalsFound} targets.`);
+        addLog(`Sweep ${result.runStatus}. Found ${result.signalsFound} targets.`);
       } else {
         addLog(`Sweep failed: ${result.error || 'Unknown error'}`);
       }
@@ -154,6 +334,12 @@ export default function NexusDashboard() {
             VOIDLOGIC_NEXUS
           </motion.h1>
           <p className="text-[10px] text-emerald-800 mt-1 uppercase tracking-widest">v2.0 // Ouroboros Protocol</p>
+          {session && (
+            <p className="text-[9px] text-zinc-600 mt-1 uppercase font-bold">
+              <span className="normal-case">{session.email}</span> {'//'} {session.role || 'no role'}{' '}
+              <button onClick={signOut} className="text-zinc-500 hover:text-red-400 transition-colors uppercase">[Sign out]</button>
+            </p>
+          )}
         </div>
         
         <div className="flex items-center gap-3 bg-emerald-950/20 px-3 py-1.5 rounded-full border border-emerald-900/30">
@@ -174,10 +360,8 @@ export default function NexusDashboard() {
           </div>
           
           <button 
-            onClick={() => {
-              setIsGodMode(!isGodMode);
-              addLog(isGodMode ? "God Mode deactivated." : "GOD MODE ACTIVATED. AUTO-BUY ARMED.");
-            }}
+            disabled={!canBuy}
+            onClick={toggleGodMode}
             className={`px-4 py-2 rounded-lg text-[10px] font-black transition-all duration-500 uppercase tracking-tighter ${
               isGodMode 
                 ? 'bg-red-500 text-white shadow-[0_0_20px_rgba(239,68,68,0.4)] border border-red-400' 
@@ -188,9 +372,26 @@ export default function NexusDashboard() {
           </button>
         </div>
 
+        {autopilot && (
+          <div className="mb-4 text-[9px] text-zinc-500 uppercase font-bold space-y-1">
+            <div className="flex flex-wrap gap-3">
+              <span><span className="text-red-400">ROI ≥</span> {autopilot.policy.minRoiPct}%</span>
+              <span><span className="text-red-400">RISK ≤</span> {autopilot.policy.maxRisk}</span>
+              <span><span className="text-red-400">PRICE ≤</span> ${autopilot.policy.maxItemPrice.toLocaleString()}</span>
+              <span><span className="text-red-400">COND ≥</span> {autopilot.policy.minCondition}/5</span>
+              <span><span className="text-red-400">CONF ≥</span> {autopilot.policy.minConfidence}</span>
+              {autopilot.policy.brands.length > 0 && <span><span className="text-red-400">BRANDS:</span> {autopilot.policy.brands.join(', ')}</span>}
+            </div>
+            <div className="flex justify-between">
+              <span>Autopilot today: ${autopilot.spentToday.toLocaleString()} / ${autopilot.policy.dailySpendLimit.toLocaleString()}</span>
+              {autopilot.policy.armedBy && <span className="normal-case text-zinc-600">{isGodMode ? 'armed by' : 'last armed by'} {autopilot.policy.armedBy}</span>}
+            </div>
+          </div>
+        )}
+
         <button 
           onClick={triggerManualSweep}
-          disabled={systemStatus === 'HUNTING'}
+          disabled={systemStatus === 'HUNTING' || !canSweep}
           className="group relative w-full overflow-hidden bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/50 text-emerald-400 font-black py-4 rounded-xl active:scale-[0.98] transition-all duration-200"
         >
           <div className="relative z-10 flex items-center justify-center gap-2">
@@ -208,6 +409,51 @@ export default function NexusDashboard() {
         </button>
       </section>
 
+      {/* GUARDRAILS */}
+      {guard && (
+        <section className={`border rounded-2xl p-4 mb-6 ${guard.controls.killSwitch ? 'bg-red-950/20 border-red-500/40' : 'bg-zinc-900/20 border-white/5'}`}>
+          <div className="flex justify-between items-center mb-3">
+            <div className="flex items-center gap-2">
+              <Power className={`w-4 h-4 ${guard.controls.killSwitch ? 'text-red-500' : 'text-zinc-500'}`} />
+              <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold">Guardrails</h2>
+            </div>
+            <button
+              onClick={toggleKillSwitch}
+              disabled={!canBuy}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-tighter border transition-all ${
+                guard.controls.killSwitch
+                  ? 'bg-red-500 text-white border-red-400 shadow-[0_0_20px_rgba(239,68,68,0.4)]'
+                  : 'bg-zinc-800/50 text-red-400 border-red-900/50 hover:bg-red-950/40'
+              }`}
+            >
+              {guard.controls.killSwitch ? 'Kill Switch: Engaged' : 'Engage Kill Switch'}
+            </button>
+          </div>
+          <div className="space-y-2">
+            {guard.budgets.map(b => {
+              const pct = b.limit > 0 ? Math.min(100, (b.spent / b.limit) * 100) : 100;
+              return (
+                <div key={b.period}>
+                  <div className="flex justify-between text-[9px] uppercase font-bold text-zinc-500 mb-0.5">
+                    <span>{b.period} Budget</span>
+                    <span>${b.spent.toLocaleString()} / ${b.limit.toLocaleString()}</span>
+                  </div>
+                  <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                    <div className={`h-full ${pct >= 90 ? 'bg-red-500' : pct >= 60 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${pct}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-3 mt-3 text-[9px] text-zinc-500 uppercase font-bold">
+            <span><span className="text-emerald-500">MAX ITEM:</span> ${guard.controls.maxItemPrice.toLocaleString()}</span>
+            <span><span className="text-emerald-500">PER BRAND/MO:</span> {guard.controls.maxItemsPerBrand}</span>
+            <span><span className="text-emerald-500">MIN ROI:</span> {guard.controls.minRoiPct}%</span>
+            <span><span className="text-orange-400">APPROVAL:</span> &gt; ${guard.controls.approvalAmount.toLocaleString()} or COND &lt; {guard.controls.approvalMinCondition} · {guard.controls.approvalExpiryMinutes}m</span>
+          </div>
+        </section>
+      )}
+
       {/* TERMINAL LOGS */}
       <section className="mb-6 bg-black/40 border border-emerald-900/20 rounded-xl p-3">
         <div className="flex items-center gap-2 mb-2 text-emerald-900">
@@ -224,6 +470,70 @@ export default function NexusDashboard() {
         </div>
       </section>
 
+      {/* SWEEP RUN LEDGER */}
+      <section className="mb-6 bg-zinc-900/20 border border-white/5 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-zinc-500">
+          <Clock className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Recent Sweep Runs</span>
+        </div>
+        <div className="space-y-1">
+          {runs.map(run => (
+            <div key={run.id} className="flex justify-between text-[10px] leading-tight" title={run.errors?.join('\n')}>
+              <span className="text-zinc-500">
+                {new Date(run.startedAt).toLocaleString()} {'//'} {run.trigger}
+              </span>
+              <span className={
+                run.status === 'SUCCESS' ? 'text-emerald-400'
+                  : run.status === 'PARTIAL' || run.status === 'RUNNING' ? 'text-amber-400'
+                  : run.status === 'SKIPPED' ? 'text-zinc-600'
+                  : 'text-red-400'
+              }>
+                {run.status} {run.status !== 'SKIPPED' && run.status !== 'RUNNING' && `· ${run.signalsFound} sig · ${((run.durationMs ?? 0) / 1000).toFixed(1)}s`}
+              </span>
+            </div>
+          ))}
+          {runs.length === 0 && <div className="text-[10px] text-zinc-700 italic">No sweeps recorded yet.</div>}
+        </div>
+      </section>
+
+      {/* ENDING SOON: watched auctions, valued at their projected closing price */}
+      {endingSoon.some(a => a.endsAt && new Date(a.endsAt).getTime() > now) && (
+        <section className="mb-6 bg-zinc-900/20 border border-amber-500/10 rounded-xl p-3">
+          <div className="flex items-center gap-2 mb-2 text-amber-500/80">
+            <Gavel className="w-3 h-3" />
+            <span className="text-[9px] uppercase font-bold">Auctions Ending Soon</span>
+          </div>
+          <div className="space-y-2">
+            {endingSoon.filter(a => a.endsAt && new Date(a.endsAt).getTime() > now).map(a => {
+              const base = a.baseCurrency || a.currency;
+              const closing = new Date(a.endsAt as string).getTime() - now < 3600000;
+              return (
+                <div key={a.id} className="flex justify-between items-start gap-3 text-[10px] leading-tight">
+                  <div className="min-w-0">
+                    <span className="block text-zinc-300 font-bold truncate">{a.targetName}</span>
+                    <span className="text-zinc-600">
+                      {a.source} {'//'} bid {money(a.listedPrice, a.currency)} · {a.bidCount ?? 0} bids
+                    </span>
+                  </div>
+                  <div className="flex flex-col items-end shrink-0">
+                    <span className={`font-black ${closing ? 'text-red-400' : 'text-amber-400'}`}>{timeLeft(a.endsAt as string, now)}</span>
+                    <span
+                      className="text-zinc-400 font-bold"
+                      title={`Projected close ${a.projectedPrice != null ? money(a.projectedPrice, a.currency) : '?'} (${a.projectionBasis === 'HISTORY' ? 'from watched auctions' : 'default curve'})`}
+                    >
+                      close ≈ {money(a.projectedPriceBase ?? a.listedPriceBase ?? a.listedPrice, base)}
+                    </span>
+                    <span className={a.netProfit > 0 ? 'text-emerald-400 font-bold' : 'text-red-400 font-bold'}>
+                      {a.netProfit > 0 ? '+' : ''}{money(a.netProfit, base)} · {a.roiPct}%
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
       {/* LIVE REAPER FEED */}
       <section>
         <div className="flex items-center justify-between mb-4 border-b border-zinc-900 pb-2">
@@ -264,42 +574,112 @@ export default function NexusDashboard() {
                     <div className="w-3/4">
                       <span className="text-[10px] text-zinc-600 uppercase font-bold block mb-1">{sig.source} {'//'} {sig.id}</span>
                       <h3 className="text-xs font-bold text-zinc-200 leading-tight line-clamp-2">{sig.targetName}</h3>
+                      {sig.attributes && (
+                        <span className="block mt-1 text-[9px] text-zinc-500" title={sig.attributes.flaws.length ? `Flaws: ${sig.attributes.flaws.join(', ')}` : undefined}>
+                          {[sig.attributes.size, sig.attributes.color, sig.attributes.material, sig.attributes.dateCode ?? sig.attributes.year, ...sig.attributes.accessories]
+                            .filter(v => v !== null && v !== '')
+                            .join(' · ')}
+                        </span>
+                      )}
+                      {sig.listingType === 'AUCTION' && sig.endsAt && (
+                        <span className="inline-block mt-1 mr-1 text-[9px] font-bold text-amber-400 bg-amber-950/30 px-1.5 py-0.5 rounded border border-amber-500/20">
+                          Auction · {sig.bidCount ?? 0} bids · {timeLeft(sig.endsAt, now)} left
+                        </span>
+                      )}
+                      {sig.listingType !== 'AUCTION' && (sig.priceDropPct ?? 0) > 0 && (
+                        <span className="inline-block mt-1 text-[9px] font-bold text-amber-400 bg-amber-950/30 px-1.5 py-0.5 rounded border border-amber-500/20">
+                          Price dropped {sig.priceDropPct}% since first seen
+                        </span>
+                      )}
+                      {sig.searchId && (
+                        <span className="inline-block mt-1 mr-1 text-[9px] font-bold text-fuchsia-400 bg-fuchsia-950/30 px-1.5 py-0.5 rounded border border-fuchsia-500/20">
+                          {searchNames[sig.searchId] || 'Saved search'}
+                        </span>
+                      )}
+                      {sig.productGroupId && (
+                        <Link href={`/similar?signalId=${encodeURIComponent(sig.id)}`} className="inline-block mt-1 mr-1 text-[9px] font-bold text-indigo-400 bg-indigo-950/30 px-1.5 py-0.5 rounded border border-indigo-500/20">
+                          Also listed elsewhere
+                        </Link>
+                      )}
+                      {(sig.relistCount ?? 0) > 0 && (
+                        <span className="inline-block mt-1 ml-1 text-[9px] font-bold text-zinc-400 bg-zinc-800/40 px-1.5 py-0.5 rounded border border-zinc-700">
+                          Relisted {sig.relistCount}x
+                        </span>
+                      )}
                     </div>
-                    <div className="flex flex-col items-end">
+                    <div className="flex flex-col items-end gap-1">
                       <span className="text-xs font-black text-emerald-400 bg-emerald-950/40 px-2 py-1 rounded-lg border border-emerald-500/20">
-                        +${sig.profitMargin.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                        +{money(sig.netProfit, sig.baseCurrency || sig.currency)}
+                      </span>
+                      <span className="text-[9px] text-zinc-500 font-bold" title={`Gross spread ${money(sig.profitMargin, sig.baseCurrency || sig.currency)}`}>
+                        NET ROI {sig.roiPct}%
+                      </span>
+                      <span
+                        className="text-[9px] text-zinc-400 font-bold"
+                        title={sig.fxRate && sig.baseCurrency !== sig.currency ? `1 ${sig.baseCurrency} = ${sig.fxRate} ${sig.currency}, rate as of ${sig.fxAsOf ? new Date(sig.fxAsOf).toLocaleString() : 'unknown'}` : undefined}
+                      >
+                        {sig.listingType === 'AUCTION' && 'BID '}{money(sig.listedPrice, sig.currency)}
+                        {sig.baseCurrency && sig.baseCurrency !== sig.currency && sig.listedPriceBase != null && (
+                          <span className="text-zinc-600"> ≈ {money(sig.listedPriceBase, sig.baseCurrency)}</span>
+                        )}
                       </span>
+                      {sig.listingType === 'AUCTION' && sig.projectedPriceBase != null && (
+                        <span className="text-[9px] text-amber-400/80 font-bold" title="Net profit and ROI assume this closing price">
+                          CLOSE ≈ {money(sig.projectedPriceBase, sig.baseCurrency || sig.currency)}
+                        </span>
+                      )}
                     </div>
                   </div>
                   
                   <div className="flex justify-between items-end mt-1">
                     <div className="flex gap-3 text-[9px] text-zinc-500 uppercase font-bold">
-                      <span className="flex items-center gap-1">
+                      <span className="flex items-center gap-1" title={sig.conditionReasons?.join('\n')}>
                         <span className="text-emerald-500">COND:</span> {sig.conditionScore}/5
                       </span>
                       <span className="flex items-center gap-1">
                         <span className="text-emerald-500">STATUS:</span> {sig.status}
                       </span>
+                      <span className="flex items-center gap-1" title={`Estimated value ${money(sig.estimatedValue, sig.baseCurrency || sig.currency)}`}>
+                        <span className="text-emerald-500">VAL:</span>
+                        <span className={
+                          sig.valuationConfidence === 'HIGH' ? 'text-emerald-400'
+                            : sig.valuationConfidence === 'MEDIUM' ? 'text-amber-400'
+                            : 'text-red-400'
+                        }>{sig.valuationConfidence}</span> ({sig.compsUsed} comps)
+                      </span>
+                      <span className="flex items-center gap-1" title={sig.riskReasons?.join('\n')}>
+                        <span className="text-emerald-500">RISK:</span>
+                        <span className={sig.riskScore >= 0.6 ? 'text-red-400' : sig.riskScore >= 0.3 ? 'text-amber-400' : 'text-emerald-400'}>
+                          {sig.riskScore.toFixed(2)}
+                        </span>
+                      </span>
                     </div>
                     <div className="flex gap-2">
+                      <Link href={`/similar?signalId=${encodeURIComponent(sig.id)}`} title="More like this" className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-indigo-400 transition-colors">
+                        <Layers className="w-3 h-3" />
+                      </Link>
                       <button className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-zinc-300 transition-colors">
                         <ExternalLink className="w-3 h-3" />
                       </button>
                       <button 
                         onClick={() => executeTarget(sig.id, sig.listedPrice)}
-                        disabled={sig.status === 'EXECUTED' || executing[sig.id] === 'LOADING' || executing[sig.id] === 'SUCCESS'}
+                        disabled={!canBuy || sig.listingType === 'AUCTION' || sig.status !== 'PENDING' || executing[sig.id] === 'LOADING' || executing[sig.id] === 'SUCCESS'}
                         className={`border text-[10px] font-black px-4 py-1.5 rounded-lg transition-all uppercase tracking-tighter flex items-center gap-1 ${
-                          sig.status === 'EXECUTED' || executing[sig.id] === 'SUCCESS'
+                          sig.listingType === 'AUCTION' || sig.status !== 'PENDING' || executing[sig.id] === 'SUCCESS'
                             ? 'bg-zinc-800/50 border-zinc-700 text-zinc-500 cursor-not-allowed'
                             : executing[sig.id] === 'ERROR'
                             ? 'bg-red-500/10 border-red-500/30 text-red-400 hover:bg-red-500/20'
                             : 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/20 active:scale-95'
                         }`}
                       >
-                        {executing[sig.id] === 'LOADING' ? (
+                        {executing[sig.id] === 'LOADING' || sig.status === 'EXECUTING' ? (
                           <><Zap className="w-3 h-3 animate-spin" /> Executing...</>
                         ) : executing[sig.id] === 'SUCCESS' || sig.status === 'EXECUTED' ? (
                           'Acquired'
+                        ) : sig.status !== 'PENDING' ? (
+                          sig.status
+                        ) : sig.listingType === 'AUCTION' ? (
+                          'Auction'
                         ) : executing[sig.id] === 'ERROR' ? (
                           'Retry'
                         ) : (
@@ -320,6 +700,14 @@ export default function NexusDashboard() {
         <h3 className="text-[9px] text-zinc-700 mb-4 uppercase tracking-[0.3em] font-black">Nexus Routing Links</h3>
         <div className="flex justify-center gap-6 text-[10px] font-bold uppercase tracking-tighter">
           <Link href="/proxies" className="text-cyan-500 hover:text-cyan-400 transition-colors drop-shadow-[0_0_8px_rgba(34,211,238,0.5)]">Proxy Fleet CMD</Link>
+          <Link href="/analytics" className="text-sky-500 hover:text-sky-400 transition-colors drop-shadow-[0_0_8px_rgba(56,189,248,0.5)]">Analytics</Link>
+          <Link href="/inventory" className="text-amber-500 hover:text-amber-400 transition-colors drop-shadow-[0_0_8px_rgba(251,191,36,0.5)]">Inventory</Link>
+          <Link href="/searches" className="text-fuchsia-500 hover:text-fuchsia-400 transition-colors drop-shadow-[0_0_8px_rgba(232,121,249,0.5)]">Searches</Link>
+          <Link href="/alerts" className="text-rose-500 hover:text-rose-400 transition-colors drop-shadow-[0_0_8px_rgba(251,113,133,0.5)]">Alerts</Link>
+          <Link href="/approvals" className="text-orange-500 hover:text-orange-400 transition-colors drop-shadow-[0_0_8px_rgba(251,146,60,0.5)]">Approvals</Link>
+          <Link href="/similar" className="text-indigo-500 hover:text-indigo-400 transition-colors drop-shadow-[0_0_8px_rgba(129,140,248,0.5)]">Similar</Link>
+          <Link href="/audit" className="text-teal-500 hover:text-teal-400 transition-colors drop-shadow-[0_0_8px_rgba(45,212,191,0.5)]">Audit</Link>
+          <Link href="/brands" className="text-violet-500 hover:text-violet-400 transition-colors drop-shadow-[0_0_8px_rgba(167,139,250,0.5)]">Brand Catalog</Link>
           <a href="https://supabase.com/dashboard" target="_blank" rel="noopener noreferrer" className="text-zinc-500 hover:text-emerald-500 transition-colors">Supabase</a>
           <a href="https://vercel.com/dashboard" target="_blank" rel="noopener noreferrer" className="text-zinc-500 hover:text-emerald-500 transition-colors">Vercel</a>
           <a href="https://www.salvagereseller.com/" target="_blank" rel="noopener noreferrer" className="text-zinc-500 hover:text-emerald-500 transition-colors">Salvage</a>
@@ -1,23 +1,15 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { createClient } from '@supabase/supabase-js';
 import { motion, AnimatePresence } from 'motion/react';
 import { Shield, Zap, Target, Terminal, Server, Activity, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
+import { authHeaders, getBrowserSupabase, useNexusSession } from '@/lib/auth-client';
 
 // ==========================================
 // VOIDLOGIC NEXUS: PROXY FLEET COMMANDER UI
 // ==========================================
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-
-const getSupabase = () => {
-  if (!supabaseUrl || !supabaseKey) return null;
-  return createClient(supabaseUrl, supabaseKey);
-};
-
 interface ProxyNode {
   id: string;
   ip: string;
@@ -30,6 +22,7 @@ interface ProxyNode {
 }
 
 export default function ProxyCommanderDashboard() {
+  useNexusSession();
   const [proxies, setProxies] = useState<ProxyNode[]>([]);
   const [systemStatus, setSystemStatus] = useState<'IDLE' | 'SYNCING' | 'OFFLINE'>('IDLE');
   const [logs, setLogs] = useState<string[]>([]);
@@ -39,7 +32,7 @@ export default function ProxyCommanderDashboard() {
   };
 
   useEffect(() => {
-    const supabase = getSupabase();
+    const supabase = getBrowserSupabase();
     if (!supabase) {
       addLog("ERROR: Supabase credentials missing.");
       setSystemStatus('OFFLINE');
@@ -93,9 +86,7 @@ export default function ProxyCommanderDashboard() {
     try {
       const response = await fetch('/api/proxies/sync', {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_NEXUS_GOD_MODE_KEY || 'demo-key'}`
-        }
+        headers: await authHeaders()
       });
       
       const result = await response.json();
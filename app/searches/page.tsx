@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Search, Terminal, ArrowLeft, Plus, Trash2, Pencil, Pause, Play, Zap, Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { authHeaders, useNexusSession } from '@/lib/auth-client';
+import type { SavedSearch } from '@/lib/saved-searches';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SAVED SEARCHES UI
+// ==========================================
+
+interface SearchForm {
+  id: string | null; // null while creating
+  name: string;
+  keywords: string;
+  brands: string;
+  categories: string;
+  minPrice: string;
+  maxPrice: string;
+  minCondition: number;
+  minRoiPct: string;
+  sources: string;
+  cron: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: SearchForm = {
+  id: null, name: '', keywords: '', brands: '', categories: '', minPrice: '', maxPrice: '',
+  minCondition: 1, minRoiPct: '', sources: '', cron: '', enabled: true
+};
+
+const splitList = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const toPayload = (form: SearchForm) => ({
+  name: form.name,
+  keywords: form.keywords,
+  brands: splitList(form.brands),
+  categories: splitList(form.categories),
+  minPrice: form.minPrice,
+  maxPrice: form.maxPrice,
+  minCondition: form.minCondition,
+  minRoiPct: form.minRoiPct,
+  sources: splitList(form.sources),
+  cron: form.cron,
+  enabled: form.enabled
+});
+
+const fromSearch = (search: SavedSearch): SearchForm => ({
+  id: search.id,
+  name: search.name,
+  keywords: search.keywords,
+  brands: search.brands.join(', '),
+  categories: search.categories.join(', '),
+  minPrice: search.minPrice !== null ? String(search.minPrice) : '',
+  maxPrice: search.maxPrice !== null ? String(search.maxPrice) : '',
+  minCondition: search.minCondition,
+  minRoiPct: search.minRoiPct !== null ? String(search.minRoiPct) : '',
+  sources: search.sources.join(', '),
+  cron: search.cron || '',
+  enabled: search.enabled
+});
+
+export default function SavedSearchesDashboard() {
+  useNexusSession();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [form, setForm] = useState<SearchForm>(EMPTY_FORM);
+  const [busy, setBusy] = useState(false);
+  const [running, setRunning] = useState<string | null>(null);
+  const [logs, setLogs] = useState<string[]>([]);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
+  };
+
+  const fetchSearches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/nexus/searches', { headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        setSearches(result.searches || []);
+      } else {
+        addLog(`FETCH_ERROR: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Search fetch error. Check connection.");
+    }
+  }, []);
+
+  useEffect(() => { fetchSearches(); }, [fetchSearches]);
+
+  const putSearch = async (id: string, payload: ReturnType<typeof toPayload>) => {
+    const response = await fetch(`/api/nexus/searches/${id}`, { method: 'PUT', headers: await authHeaders(), body: JSON.stringify(payload) });
+    return { response, result: await response.json() };
+  };
+
+  const saveSearch = async () => {
+    setBusy(true);
+    const payload = toPayload(form);
+
+    try {
+      const { response, result } = form.id
+        ? await putSearch(form.id, payload)
+        : await fetch('/api/nexus/searches', { method: 'POST', headers: await authHeaders(), body: JSON.stringify(payload) })
+            .then(async response => ({ response, result: await response.json() }));
+      if (response.ok) {
+        addLog(`${form.id ? 'Updated' : 'Created'} '${payload.name}'.`);
+        setForm(EMPTY_FORM);
+        await fetchSearches();
+      } else {
+        addLog(`Save failed: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Save error. Check connection.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const togglePause = async (search: SavedSearch) => {
+    setBusy(true);
+    try {
+      const { response, result } = await putSearch(search.id, toPayload({ ...fromSearch(search), enabled: !search.enabled }));
+      if (response.ok) {
+        addLog(`${search.enabled ? 'Paused' : 'Resumed'} '${search.name}'.`);
+        setSearches(current => current.map(s => s.id === search.id ? result.search : s));
+      } else {
+        addLog(`Update failed: ${result.details || result.error}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteSearch = async (search: SavedSearch) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/nexus/searches/${search.id}`, { method: 'DELETE', headers: await authHeaders() });
+      const result = await response.json();
+      if (response.ok) {
+        addLog(`Removed '${search.name}'.`);
+        setSearches(current => current.filter(s => s.id !== search.id));
+      } else {
+        addLog(`Delete failed: ${result.details || result.error}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Runs one search immediately under the shared sweep lease, paused or not
+  const runNow = async (search: SavedSearch) => {
+    setRunning(search.id);
+    addLog(`Sweeping '${search.name}'...`);
+    try {
+      const response = await fetch('/api/nexus/sweep', { method: 'POST', headers: await authHeaders(), body: JSON.stringify({ searchId: search.id }) });
+      const result = await response.json();
+      if (response.ok) {
+        addLog(`'${search.name}': ${result.signalsFound} signals in ${result.executionTimeMs}ms.`);
+        await fetchSearches();
+      } else {
+        addLog(`Sweep failed: ${result.details || result.error}`);
+      }
+    } catch (err) {
+      addLog("Sweep error. Check connection.");
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const inputClass = "w-full bg-black/40 border border-fuchsia-900/40 rounded-lg px-3 py-2 text-xs text-zinc-200 placeholder:text-zinc-700 focus:outline-none focus:border-fuchsia-500/60";
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-fuchsia-500 font-mono p-4 selection:bg-fuchsia-900/30 overflow-x-hidden">
+
+      {/* HEADER */}
+      <header className="flex justify-between items-center border-b border-fuchsia-900/50 pb-4 mb-6">
+        <div>
+          <Link href="/" className="flex items-center gap-2 text-zinc-500 hover:text-fuchsia-400 transition-colors mb-2 text-[10px] uppercase font-bold">
+            <ArrowLeft className="w-3 h-3" /> Back to Nexus Core
+          </Link>
+          <motion.h1
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-2xl font-bold tracking-tighter text-fuchsia-400 drop-shadow-[0_0_12px_rgba(232,121,249,0.4)]"
+          >
+            SAVED_SEARCHES
+          </motion.h1>
+          <p className="text-[10px] text-fuchsia-800 mt-1 uppercase tracking-widest">v1.0 // Watchlists &amp; Thresholds</p>
+        </div>
+        <div className="flex items-center gap-3 bg-fuchsia-950/20 px-3 py-1.5 rounded-full border border-fuchsia-900/30">
+          <span className="text-[10px] font-bold tracking-tighter">{searches.filter(s => s.enabled).length}/{searches.length} ACTIVE</span>
+        </div>
+      </header>
+
+      {/* EDITOR */}
+      <section className="bg-zinc-900/30 backdrop-blur-xl border border-white/5 rounded-2xl p-5 mb-6 shadow-2xl space-y-3">
+        <div className="flex items-center gap-2 mb-2">
+          <Search className="w-4 h-4 text-zinc-500" />
+          <h2 className="text-xs uppercase tracking-widest text-zinc-500 font-bold">{form.id ? `Edit ${form.name}` : 'New Search'}</h2>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <input className={inputClass} placeholder="Name (e.g. Chanel flaps under 3k)" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          <input className={inputClass} placeholder="Keywords (e.g. chanel classic flap)" value={form.keywords} onChange={e => setForm({ ...form, keywords: e.target.value })} />
+        </div>
+        <input className={inputClass} placeholder="Brands, comma separated (empty = any catalog brand)" value={form.brands} onChange={e => setForm({ ...form, brands: e.target.value })} />
+        <div className="grid grid-cols-2 gap-2">
+          <input className={inputClass} placeholder="Category IDs, comma separated (169291)" value={form.categories} onChange={e => setForm({ ...form, categories: e.target.value })} />
+          <input className={inputClass} placeholder="Sources, comma separated (empty = all)" value={form.sources} onChange={e => setForm({ ...form, sources: e.target.value })} />
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          <input className={inputClass} type="number" min="0" placeholder="Min $" value={form.minPrice} onChange={e => setForm({ ...form, minPrice: e.target.value })} />
+          <input className={inputClass} type="number" min="0" placeholder="Max $" value={form.maxPrice} onChange={e => setForm({ ...form, maxPrice: e.target.value })} />
+          <select className={inputClass} value={form.minCondition} onChange={e => setForm({ ...form, minCondition: Number(e.target.value) })}>
+            {[1, 2, 3, 4, 5].map(grade => <option key={grade} value={grade}>COND ≥ {grade}</option>)}
+          </select>
+          <input className={inputClass} type="number" placeholder="Min ROI % (default)" value={form.minRoiPct} onChange={e => setForm({ ...form, minRoiPct: e.target.value })} />
+        </div>
+        <input className={inputClass} placeholder="Cron schedule (e.g. */30 * * * *; empty = on demand only)" value={form.cron} onChange={e => setForm({ ...form, cron: e.target.value })} />
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase font-bold">
+            <input type="checkbox" checked={form.enabled} onChange={e => setForm({ ...form, enabled: e.target.checked })} /> Enabled
+          </label>
+          <div className="flex gap-2">
+            {form.id && (
+              <button onClick={() => setForm(EMPTY_FORM)} className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-zinc-800/50 text-zinc-500 border border-zinc-700">
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={saveSearch}
+              disabled={busy || !form.name.trim() || !form.keywords.trim()}
+              className="px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-fuchsia-500/10 border border-fuchsia-500/50 text-fuchsia-400 hover:bg-fuchsia-500/20 disabled:opacity-40 flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> {form.id ? 'Save' : 'Create'}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {/* TERMINAL LOGS */}
+      <section className="mb-6 bg-black/40 border border-fuchsia-900/20 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-fuchsia-900">
+          <Terminal className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Search Telemetry</span>
+        </div>
+        <div className="space-y-1">
+          {logs.map((log, i) => (
+            <div key={i} className="text-[10px] text-fuchsia-700/80 leading-tight">{log}</div>
+          ))}
+          {logs.length === 0 && <div className="text-[10px] text-fuchsia-900/50 italic">Awaiting search events...</div>}
+        </div>
+      </section>
+
+      {/* SEARCH LIST */}
+      <section>
+        <div className="space-y-3">
+          <AnimatePresence mode="popLayout">
+            {searches.length === 0 ? (
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-center text-zinc-800 text-xs py-10 uppercase tracking-widest opacity-50">
+                No saved searches. Sweeps use each source&apos;s default query.
+              </motion.div>
+            ) : (
+              searches.map((search) => (
+                <motion.div
+                  layout
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                  key={search.id}
+                  className="bg-zinc-900/20 border border-white/5 p-3 rounded-xl flex flex-col gap-2"
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <span className="text-[10px] text-zinc-600 uppercase font-bold block mb-0.5">
+                        {search.enabled ? (search.cron || 'ON DEMAND') : 'PAUSED'} {'//'} {search.lastRunAt ? `last run ${new Date(search.lastRunAt).toLocaleString()}` : 'never run'}
+                      </span>
+                      <h3 className={`text-xs font-bold ${search.enabled ? 'text-zinc-200' : 'text-zinc-600'}`}>{search.name}</h3>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={() => runNow(search)} disabled={running !== null} title="Run now" className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-fuchsia-400 transition-colors disabled:opacity-40">
+                        {running === search.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Zap className="w-3 h-3" />}
+                      </button>
+                      <button onClick={() => togglePause(search)} disabled={busy} title={search.enabled ? 'Pause' : 'Resume'} className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-fuchsia-400 transition-colors">
+                        {search.enabled ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                      </button>
+                      <button onClick={() => setForm(fromSearch(search))} className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-fuchsia-400 transition-colors">
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => deleteSearch(search)} disabled={busy} className="p-2 rounded-lg border border-zinc-800 text-zinc-500 hover:text-red-400 transition-colors">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="text-[9px] text-zinc-500 uppercase font-bold space-y-0.5">
+                    <div><span className="text-fuchsia-500">QUERY:</span> {search.keywords}</div>
+                    {search.brands.length > 0 && <div><span className="text-fuchsia-500">BRANDS:</span> {search.brands.join(', ')}</div>}
+                    <div className="flex flex-wrap gap-3">
+                      {(search.minPrice !== null || search.maxPrice !== null) && (
+                        <span><span className="text-fuchsia-500">PRICE:</span> ${search.minPrice ?? 0} – {search.maxPrice !== null ? `$${search.maxPrice}` : '∞'}</span>
+                      )}
+                      <span><span className="text-fuchsia-500">COND:</span> ≥{search.minCondition}/5</span>
+                      <span><span className="text-fuchsia-500">ROI:</span> {search.minRoiPct !== null ? `≥${search.minRoiPct}%` : 'DEFAULT'}</span>
+                      <span><span className="text-fuchsia-500">SOURCES:</span> {search.sources.length ? search.sources.join(', ') : 'ALL'}</span>
+                      {search.categories.length > 0 && <span><span className="text-fuchsia-500">CATEGORIES:</span> {search.categories.join(', ')}</span>}
+                    </div>
+                  </div>
+                </motion.div>
+              ))
+            )}
+          </AnimatePresence>
+        </div>
+      </section>
+    </div>
+  );
+}
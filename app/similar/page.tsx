@@ -0,0 +1,178 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Layers, Terminal, ArrowLeft, Search, ExternalLink } from 'lucide-react';
+import Link from 'next/link';
+import { authHeaders } from '@/lib/auth-client';
+import type { SimilarityResult, SimilarSignal } from '@/lib/semantic-matcher';
+
+// ==========================================
+// VOIDLOGIC NEXUS: MORE LIKE THIS UI
+// ==========================================
+
+const money = (n: number, currency = 'USD') => Number(n).toLocaleString(undefined, { style: 'currency', currency });
+
+const pct = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+export default function SimilarListings() {
+  const [text, setText] = useState('');
+  const [brand, setBrand] = useState('');
+  const [result, setResult] = useState<SimilarityResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [logs, setLogs] = useState<string[]>([]);
+
+  const addLog = (msg: string) => {
+    setLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 5));
+  };
+
+  const runQuery = useCallback(async (params: Record<string, string>) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/nexus/similar?${new URLSearchParams(params)}`, { headers: await authHeaders() });
+      const data = await response.json();
+      if (response.ok) {
+        setResult(data);
+        addLog(`${data.signals.length} similar listings, ${data.comps.length} sold comps (${data.model}).`);
+      } else {
+        addLog(`QUERY_ERROR: ${data.details || data.error}`);
+      }
+    } catch (err) {
+      addLog("Similarity search failed. Check connection.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Opened from a signal card as /similar?signalId=...
+  useEffect(() => {
+    const signalId = new URLSearchParams(window.location.search).get('signalId');
+    if (signalId) runQuery({ signalId });
+  }, [runQuery]);
+
+  const search = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    window.history.replaceState(null, '', '/similar');
+    runQuery(brand.trim() ? { q: text.trim(), brand: brand.trim() } : { q: text.trim() });
+  };
+
+  const inputClass = "w-full bg-black/40 border border-indigo-900/40 rounded-lg px-3 py-2 text-xs text-zinc-200 placeholder:text-zinc-700 focus:outline-none focus:border-indigo-500/60";
+
+  const signalRow = (s: SimilarSignal) => (
+    <motion.div
+      layout
+      key={s.id}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="bg-zinc-900/20 border border-white/5 rounded-xl p-3 flex justify-between items-start gap-3"
+    >
+      <div className="min-w-0">
+        <span className="text-[10px] text-zinc-600 uppercase font-bold block mb-1">{s.source} {'//'} {s.id}</span>
+        <h3 className="text-xs font-bold text-zinc-200 leading-tight line-clamp-2">{s.targetName}</h3>
+        <div className="flex gap-3 mt-1 text-[9px] text-zinc-500 uppercase font-bold">
+          <span><span className="text-indigo-500">COND:</span> {s.conditionScore}/5</span>
+          <span><span className="text-indigo-500">ROI:</span> {s.roiPct}%</span>
+          <span><span className="text-indigo-500">STATUS:</span> {s.status}</span>
+          <button onClick={() => runQuery({ signalId: s.id })} className="text-zinc-400 hover:text-indigo-400 uppercase">[More like this]</button>
+        </div>
+      </div>
+      <div className="text-right shrink-0 text-[9px] uppercase font-bold">
+        <div className="text-sm font-black text-indigo-400">{money(s.listedPrice, s.currency)}</div>
+        <div className="text-zinc-500">{pct(s.similarity)} match</div>
+        <a href={s.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-zinc-500 hover:text-indigo-400">
+          <ExternalLink className="w-3 h-3" /> Listing
+        </a>
+      </div>
+    </motion.div>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-indigo-500 font-mono p-4 selection:bg-indigo-900/30 overflow-x-hidden">
+
+      {/* HEADER */}
+      <header className="flex justify-between items-center border-b border-indigo-900/50 pb-4 mb-6">
+        <div>
+          <Link href="/" className="flex items-center gap-2 text-zinc-500 hover:text-indigo-400 transition-colors mb-2 text-[10px] uppercase font-bold">
+            <ArrowLeft className="w-3 h-3" /> Back to Nexus Core
+          </Link>
+          <motion.h1
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-2xl font-bold tracking-tighter text-indigo-400 drop-shadow-[0_0_12px_rgba(129,140,248,0.4)]"
+          >
+            MORE_LIKE_THIS
+          </motion.h1>
+          <p className="text-[10px] text-indigo-800 mt-1 uppercase tracking-widest">v1.0 // Semantic matching</p>
+        </div>
+        <div className="flex items-center gap-2 bg-indigo-950/20 px-3 py-1.5 rounded-full border border-indigo-900/30 text-[10px] font-bold tracking-tighter">
+          <Layers className="w-3 h-3" /> {result?.model ?? 'IDLE'}
+        </div>
+      </header>
+
+      {/* QUERY */}
+      <form onSubmit={search} className="flex gap-2 mb-6">
+        <input className={inputClass} placeholder="Describe the item, e.g. speedy 30 monogram" value={text} onChange={e => setText(e.target.value)} />
+        <input className={`${inputClass} w-40`} placeholder="Brand (optional)" value={brand} onChange={e => setBrand(e.target.value)} />
+        <button type="submit" disabled={loading || !text.trim()} className="flex items-center gap-1 px-4 rounded-lg text-[10px] font-black uppercase bg-indigo-500/10 border border-indigo-500/50 text-indigo-400 hover:bg-indigo-500/20 disabled:opacity-40">
+          <Search className="w-3 h-3" /> {loading ? 'Searching' : 'Search'}
+        </button>
+      </form>
+
+      {/* TERMINAL LOGS */}
+      <section className="mb-6 bg-black/40 border border-indigo-900/20 rounded-xl p-3">
+        <div className="flex items-center gap-2 mb-2 text-indigo-900">
+          <Terminal className="w-3 h-3" />
+          <span className="text-[9px] uppercase font-bold">Matcher Telemetry</span>
+        </div>
+        <div className="space-y-1">
+          {logs.map((log, i) => (
+            <div key={i} className="text-[10px] text-indigo-700/80 leading-tight">{log}</div>
+          ))}
+          {logs.length === 0 && <div className="text-[10px] text-indigo-900/50 italic">Search by text, or open a signal&apos;s MORE LIKE THIS from the core.</div>}
+        </div>
+      </section>
+
+      {result?.anchor && (
+        <section className="mb-6 text-[10px] uppercase font-bold text-zinc-500">
+          Like <span className="text-zinc-200 normal-case">{result.anchor.targetName}</span> {'//'} {result.anchor.brandCategory}
+        </section>
+      )}
+
+      {/* SAME PRODUCT */}
+      {result && result.group.length > 0 && (
+        <section className="mb-6 space-y-2">
+          <h2 className="text-[10px] text-indigo-600 uppercase font-black tracking-widest">Same product, other listings ({result.group.length})</h2>
+          <AnimatePresence mode="popLayout">{result.group.map(signalRow)}</AnimatePresence>
+        </section>
+      )}
+
+      {/* SIMILAR LISTINGS */}
+      {result && (
+        <section className="mb-6 space-y-2">
+          <h2 className="text-[10px] text-indigo-600 uppercase font-black tracking-widest">Similar listings ({result.signals.length})</h2>
+          {result.signals.length === 0 && <div className="text-center text-zinc-800 text-xs py-6 uppercase tracking-widest opacity-50">No close matches.</div>}
+          <AnimatePresence mode="popLayout">{result.signals.map(signalRow)}</AnimatePresence>
+        </section>
+      )}
+
+      {/* NEAREST SOLD COMPS */}
+      {result && result.comps.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-[10px] text-indigo-600 uppercase font-black tracking-widest">Nearest sold comps ({result.comps.length})</h2>
+          <div className="bg-zinc-900/20 border border-white/5 rounded-xl divide-y divide-white/5">
+            {result.comps.map(c => (
+              <div key={c.id} className="flex justify-between gap-3 p-2 text-[10px]">
+                <span className="text-zinc-300 truncate">{c.title}</span>
+                <span className="shrink-0 text-zinc-500 uppercase font-bold">
+                  COND {c.conditionScore}/5 · {new Date(c.soldAt).toLocaleDateString()} · <span className="text-indigo-400">{money(c.soldPrice, c.currency || 'USD')}</span> · {pct(c.similarity)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
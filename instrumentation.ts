@@ -0,0 +1,12 @@
+// ==========================================
+// VOIDLOGIC NEXUS: SERVER BOOT HOOK
+// ==========================================
+
+// Next.js calls register() once per server process. Under `next start` this boots the
+// autonomous sweep scheduler; serverless deployments leave NEXUS_SCHEDULER_ENABLED unset.
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.NEXUS_SCHEDULER_ENABLED === 'true') {
+        const { NexusScheduler } = await import('./lib/sweep-scheduler');
+        NexusScheduler.start();
+    }
+}
@@ -0,0 +1,323 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { randomBytes, randomUUID } from 'node:crypto';
+import type { MarketSignal } from './nexus-engine';
+import { normalizeText } from './brand-catalog';
+import {
+    createDefaultChannels, isEmailAddress, isBlockedWebhookHost,
+    type AlertChannel, type AlertChannelType, type AlertDestination, type AlertPayload, type DeliveryResult, type PushKeys
+} from './alerts';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ALERT RULES & DELIVERY
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Alerting offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const MAX_ATTEMPTS = Number(process.env.NEXUS_ALERT_MAX_ATTEMPTS) || 5;
+const RETRY_BASE_MS = 60 * 1000; // 1m, 2m, 4m, 8m...
+const RETRY_BATCH = 50;
+
+export const ALERT_CHANNELS: AlertChannelType[] = ['WEBHOOK', 'EMAIL', 'WEB_PUSH'];
+
+export interface AlertRule {
+    id: string;
+    owner: string;               // Operator the rule belongs to; Web Push goes to their subscribed browsers
+    name: string;
+    enabled: boolean;
+    minRoiPct: number | null;
+    maxRisk: number | null;
+    minNetProfit: number | null;
+    brands: string[];            // Empty = any brand
+    sources: string[];           // Source labels or adapter IDs; empty = any
+    searchIds: string[];         // Saved searches; empty = any signal
+    channel: AlertChannelType;
+    target: string | null;       // Webhook URL or email address; unused for Web Push
+    secret: string | null;       // Webhook HMAC key, generated when omitted
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id'>;
+
+export type DeliveryStatus = 'PENDING' | 'RETRYING' | 'DELIVERED' | 'FAILED';
+
+export interface AlertDelivery {
+    id: string;
+    ruleId: string;
+    signalId: string | null;     // Null for test sends
+    channel: AlertChannelType;
+    destination: string;
+    status: DeliveryStatus;
+    attempts: number;
+    lastError: string | null;
+    payload: AlertPayload;
+    nextAttemptAt: string | null;
+    createdAt: string;
+    deliveredAt: string | null;
+}
+
+export interface PushSubscriptionRow {
+    endpoint: string;
+    owner: string;
+    keys: PushKeys;
+}
+
+const list = (v: unknown) => Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(s => s.trim()) : [];
+
+const optionalNumber = (value: unknown, field: string): number | null => {
+    if (value === undefined || value === null || value === '') return null;
+    const n = Number(value);
+    if (!Number.isFinite(n)) throw new Error(`${field} must be a number.`);
+    return n;
+};
+
+// Validates and fills an alert rule from untrusted input (used by the CRUD routes)
+export const parseAlertRule = (input: any): AlertRuleInput => {
+    const owner = typeof input?.owner === 'string' ? input.owner.trim() : '';
+    if (!owner) throw new Error('Rule owner is required.');
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    if (!name) throw new Error('Rule name is required.');
+
+    const channel = String(input?.channel || '').toUpperCase() as AlertChannelType;
+    if (!ALERT_CHANNELS.includes(channel)) throw new Error(`channel must be one of ${ALERT_CHANNELS.join(', ')}.`);
+
+    const target = typeof input?.target === 'string' && input.target.trim() ? input.target.trim() : null;
+    if (channel === 'WEBHOOK') {
+        let url: URL;
+        try {
+            url = new URL(target || '');
+        } catch {
+            throw new Error('Webhook rules need a valid target URL.');
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('Webhook target must be http(s).');
+        if (isBlockedWebhookHost(url.hostname)) throw new Error('Webhook target must be a public address.');
+    }
+    if (channel === 'EMAIL' && (!target || !isEmailAddress(target))) throw new Error('Email rules need a valid target address.');
+
+    const maxRisk = optionalNumber(input?.maxRisk, 'maxRisk');
+    if (maxRisk !== null && (maxRisk < 0 || maxRisk > 1)) throw new Error('maxRisk must be between 0 and 1.');
+
+    return {
+        owner,
+        name,
+        enabled: input?.enabled !== false,
+        minRoiPct: optionalNumber(input?.minRoiPct, 'minRoiPct'),
+        maxRisk,
+        minNetProfit: optionalNumber(input?.minNetProfit, 'minNetProfit'),
+        brands: list(input?.brands),
+        sources: list(input?.sources),
+        searchIds: list(input?.searchIds),
+        channel,
+        target: channel === 'WEB_PUSH' ? null : target,
+        secret: channel === 'WEBHOOK'
+            ? (typeof input?.secret === 'string' && input.secret ? input.secret : randomBytes(24).toString('hex'))
+            : null
+    };
+};
+
+// e.g. "net ROI > 50% and risk < 0.2 on Hermès"
+export const matchesRule = (signal: MarketSignal, rule: AlertRule): boolean => {
+    if (rule.minRoiPct !== null && Number(signal.roiPct) < Number(rule.minRoiPct)) return false;
+    if (rule.maxRisk !== null && Number(signal.riskScore) > Number(rule.maxRisk)) return false;
+    if (rule.minNetProfit !== null && Number(signal.netProfit) < Number(rule.minNetProfit)) return false;
+    if (rule.brands.length && !rule.brands.some(b => normalizeText(b) === normalizeText(signal.brandCategory))) return false;
+    if (rule.sources.length && !rule.sources.some(s => s.toLowerCase() === signal.source.toLowerCase() || signal.id.startsWith(`${s.toUpperCase()}-`))) return false;
+    if (rule.searchIds.length && (!signal.searchId || !rule.searchIds.includes(signal.searchId))) return false;
+    return true;
+};
+
+const toPayload = (deliveryId: string, rule: AlertRule, signal: MarketSignal, event: AlertPayload['event'] = 'signal.matched'): AlertPayload => ({
+    event,
+    deliveryId,
+    rule: { id: rule.id, name: rule.name },
+    signal: {
+        id: signal.id,
+        source: signal.source,
+        targetName: signal.targetName,
+        brandCategory: signal.brandCategory,
+        conditionScore: signal.conditionScore,
+        listedPrice: Number(signal.listedPrice),
+        currency: signal.currency,
+        listedPriceBase: Number(signal.listedPriceBase ?? signal.listedPrice),
+        baseCurrency: signal.baseCurrency || signal.currency,
+        listingType: signal.listingType ?? 'FIXED_PRICE',
+        projectedPriceBase: signal.projectedPriceBase ?? null,
+        endsAt: signal.endsAt ?? null,
+        estimatedValue: Number(signal.estimatedValue),
+        netProfit: Number(signal.netProfit),
+        roiPct: Number(signal.roiPct),
+        riskScore: Number(signal.riskScore),
+        url: signal.url
+    },
+    sentAt: new Date().toISOString()
+});
+
+export class AlertDispatcher {
+    constructor(
+        private supabase: SupabaseClient = getSupabase(),
+        private channels: Record<AlertChannelType, AlertChannel> = createDefaultChannels()
+    ) {}
+
+    // 1. MATCHING: called after every sweep. Each (rule, signal, destination) is delivered at most once,
+    //    so re-seen listings stay quiet until something new makes them match.
+    public async dispatch(signals: MarketSignal[]): Promise<number> {
+        if (signals.length === 0) return 0;
+        const rules = await this.loadRules();
+        if (rules.length === 0) return 0;
+
+        const fresh: { delivery: AlertDelivery; rule: AlertRule }[] = [];
+        for (const rule of rules) {
+            const matched = signals.filter(s => matchesRule(s, rule));
+            if (matched.length === 0) continue;
+
+            const destinations = await this.destinationsFor(rule);
+            const rows = matched.flatMap(signal => destinations.map(destination => {
+                const id = randomUUID();
+                return {
+                    id,
+                    ruleId: rule.id,
+                    signalId: signal.id,
+                    channel: rule.channel,
+                    destination: destination.address,
+                    status: 'PENDING' as DeliveryStatus,
+                    attempts: 0,
+                    payload: toPayload(id, rule, signal),
+                    nextAttemptAt: new Date().toISOString()
+                };
+            }));
+            if (rows.length === 0) continue;
+
+            // ON CONFLICT DO NOTHING returns only the rows that are new
+            const { data, error } = await this.supabase
+                .from('nexus_alert_deliveries')
+                .upsert(rows, { onConflict: 'ruleId,signalId,destination', ignoreDuplicates: true })
+                .select();
+            if (error) throw new Error(`Delivery enqueue failed: ${error.message}`);
+            for (const delivery of (data || []) as AlertDelivery[]) fresh.push({ delivery, rule });
+        }
+
+        for (const { delivery, rule } of fresh) await this.attempt(delivery, rule);
+        return fresh.length;
+    }
+
+    // 2. TEST SEND: pushes a sample through the rule's real destinations and logs it like any delivery
+    public async sendTest(rule: AlertRule, sample: MarketSignal): Promise<AlertDelivery[]> {
+        const destinations = await this.destinationsFor(rule);
+        if (destinations.length === 0) throw new Error(rule.channel === 'WEB_PUSH' ? `No browsers subscribed for ${rule.owner}.` : 'Rule has no destination.');
+
+        const results: AlertDelivery[] = [];
+        for (const destination of destinations) {
+            const id = randomUUID();
+            const { data, error } = await this.supabase.from('nexus_alert_deliveries').insert({
+                id,
+                ruleId: rule.id,
+                signalId: null,
+                channel: rule.channel,
+                destination: destination.address,
+                status: 'PENDING',
+                attempts: 0,
+                payload: toPayload(id, rule, sample, 'alert.test'),
+                nextAttemptAt: new Date().toISOString()
+            }).select().single();
+            if (error) throw new Error(`Delivery enqueue failed: ${error.message}`);
+            results.push(await this.attempt(data as AlertDelivery, rule, destination));
+        }
+        return results;
+    }
+
+    // 3. RETRIES: run from the scheduler tick (or POST /api/nexus/alerts/deliveries)
+    public async retryDue(): Promise<number> {
+        const { data, error } = await this.supabase
+            .from('nexus_alert_deliveries')
+            .select('*')
+            .eq('status', 'RETRYING')
+            .lte('nextAttemptAt', new Date().toISOString())
+            .order('nextAttemptAt', { ascending: true })
+            .limit(RETRY_BATCH);
+        if (error) throw new Error(`Retry lookup failed: ${error.message}`);
+
+        const due = (data || []) as AlertDelivery[];
+        if (due.length === 0) return 0;
+        const rules = new Map((await this.loadRules(false)).map(r => [r.id, r]));
+
+        for (const delivery of due) {
+            const rule = rules.get(delivery.ruleId);
+            if (!rule) {
+                await this.finish(delivery, { ok: false, error: 'Rule no longer exists.', permanent: true });
+                continue;
+            }
+            await this.attempt(delivery, rule);
+        }
+        return due.length;
+    }
+
+    private async attempt(delivery: AlertDelivery, rule: AlertRule, destination?: AlertDestination): Promise<AlertDelivery> {
+        const resolved = destination || await this.resolveDestination(rule, delivery.destination);
+        const result: DeliveryResult = resolved
+            ? await this.channels[delivery.channel].send(resolved, delivery.payload)
+            : { ok: false, error: 'Destination no longer exists.', permanent: true };
+
+        // A push service saying the subscription is gone means the browser unsubscribed
+        if (!result.ok && result.permanent && delivery.channel === 'WEB_PUSH' && resolved) {
+            await this.supabase.from('nexus_push_subscriptions').delete().eq('endpoint', delivery.destination);
+        }
+        return this.finish(delivery, result);
+    }
+
+    private async finish(delivery: AlertDelivery, result: DeliveryResult): Promise<AlertDelivery> {
+        const attempts = delivery.attempts + 1;
+        const now = new Date();
+        const exhausted = result.permanent || attempts >= MAX_ATTEMPTS;
+        const update: Partial<AlertDelivery> = result.ok
+            ? { status: 'DELIVERED', attempts, lastError: null, nextAttemptAt: null, deliveredAt: now.toISOString() }
+            : {
+                status: exhausted ? 'FAILED' : 'RETRYING',
+                attempts,
+                lastError: result.error || 'Unknown error',
+                nextAttemptAt: exhausted ? null : new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString()
+            };
+
+        const { error } = await this.supabase.from('nexus_alert_deliveries').update(update).eq('id', delivery.id);
+        if (error) throw new Error(`Delivery update failed: ${error.message}`);
+
+        if (!result.ok && exhausted) {
+            await this.supabase.from('nexus_logs').insert({
+                level: 'WARN',
+                message: `Alert delivery ${delivery.id} (${delivery.channel} → ${delivery.destination}) failed after ${attempts} attempt(s): ${result.error}`,
+                timestamp: now.toISOString()
+            });
+        }
+        return { ...delivery, ...update };
+    }
+
+    private async loadRules(enabledOnly = true): Promise<AlertRule[]> {
+        let query = this.supabase.from('nexus_alert_rules').select('*');
+        if (enabledOnly) query = query.eq('enabled', true);
+        const { data, error } = await query;
+        if (error) throw new Error(`Alert rule lookup failed: ${error.message}`);
+        return (data || []) as AlertRule[];
+    }
+
+    private async destinationsFor(rule: AlertRule): Promise<AlertDestination[]> {
+        if (rule.channel !== 'WEB_PUSH') {
+            return rule.target ? [{ address: rule.target, secret: rule.secret || undefined }] : [];
+        }
+        const { data, error } = await this.supabase.from('nexus_push_subscriptions').select('*').eq('owner', rule.owner);
+        if (error) throw new Error(`Push subscription lookup failed: ${error.message}`);
+        return ((data || []) as PushSubscriptionRow[]).map(s => ({ address: s.endpoint, keys: s.keys }));
+    }
+
+    // Retries re-read secrets and keys so a rotated webhook secret applies to pending deliveries
+    private async resolveDestination(rule: AlertRule, address: string): Promise<AlertDestination | null> {
+        if (rule.channel !== 'WEB_PUSH') return { address, secret: rule.secret || undefined };
+        const { data, error } = await this.supabase.from('nexus_push_subscriptions').select('*').eq('endpoint', address).maybeSingle();
+        if (error) throw new Error(`Push subscription lookup failed: ${error.message}`);
+        return data ? { address, keys: (data as PushSubscriptionRow).keys } : null;
+    }
+}
@@ -0,0 +1,61 @@
+// ==========================================
+// VOIDLOGIC NEXUS: ALERT CHANNEL CONTRACT
+// ==========================================
+
+export type AlertChannelType = 'WEBHOOK' | 'EMAIL' | 'WEB_PUSH';
+
+export interface PushKeys {
+    p256dh: string; // Browser's ECDH public key, base64url
+    auth: string;   // Browser's auth secret, base64url
+}
+
+// Where one delivery goes. `address` is the webhook URL, email address or push endpoint.
+export interface AlertDestination {
+    address: string;
+    secret?: string;  // HMAC key for webhooks
+    keys?: PushKeys;  // Encryption keys for Web Push
+}
+
+// What every channel delivers; stored on the delivery so retries resend identical content
+export interface AlertPayload {
+    event: 'signal.matched' | 'alert.test';
+    deliveryId: string;
+    rule: { id: string; name: string };
+    signal: {
+        id: string;
+        source: string;
+        targetName: string;
+        brandCategory: string;
+        conditionScore: number;
+        listedPrice: number;       // As listed, in `currency`
+        currency: string;
+        listedPriceBase: number;
+        baseCurrency: string;      // Currency of listedPriceBase, estimatedValue and netProfit
+        listingType?: 'FIXED_PRICE' | 'AUCTION';
+        projectedPriceBase?: number | null; // Auctions: netProfit and roiPct assume this closing price
+        endsAt?: string | null;
+        estimatedValue: number;
+        netProfit: number;
+        roiPct: number;
+        riskScore: number;
+        url: string;
+    };
+    sentAt: string;
+}
+
+// Channels never throw: a failure says whether retrying could help
+export interface DeliveryResult {
+    ok: boolean;
+    error?: string;
+    permanent?: boolean; // e.g. webhook 4xx, push subscription gone
+}
+
+export interface AlertChannel {
+    type: AlertChannelType;
+    send(destination: AlertDestination, payload: AlertPayload): Promise<DeliveryResult>;
+}
+
+// One-line human summary shared by email subjects and push titles. Payloads queued before
+// multi-currency support have no baseCurrency; their amounts were all in `currency`.
+export const alertHeadline = (payload: AlertPayload) =>
+    `${payload.signal.brandCategory}: +${payload.signal.netProfit.toLocaleString('en-US', { style: 'currency', currency: payload.signal.baseCurrency || payload.signal.currency })} net (${payload.signal.roiPct}% ROI)${payload.signal.listingType === 'AUCTION' ? ', auction' : ''}`;
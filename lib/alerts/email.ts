@@ -0,0 +1,221 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { alertHeadline, type AlertChannel, type AlertDestination, type AlertPayload, type DeliveryResult } from './channel';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SMTP EMAIL CHANNEL
+// ==========================================
+
+// Minimal SMTP submission client: EHLO, STARTTLS when offered, AUTH PLAIN, one message per connection.
+// Point SMTP_HOST/SMTP_PORT at scripts/dev-smtp-server.mjs (or MailHog) to test locally.
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    secure: boolean;        // Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it.
+    user?: string;
+    pass?: string;
+    from: string;
+    timeoutMs: number;
+}
+
+export const smtpConfigFromEnv = (): SmtpConfig => ({
+    host: process.env.SMTP_HOST || '',
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM || 'nexus@localhost',
+    timeoutMs: 15000
+});
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+// Reads CRLF lines off the socket and groups them into complete (possibly multi-line) replies
+class SmtpConnection {
+    private buffer = '';
+    private replies: SmtpReply[] = [];
+    private pending: string[] = [];
+    private waiter: ((reply: SmtpReply) => void) | null = null;
+    private failure: ((error: Error) => void) | null = null;
+
+    constructor(public socket: net.Socket) {
+        this.attach(socket);
+    }
+
+    public attach(socket: net.Socket) {
+        this.socket = socket;
+        socket.setEncoding('utf8');
+        socket.on('data', (chunk: string) => this.onData(chunk));
+        socket.on('error', (error) => this.failure?.(error));
+        socket.on('close', () => this.failure?.(new Error('SMTP connection closed.')));
+    }
+
+    private onData(chunk: string) {
+        this.buffer += chunk;
+        let index;
+        while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+            const line = this.buffer.slice(0, index);
+            this.buffer = this.buffer.slice(index + 2);
+            this.pending.push(line);
+            // "250-..." continues a reply, "250 ..." ends it
+            if (/^\d{3}(?: |$)/.test(line)) {
+                const reply = { code: Number(line.slice(0, 3)), lines: this.pending.map(l => l.slice(4)) };
+                this.pending = [];
+                if (this.waiter) {
+                    const resolve = this.waiter;
+                    this.waiter = null;
+                    resolve(reply);
+                } else {
+                    this.replies.push(reply);
+                }
+            }
+        }
+    }
+
+    public read(timeoutMs: number): Promise<SmtpReply> {
+        const queued = this.replies.shift();
+        if (queued) return Promise.resolve(queued);
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error('SMTP server timed out.')), timeoutMs);
+            this.waiter = (reply) => { clearTimeout(timer); resolve(reply); };
+            this.failure = (error) => { clearTimeout(timer); reject(error); };
+        });
+    }
+
+    public async command(line: string, expect: number[], timeoutMs: number): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`);
+        const reply = await this.read(timeoutMs);
+        if (!expect.includes(reply.code)) {
+            const shown = line.startsWith('AUTH') ? 'AUTH' : line.split(' ')[0];
+            throw Object.assign(new Error(`SMTP ${shown} rejected: ${reply.code} ${reply.lines.join(' ')}`), { code: reply.code });
+        }
+        return reply;
+    }
+}
+
+const encodeHeader = (value: string) =>
+    /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const buildMessage = (from: string, message: MailMessage) => {
+    const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+    return [
+        `From: ${from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${randomUUID()}@${from.split('@')[1] || 'nexus.local'}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        body
+    ].join('\r\n');
+};
+
+const connect = (config: SmtpConfig): Promise<net.Socket> => new Promise((resolve, reject) => {
+    const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+        : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.setTimeout(config.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out.')));
+    socket.once('error', reject);
+});
+
+const upgrade = (socket: net.Socket, host: string): Promise<tls.TLSSocket> => new Promise((resolve, reject) => {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('error');
+    socket.removeAllListeners('close');
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+});
+
+export class SmtpMailer {
+    constructor(private config: SmtpConfig = smtpConfigFromEnv()) {}
+
+    public async send(message: MailMessage): Promise<void> {
+        if (!this.config.host) throw new Error('SMTP_HOST is not configured.');
+        const { timeoutMs } = this.config;
+        const conn = new SmtpConnection(await connect(this.config));
+
+        try {
+            const greeting = await conn.read(timeoutMs);
+            if (greeting.code !== 220) throw new Error(`SMTP greeting rejected: ${greeting.code}`);
+
+            let ehlo = await conn.command(`EHLO ${os.hostname() || 'localhost'}`, [250], timeoutMs);
+            if (!this.config.secure && ehlo.lines.some(l => l.toUpperCase().startsWith('STARTTLS'))) {
+                await conn.command('STARTTLS', [220], timeoutMs);
+                conn.attach(await upgrade(conn.socket, this.config.host));
+                ehlo = await conn.command(`EHLO ${os.hostname() || 'localhost'}`, [250], timeoutMs);
+            }
+
+            if (this.config.user) {
+                const token = Buffer.from(`\0${this.config.user}\0${this.config.pass || ''}`, 'utf8').toString('base64');
+                await conn.command(`AUTH PLAIN ${token}`, [235], timeoutMs);
+            }
+
+            await conn.command(`MAIL FROM:<${this.config.from}>`, [250], timeoutMs);
+            await conn.command(`RCPT TO:<${message.to}>`, [250, 251], timeoutMs);
+            await conn.command('DATA', [354], timeoutMs);
+            // Dot-stuffing: a line starting with '.' gets a second one
+            const data = buildMessage(this.config.from, message).replace(/^\./gm, '..');
+            await conn.command(`${data}\r\n.`, [250], timeoutMs);
+            await conn.command('QUIT', [221], timeoutMs).catch(() => undefined);
+        } finally {
+            conn.socket.destroy();
+        }
+    }
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+export const isEmailAddress = (value: string) => EMAIL_PATTERN.test(value);
+
+export class EmailChannel implements AlertChannel {
+    public readonly type = 'EMAIL' as const;
+
+    constructor(private mailer: SmtpMailer = new SmtpMailer()) {}
+
+    public async send(destination: AlertDestination, payload: AlertPayload): Promise<DeliveryResult> {
+        if (!isEmailAddress(destination.address)) return { ok: false, error: `Invalid email address '${destination.address}'.`, permanent: true };
+        const s = payload.signal;
+        const base = s.baseCurrency || s.currency;
+
+        try {
+            await this.mailer.send({
+                to: destination.address,
+                subject: `[NEXUS] ${payload.event === 'alert.test' ? 'Test alert' : alertHeadline(payload)}`,
+                text: [
+                    `Rule: ${payload.rule.name}`,
+                    '',
+                    s.targetName,
+                    `${s.source} // ${s.id}`,
+                    '',
+                    `${s.listingType === 'AUCTION' ? 'Current bid' : 'Listed:    '} ${s.currency} ${s.listedPrice}${s.currency !== base ? ` (${base} ${s.listedPriceBase})` : ''}`,
+                    ...(s.listingType === 'AUCTION' ? [`Projected:  ${base} ${s.projectedPriceBase} at close${s.endsAt ? ` (ends ${s.endsAt})` : ''}`] : []),
+                    `Estimated:  ${base} ${s.estimatedValue}`,
+                    `Net profit: ${base} ${s.netProfit} (${s.roiPct}% ROI)`,
+                    `Condition:  ${s.conditionScore}/5`,
+                    `Risk:       ${s.riskScore}`,
+                    '',
+                    s.url
+                ].join('\n')
+            });
+            return { ok: true };
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            // 5xx SMTP replies are permanent failures for this message; 4xx and network errors are worth retrying
+            const code = (error as { code?: unknown })?.code;
+            return { ok: false, error: errorMsg, permanent: typeof code === 'number' && code >= 500 };
+        }
+    }
+}
@@ -0,0 +1,19 @@
+import type { AlertChannel, AlertChannelType } from './channel';
+import { WebhookChannel } from './webhook';
+import { EmailChannel } from './email';
+import { WebPushChannel } from './web-push';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ALERT CHANNEL REGISTRY
+// ==========================================
+
+export const createDefaultChannels = (): Record<AlertChannelType, AlertChannel> => ({
+    WEBHOOK: new WebhookChannel(),
+    EMAIL: new EmailChannel(),
+    WEB_PUSH: new WebPushChannel()
+});
+
+export * from './channel';
+export { WebhookChannel, signWebhookPayload, isBlockedWebhookHost, checkWebhookTarget } from './webhook';
+export { EmailChannel, SmtpMailer, smtpConfigFromEnv, isEmailAddress, type SmtpConfig, type MailMessage } from './email';
+export { WebPushChannel, encryptPushPayload, vapidConfigFromEnv, type VapidConfig } from './web-push';
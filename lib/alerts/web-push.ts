@@ -0,0 +1,119 @@
+import axios from 'axios';
+import { createECDH, createCipheriv, createPrivateKey, hkdfSync, randomBytes, sign } from 'node:crypto';
+import { alertHeadline, type AlertChannel, type AlertDestination, type AlertPayload, type DeliveryResult } from './channel';
+
+// ==========================================
+// VOIDLOGIC NEXUS: WEB PUSH CHANNEL (VAPID + aes128gcm)
+// ==========================================
+
+// RFC 8292 (VAPID) request signing and RFC 8291 payload encryption on top of node:crypto.
+// Generate a key pair with `node scripts/generate-vapid-keys.mjs`.
+
+export interface VapidConfig {
+    publicKey: string;  // Uncompressed P-256 point, base64url (65 bytes)
+    privateKey: string; // P-256 scalar, base64url (32 bytes)
+    subject: string;    // mailto: or https: contact for push services
+}
+
+export const vapidConfigFromEnv = (): VapidConfig => ({
+    publicKey: process.env.VAPID_PUBLIC_KEY || '',
+    privateKey: process.env.VAPID_PRIVATE_KEY || '',
+    subject: process.env.VAPID_SUBJECT || 'mailto:nexus@localhost'
+});
+
+const RECORD_SIZE = 4096;
+const TTL_SECONDS = 24 * 3600;
+
+const b64url = (buf: Buffer) => buf.toString('base64url');
+const fromB64url = (value: string) => Buffer.from(value, 'base64url');
+const hkdf = (salt: Buffer, ikm: Buffer, info: Buffer, length: number) => Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+
+// Signed JWT proving the push came from the holder of the VAPID key
+const vapidAuthorization = (endpoint: string, vapid: VapidConfig): string => {
+    const publicKey = fromB64url(vapid.publicKey);
+    const key = createPrivateKey({
+        key: {
+            kty: 'EC',
+            crv: 'P-256',
+            d: vapid.privateKey,
+            x: b64url(publicKey.subarray(1, 33)),
+            y: b64url(publicKey.subarray(33, 65))
+        },
+        format: 'jwk'
+    });
+
+    const header = b64url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+    const claims = b64url(Buffer.from(JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 3600,
+        sub: vapid.subject
+    })));
+    const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+    return `vapid t=${header}.${claims}.${b64url(signature)}, k=${vapid.publicKey}`;
+};
+
+// RFC 8291: ECDH with the browser's key, HKDF with its auth secret, one aes128gcm record
+export const encryptPushPayload = (plaintext: Buffer, p256dh: string, auth: string): Buffer => {
+    const userAgentPublic = fromB64url(p256dh);
+    const authSecret = fromB64url(auth);
+
+    const ecdh = createECDH('prime256v1');
+    const serverPublic = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(userAgentPublic);
+    const salt = randomBytes(16);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublic, serverPublic]);
+    const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+    const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+    const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+    const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+    const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublic.length, 20);
+    return Buffer.concat([header, serverPublic, ciphertext]);
+};
+
+export class WebPushChannel implements AlertChannel {
+    public readonly type = 'WEB_PUSH' as const;
+
+    constructor(private vapid: VapidConfig = vapidConfigFromEnv()) {}
+
+    public async send(destination: AlertDestination, payload: AlertPayload): Promise<DeliveryResult> {
+        if (!this.vapid.publicKey || !this.vapid.privateKey) return { ok: false, error: 'VAPID keys are not configured.' };
+        if (!destination.keys) return { ok: false, error: 'Push subscription keys missing.', permanent: true };
+
+        // The service worker (public/nexus-sw.js) turns this into a notification
+        const notification = Buffer.from(JSON.stringify({
+            title: payload.event === 'alert.test' ? 'NEXUS test alert' : alertHeadline(payload),
+            body: `${payload.signal.targetName} — ${payload.signal.currency} ${payload.signal.listedPrice}, risk ${payload.signal.riskScore}`,
+            url: payload.signal.url,
+            tag: payload.signal.id
+        }));
+
+        try {
+            const response = await axios.post(destination.address, encryptPushPayload(notification, destination.keys.p256dh, destination.keys.auth), {
+                timeout: 10000,
+                validateStatus: () => true,
+                headers: {
+                    'Authorization': vapidAuthorization(destination.address, this.vapid),
+                    'Content-Encoding': 'aes128gcm',
+                    'Content-Type': 'application/octet-stream',
+                    'TTL': String(TTL_SECONDS),
+                    'Urgency': 'high'
+                }
+            });
+
+            if (response.status >= 200 && response.status < 300) return { ok: true };
+            // 404/410: the browser unsubscribed or the subscription expired
+            const gone = response.status === 404 || response.status === 410;
+            return { ok: false, error: `Push service answered HTTP ${response.status}.`, permanent: gone || response.status === 400 || response.status === 413 };
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            return { ok: false, error: `Push request failed: ${errorMsg}` };
+        }
+    }
+}
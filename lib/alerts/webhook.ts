@@ -0,0 +1,111 @@
+import axios from 'axios';
+import dns from 'node:dns';
+import net from 'node:net';
+import { createHmac } from 'node:crypto';
+import type { AlertChannel, AlertDestination, AlertPayload, DeliveryResult } from './channel';
+
+// ==========================================
+// VOIDLOGIC NEXUS: HMAC-SIGNED WEBHOOK CHANNEL
+// ==========================================
+
+// Receivers verify X-Nexus-Signature = sha256=HMAC_SHA256(secret, `${X-Nexus-Timestamp}.${rawBody}`)
+// and should reject timestamps older than a few minutes to stop replays.
+export const signWebhookPayload = (secret: string, timestamp: string, body: string) =>
+    `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Rule owners choose the URL, so deliveries must never reach the server's own host or network:
+// unspecified, loopback, private, carrier-grade NAT and link-local addresses are refused. BlockList also
+// matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges.
+const PRIVATE_RANGES = new net.BlockList();
+for (const [prefix, bits] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+    PRIVATE_RANGES.addSubnet(prefix, bits, 'ipv4');
+}
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+for (const [prefix, bits] of [['fc00::', 7], ['fe80::', 10]] as const) {
+    PRIVATE_RANGES.addSubnet(prefix, bits, 'ipv6');
+}
+
+// Local development only: lets a rule point at scripts/dev-webhook-receiver.mjs on localhost
+const privateTargetsAllowed = () => process.env.NEXUS_WEBHOOK_ALLOW_PRIVATE === 'true';
+
+const isPrivateAddress = (address: string): boolean => {
+    const family = net.isIP(address);
+    if (family === 0) return false;     // Hostnames are checked once resolved
+    return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// URL hostnames keep the brackets around IPv6 literals
+const bareHost = (hostname: string) => hostname.replace(/^\[|\]$/g, '');
+
+// True for localhost and private address literals; names that resolve privately are caught at delivery
+export const isBlockedWebhookHost = (hostname: string): boolean =>
+    !privateTargetsAllowed() && (hostname.toLowerCase() === 'localhost' || isPrivateAddress(bareHost(hostname)));
+
+const privateAddressError = (hostname: string, addresses: dns.LookupAddress[]) => {
+    if (privateTargetsAllowed()) return null;
+    const blocked = addresses.find(a => isPrivateAddress(a.address));
+    return blocked ? `${hostname} resolves to private address ${blocked.address}.` : null;
+};
+
+// Used for the connection itself, so a name cannot pass the pre-check and then rebind to an internal address
+const publicOnlyLookup = (hostname: string, _options: object, callback: (err: Error | null, addresses: { address: string; family: 4 | 6 }[]) => void) => {
+    dns.lookup(hostname, { all: true }, (err, addresses) => {
+        if (err) return callback(err, []);
+        const blocked = privateAddressError(hostname, addresses);
+        if (blocked) return callback(new Error(blocked), []);
+        callback(null, addresses.map(a => ({ address: a.address, family: a.family === 6 ? 6 : 4 })));
+    });
+};
+
+// Returns why the target may not be called, or null when every address it resolves to is public
+export const checkWebhookTarget = async (address: string): Promise<string | null> => {
+    const { hostname } = new URL(address);
+    if (isBlockedWebhookHost(hostname)) return `${hostname} is a private address.`;
+    if (net.isIP(bareHost(hostname))) return null;
+    try {
+        return privateAddressError(hostname, await dns.promises.lookup(hostname, { all: true }));
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        return `Could not resolve ${hostname}: ${errorMsg}`;
+    }
+};
+
+export class WebhookChannel implements AlertChannel {
+    public readonly type = 'WEBHOOK' as const;
+
+    public async send(destination: AlertDestination, payload: AlertPayload): Promise<DeliveryResult> {
+        if (!destination.secret) return { ok: false, error: 'Webhook secret missing.', permanent: true };
+
+        const body = JSON.stringify(payload);
+        const timestamp = String(Math.floor(Date.now() / 1000));
+
+        try {
+            const blocked = await checkWebhookTarget(destination.address);
+            if (blocked) return { ok: false, error: `Webhook target refused: ${blocked}`, permanent: true };
+
+            const response = await axios.post(destination.address, body, {
+                timeout: 10000,
+                maxRedirects: 0,    // A redirect could point anywhere, including back inside the network
+                lookup: publicOnlyLookup,
+                validateStatus: () => true,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'VoidLogic-Nexus-Alerts/1.0',
+                    'X-Nexus-Event': payload.event,
+                    'X-Nexus-Delivery': payload.deliveryId,
+                    'X-Nexus-Timestamp': timestamp,
+                    'X-Nexus-Signature': signWebhookPayload(destination.secret, timestamp, body)
+                }
+            });
+
+            if (response.status >= 200 && response.status < 300) return { ok: true };
+            // Client errors won't fix themselves, except timeouts and rate limits
+            const permanent = response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429;
+            return { ok: false, error: `Receiver answered HTTP ${response.status}.`, permanent };
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            return { ok: false, error: `Webhook request failed: ${errorMsg}` };
+        }
+    }
+}
@@ -0,0 +1,327 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { ExecutionControls } from './execution-guard';
+import { AuditLog, type AuditActor } from './audit-log';
+
+// ==========================================
+// VOIDLOGIC NEXUS: APPROVAL QUEUE
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Approval queue offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const MAX_SNOOZE_MINUTES = 24 * 60;
+// Purchases an approver confirmed run under their own key, so they never count as autopilot spend
+export const APPROVED_KEY_PREFIX = 'nexus-approved-';
+// Snoozing can never keep an entry open longer than this after it was requested
+const MAX_APPROVAL_LIFETIME_MINUTES = 24 * 60;
+const SUMMARY_DAYS = 30;
+
+export type ApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'EXPIRED';
+
+export type ApprovalTriggerCode = 'AMOUNT' | 'CONDITION';
+
+// Why the signal was queued instead of bought
+export interface ApprovalTrigger {
+    code: ApprovalTriggerCode;
+    message: string;
+    limit: number;
+    current: number;
+}
+
+// Fixed set so rejections can be counted per cause when tuning the rules
+export const REJECTION_CATEGORIES = ['PRICE', 'CONDITION', 'AUTHENTICITY', 'VALUATION', 'DUPLICATE', 'OTHER'] as const;
+export type RejectionCategory = typeof REJECTION_CATEGORIES[number];
+
+export interface Approval {
+    id: string;
+    signalId: string;
+    status: ApprovalStatus;
+    triggers: ApprovalTrigger[];
+    amount: number;                  // Listed price when queued; the approver must confirm this exact amount
+    currency: string;                // Currency of `amount`, which is the currency charged
+    amountBase: number;              // `amount` in the base currency, which the triggers compare against
+    baseCurrency: string;
+    idempotencyKey: string;          // Key of the execution attempt that was queued; the approved purchase uses APPROVED_KEY_PREFIX + id
+    requestedBy: string;
+    requestedByType: AuditActor['type'];
+    requestedAt: string;
+    expiresAt: string;
+    snoozedUntil: string | null;
+    decidedBy: string | null;
+    decidedAt: string | null;
+    rejectionCategory: RejectionCategory | null;
+    rejectionReason: string | null;
+    outcome: string | null;          // Execution outcome after approval (SUCCESS, PAYMENT_PENDING, REJECTED:DAILY_BUDGET...)
+}
+
+export interface ApprovalRequest {
+    signalId: string;
+    amount: number;
+    currency: string;
+    amountBase: number;
+    baseCurrency: string;
+    triggers: ApprovalTrigger[];
+    idempotencyKey: string;
+    actor: AuditActor;
+    ip?: string | null;
+}
+
+export interface RejectionSummary {
+    since: string;
+    total: number;
+    byCategory: Record<string, number>;
+    byTrigger: Record<string, number>;
+}
+
+// The queue only applies once the guardrails have passed; an empty list means buy straight away.
+// Amounts are in the base currency.
+export const approvalTriggers = (
+    candidate: { amount: number; conditionScore: number },
+    controls: Pick<ExecutionControls, 'approvalAmount' | 'approvalMinCondition'>
+): ApprovalTrigger[] => {
+    const triggers: ApprovalTrigger[] = [];
+    if (candidate.amount > controls.approvalAmount) {
+        triggers.push({ code: 'AMOUNT', message: 'Price is above the approval threshold.', limit: controls.approvalAmount, current: candidate.amount });
+    }
+    if (candidate.conditionScore < controls.approvalMinCondition) {
+        triggers.push({ code: 'CONDITION', message: 'Condition is below the approval threshold.', limit: controls.approvalMinCondition, current: candidate.conditionScore });
+    }
+    return triggers;
+};
+
+export class ApprovalQueue {
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    public async get(id: string): Promise<Approval | null> {
+        const { data, error } = await this.supabase.from('nexus_approvals').select('*').eq('id', id).maybeSingle();
+        if (error) throw new Error(`Approval lookup failed: ${error.message}`);
+        return data as Approval | null;
+    }
+
+    // 1. ENQUEUE: one open approval per signal; asking again returns the one already waiting
+    public async request(input: ApprovalRequest, expiryMinutes: number): Promise<Approval> {
+        await this.expireStale();
+
+        const open = await this.openFor(input.signalId);
+        if (open) return open;
+
+        const now = new Date();
+        const { data, error } = await this.supabase
+            .from('nexus_approvals')
+            .insert({
+                signalId: input.signalId,
+                status: 'PENDING',
+                triggers: input.triggers,
+                amount: input.amount,
+                currency: input.currency,
+                amountBase: input.amountBase,
+                baseCurrency: input.baseCurrency,
+                idempotencyKey: input.idempotencyKey,
+                requestedBy: input.actor.id,
+                requestedByType: input.actor.type,
+                requestedAt: now.toISOString(),
+                expiresAt: new Date(now.getTime() + expiryMinutes * 60_000).toISOString()
+            })
+            .select()
+            .single();
+        if (error) {
+            // Lost the race against a concurrent request for the same signal
+            if (error.code === '23505') {
+                const winner = await this.openFor(input.signalId);
+                if (winner) return winner;
+            }
+            throw new Error(`Approval request failed: ${error.message}`);
+        }
+        const approval = data as Approval;
+
+        await this.supabase.from('nexus_logs').insert({
+            level: 'WARN',
+            message: `Approval required for ${input.signalId} (${input.amount} ${input.currency}): ${input.triggers.map(t => t.code).join(', ')}. Expires ${approval.expiresAt}.`,
+            timestamp: now.toISOString()
+        });
+        await new AuditLog(this.supabase).record({
+            actor: input.actor,
+            action: 'approval.request',
+            entityType: 'approval',
+            entityId: approval.id,
+            after: approval,
+            ip: input.ip
+        });
+        return approval;
+    }
+
+    // 2. QUERY: oldest first, so the deal closest to expiring is on top. Snoozed entries stay hidden
+    // until their snooze ends unless asked for.
+    public async list(status: ApprovalStatus = 'PENDING', limit = 100, includeSnoozed = false): Promise<Approval[]> {
+        await this.expireStale();
+        let query = this.supabase
+            .from('nexus_approvals')
+            .select('*')
+            .eq('status', status);
+        if (status === 'PENDING' && !includeSnoozed) {
+            query = query.or(`snoozedUntil.is.null,snoozedUntil.lte."${new Date().toISOString()}"`);
+        }
+        const { data, error } = await query
+            .order(status === 'PENDING' ? 'expiresAt' : 'decidedAt', { ascending: status === 'PENDING' })
+            .limit(Math.min(Math.max(limit, 1), 500));
+        if (error) throw new Error(`Approval query failed: ${error.message}`);
+        return (data || []) as Approval[];
+    }
+
+    // 3. APPROVE: the caller must echo the queued amount (the second step of the confirm). Claiming
+    // PENDING -> APPROVED is conditional, so two approvers can never both trigger the purchase.
+    public async approve(approval: Approval, confirmAmount: number, actor: AuditActor, ip: string | null = null): Promise<Approval | { error: 'EXPIRED' | 'AMOUNT_MISMATCH' | 'NOT_PENDING' }> {
+        if (approval.status !== 'PENDING') return { error: 'NOT_PENDING' };
+        if (new Date(approval.expiresAt).getTime() <= Date.now()) {
+            await this.expireStale();
+            return { error: 'EXPIRED' };
+        }
+        if (Number(confirmAmount) !== Number(approval.amount)) return { error: 'AMOUNT_MISMATCH' };
+
+        const decided = await this.decide(approval.id, { status: 'APPROVED', decidedBy: actor.id });
+        if (!decided) return { error: 'NOT_PENDING' };
+
+        await new AuditLog(this.supabase).record({
+            actor,
+            action: 'approval.approve',
+            entityType: 'approval',
+            entityId: approval.id,
+            before: approval,
+            after: decided,
+            ip
+        });
+        return decided;
+    }
+
+    // Stamped after the approved purchase ran, whatever it returned
+    public async recordOutcome(id: string, outcome: string): Promise<void> {
+        await this.supabase.from('nexus_approvals').update({ outcome }).eq('id', id);
+    }
+
+    // 4. REJECT: the signal finally gets its terminal REJECTED status and drops out of every queue
+    public async reject(approval: Approval, category: RejectionCategory, reason: string, actor: AuditActor, ip: string | null = null): Promise<Approval | null> {
+        const decided = await this.decide(approval.id, { status: 'REJECTED', decidedBy: actor.id, rejectionCategory: category, rejectionReason: reason });
+        if (!decided) return null;
+
+        await this.supabase.from('nexus_signals').update({ status: 'REJECTED' }).eq('id', approval.signalId).eq('status', 'PENDING');
+        await this.supabase.from('nexus_logs').insert({
+            level: 'INFO',
+            message: `Approval rejected for ${approval.signalId} by ${actor.id}: [${category}] ${reason}`,
+            timestamp: new Date().toISOString()
+        });
+        await new AuditLog(this.supabase).record({
+            actor,
+            action: 'approval.reject',
+            entityType: 'approval',
+            entityId: approval.id,
+            before: approval,
+            after: decided,
+            ip
+        });
+        return decided;
+    }
+
+    // 5. SNOOZE: hides the entry for a while and pushes the expiry back by the same amount, but never
+    // past MAX_APPROVAL_LIFETIME_MINUTES after the request, so repeated snoozes cannot keep a stale price open
+    public async snooze(approval: Approval, minutes: number, actor: AuditActor, ip: string | null = null): Promise<Approval | null> {
+        const span = Math.min(Math.max(Math.round(minutes), 1), MAX_SNOOZE_MINUTES) * 60_000;
+        const now = Date.now();
+        const currentExpiry = new Date(approval.expiresAt).getTime();
+        const deadline = new Date(approval.requestedAt).getTime() + MAX_APPROVAL_LIFETIME_MINUTES * 60_000;
+        const expiresAt = Math.max(currentExpiry, Math.min(Math.max(currentExpiry, now) + span, deadline));
+        const { data, error } = await this.supabase
+            .from('nexus_approvals')
+            .update({
+                snoozedUntil: new Date(Math.min(now + span, expiresAt)).toISOString(),
+                expiresAt: new Date(expiresAt).toISOString()
+            })
+            .eq('id', approval.id)
+            .eq('status', 'PENDING')
+            .select()
+            .maybeSingle();
+        if (error) throw new Error(`Approval snooze failed: ${error.message}`);
+        if (!data) return null;
+
+        await new AuditLog(this.supabase).record({
+            actor,
+            action: 'approval.snooze',
+            entityType: 'approval',
+            entityId: approval.id,
+            before: { snoozedUntil: approval.snoozedUntil, expiresAt: approval.expiresAt },
+            after: { snoozedUntil: data.snoozedUntil, expiresAt: data.expiresAt },
+            ip
+        });
+        return data as Approval;
+    }
+
+    // 6. EXPIRE: deals vanish, so undecided entries lapse. The signal stays PENDING and can be queued again.
+    public async expireStale(): Promise<number> {
+        const { data, error } = await this.supabase
+            .from('nexus_approvals')
+            .update({ status: 'EXPIRED', decidedAt: new Date().toISOString() })
+            .eq('status', 'PENDING')
+            .lt('expiresAt', new Date().toISOString())
+            .select('signalId');
+        if (error) throw new Error(`Approval expiry failed: ${error.message}`);
+        if (data && data.length > 0) {
+            await this.supabase.from('nexus_logs').insert({
+                level: 'INFO',
+                message: `Approval queue: ${data.length} request(s) expired undecided (${data.map(a => a.signalId).join(', ')}).`,
+                timestamp: new Date().toISOString()
+            });
+        }
+        return data?.length || 0;
+    }
+
+    // Rejections over the last 30 days, by stated cause and by the rule that queued them
+    public async rejectionSummary(): Promise<RejectionSummary> {
+        const since = new Date(Date.now() - SUMMARY_DAYS * 86_400_000).toISOString();
+        const { data, error } = await this.supabase
+            .from('nexus_approvals')
+            .select('rejectionCategory, triggers')
+            .eq('status', 'REJECTED')
+            .gte('decidedAt', since);
+        if (error) throw new Error(`Rejection summary failed: ${error.message}`);
+
+        const summary: RejectionSummary = { since, total: 0, byCategory: {}, byTrigger: {} };
+        for (const row of data || []) {
+            summary.total++;
+            const category = row.rejectionCategory || 'OTHER';
+            summary.byCategory[category] = (summary.byCategory[category] || 0) + 1;
+            for (const trigger of (row.triggers || []) as ApprovalTrigger[]) {
+                summary.byTrigger[trigger.code] = (summary.byTrigger[trigger.code] || 0) + 1;
+            }
+        }
+        return summary;
+    }
+
+    private async openFor(signalId: string): Promise<Approval | null> {
+        const { data, error } = await this.supabase
+            .from('nexus_approvals')
+            .select('*')
+            .eq('signalId', signalId)
+            .eq('status', 'PENDING')
+            .maybeSingle();
+        if (error) throw new Error(`Approval lookup failed: ${error.message}`);
+        return data as Approval | null;
+    }
+
+    private async decide(id: string, patch: Partial<Approval>): Promise<Approval | null> {
+        const { data, error } = await this.supabase
+            .from('nexus_approvals')
+            .update({ ...patch, decidedAt: new Date().toISOString() })
+            .eq('id', id)
+            .eq('status', 'PENDING')
+            .select()
+            .maybeSingle();
+        if (error) throw new Error(`Approval decision failed: ${error.message}`);
+        return data as Approval | null;
+    }
+}
@@ -0,0 +1,160 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// ==========================================
+// VOIDLOGIC NEXUS: AUCTION PRICE PROJECTOR
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Auction projector offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const HOUR_MS = 3600 * 1000;
+const ID_CHUNK = 500;
+const MAX_AUCTIONS = 2000;
+
+// Closed auctions older than this no longer shape the curve
+export const DEFAULT_AUCTION_LOOKBACK_DAYS = Number(process.env.NEXUS_AUCTION_LOOKBACK_DAYS) || 90;
+// A bucket needs this many observations before its learned multiplier replaces the default
+export const MIN_AUCTION_SAMPLES = Number(process.env.NEXUS_AUCTION_MIN_SAMPLES) || 8;
+// An auction only counts as watched to the end if it was last seen this close to its end time
+const CLOSE_WINDOW_MS = HOUR_MS;
+
+export type ProjectionBasis = 'HISTORY' | 'DEFAULT';
+
+// Final price ÷ current bid, by hours left until the close
+export interface AuctionCurvePoint {
+    maxHoursLeft: number;
+    multiplier: number;
+}
+
+export interface AuctionBucket extends AuctionCurvePoint {
+    basis: ProjectionBasis;
+    samples: number;
+}
+
+export interface AuctionSample {
+    hoursLeft: number;
+    ratio: number;       // Closing price ÷ the bid seen at hoursLeft
+}
+
+export interface AuctionProjection {
+    price: number;       // Projected closing price, in the listing's currency
+    multiplier: number;
+    hoursLeft: number | null; // null when the source gave no end time
+    basis: ProjectionBasis;
+    samples: number;
+}
+
+// Used until enough auctions have been watched to the close. Bids climb hardest in the last day.
+export const DEFAULT_AUCTION_CURVE: AuctionCurvePoint[] = [
+    { maxHoursLeft: 1, multiplier: 1.05 },
+    { maxHoursLeft: 6, multiplier: 1.15 },
+    { maxHoursLeft: 24, multiplier: 1.3 },
+    { maxHoursLeft: 72, multiplier: 1.5 },
+    { maxHoursLeft: Infinity, multiplier: 1.75 }
+];
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export class AuctionProjector {
+    private buckets: AuctionBucket[];
+
+    constructor(buckets: AuctionBucket[] = DEFAULT_AUCTION_CURVE.map(p => ({ ...p, basis: 'DEFAULT' as const, samples: 0 }))) {
+        this.buckets = [...buckets].sort((a, b) => a.maxHoursLeft - b.maxHoursLeft);
+    }
+
+    // 1. LEARNING: the median ratio per bucket once it has enough samples, the default curve otherwise
+    public static fromSamples(samples: AuctionSample[], curve: AuctionCurvePoint[] = DEFAULT_AUCTION_CURVE): AuctionProjector {
+        const sorted = [...curve].sort((a, b) => a.maxHoursLeft - b.maxHoursLeft);
+        const grouped = new Map<number, number[]>(sorted.map(p => [p.maxHoursLeft, []]));
+        for (const sample of samples) {
+            if (!(sample.ratio > 0) || sample.hoursLeft < 0) continue;
+            const point = sorted.find(p => sample.hoursLeft <= p.maxHoursLeft);
+            if (point) grouped.get(point.maxHoursLeft)!.push(sample.ratio);
+        }
+
+        return new AuctionProjector(sorted.map(point => {
+            const ratios = grouped.get(point.maxHoursLeft)!;
+            if (ratios.length < MIN_AUCTION_SAMPLES) return { ...point, basis: 'DEFAULT', samples: ratios.length };
+            // A bid never falls, so a ratio under 1 can only be noise
+            return { ...point, multiplier: Math.max(1, Math.round(median(ratios) * 1000) / 1000), basis: 'HISTORY', samples: ratios.length };
+        }));
+    }
+
+    // Learns from auctions the ledger watched until they closed. Falls back to the default curve if that fails.
+    public static async load(supabase: SupabaseClient = getSupabase(), lookbackDays = DEFAULT_AUCTION_LOOKBACK_DAYS): Promise<AuctionProjector> {
+        try {
+            const now = Date.now();
+            const { data: closed, error } = await supabase
+                .from('nexus_signals')
+                .select('id, listedPrice, endsAt, lastSeenAt')
+                .eq('listingType', 'AUCTION')
+                .gte('endsAt', new Date(now - lookbackDays * 24 * HOUR_MS).toISOString())
+                .lt('endsAt', new Date(now).toISOString())
+                .order('endsAt', { ascending: false })
+                .limit(MAX_AUCTIONS);
+            if (error) throw new Error(error.message);
+
+            // The last bid we saw is only the closing price if we saw it right before the close
+            const finals = new Map<string, { price: number; endsAt: number }>();
+            for (const row of closed || []) {
+                const endsAt = Date.parse(row.endsAt);
+                const lastSeen = Date.parse(row.lastSeenAt);
+                if (endsAt - lastSeen <= CLOSE_WINDOW_MS && Number(row.listedPrice) > 0) {
+                    finals.set(row.id, { price: Number(row.listedPrice), endsAt });
+                }
+            }
+
+            const samples: AuctionSample[] = [];
+            const ids = Array.from(finals.keys());
+            for (let i = 0; i < ids.length; i += ID_CHUNK) {
+                const { data: history, error: historyError } = await supabase
+                    .from('nexus_price_history')
+                    .select('signalId, price, observedAt')
+                    .in('signalId', ids.slice(i, i + ID_CHUNK));
+                if (historyError) throw new Error(historyError.message);
+
+                for (const h of history || []) {
+                    const final = finals.get(h.signalId)!;
+                    const bid = Number(h.price);
+                    const hoursLeft = (final.endsAt - Date.parse(h.observedAt)) / HOUR_MS;
+                    if (bid > 0 && hoursLeft >= 0) samples.push({ hoursLeft, ratio: final.price / bid });
+                }
+            }
+            return AuctionProjector.fromSamples(samples);
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`[AUCTIONS] History load failed (${errorMsg}). Using the default curve.`);
+            return new AuctionProjector();
+        }
+    }
+
+    public curve(): AuctionBucket[] {
+        return this.buckets;
+    }
+
+    // 2. PROJECTION: no end time means the longest horizon, the most cautious multiplier
+    public project(currentBid: number, endsAt?: string, now: Date = new Date()): AuctionProjection {
+        const end = endsAt ? Date.parse(endsAt) : NaN;
+        const hoursLeft = Number.isFinite(end) ? Math.max(0, (end - now.getTime()) / HOUR_MS) : null;
+        const bucket = (hoursLeft !== null && this.buckets.find(b => hoursLeft <= b.maxHoursLeft)) || this.buckets[this.buckets.length - 1];
+
+        return {
+            price: Math.round(currentBid * bucket.multiplier * 100) / 100,
+            multiplier: bucket.multiplier,
+            hoursLeft: hoursLeft !== null ? Math.round(hoursLeft * 100) / 100 : null,
+            basis: bucket.basis,
+            samples: bucket.samples
+        };
+    }
+}
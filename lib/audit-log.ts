@@ -0,0 +1,244 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'node:crypto';
+import type { NexusSession } from './auth';
+
+// ==========================================
+// VOIDLOGIC NEXUS: AUDIT TRAIL
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Audit trail offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const GENESIS_HASH = '0'.repeat(64);
+const APPEND_RETRIES = 5;
+const VERIFY_PAGE = 1000;
+
+export type AuditActorType = 'USER' | 'SCHEDULER' | 'GOD_MODE';
+
+export interface AuditActor {
+    type: AuditActorType;
+    id: string; // User email, or 'scheduler'
+}
+
+export const SCHEDULER_ACTOR: AuditActor = { type: 'SCHEDULER', id: 'scheduler' };
+
+// God Mode buys are still attributed to the buyer who armed it
+export const actorFor = (session: NexusSession, godMode = false): AuditActor => ({ type: godMode ? 'GOD_MODE' : 'USER', id: session.email });
+
+export type AuditAction =
+    | 'sweep.run'
+    | 'execution.charge'
+    | 'execution.reject'
+    | 'controls.update'
+    | 'godmode.toggle'
+    | 'autopilot.update'
+    | 'approval.request' | 'approval.approve' | 'approval.reject' | 'approval.snooze'
+    | 'brand.create' | 'brand.update' | 'brand.delete'
+    | 'search.create' | 'search.update' | 'search.delete'
+    | 'schedule.create' | 'schedule.update' | 'schedule.delete'
+    | 'alert_rule.create' | 'alert_rule.update' | 'alert_rule.delete';
+
+export interface AuditEntryInput {
+    actor: AuditActor;
+    action: AuditAction;
+    entityType: string;
+    entityId?: string | null;
+    before?: unknown;
+    after?: unknown;
+    ip?: string | null;
+}
+
+export interface AuditEntry {
+    seq: number;
+    createdAt: string;
+    actorType: AuditActorType;
+    actor: string;
+    action: AuditAction;
+    entityType: string;
+    entityId: string | null;
+    before: unknown;
+    after: unknown;
+    ip: string | null;
+    prevHash: string;
+    hash: string;
+}
+
+export interface AuditFilters {
+    actor?: string;
+    actorType?: AuditActorType;
+    action?: string;        // Exact action, or a prefix such as 'brand.'
+    entityType?: string;
+    entityId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+}
+
+export interface ChainVerification {
+    ok: boolean;
+    checked: number;
+    headSeq: number | null;
+    headHash: string | null;
+    brokenAt: number | null;
+    reason: string | null;
+}
+
+// First hop of X-Forwarded-For, as set by the platform's proxy
+export const requestIp = (request: Request) =>
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || null;
+
+// Credentials never enter the trail
+const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(redact);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, k === 'secret' ? '[REDACTED]' : redact(v)]));
+    }
+    return value ?? null;
+};
+
+// Sorted-key JSON, so the hash survives JSONB reordering keys on the way back out
+const canonical = (value: unknown): string => {
+    if (value === null || value === undefined) return 'null';
+    if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+    if (typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+export const hashEntry = (entry: Omit<AuditEntry, 'hash'>) => createHash('sha256').update(canonical({
+    seq: entry.seq,
+    createdAt: new Date(entry.createdAt).toISOString(),
+    actorType: entry.actorType,
+    actor: entry.actor,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    before: entry.before,
+    after: entry.after,
+    ip: entry.ip,
+    prevHash: entry.prevHash
+})).digest('hex');
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = ['seq', 'createdAt', 'actorType', 'actor', 'action', 'entityType', 'entityId', 'ip', 'before', 'after', 'prevHash', 'hash'];
+
+export const auditToCsv = (entries: AuditEntry[]) => {
+    const cell = (value: unknown) => {
+        const text = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [CSV_COLUMNS.join(','), ...entries.map(e => CSV_COLUMNS.map(c => cell(e[c])).join(','))].join('\r\n') + '\r\n';
+};
+
+export class AuditLog {
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    // 1. APPEND: each entry links to the previous hash. The unique seq makes two concurrent
+    // appends collide instead of forking the chain; the loser re-reads the head and retries.
+    // Never throws: the action being audited has already happened, so a failure is logged instead.
+    public async record(input: AuditEntryInput): Promise<AuditEntry | null> {
+        let lastError = 'Unknown error';
+        for (let attempt = 0; attempt < APPEND_RETRIES; attempt++) {
+            try {
+                const { data: head, error: headError } = await this.supabase
+                    .from('nexus_audit_log')
+                    .select('seq, hash')
+                    .order('seq', { ascending: false })
+                    .limit(1)
+                    .maybeSingle();
+                if (headError) throw new Error(headError.message);
+
+                const unsigned: Omit<AuditEntry, 'hash'> = {
+                    seq: head ? Number(head.seq) + 1 : 1,
+                    createdAt: new Date().toISOString(),
+                    actorType: input.actor.type,
+                    actor: input.actor.id,
+                    action: input.action,
+                    entityType: input.entityType,
+                    entityId: input.entityId ?? null,
+                    before: redact(input.before),
+                    after: redact(input.after),
+                    ip: input.ip ?? null,
+                    prevHash: head?.hash ?? GENESIS_HASH
+                };
+                const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+
+                const { error } = await this.supabase.from('nexus_audit_log').insert(entry);
+                if (!error) return entry;
+                if (error.code !== '23505') throw new Error(error.message);
+                lastError = 'Lost the append race.';
+            } catch (error: unknown) {
+                lastError = error instanceof Error ? error.message : 'Unknown error';
+                break;
+            }
+        }
+
+        console.error(`[AUDIT] Failed to record ${input.action} by ${input.actor.id}: ${lastError}`);
+        await this.supabase.from('nexus_logs').insert({
+            level: 'ERROR',
+            message: `Audit: failed to record ${input.action} on ${input.entityType}${input.entityId ? ` ${input.entityId}` : ''} by ${input.actor.id}: ${lastError}`,
+            timestamp: new Date().toISOString()
+        });
+        return null;
+    }
+
+    // 2. QUERY: newest first
+    public async list(filters: AuditFilters = {}): Promise<AuditEntry[]> {
+        let query = this.supabase.from('nexus_audit_log').select('*').order('seq', { ascending: false }).limit(Math.min(Math.max(filters.limit || 200, 1), 5000));
+        if (filters.actor) query = query.ilike('actor', `%${filters.actor}%`);
+        if (filters.actorType) query = query.eq('actorType', filters.actorType);
+        if (filters.action) query = filters.action.endsWith('.') ? query.like('action', `${filters.action}%`) : query.eq('action', filters.action);
+        if (filters.entityType) query = query.eq('entityType', filters.entityType);
+        if (filters.entityId) query = query.eq('entityId', filters.entityId);
+        if (filters.from) query = query.gte('createdAt', filters.from);
+        if (filters.to) query = query.lte('createdAt', filters.to);
+
+        const { data, error } = await query;
+        if (error) throw new Error(`Audit query failed: ${error.message}`);
+        return (data || []) as AuditEntry[];
+    }
+
+    // 3. VERIFY: walks the whole chain from seq 1. A gap means a deleted entry, a bad link
+    // means an inserted or reordered one, and a bad hash means an edited one.
+    public async verify(): Promise<ChainVerification> {
+        let prevHash = GENESIS_HASH;
+        let expectedSeq = 1;
+        let checked = 0;
+
+        const broken = (seq: number, reason: string): ChainVerification =>
+            ({ ok: false, checked, headSeq: null, headHash: null, brokenAt: seq, reason });
+
+        for (;;) {
+            const { data, error } = await this.supabase
+                .from('nexus_audit_log')
+                .select('*')
+                .gte('seq', expectedSeq)
+                .order('seq', { ascending: true })
+                .limit(VERIFY_PAGE);
+            if (error) throw new Error(`Audit verification failed: ${error.message}`);
+
+            for (const row of (data || []) as AuditEntry[]) {
+                const seq = Number(row.seq);
+                if (seq !== expectedSeq) return broken(expectedSeq, `Entry ${expectedSeq} is missing.`);
+                if (row.prevHash !== prevHash) return broken(seq, `Entry ${seq} does not link to entry ${seq - 1}.`);
+                const { hash, ...unsigned } = row;
+                if (hashEntry({ ...unsigned, seq }) !== hash) return broken(seq, `Entry ${seq} was modified after it was written.`);
+
+                prevHash = hash;
+                expectedSeq++;
+                checked++;
+            }
+            if (!data || data.length < VERIFY_PAGE) break;
+        }
+
+        return { ok: true, checked, headSeq: checked ? expectedSeq - 1 : null, headHash: checked ? prevHash : null, brokenAt: null, reason: null };
+    }
+}
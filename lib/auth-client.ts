@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { NexusRole } from '@/lib/auth';
+
+// ==========================================
+// VOIDLOGIC NEXUS: BROWSER SESSION
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+let browserClient: SupabaseClient | null = null;
+
+// One client per tab so every page shares the signed-in session (and realtime runs under it)
+export const getBrowserSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) return null;
+    if (!browserClient) browserClient = createClient(supabaseUrl, supabaseKey);
+    return browserClient;
+};
+
+// Headers for /api/nexus calls; the access token is refreshed by supabase-js as needed
+export const authHeaders = async (extra: Record<string, string> = {}): Promise<Record<string, string>> => {
+    const supabase = getBrowserSupabase();
+    const { data } = supabase ? await supabase.auth.getSession() : { data: { session: null } };
+    return {
+        'Content-Type': 'application/json',
+        ...(data.session ? { 'Authorization': `Bearer ${data.session.access_token}` } : {}),
+        ...extra
+    };
+};
+
+export interface BrowserSession {
+    email: string;
+    role: NexusRole | null;
+}
+
+// Current user and role; sends signed-out visitors to /login
+export const useNexusSession = () => {
+    const [session, setSession] = useState<BrowserSession | null>(null);
+
+    useEffect(() => {
+        const supabase = getBrowserSupabase();
+        if (!supabase) return;
+
+        const load = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) {
+                window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`;
+                return;
+            }
+            const { data: profile } = await supabase.from('nexus_profiles').select('role').eq('id', user.id).maybeSingle();
+            setSession({ email: user.email || user.id, role: (profile?.role as NexusRole | undefined) || null });
+        };
+        load();
+
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+            if (event === 'SIGNED_OUT') window.location.href = '/login';
+        });
+        return () => subscription.unsubscribe();
+    }, []);
+
+    return session;
+};
+
+export const signOut = async () => {
+    await getBrowserSupabase()?.auth.signOut();
+};
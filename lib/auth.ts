@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SESSION & ROLE CHECKS
+// ==========================================
+
+// Roles are cumulative: an operator can do everything a viewer can, a buyer everything an operator can
+export type NexusRole = 'viewer' | 'operator' | 'buyer';
+
+export const NEXUS_ROLES: NexusRole[] = ['viewer', 'operator', 'buyer'];
+
+const ROLE_RANK: Record<NexusRole, number> = { viewer: 1, operator: 2, buyer: 3 };
+
+export interface NexusSession {
+    userId: string;
+    email: string;
+    role: NexusRole;
+}
+
+// Service-role client for route handlers; null when the environment is incomplete
+export const connect = (): SupabaseClient | null => {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+    if (!supabaseUrl || !supabaseKey) return null;
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+export const hasRole = (session: NexusSession, required: NexusRole) => ROLE_RANK[session.role] >= ROLE_RANK[required];
+
+const bearerToken = (request: Request) => {
+    const header = request.headers.get('authorization') || '';
+    return header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+};
+
+// Resolves the Supabase Auth access token on the request to a user and their role in nexus_profiles
+export async function getSession(request: Request, supabase: SupabaseClient): Promise<NexusSession | null> {
+    const token = bearerToken(request);
+    if (!token) return null;
+
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+    if (error || !user) return null;
+
+    const { data: profile } = await supabase.from('nexus_profiles').select('role').eq('id', user.id).maybeSingle();
+    const role = profile?.role as NexusRole | undefined;
+    if (!role || !ROLE_RANK[role]) return null;
+
+    return { userId: user.id, email: user.email || user.id, role };
+}
+
+type Authorization =
+    | { session: NexusSession; denied: null }
+    | { session: null; denied: NextResponse };
+
+// 401 without a valid session, 403 when the user's role is below the one the route needs
+export async function authorize(request: Request, supabase: SupabaseClient, required: NexusRole): Promise<Authorization> {
+    const session = await getSession(request, supabase);
+    if (!session) {
+        return { session: null, denied: NextResponse.json({ error: 'UNAUTHORIZED_ACCESS' }, { status: 401 }) };
+    }
+    if (!hasRole(session, required)) {
+        return {
+            session: null,
+            denied: NextResponse.json({ error: 'FORBIDDEN', details: `Requires the ${required} role; you are ${session.role}.` }, { status: 403 })
+        };
+    }
+    return { session, denied: null };
+}
@@ -0,0 +1,262 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { MarketSignal } from './nexus-engine';
+import type { ValuationConfidence } from './valuation-engine';
+import { normalizeText } from './brand-catalog';
+import { SignalExecutor } from './signal-executor';
+import { AuditLog, type AuditActor } from './audit-log';
+
+// ==========================================
+// VOIDLOGIC NEXUS: GOD MODE AUTOPILOT
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Autopilot offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const POLICY_ID = 'global';
+
+// Autopilot buys carry this idempotency key prefix, which is how its own spend is told apart
+export const AUTOPILOT_KEY_PREFIX = 'nexus-auto-';
+
+const CONFIDENCE_RANK: Record<ValuationConfidence, number> = { NONE: 0, LOW: 1, MEDIUM: 2, HIGH: 3 };
+
+export interface AutopilotPolicy {
+    id: string;
+    enabled: boolean;
+    minRoiPct: number;
+    maxRisk: number;                   // 0..1; stricter than the guard's hard counterfeit ceiling
+    maxItemPrice: number;              // Base currency, as is dailySpendLimit
+    minCondition: number;              // 1-5
+    minConfidence: ValuationConfidence;
+    brands: string[];                  // Empty = any brand
+    sources: string[];                 // Empty = any source
+    searchIds: string[];               // Empty = any signal, scoped or not
+    dailySpendLimit: number;           // Autopilot's own cap; the execution guard budgets still apply on top
+    armedBy: string | null;            // Email of the buyer who enabled it; buys are attributed to them
+    armedAt: string | null;
+    updatedAt: string;
+}
+
+// Disarmed and strict until a buyer configures nexus_autopilot
+export const DEFAULT_AUTOPILOT_POLICY: AutopilotPolicy = {
+    id: POLICY_ID,
+    enabled: false,
+    minRoiPct: 50,
+    maxRisk: 0.2,
+    maxItemPrice: 1000,
+    minCondition: 4,
+    minConfidence: 'HIGH',
+    brands: [],
+    sources: [],
+    searchIds: [],
+    dailySpendLimit: 2000,
+    armedBy: null,
+    armedAt: null,
+    updatedAt: new Date(0).toISOString()
+};
+
+export type AutopilotPolicyInput = Partial<Pick<AutopilotPolicy,
+    'enabled' | 'minRoiPct' | 'maxRisk' | 'maxItemPrice' | 'minCondition' | 'minConfidence' | 'brands' | 'sources' | 'searchIds' | 'dailySpendLimit'>>;
+
+export interface AutopilotState {
+    policy: AutopilotPolicy;
+    spentToday: number;
+    remainingToday: number;
+}
+
+export interface AutopilotRun {
+    considered: number;
+    eligible: number;
+    executed: string[];
+    skipped: { id: string; reason: string }[];
+}
+
+const list = (v: unknown) => Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(s => s.trim()) : [];
+
+// Validates a partial policy from untrusted input (used by the autopilot route). Only fields present are returned.
+export const parseAutopilotPolicy = (input: any): AutopilotPolicyInput => {
+    const patch: AutopilotPolicyInput = {};
+    if (input?.enabled !== undefined) {
+        if (typeof input.enabled !== 'boolean') throw new Error('enabled must be a boolean.');
+        patch.enabled = input.enabled;
+    }
+
+    const numeric = (field: 'minRoiPct' | 'maxItemPrice' | 'dailySpendLimit') => {
+        if (input?.[field] === undefined) return;
+        const n = Number(input[field]);
+        if (!Number.isFinite(n) || n < 0) throw new Error(`${field} must be a non-negative number.`);
+        patch[field] = n;
+    };
+    numeric('minRoiPct');
+    numeric('maxItemPrice');
+    numeric('dailySpendLimit');
+
+    if (input?.maxRisk !== undefined) {
+        const n = Number(input.maxRisk);
+        if (!Number.isFinite(n) || n < 0 || n > 1) throw new Error('maxRisk must be between 0 and 1.');
+        patch.maxRisk = n;
+    }
+    if (input?.minCondition !== undefined) {
+        const n = Number(input.minCondition);
+        if (!Number.isInteger(n) || n < 1 || n > 5) throw new Error('minCondition must be an integer from 1 to 5.');
+        patch.minCondition = n;
+    }
+    if (input?.minConfidence !== undefined) {
+        if (!(input.minConfidence in CONFIDENCE_RANK)) throw new Error(`minConfidence must be one of ${Object.keys(CONFIDENCE_RANK).join(', ')}.`);
+        patch.minConfidence = input.minConfidence;
+    }
+    if (input?.brands !== undefined) patch.brands = list(input.brands);
+    if (input?.sources !== undefined) patch.sources = list(input.sources);
+    if (input?.searchIds !== undefined) patch.searchIds = list(input.searchIds);
+    return patch;
+};
+
+// The policy's own rules; the execution guard re-checks kill switch, budgets and brand limits at buy time
+export const autopilotRejection = (signal: MarketSignal, policy: AutopilotPolicy): string | null => {
+    if (signal.status !== 'PENDING') return `status ${signal.status}`;
+    if (signal.listingType === 'AUCTION') return 'auction';
+    if (signal.roiPct < policy.minRoiPct) return `ROI ${signal.roiPct}% below ${policy.minRoiPct}%`;
+    if (signal.riskScore > policy.maxRisk) return `risk ${signal.riskScore} above ${policy.maxRisk}`;
+    if (signal.listedPriceBase > policy.maxItemPrice) return `price ${signal.listedPriceBase} ${signal.baseCurrency} above ${policy.maxItemPrice}`;
+    if (signal.conditionScore < policy.minCondition) return `condition ${signal.conditionScore} below ${policy.minCondition}`;
+    if (CONFIDENCE_RANK[signal.valuationConfidence] < CONFIDENCE_RANK[policy.minConfidence]) return `${signal.valuationConfidence} valuation confidence`;
+    if (policy.brands.length && !policy.brands.some(b => normalizeText(b) === normalizeText(signal.brandCategory))) return `brand ${signal.brandCategory} not allowed`;
+    if (policy.sources.length && !policy.sources.includes(signal.source)) return `source ${signal.source} not allowed`;
+    if (policy.searchIds.length && !(signal.searchId && policy.searchIds.includes(signal.searchId))) return 'not from an allowed saved search';
+    return null;
+};
+
+const dayStart = (now = new Date()) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+
+export class Autopilot {
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    public async getPolicy(): Promise<AutopilotPolicy> {
+        const { data, error } = await this.supabase
+            .from('nexus_autopilot')
+            .select('*')
+            .eq('id', POLICY_ID)
+            .maybeSingle();
+        if (error) throw new Error(`Autopilot lookup failed: ${error.message}`);
+        return data ? { ...DEFAULT_AUTOPILOT_POLICY, ...data } : DEFAULT_AUTOPILOT_POLICY;
+    }
+
+    // Arming records who is responsible for the buys; disarming keeps the last armedBy for the record
+    public async updatePolicy(patch: AutopilotPolicyInput, actor: AuditActor, ip: string | null = null): Promise<AutopilotPolicy> {
+        const before = await this.getPolicy();
+        const now = new Date().toISOString();
+        const arming = patch.enabled === true && !before.enabled;
+        const next: AutopilotPolicy = {
+            ...before,
+            ...patch,
+            id: POLICY_ID,
+            armedBy: arming ? actor.id : before.armedBy,
+            armedAt: arming ? now : before.armedAt,
+            updatedAt: now
+        };
+
+        const { error } = await this.supabase.from('nexus_autopilot').upsert(next, { onConflict: 'id' });
+        if (error) throw new Error(`Autopilot update failed: ${error.message}`);
+
+        const toggled = patch.enabled !== undefined && patch.enabled !== before.enabled;
+        await this.supabase.from('nexus_logs').insert({
+            level: toggled ? 'CRITICAL' : 'INFO',
+            message: toggled
+                ? `God Mode ${next.enabled ? 'ARMED. Autopilot will execute qualifying signals.' : 'disarmed.'} (${actor.id})`
+                : `Autopilot policy updated by ${actor.id}: ${Object.keys(patch).join(', ')}.`,
+            timestamp: now
+        });
+        await new AuditLog(this.supabase).record({
+            actor,
+            action: toggled ? 'godmode.toggle' : 'autopilot.update',
+            entityType: 'autopilot',
+            entityId: POLICY_ID,
+            before,
+            after: next,
+            ip
+        });
+        return next;
+    }
+
+    // Executed and in-flight autopilot charges since UTC midnight
+    public async spentToday(): Promise<number> {
+        const { data, error } = await this.supabase
+            .from('nexus_signals')
+            .select('executedAmount, executedAmountBase')
+            .in('status', ['EXECUTING', 'EXECUTED'])
+            .like('executionKey', `${AUTOPILOT_KEY_PREFIX}%`)
+            .gte('executedAt', dayStart());
+        if (error) throw new Error(`Autopilot spend lookup failed: ${error.message}`);
+        return Math.round((data || []).reduce((sum, r) => sum + (Number(r.executedAmountBase ?? r.executedAmount) || 0), 0) * 100) / 100;
+    }
+
+    public async getState(): Promise<AutopilotState> {
+        const [policy, spentToday] = await Promise.all([this.getPolicy(), this.spentToday()]);
+        return { policy, spentToday, remainingToday: Math.max(0, Math.round((policy.dailySpendLimit - spentToday) * 100) / 100) };
+    }
+
+    // Called by the engine after each sweep. Best ROI is bought first until the daily limit runs out.
+    public async consider(signals: MarketSignal[]): Promise<AutopilotRun> {
+        const run: AutopilotRun = { considered: signals.length, eligible: 0, executed: [], skipped: [] };
+        const policy = await this.getPolicy();
+        if (!policy.enabled || !policy.armedBy || signals.length === 0) return run;
+
+        // 1. The buyer who armed it must still be a buyer, or nothing is spent on their behalf
+        const { data: profile } = await this.supabase.from('nexus_profiles').select('role').eq('email', policy.armedBy).maybeSingle();
+        if (profile?.role !== 'buyer') {
+            await this.supabase.from('nexus_logs').insert({
+                level: 'WARN',
+                message: `Autopilot: ${policy.armedBy} no longer holds the buyer role. Standing down.`,
+                timestamp: new Date().toISOString()
+            });
+            return run;
+        }
+
+        // 2. Policy filter, best opportunities first
+        const candidates = signals
+            .filter(s => {
+                const reason = autopilotRejection(s, policy);
+                if (reason) run.skipped.push({ id: s.id, reason });
+                return !reason;
+            })
+            .sort((a, b) => b.roiPct - a.roiPct);
+        run.eligible = candidates.length;
+
+        // 3. Execute through the same path as a manual buy: guardrails, claim, charge, order, audit
+        const executor = new SignalExecutor(this.supabase);
+        const actor: AuditActor = { type: 'GOD_MODE', id: policy.armedBy };
+        let spent = await this.spentToday();
+
+        for (const signal of candidates) {
+            if (spent + signal.listedPriceBase > policy.dailySpendLimit) {
+                run.skipped.push({ id: signal.id, reason: 'autopilot daily limit' });
+                continue;
+            }
+
+            const result = await executor.execute({ signalId: signal.id, idempotencyKey: `${AUTOPILOT_KEY_PREFIX}${signal.id}`, actor });
+            if (result.outcome === 'SUCCESS' || result.outcome === 'PAYMENT_PENDING') {
+                spent += signal.listedPriceBase;
+                run.executed.push(signal.id);
+            } else {
+                run.skipped.push({ id: signal.id, reason: result.outcome === 'REJECTED' ? result.reason.code : result.outcome });
+                // The kill switch halts everything, so there is no point trying the rest
+                if (result.outcome === 'REJECTED' && result.reason.code === 'KILL_SWITCH') break;
+            }
+        }
+
+        if (run.executed.length > 0 || run.eligible > 0) {
+            await this.supabase.from('nexus_logs').insert({
+                level: 'INFO',
+                message: `Autopilot: ${run.executed.length} of ${run.eligible} eligible signals executed for ${policy.armedBy} (${spent.toFixed(2)} / ${policy.dailySpendLimit} today).`,
+                timestamp: new Date().toISOString()
+            });
+        }
+        return run;
+    }
+}
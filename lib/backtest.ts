@@ -0,0 +1,349 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { evaluateListing, type MarketSignal } from './nexus-engine';
+import { ValuationEngine, DEFAULT_VALUATION_CONFIG, type SoldComp, type ValuationConfig } from './valuation-engine';
+import { ProfitCalculator, DEFAULT_MIN_ROI_PCT, DEFAULT_RESALE_CHANNEL } from './profit-calculator';
+import { BrandCatalog, DEFAULT_BRAND_CATALOG, type BrandEntry, type BrandTier } from './brand-catalog';
+import { RiskScorer, MAX_EXECUTION_RISK } from './risk-scorer';
+import type { RawListing, ConditionScore } from './sources';
+import { createEmbeddingProvider, parseVector, type EmbeddingProvider } from './embeddings';
+import { embedComps } from './semantic-matcher';
+import { DEFAULT_BASE_CURRENCY, FxRateTable, type FxRate } from './fx';
+
+// ==========================================
+// VOIDLOGIC NEXUS: BACKTEST HARNESS
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Backtest live dataset offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const DAY_MS = 24 * 3600 * 1000;
+const ALL_TIERS: BrandTier[] = ['ULTRA', 'HIGH', 'CORE'];
+
+// 1. DATASET
+// What we eventually learned about a listing: its resale, or that it was not what it claimed to be
+export interface BacktestOutcome {
+    salePrice?: number;
+    resaleChannel?: string;
+    authentic?: boolean;      // false = counterfeit, a total loss
+    actualCondition?: ConditionScore;
+}
+
+export interface BacktestCase {
+    source: string;           // Adapter id, e.g. 'ebay'
+    observedAt: string;       // Only comps sold before this moment are visible to the valuation
+    listing: RawListing;
+    fxRate?: number;          // Rate the listing's currency traded at when observed; overrides the dataset rates
+    outcome?: BacktestOutcome;
+}
+
+export interface BacktestDataset {
+    name: string;
+    brands?: BrandEntry[];    // Defaults to the built-in catalog
+    comps: SoldComp[];
+    cases: BacktestCase[];
+    baseCurrency?: string;    // Defaults to NEXUS_BASE_CURRENCY; outcome sale prices are in this currency
+    fxRates?: FxRate[];       // Needed only when listings or comps are quoted in other currencies
+}
+
+// 2. RULES: the knobs a candidate configuration may turn
+export interface BacktestRules {
+    label: string;
+    minRoiPct: number;
+    tierMinRoiPct: Partial<Record<BrandTier, number>>; // Per-tier override of minRoiPct
+    enabledTiers: BrandTier[];
+    maxRisk: number;          // Signals at or above are found but never executed
+    resaleChannel: string;
+    valuation: Partial<ValuationConfig>; // conditionMultipliers, method, lookbackDays, ...
+}
+
+export const CURRENT_RULES: BacktestRules = {
+    label: 'current',
+    minRoiPct: DEFAULT_MIN_ROI_PCT,
+    tierMinRoiPct: {},
+    enabledTiers: ALL_TIERS,
+    maxRisk: MAX_EXECUTION_RISK,
+    resaleChannel: DEFAULT_RESALE_CHANNEL,
+    valuation: {}
+};
+
+// 3. RESULTS
+export type CaseDecision = 'NO_SIGNAL' | 'TIER_DISABLED' | 'BELOW_TIER_ROI' | 'BLOCKED_RISK' | 'EXECUTED';
+
+export interface CaseResult {
+    id: string;
+    title: string;
+    decision: CaseDecision;
+    estimatedValue: number | null;
+    expectedNet: number | null;
+    capital: number;              // Acquisition cost when executed
+    realizedNet: number | null;   // Simulated from the outcome; null when the outcome is unknown
+}
+
+export interface BacktestReport {
+    label: string;
+    dataset: string;
+    cases: number;
+    signals: number;              // Listings that cleared valuation and the ROI threshold
+    executed: number;             // Signals that also cleared tier and risk gates
+    capitalDeployed: number;
+    resolved: number;             // Executed signals with a known outcome
+    expectedNet: number;          // Over resolved executions
+    simulatedNet: number;         // Over resolved executions
+    simulatedRoiPct: number | null;
+    falsePositives: number;       // Resolved executions that lost money
+    falsePositiveRate: number | null;
+    missedOpportunities: number;  // Skipped listings whose outcome would have cleared the ROI bar
+    results: CaseResult[];
+}
+
+export interface BacktestComparison {
+    baseline: BacktestReport;
+    candidate: BacktestReport;
+    delta: {
+        signals: number;
+        executed: number;
+        capitalDeployed: number;
+        simulatedNet: number;
+        falsePositiveRate: number | null;
+        missedOpportunities: number;
+    };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Accepts a partial rule set from untrusted input and fills the rest from the current rules
+export const resolveRules = (input: Partial<BacktestRules> = {}, base: BacktestRules = CURRENT_RULES): BacktestRules => {
+    const rules: BacktestRules = {
+        ...base,
+        ...input,
+        tierMinRoiPct: { ...base.tierMinRoiPct, ...input.tierMinRoiPct },
+        valuation: {
+            ...base.valuation,
+            ...input.valuation,
+            ...(input.valuation?.conditionMultipliers
+                ? { conditionMultipliers: { ...DEFAULT_VALUATION_CONFIG.conditionMultipliers, ...input.valuation.conditionMultipliers } }
+                : {})
+        }
+    };
+
+    if (!Number.isFinite(rules.minRoiPct)) throw new Error('minRoiPct must be a number.');
+    if (!Number.isFinite(rules.maxRisk) || rules.maxRisk <= 0 || rules.maxRisk > 1) throw new Error('maxRisk must be in (0, 1].');
+    if (!Array.isArray(rules.enabledTiers) || rules.enabledTiers.some(t => !ALL_TIERS.includes(t))) {
+        throw new Error(`enabledTiers must be a subset of ${ALL_TIERS.join(', ')}.`);
+    }
+    for (const [grade, multiplier] of Object.entries(rules.valuation.conditionMultipliers || {})) {
+        if (!Number.isFinite(multiplier) || multiplier <= 0) throw new Error(`conditionMultipliers[${grade}] must be positive.`);
+    }
+    return rules;
+};
+
+// 4. SIMULATION
+// Point-in-time comps: the valuation only sees sales that had happened when the listing was observed
+const compsAsOf = (comps: SoldComp[], observedAt: string, lookbackDays: number) => {
+    const until = new Date(observedAt).getTime();
+    const since = until - lookbackDays * DAY_MS;
+    return async (brand: string) => comps.filter(c => {
+        const soldAt = new Date(c.soldAt).getTime();
+        return c.brand === brand && soldAt < until && soldAt >= since;
+    });
+};
+
+// The rate a case's listing is converted at: its own recorded rate when it has one, else the dataset's
+const ratesFor = (rates: FxRateTable, testCase: BacktestCase): FxRateTable =>
+    testCase.fxRate ? rates.withRate(testCase.listing.currency, testCase.fxRate, testCase.observedAt) : rates;
+
+export const runBacktest = async (
+    dataset: BacktestDataset,
+    rules: BacktestRules = CURRENT_RULES,
+    embeddings: EmbeddingProvider = createEmbeddingProvider()
+): Promise<BacktestReport> => {
+    const catalog = new BrandCatalog(dataset.brands?.length ? dataset.brands : DEFAULT_BRAND_CATALOG);
+    const profit = new ProfitCalculator();
+    const risk = new RiskScorer();
+    const lookbackDays = rules.valuation.lookbackDays ?? DEFAULT_VALUATION_CONFIG.lookbackDays;
+    const rates = new FxRateTable(dataset.baseCurrency || DEFAULT_BASE_CURRENCY, dataset.fxRates || []);
+
+    // Same semantic comp matching as a live sweep; the local provider keeps this offline
+    const comps = await embedComps(dataset.comps, embeddings, catalog);
+
+    // Evaluate at the loosest threshold any tier uses, then apply the per-tier bar below
+    const floorRoi = Math.min(rules.minRoiPct, ...Object.values(rules.tierMinRoiPct).filter((v): v is number => v !== undefined));
+    const results: CaseResult[] = [];
+
+    for (const testCase of dataset.cases) {
+        const adapter = { id: testCase.source, label: testCase.source, idPrefix: testCase.source.toUpperCase() };
+        const fx = ratesFor(rates, testCase);
+        const valuation = new ValuationEngine({ minSimilarity: embeddings.relatedSimilarity, ...rules.valuation }, compsAsOf(comps, testCase.observedAt, lookbackDays), fx);
+        const signal = fx.has(testCase.listing.currency)
+            ? await evaluateListing(adapter, testCase.listing, { catalog, valuation, profit, risk, fx, embeddings }, {
+                minRoiPct: floorRoi,
+                resaleChannel: rules.resaleChannel,
+                now: new Date(testCase.observedAt)
+            })
+            : null;
+
+        results.push(decide(testCase, signal, rules, profit));
+    }
+
+    return summarize(dataset, rules, results, rates);
+};
+
+const decide = (testCase: BacktestCase, signal: MarketSignal | null, rules: BacktestRules, profit: ProfitCalculator): CaseResult => {
+    const base = {
+        id: `${testCase.source.toUpperCase()}-${testCase.listing.externalId}`,
+        title: testCase.listing.title,
+        estimatedValue: signal?.estimatedValue ?? null,
+        expectedNet: signal?.netProfit ?? null,
+        capital: 0,
+        realizedNet: null
+    };
+    if (!signal) return { ...base, decision: 'NO_SIGNAL' };
+    if (!rules.enabledTiers.includes(signal.brandTier)) return { ...base, decision: 'TIER_DISABLED' };
+    if (signal.roiPct < (rules.tierMinRoiPct[signal.brandTier] ?? rules.minRoiPct)) return { ...base, decision: 'BELOW_TIER_ROI' };
+    if (signal.riskScore >= rules.maxRisk) return { ...base, decision: 'BLOCKED_RISK' };
+
+    const capital = signal.costBreakdown.acquisitionCost;
+    return { ...base, decision: 'EXECUTED', capital, realizedNet: simulateOutcome(testCase.outcome, capital, rules, profit) };
+};
+
+// Realized net for an executed listing: a fake is a total loss, a sale pays the channel's fees
+const simulateOutcome = (outcome: BacktestOutcome | undefined, capital: number, rules: BacktestRules, profit: ProfitCalculator): number | null => {
+    if (!outcome) return null;
+    if (outcome.authentic === false) return round2(-capital);
+    if (outcome.salePrice === undefined) return null;
+
+    const channel = outcome.resaleChannel || rules.resaleChannel;
+    const selling = profit.sellingCosts(outcome.salePrice, channel, true);
+    return round2(outcome.salePrice - selling.sellingCost - capital);
+};
+
+// A skipped listing was a miss if buying it at the listed price would have cleared the ROI bar.
+// The sale price is in the base currency, so the listing's price and shipping are converted first.
+const wouldHavePaid = (testCase: BacktestCase, rules: BacktestRules, profit: ProfitCalculator, rates: FxRateTable): boolean => {
+    const outcome = testCase.outcome;
+    if (!outcome || outcome.authentic === false || outcome.salePrice === undefined) return false;
+    const fx = ratesFor(rates, testCase);
+    const { currency, price, shippingCost } = testCase.listing;
+    if (!fx.has(currency)) return false;
+    const costs = profit.calculate({
+        sourceId: testCase.source,
+        purchasePrice: fx.toBase(price, currency),
+        resalePrice: outcome.salePrice,
+        quotedShipping: shippingCost !== undefined ? fx.toBase(shippingCost, currency) : undefined,
+        requiresAuthentication: true,
+        resaleChannel: outcome.resaleChannel || rules.resaleChannel
+    });
+    return costs.roiPct >= rules.minRoiPct;
+};
+
+const summarize = (dataset: BacktestDataset, rules: BacktestRules, results: CaseResult[], rates: FxRateTable): BacktestReport => {
+    const profit = new ProfitCalculator();
+    const executed = results.filter(r => r.decision === 'EXECUTED');
+    const resolved = executed.filter(r => r.realizedNet !== null);
+    const capitalResolved = resolved.reduce((sum, r) => sum + r.capital, 0);
+    const simulatedNet = round2(resolved.reduce((sum, r) => sum + (r.realizedNet ?? 0), 0));
+    const falsePositives = resolved.filter(r => (r.realizedNet ?? 0) <= 0).length;
+
+    const missedOpportunities = dataset.cases.filter((testCase, i) =>
+        results[i].decision !== 'EXECUTED' && wouldHavePaid(testCase, rules, profit, rates)
+    ).length;
+
+    return {
+        label: rules.label,
+        dataset: dataset.name,
+        cases: results.length,
+        signals: results.filter(r => r.decision !== 'NO_SIGNAL').length,
+        executed: executed.length,
+        capitalDeployed: round2(executed.reduce((sum, r) => sum + r.capital, 0)),
+        resolved: resolved.length,
+        expectedNet: round2(resolved.reduce((sum, r) => sum + (r.expectedNet ?? 0), 0)),
+        simulatedNet,
+        simulatedRoiPct: capitalResolved > 0 ? round2((simulatedNet / capitalResolved) * 100) : null,
+        falsePositives,
+        falsePositiveRate: resolved.length ? round2((falsePositives / resolved.length) * 100) : null,
+        missedOpportunities,
+        results
+    };
+};
+
+export const compareRules = async (
+    dataset: BacktestDataset,
+    candidate: BacktestRules,
+    baseline: BacktestRules = CURRENT_RULES,
+    embeddings: EmbeddingProvider = createEmbeddingProvider()
+): Promise<BacktestComparison> => {
+    const base = await runBacktest(dataset, baseline, embeddings);
+    const cand = await runBacktest(dataset, candidate, embeddings);
+    return {
+        baseline: base,
+        candidate: cand,
+        delta: {
+            signals: cand.signals - base.signals,
+            executed: cand.executed - base.executed,
+            capitalDeployed: round2(cand.capitalDeployed - base.capitalDeployed),
+            simulatedNet: round2(cand.simulatedNet - base.simulatedNet),
+            falsePositiveRate: cand.falsePositiveRate !== null && base.falsePositiveRate !== null
+                ? round2(cand.falsePositiveRate - base.falsePositiveRate)
+                : null,
+            missedOpportunities: cand.missedOpportunities - base.missedOpportunities
+        }
+    };
+};
+
+// 5. LIVE DATASET: stored signals with their realized inventory outcomes, plus every stored comp.
+// Listings replay at the rate they were valued at; comps in other currencies use `fxRates`.
+export const loadLiveDataset = async (supabase: SupabaseClient = getSupabase(), fxRates: FxRate[] = []): Promise<BacktestDataset> => {
+    const [signals, inventory, comps, brands] = await Promise.all([
+        supabase.from('nexus_signals').select('id, source, targetName, listedPrice, firstPrice, currency, fxRate, listingType, endsAt, conditionScore, costBreakdown, url, firstSeenAt, timestamp'),
+        supabase.from('nexus_inventory').select('signalId, salePrice, saleChannel, actualCondition, status'),
+        supabase.from('nexus_comps').select('*'),
+        supabase.from('nexus_brands').select('*')
+    ]);
+    for (const result of [signals, inventory, comps, brands]) {
+        if (result.error) throw new Error(`Live dataset load failed: ${result.error.message}`);
+    }
+
+    const outcomes = new Map((inventory.data || []).map(row => [row.signalId as string, row]));
+
+    return {
+        name: 'live',
+        baseCurrency: DEFAULT_BASE_CURRENCY,
+        fxRates,
+        brands: (brands.data || []) as BrandEntry[],
+        comps: (comps.data || []).map(c => ({ ...c, embedding: parseVector(c.embedding) })) as SoldComp[],
+        cases: (signals.data || []).map(row => {
+            const [prefix, ...rest] = String(row.id).split('-');
+            const sold = outcomes.get(row.id);
+            const auction = row.listingType === 'AUCTION';
+            return {
+                source: prefix.toLowerCase(),
+                observedAt: row.firstSeenAt || row.timestamp,
+                fxRate: row.fxRate ? Number(row.fxRate) : undefined,
+                listing: {
+                    externalId: rest.join('-'),
+                    title: row.targetName,
+                    // An auction's stored price is its last bid; the replay starts from the bid seen at observedAt
+                    price: Number(auction ? row.firstPrice ?? row.listedPrice : row.listedPrice),
+                    currency: row.currency,
+                    listingType: auction ? 'AUCTION' : 'FIXED_PRICE',
+                    endsAt: auction ? row.endsAt ?? undefined : undefined,
+                    // The breakdown is in the base currency; the listing quotes shipping in its own
+                    shippingCost: row.costBreakdown?.inboundShipping !== undefined ? row.costBreakdown.inboundShipping * (Number(row.fxRate) || 1) : undefined,
+                    condition: '',
+                    conditionScore: row.conditionScore,
+                    url: row.url
+                },
+                outcome: sold?.status === 'SOLD'
+                    ? { salePrice: Number(sold.salePrice), resaleChannel: sold.saleChannel, actualCondition: sold.actualCondition ?? undefined }
+                    : undefined
+            };
+        })
+    };
+};
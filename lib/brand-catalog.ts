@@ -0,0 +1,134 @@
+import { createClient } from '@supabase/supabase-js';
+
+// ==========================================
+// VOIDLOGIC NEXUS: BRAND CATALOG
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Brand catalog offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+export type BrandTier = 'ULTRA' | 'HIGH' | 'CORE';
+
+export interface BrandEntry {
+    id: string;               // slug, e.g. 'louis-vuitton'
+    name: string;             // Canonical display name stored on signals
+    aliases: string[];        // Alternate spellings and abbreviations ('LV', 'Hermes')
+    negativeKeywords: string[]; // Brand-specific phrases that disqualify a match
+    tier: BrandTier;
+    models: string[];         // Known model names ('Birkin', 'Speedy') used for valuation matching
+    active: boolean;
+}
+
+export interface BrandMatch {
+    brand: BrandEntry;
+    model: string | null;
+}
+
+// Phrases that mean "not actually this brand". {brand} is replaced by each alias.
+const GLOBAL_NEGATIVE_PATTERNS = [
+    '{brand} style', '{brand} inspired', 'inspired by {brand}', 'style of {brand}',
+    'like {brand}', '{brand} dupe', 'dupe {brand}', 'not {brand}', '{brand} look alike', '{brand} lookalike'
+];
+
+// Used when nexus_brands is empty or unreachable so a fresh install still hunts
+export const DEFAULT_BRAND_CATALOG: BrandEntry[] = [
+    { id: 'hermes', name: 'Hermès', aliases: ['Hermes'], negativeKeywords: [], tier: 'ULTRA', models: ['Birkin', 'Kelly', 'Constance', 'Evelyne', 'Picotin', 'Garden Party', 'Lindy'], active: true },
+    { id: 'chanel', name: 'Chanel', aliases: ['CC'], negativeKeywords: ['chanel no 5', 'perfume', 'eau de'], tier: 'ULTRA', models: ['Classic Flap', 'Boy', '2.55', 'Wallet on Chain', 'WOC', 'Gabrielle', '19'], active: true },
+    { id: 'louis-vuitton', name: 'Louis Vuitton', aliases: ['LV'], negativeKeywords: [], tier: 'HIGH', models: ['Speedy', 'Neverfull', 'Alma', 'Keepall', 'Pochette', 'OnTheGo', 'Capucines', 'Twist'], active: true },
+    { id: 'gucci', name: 'Gucci', aliases: [], negativeKeywords: [], tier: 'HIGH', models: ['Marmont', 'Dionysus', 'Jackie', 'Horsebit', 'Ophidia', 'Bamboo'], active: true },
+    { id: 'prada', name: 'Prada', aliases: [], negativeKeywords: [], tier: 'HIGH', models: ['Galleria', 'Re-Edition', 'Cleo', 'Saffiano'], active: true },
+    { id: 'dior', name: 'Dior', aliases: ['Christian Dior'], negativeKeywords: ['sauvage', 'perfume'], tier: 'HIGH', models: ['Lady Dior', 'Saddle', 'Book Tote', 'Bobby', '30 Montaigne'], active: true },
+    { id: 'goyard', name: 'Goyard', aliases: [], negativeKeywords: [], tier: 'HIGH', models: ['Saint Louis', 'Artois', 'Anjou', 'Belvedere'], active: true },
+    { id: 'bottega-veneta', name: 'Bottega Veneta', aliases: ['Bottega'], negativeKeywords: [], tier: 'HIGH', models: ['Jodie', 'Cassette', 'Pouch', 'Arco', 'Intrecciato'], active: true },
+    { id: 'celine', name: 'Celine', aliases: ['Céline'], negativeKeywords: [], tier: 'HIGH', models: ['Luggage', 'Belt Bag', 'Triomphe', 'Classic Box', 'Trapeze'], active: true },
+    { id: 'balenciaga', name: 'Balenciaga', aliases: [], negativeKeywords: [], tier: 'CORE', models: ['City', 'Hourglass', 'Le Cagole', 'Neo Classic'], active: true },
+    { id: 'fendi', name: 'Fendi', aliases: [], negativeKeywords: [], tier: 'CORE', models: ['Baguette', 'Peekaboo', 'First', 'Sunshine'], active: true },
+    { id: 'saint-laurent', name: 'Saint Laurent', aliases: ['YSL', 'Yves Saint Laurent'], negativeKeywords: ['lipstick', 'perfume'], tier: 'CORE', models: ['Loulou', 'Sac de Jour', 'Kate', 'Niki', 'Le 5 a 7'], active: true },
+    { id: 'valentino', name: 'Valentino', aliases: ['Valentino Garavani'], negativeKeywords: [], tier: 'CORE', models: ['Rockstud', 'Roman Stud', 'Locò'], active: true },
+    { id: 'givenchy', name: 'Givenchy', aliases: [], negativeKeywords: [], tier: 'CORE', models: ['Antigona', 'Pandora', 'Cut Out'], active: true },
+    { id: 'burberry', name: 'Burberry', aliases: [], negativeKeywords: [], tier: 'CORE', models: ['Lola', 'TB', 'Pocket'], active: true },
+    { id: 'chloe', name: 'Chloe', aliases: ['Chloé'], negativeKeywords: [], tier: 'CORE', models: ['Marcie', 'Faye', 'Tess', 'Woody', 'Paddington'], active: true },
+    { id: 'loewe', name: 'Loewe', aliases: [], negativeKeywords: [], tier: 'HIGH', models: ['Puzzle', 'Hammock', 'Flamenco', 'Gate'], active: true },
+    { id: 'miu-miu', name: 'Miu Miu', aliases: [], negativeKeywords: [], tier: 'CORE', models: ['Wander', 'Arcadie', 'Matelasse'], active: true },
+    { id: 'salvatore-ferragamo', name: 'Salvatore Ferragamo', aliases: ['Ferragamo'], negativeKeywords: [], tier: 'CORE', models: ['Vara', 'Studio', 'Gancini'], active: true },
+    { id: 'versace', name: 'Versace', aliases: [], negativeKeywords: ['versace jeans'], tier: 'CORE', models: ['La Medusa', 'Virtus', 'Greca'], active: true }
+];
+
+// Lowercases, strips accents and collapses punctuation so "HERMÈS", "Hermes" and "hermes" compare equal
+export const normalizeText = (text: string): string =>
+    ` ${text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9.]+|\.(?!\d)|(?<!\d)\./g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+const containsPhrase = (haystack: string, phrase: string): boolean => {
+    const needle = normalizeText(phrase);
+    return needle.trim().length > 0 && haystack.includes(needle);
+};
+
+export class BrandCatalog {
+    constructor(private entries: BrandEntry[]) {}
+
+    // Loads the active catalog from nexus_brands, falling back to the built-in list
+    public static async load(): Promise<BrandCatalog> {
+        try {
+            const { data, error } = await getSupabase().from('nexus_brands').select('*').eq('active', true);
+            if (error) throw new Error(error.message);
+            if (data && data.length > 0) return new BrandCatalog(data as BrandEntry[]);
+            console.warn('[BRANDS] nexus_brands is empty. Using built-in catalog.');
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`[BRANDS] Catalog load failed (${errorMsg}). Using built-in catalog.`);
+        }
+        return new BrandCatalog(DEFAULT_BRAND_CATALOG);
+    }
+
+    public list(): BrandEntry[] {
+        return this.entries;
+    }
+
+    // Finds the brand a listing is for, honoring aliases and rejecting "style"/"inspired by" listings
+    public match(title: string, description = ''): BrandMatch | null {
+        const text = normalizeText(`${title} ${description}`);
+
+        for (const brand of this.entries) {
+            if (!brand.active) continue;
+
+            const names = [brand.name, ...brand.aliases];
+            const hit = names.find(n => containsPhrase(text, n));
+            if (!hit) continue;
+
+            const globalNegatives = names.flatMap(n => GLOBAL_NEGATIVE_PATTERNS.map(p => p.replace('{brand}', n)));
+            if ([...globalNegatives, ...brand.negativeKeywords].some(neg => containsPhrase(text, neg))) {
+                continue;
+            }
+
+            const model = brand.models.find(m => containsPhrase(text, m)) || null;
+            return { brand, model };
+        }
+        return null;
+    }
+}
+
+// Validates and fills a catalog entry from untrusted input (used by the CRUD routes)
+export const parseBrandEntry = (input: any): BrandEntry => {
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    if (!name) throw new Error('Brand name is required.');
+
+    const tier: BrandTier = ['ULTRA', 'HIGH', 'CORE'].includes(input?.tier) ? input.tier : 'CORE';
+    const list = (v: unknown) => Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(s => s.trim()) : [];
+
+    return {
+        id: typeof input?.id === 'string' && input.id ? input.id : normalizeText(name).trim().replace(/[\s.]+/g, '-'),
+        name,
+        aliases: list(input?.aliases),
+        negativeKeywords: list(input?.negativeKeywords),
+        tier,
+        models: list(input?.models),
+        active: input?.active !== false
+    };
+};
@@ -0,0 +1,364 @@
+import type { ConditionScore, RawListing } from './sources';
+
+// ==========================================
+// VOIDLOGIC NEXUS: CONDITION GRADER
+// ==========================================
+
+// Below this share of exact matches on the labeled fixture set the grader counts as regressed
+export const ACCURACY_FLOOR = 0.85;
+
+// Grade assumed when the text states no condition at all; adjusted down by any defects it describes
+const DEFAULT_BASE = 3;
+const NEGATION_WINDOW = 4;
+const WEAR_ALLOWANCE = 0.5;        // A used grade already prices in some cosmetic wear
+const DENIAL_CREDIT = 0.25;        // Per defect the seller explicitly rules out, when no specific grade is stated
+const MAX_DENIAL_CREDIT = 1;
+const QUALIFIER_WINDOW = 2;
+
+export const CONDITION_LABELS: Record<ConditionScore, string> = {
+    1: 'Junk/Salvage',
+    2: 'Fair/Needs Work',
+    3: 'Good/Used',
+    4: 'Excellent/Like New',
+    5: 'Mint/NIB'
+};
+
+export interface ConditionGrade {
+    score: ConditionScore;
+    basis: 'SOURCE_CODE' | 'TEXT';
+    explanation: string[];
+}
+
+export type GradableListing = Pick<RawListing, 'title' | 'description' | 'condition' | 'conditionScore'>;
+
+// 1. LEXICON
+// Anchors state a grade outright. Strength decides which anchors win when several appear:
+// a specific "excellent condition" outranks a generic "pre-owned".
+interface Anchor {
+    phrase: string;
+    score: number;
+    strength: 1 | 2 | 3;
+    cap?: boolean;         // The grade is a ceiling, whatever else the text says
+    fieldOnly?: boolean;   // Only trusted in the source's own condition field ("New" in a title means nothing)
+}
+
+const ANCHORS: Anchor[] = [
+    { phrase: 'brand new', score: 5, strength: 3 },
+    { phrase: 'new with tags', score: 5, strength: 3 },
+    { phrase: 'new without tags', score: 5, strength: 3 },
+    { phrase: 'new in box', score: 5, strength: 3 },
+    { phrase: 'nwt', score: 5, strength: 3 },
+    { phrase: 'nwot', score: 5, strength: 3 },
+    { phrase: 'bnwt', score: 5, strength: 3 },
+    { phrase: 'nib', score: 5, strength: 3 },
+    { phrase: 'bnib', score: 5, strength: 3 },
+    { phrase: 'never used', score: 5, strength: 3 },
+    { phrase: 'never worn', score: 5, strength: 3 },
+    { phrase: 'unused', score: 5, strength: 3 },
+    { phrase: 'unworn', score: 5, strength: 3 },
+    { phrase: 'deadstock', score: 5, strength: 3 },
+    { phrase: 'mint', score: 5, strength: 3 },
+    { phrase: 'new', score: 5, strength: 2, fieldOnly: true },
+    { phrase: 'new other', score: 5, strength: 2, fieldOnly: true },
+    { phrase: 'like new', score: 4, strength: 3 },
+    { phrase: 'near mint', score: 4, strength: 3 },
+    { phrase: 'excellent', score: 4, strength: 3 },
+    { phrase: 'pristine', score: 4, strength: 3 },
+    { phrase: 'immaculate', score: 4, strength: 3 },
+    { phrase: 'very good', score: 4, strength: 3 },
+    { phrase: 'new with defects', score: 4, strength: 3 },
+    { phrase: 'gently used', score: 4, strength: 3 },
+    { phrase: 'lightly used', score: 4, strength: 3 },
+    { phrase: 'barely used', score: 4, strength: 3 },
+    { phrase: 'worn once', score: 4, strength: 3 },
+    { phrase: 'used once', score: 4, strength: 3 },
+    { phrase: 'good condition', score: 3, strength: 2 },
+    { phrase: 'good', score: 3, strength: 1 },
+    { phrase: 'used', score: 3, strength: 1 },
+    { phrase: 'pre owned', score: 3, strength: 1 },
+    { phrase: 'preowned', score: 3, strength: 1 },
+    { phrase: 'pre loved', score: 3, strength: 1 },
+    { phrase: 'preloved', score: 3, strength: 1 },
+    { phrase: 'fair', score: 2, strength: 3 },
+    { phrase: 'acceptable', score: 2, strength: 3 },
+    { phrase: 'well used', score: 2, strength: 3 },
+    { phrase: 'well worn', score: 2, strength: 3 },
+    { phrase: 'well loved', score: 2, strength: 3 },
+    { phrase: 'heavily used', score: 2, strength: 3 },
+    { phrase: 'needs work', score: 2, strength: 3, cap: true },
+    { phrase: 'needs repair', score: 2, strength: 3, cap: true },
+    { phrase: 'for parts', score: 1, strength: 3, cap: true },
+    { phrase: 'parts only', score: 1, strength: 3, cap: true },
+    { phrase: 'not working', score: 1, strength: 3, cap: true },
+    { phrase: 'salvage', score: 1, strength: 3, cap: true },
+    { phrase: 'junk', score: 1, strength: 3, cap: true }
+];
+
+// Defects subtract from the grade. 'noun' defects can be negated as part of a list
+// ("no stains, odor or scratches"); 'clause' defects only by a negation right in front of them.
+interface Defect {
+    phrases: string[];
+    label: string;
+    penalty: number;
+    kind: 'noun' | 'clause';
+    cosmetic?: boolean;    // Surface wear, as opposed to damage
+}
+
+const DEFECTS: Defect[] = [
+    { phrases: ['corners worn', 'corners are worn', 'corners rubbed'], label: 'worn corners', penalty: 0.75, kind: 'clause', cosmetic: true },
+    { phrases: ['worn corners', 'corner wear', 'corner rubbing', 'rubbed corners'], label: 'worn corners', penalty: 0.75, kind: 'noun', cosmetic: true },
+    { phrases: ['edge wear', 'worn edges', 'piping wear', 'worn piping'], label: 'edge wear', penalty: 0.5, kind: 'noun', cosmetic: true },
+    { phrases: ['wear', 'rubbing'], label: 'wear', penalty: 0.5, kind: 'noun', cosmetic: true },
+    { phrases: ['handles darkened', 'handle is darkened', 'handles are darkened'], label: 'handle darkening', penalty: 0.5, kind: 'clause', cosmetic: true },
+    { phrases: ['handle darkening', 'darkened handles', 'darkened handle', 'darkening', 'patina'], label: 'handle darkening', penalty: 0.5, kind: 'noun', cosmetic: true },
+    { phrases: ['odor', 'odour', 'smell', 'smells', 'musty'], label: 'odor', penalty: 1, kind: 'noun' },
+    { phrases: ['smoke', 'cigarette'], label: 'smoke', penalty: 0.75, kind: 'noun' },
+    { phrases: ['mildew', 'mold', 'mould'], label: 'mold', penalty: 2, kind: 'noun' },
+    { phrases: ['peeling', 'flaking'], label: 'peeling', penalty: 1.25, kind: 'noun' },
+    { phrases: ['cracking', 'cracked', 'cracks'], label: 'cracking', penalty: 1.25, kind: 'noun' },
+    { phrases: ['water damage', 'water damaged'], label: 'water damage', penalty: 2, kind: 'noun' },
+    { phrases: ['stain', 'stains', 'stained', 'water stain', 'water stains'], label: 'stains', penalty: 0.75, kind: 'noun' },
+    { phrases: ['ink mark', 'ink marks', 'pen mark', 'pen marks', 'marks'], label: 'marks', penalty: 0.5, kind: 'noun', cosmetic: true },
+    { phrases: ['scratch', 'scratches', 'scratched', 'scuff', 'scuffs', 'scuffing', 'scuffed'], label: 'scratches', penalty: 0.5, kind: 'noun', cosmetic: true },
+    { phrases: ['tear', 'tears', 'torn', 'rip', 'rips', 'ripped', 'hole', 'holes'], label: 'tears', penalty: 1.5, kind: 'noun' },
+    { phrases: ['discoloration', 'discolouration', 'discolored', 'discoloured', 'fading', 'faded', 'sun faded'], label: 'discoloration', penalty: 0.75, kind: 'noun' },
+    { phrases: ['sticky interior', 'sticky', 'tacky'], label: 'sticky lining', penalty: 1, kind: 'noun' },
+    { phrases: ['broken zipper', 'zipper broken', 'broken clasp', 'clasp broken', 'broken strap', 'strap broken', 'broken'], label: 'broken part', penalty: 1.25, kind: 'noun' },
+    { phrases: ['missing strap', 'missing'], label: 'missing parts', penalty: 0.5, kind: 'noun' },
+    { phrases: ['loose stitching', 'loose threads', 'fraying', 'frayed'], label: 'fraying', penalty: 0.75, kind: 'noun' },
+    { phrases: ['tarnish', 'tarnished', 'plating loss', 'plating wear'], label: 'hardware tarnish', penalty: 0.5, kind: 'noun', cosmetic: true },
+    { phrases: ['dent', 'dents', 'dented', 'creases', 'creasing', 'misshapen', 'lost its shape', 'slouching'], label: 'shape loss', penalty: 0.5, kind: 'noun', cosmetic: true },
+    { phrases: ['damage', 'damaged'], label: 'damage', penalty: 1, kind: 'noun' },
+    { phrases: ['dirty', 'needs cleaning', 'grime'], label: 'dirt', penalty: 0.75, kind: 'noun' }
+];
+
+const NEGATORS = new Set(['no', 'not', 'without', 'never', 'zero', 'none', 'nor', 'isnt', 'doesnt', 'dont', 'arent', 'wasnt', 'hasnt', 'havent', 'free']);
+const POSTFIX_NEGATORS = new Set(['free']); // "odor free", "smoke-free home"
+const LIST_JOINERS = new Set(['or', 'and', 'nor', ',', 'any', 'signs', 'sign', 'of', 'visible', 'noticeable', 'obvious']);
+const CONTRASTS = new Set(['but', 'except', 'although', 'though', 'however', 'yet']);
+const SOFTENERS = new Set(['minor', 'slight', 'slightly', 'light', 'faint', 'small', 'tiny', 'little', 'minimal', 'barely', 'hardly']);
+const INTENSIFIERS = new Set(['heavy', 'heavily', 'significant', 'severe', 'major', 'extensive', 'strong', 'bad', 'lots', 'multiple', 'large', 'big', 'deep']);
+
+// 2. TOKENIZER
+// Sentence punctuation becomes a '.' token (ends every scope); commas survive as ',' for lists
+const tokenize = (text: string): string[] =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+        .replace(/['’]/g, '')
+        .replace(/[.;!?()\n\r|]+/g, ' . ')
+        .replace(/,/g, ' , ')
+        .split(/[^a-z0-9,.]+/)
+        .filter(Boolean);
+
+interface Match<T> { entry: T; phrase: string; start: number; end: number }
+
+// Longest phrases claim their tokens first, so "never used" is never also read as "used"
+const findMatches = <T>(tokens: string[], entries: { entry: T; phrase: string }[], taken: boolean[]): Match<T>[] => {
+    const matches: Match<T>[] = [];
+    const sorted = entries.map(e => ({ ...e, words: e.phrase.split(' ') })).sort((a, b) => b.words.length - a.words.length);
+    for (const { entry, phrase, words } of sorted) {
+        for (let i = 0; i + words.length <= tokens.length; i++) {
+            if (words.every((w, j) => tokens[i + j] === w && !taken[i + j])) {
+                for (let j = 0; j < words.length; j++) taken[i + j] = true;
+                matches.push({ entry, phrase, start: i, end: i + words.length });
+            }
+        }
+    }
+    return matches.sort((a, b) => a.start - b.start);
+};
+
+// Walks back from a match looking for a negator in the same sentence. Noun defects may sit in a
+// comma/or list behind it; a contrast word ("but") or sentence end stops the search. So does a
+// stated condition behind a comma: in "not in good condition, peeling" the "not" belongs to the grade.
+const isNegated = (tokens: string[], start: number, end: number, listable: boolean, defectTokens: boolean[], anchorTokens: boolean[]): boolean => {
+    if (POSTFIX_NEGATORS.has(tokens[end])) return true;
+    let plain = 0;
+    let crossedComma = false;
+    for (let i = start - 1; i >= 0; i--) {
+        const t = tokens[i];
+        if (t === '.' || CONTRASTS.has(t)) return false;
+        if (t === ',') crossedComma = true;
+        if (crossedComma && anchorTokens[i]) return false;
+        if (NEGATORS.has(t) && !POSTFIX_NEGATORS.has(t)) return true;
+        if (t === 'free' && tokens[i + 1] === 'of') return true;
+        if (defectTokens[i] || LIST_JOINERS.has(t) || SOFTENERS.has(t) || INTENSIFIERS.has(t)) {
+            if (!listable && (t === ',' || defectTokens[i])) return false;
+            continue;
+        }
+        if (++plain >= NEGATION_WINDOW) return false;
+    }
+    return false;
+};
+
+const qualifierFor = (tokens: string[], start: number): { factor: number; word: string } | null => {
+    for (let i = start - 1; i >= Math.max(0, start - QUALIFIER_WINDOW); i--) {
+        const t = tokens[i];
+        if (t === '.' || t === ',') break;
+        if (SOFTENERS.has(t)) return { factor: 0.5, word: t };
+        if (INTENSIFIERS.has(t)) return { factor: 1.5, word: t };
+    }
+    return null;
+};
+
+// Conservative rounding: a half grade goes down
+const toScore = (value: number): ConditionScore => Math.min(5, Math.max(1, Math.ceil(value - 0.5))) as ConditionScore;
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+// 3. GRADER
+const gradeText = (listing: GradableListing) => {
+    const explanation: string[] = [];
+    const body = tokenize(`${listing.title} . ${listing.description || ''}`);
+    const field = tokenize(listing.condition || '');
+
+    // Anchors: the source's condition field (which may say a bare "New") plus the listing text
+    const anchorEntries = (fieldOnly: boolean) => ANCHORS.filter(a => fieldOnly || !a.fieldOnly).map(a => ({ entry: a, phrase: a.phrase }));
+    const bodyTaken = body.map(() => false);
+    const defectEntries = DEFECTS.flatMap(d => d.phrases.map(p => ({ entry: d, phrase: p })));
+    const anchorMatches = [
+        ...findMatches(field, anchorEntries(true), field.map(() => false)).map(m => ({ ...m, tokens: field })),
+        ...findMatches(body, anchorEntries(false), bodyTaken).map(m => ({ ...m, tokens: body }))
+    ];
+    const defectMatches = findMatches(body, defectEntries, bodyTaken);
+    const defectTokens = body.map(() => false);
+    for (const m of defectMatches) for (let i = m.start; i < m.end; i++) defectTokens[i] = true;
+    const anchorTokens = body.map(() => false);
+    for (const m of anchorMatches) if (m.tokens === body) for (let i = m.start; i < m.end; i++) anchorTokens[i] = true;
+
+    let denied = 0;
+    const anchors: Anchor[] = [];
+    for (const m of anchorMatches) {
+        const none = m.tokens.map(() => false);
+        if (isNegated(m.tokens, m.start, m.end, false, none, none)) {
+            explanation.push(`Ignored negated "${m.phrase}"`);
+            continue;
+        }
+        anchors.push(m.entry);
+    }
+
+    let base = DEFAULT_BASE;
+    let cap = 5;
+    const strongest = Math.max(0, ...anchors.filter(a => !a.cap).map(a => a.strength));
+    const deciding = anchors.filter(a => !a.cap && a.strength === strongest);
+    if (deciding.length > 0) {
+        base = deciding.reduce((sum, a) => sum + a.score, 0) / deciding.length;
+        explanation.push(`Stated condition: ${[...new Set(deciding.map(a => `"${a.phrase}"`))].join(', ')} → ${fmt(base)}`);
+    } else {
+        explanation.push(`No condition stated; starting from ${DEFAULT_BASE} (${CONDITION_LABELS[DEFAULT_BASE]})`);
+    }
+    for (const a of anchors.filter(a => a.cap)) {
+        cap = Math.min(cap, a.score);
+        explanation.push(`"${a.phrase}" caps the grade at ${a.score}`);
+    }
+
+    // Defects: each label counts once, at its heaviest mention
+    const penalties = new Map<string, { penalty: number; cosmetic: boolean; note: string }>();
+    for (const m of defectMatches) {
+        const defect = m.entry;
+        if (isNegated(body, m.start, m.end, defect.kind === 'noun', defectTokens, anchorTokens)) {
+            explanation.push(`Negated "${m.phrase}" ignored`);
+            denied++;
+            continue;
+        }
+        const qualifier = qualifierFor(body, m.start);
+        const penalty = defect.penalty * (qualifier?.factor ?? 1);
+        const note = `${qualifier ? `${qualifier.word} ` : ''}${m.phrase} −${fmt(penalty)}`;
+        const prior = penalties.get(defect.label);
+        if (!prior || penalty > prior.penalty) penalties.set(defect.label, { penalty, cosmetic: !!defect.cosmetic, note });
+    }
+    let totalPenalty = [...penalties.values()].reduce((sum, p) => sum + p.penalty, 0);
+    if (penalties.size > 0) explanation.push(`Defects: ${[...penalties.values()].map(p => p.note).join(', ')}`);
+
+    if (base <= 3) {
+        const cosmetic = [...penalties.values()].filter(p => p.cosmetic).reduce((sum, p) => sum + p.penalty, 0);
+        const allowance = Math.min(WEAR_ALLOWANCE, cosmetic);
+        if (allowance > 0) {
+            totalPenalty -= allowance;
+            explanation.push(`Used grade already allows for ${fmt(allowance)} of cosmetic wear`);
+        }
+    }
+    if (strongest < 3 && denied > 0 && penalties.size === 0) {
+        const credit = Math.min(MAX_DENIAL_CREDIT, denied * DENIAL_CREDIT);
+        totalPenalty -= credit;
+        explanation.push(`Seller rules out ${denied} defect(s): +${fmt(credit)}`);
+    }
+
+    const raw = Math.min(cap, base - totalPenalty);
+    return { score: toScore(raw), raw, explanation, defects: [...penalties.keys()] };
+};
+
+// Structured condition codes from the source win; the text is graded either way so conflicts stay visible
+export const gradeCondition = (listing: GradableListing): ConditionGrade => {
+    const text = gradeText(listing);
+
+    if (listing.conditionScore) {
+        const explanation = [`Source condition code → ${listing.conditionScore} (${CONDITION_LABELS[listing.conditionScore]})`];
+        if (text.defects.length > 0) explanation.push(`Text also mentions: ${text.defects.join(', ')}`);
+        if (Math.abs(text.score - listing.conditionScore) >= 2) explanation.push(`Text alone would grade ${text.score}; check the photos`);
+        return { score: listing.conditionScore, basis: 'SOURCE_CODE', explanation };
+    }
+
+    text.explanation.push(`Graded ${text.score} (${CONDITION_LABELS[text.score]}) from ${fmt(text.raw)}`);
+    return { score: text.score, basis: 'TEXT', explanation: text.explanation };
+};
+
+// 4. ACCURACY HARNESS
+export interface LabeledCondition extends GradableListing {
+    id: string;
+    label: ConditionScore;    // Grade a human gave after reading the listing and looking at the photos
+    note?: string;
+}
+
+export interface ConditionFixture {
+    name: string;
+    cases: LabeledCondition[];
+}
+
+export interface GraderAccuracy {
+    fixture: string;
+    total: number;
+    exact: number;
+    withinOne: number;
+    accuracy: number;             // Exact matches / total
+    withinOneAccuracy: number;
+    meanAbsoluteError: number;
+    floor: number;
+    passed: boolean;
+    confusion: Record<string, Record<string, number>>; // label -> predicted -> count
+    misses: { id: string; label: ConditionScore; predicted: ConditionScore; explanation: string[] }[];
+}
+
+export const measureAccuracy = (fixture: ConditionFixture, floor = ACCURACY_FLOOR): GraderAccuracy => {
+    let exact = 0;
+    let withinOne = 0;
+    let absError = 0;
+    const confusion: GraderAccuracy['confusion'] = {};
+    const misses: GraderAccuracy['misses'] = [];
+
+    for (const c of fixture.cases) {
+        const grade = gradeCondition(c);
+        const diff = Math.abs(grade.score - c.label);
+        absError += diff;
+        if (diff === 0) exact++;
+        else misses.push({ id: c.id, label: c.label, predicted: grade.score, explanation: grade.explanation });
+        if (diff <= 1) withinOne++;
+        confusion[c.label] = confusion[c.label] || {};
+        confusion[c.label][grade.score] = (confusion[c.label][grade.score] || 0) + 1;
+    }
+
+    const total = fixture.cases.length;
+    const ratio = (n: number) => (total ? Math.round((n / total) * 1000) / 1000 : 0);
+    const accuracy = ratio(exact);
+    return {
+        fixture: fixture.name,
+        total,
+        exact,
+        withinOne,
+        accuracy,
+        withinOneAccuracy: ratio(withinOne),
+        meanAbsoluteError: total ? Math.round((absError / total) * 1000) / 1000 : 0,
+        floor,
+        passed: total > 0 && accuracy >= floor,
+        confusion,
+        misses
+    };
+};
@@ -0,0 +1,78 @@
+// ==========================================
+// VOIDLOGIC NEXUS: CRON EXPRESSION MATCHER
+// ==========================================
+
+// Standard 5-field cron: minute hour day-of-month month day-of-week
+// Supports '*', 'n', 'a-b', '*/n', 'a-b/n' and comma lists. Day-of-week 0 and 7 are both Sunday.
+const FIELD_RANGES: [number, number][] = [
+    [0, 59], // minute
+    [0, 23], // hour
+    [1, 31], // day of month
+    [1, 12], // month
+    [0, 7]   // day of week
+];
+
+export interface CronSchedule {
+    expression: string;
+    fields: Set<number>[];
+}
+
+const parseField = (field: string, [min, max]: [number, number]): Set<number> => {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [rangePart, stepPart] = part.split('/');
+        const step = stepPart === undefined ? 1 : Number(stepPart);
+        if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step '${part}'.`);
+
+        let start = min;
+        let end = max;
+        if (rangePart !== '*') {
+            const [a, b] = rangePart.split('-').map(Number);
+            start = a;
+            end = b === undefined ? (stepPart === undefined ? a : max) : b;
+        }
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new Error(`Cron field '${part}' out of range ${min}-${max}.`);
+        }
+
+        for (let v = start; v <= end; v += step) values.add(v);
+    }
+    return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) throw new Error(`Cron expression '${expression}' must have 5 fields.`);
+
+    const fields = parts.map((part, i) => parseField(part, FIELD_RANGES[i]));
+    if (fields[4].has(7)) fields[4].add(0);
+    return { expression, fields };
+};
+
+// True when the schedule fires in the minute containing `date` (server local time)
+export const cronMatches = (schedule: CronSchedule, date: Date): boolean => {
+    const [minute, hour, dom, month, dow] = schedule.fields;
+    if (!minute.has(date.getMinutes()) || !hour.has(date.getHours()) || !month.has(date.getMonth() + 1)) {
+        return false;
+    }
+
+    // Classic cron semantics: when both day fields are restricted, either may match
+    const domRestricted = dom.size < 31;
+    const dowRestricted = dow.size < 8;
+    const domHit = dom.has(date.getDate());
+    const dowHit = dow.has(date.getDay());
+    if (domRestricted && dowRestricted) return domHit || dowHit;
+    return domHit && dowHit;
+};
+
+// The last minute in (from, to] the schedule fires in, or null. Lets a scheduler that fell behind
+// fire a missed slot once instead of once per missed minute.
+export const lastMatchBetween = (schedule: CronSchedule, from: Date, to: Date): Date | null => {
+    const minute = new Date(to);
+    minute.setSeconds(0, 0);
+    for (; minute > from; minute.setMinutes(minute.getMinutes() - 1)) {
+        if (cronMatches(schedule, minute)) return new Date(minute);
+    }
+    return null;
+};
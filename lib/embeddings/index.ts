@@ -0,0 +1,24 @@
+import type { EmbeddingProvider } from './provider';
+import { LocalEmbeddingProvider } from './local';
+import { OpenAIEmbeddingProvider } from './openai';
+
+// ==========================================
+// VOIDLOGIC NEXUS: EMBEDDING PROVIDER REGISTRY
+// ==========================================
+
+// NEXUS_EMBEDDING_PROVIDER picks the provider; the deterministic local one needs no network or key.
+// Switching providers changes the vector space: run POST /api/nexus/similar/reindex afterwards.
+export const createEmbeddingProvider = (name = process.env.NEXUS_EMBEDDING_PROVIDER || 'local'): EmbeddingProvider => {
+    switch (name) {
+        case 'local':
+            return new LocalEmbeddingProvider();
+        case 'openai':
+            return new OpenAIEmbeddingProvider();
+        default:
+            throw new Error(`Unknown embedding provider '${name}'. Use 'local' or 'openai'.`);
+    }
+};
+
+export * from './provider';
+export { LocalEmbeddingProvider } from './local';
+export { OpenAIEmbeddingProvider, openAIEmbeddingConfigFromEnv, type OpenAIEmbeddingConfig } from './openai';
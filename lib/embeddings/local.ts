@@ -0,0 +1,66 @@
+import { EMBEDDING_DIMENSIONS, normalizeVector, type EmbeddingProvider } from './provider';
+
+// ==========================================
+// VOIDLOGIC NEXUS: LOCAL HASHED EMBEDDINGS
+// ==========================================
+
+// Noise that every listing shares; left in, it makes unrelated bags look alike
+const STOPWORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'with', 'for', 'in', 'of', 'on', 'to', 'is', 'it', 'this', 'from', 'by',
+    'authentic', 'genuine', '100', 'bag', 'bags', 'handbag', 'purse', 'womens', 'women', 'mens', 'men',
+    'excellent', 'good', 'condition', 'used', 'preowned', 'pre', 'owned', 'rare', 'free', 'shipping', 'fast'
+]);
+
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 1;     // Word order: "speedy 30" vs "30 speedy bandouliere"
+const TRIGRAM_WEIGHT = 0.2;   // Character trigrams absorb typos and plurals ("speedie", "neverfulls")
+const TITLE_WEIGHT = 2;        // Titles name the product; descriptions mostly don't
+
+// FNV-1a; stable across runs and platforms, which is the whole point of this provider
+const hash = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+const tokenize = (text: string): string[] =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(t => t.length > 0 && !STOPWORDS.has(t));
+
+// Deterministic stand-in for a real embedding model: feature hashing of words, word pairs and
+// character trigrams into a fixed-width signed vector. It knows nothing about meaning, but it
+// ranks near-identical titles together, runs offline and gives the same vector on every machine.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    public readonly id = 'local-hash-v1';
+    public readonly dimensions = EMBEDDING_DIMENSIONS;
+    public readonly relatedSimilarity = 0.5;
+    public readonly duplicateSimilarity = 0.8;
+
+    public async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.vectorize(text));
+    }
+
+    private vectorize(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const add = (feature: string, weight: number) => {
+            const h = hash(feature);
+            vector[h % this.dimensions] += (h & 0x80000000 ? -1 : 1) * weight;
+        };
+
+        const [title, ...rest] = text.split('\n');
+        for (const [part, boost] of [[title, TITLE_WEIGHT], [rest.join(' '), 1]] as const) {
+            const tokens = tokenize(part);
+            tokens.forEach((token, i) => {
+                add(`w:${token}`, WORD_WEIGHT * boost);
+                if (i > 0) add(`b:${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT * boost);
+                const padded = `#${token}#`;
+                for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT * boost);
+            });
+        }
+        return normalizeVector(vector);
+    }
+}
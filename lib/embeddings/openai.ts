@@ -0,0 +1,61 @@
+import axios from 'axios';
+import { EMBEDDING_DIMENSIONS, normalizeVector, type EmbeddingProvider } from './provider';
+
+// ==========================================
+// VOIDLOGIC NEXUS: OPENAI-COMPATIBLE EMBEDDINGS
+// ==========================================
+
+const BATCH_SIZE = 96;
+
+export interface OpenAIEmbeddingConfig {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    timeoutMs: number;
+}
+
+export const openAIEmbeddingConfigFromEnv = (): OpenAIEmbeddingConfig => ({
+    baseUrl: (process.env.EMBEDDING_API_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY || '',
+    model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    timeoutMs: 20000
+});
+
+// Any server that speaks POST /embeddings and honours `dimensions` (OpenAI, Azure, most local gateways)
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    public readonly id: string;
+    public readonly dimensions = EMBEDDING_DIMENSIONS;
+    public readonly relatedSimilarity = 0.6;
+    public readonly duplicateSimilarity = 0.9;
+
+    constructor(private config: OpenAIEmbeddingConfig = openAIEmbeddingConfigFromEnv()) {
+        this.id = `openai:${config.model}`;
+    }
+
+    public async embed(texts: string[]): Promise<number[][]> {
+        if (!this.config.apiKey) throw new Error('EMBEDDING_API_KEY is not configured.');
+        const vectors: number[][] = [];
+
+        for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+            const batch = texts.slice(i, i + BATCH_SIZE).map(t => t.trim() || '(empty)');
+            const response = await axios.post(`${this.config.baseUrl}/embeddings`, {
+                model: this.config.model,
+                input: batch,
+                dimensions: this.dimensions
+            }, {
+                timeout: this.config.timeoutMs,
+                headers: { Authorization: `Bearer ${this.config.apiKey}`, 'Content-Type': 'application/json' }
+            });
+
+            const data = [...(response.data?.data || [])].sort((a: { index: number }, b: { index: number }) => a.index - b.index);
+            if (data.length !== batch.length) throw new Error(`Embedding API returned ${data.length} vectors for ${batch.length} inputs.`);
+            for (const item of data) {
+                if (!Array.isArray(item.embedding) || item.embedding.length !== this.dimensions) {
+                    throw new Error(`Embedding API returned a ${item.embedding?.length ?? 0}-dimension vector; expected ${this.dimensions}.`);
+                }
+                vectors.push(normalizeVector(item.embedding));
+            }
+        }
+        return vectors;
+    }
+}
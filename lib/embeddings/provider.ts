@@ -0,0 +1,65 @@
+// ==========================================
+// VOIDLOGIC NEXUS: EMBEDDING PROVIDER CONTRACT
+// ==========================================
+
+// Width of the vector columns in nexus_signals and nexus_comps. Every provider must emit exactly this.
+export const EMBEDDING_DIMENSIONS = 384;
+
+export interface EmbeddingProvider {
+    id: string;                 // Stored as embeddingModel; vectors from different providers are never compared
+    dimensions: number;
+    relatedSimilarity: number;  // Cosine floor for "same model" (comp selection, more like this)
+    duplicateSimilarity: number; // Cosine floor for "same product" (cross-source grouping)
+    embed(texts: string[]): Promise<number[][]>; // Unit-length vectors, in input order
+}
+
+// A vector tagged with the provider that produced it
+export interface ListingEmbedding {
+    model: string;
+    vector: number[];
+}
+
+// What gets embedded for a listing or comp. Brand names are stripped: every lookup already filters on the
+// catalog brand, so the vector only has to tell models apart. Descriptions are clipped so boilerplate
+// doesn't drown the title.
+export const listingText = (title: string, description?: string | null, brandTerms: string[] = []): string => {
+    const strip = (text: string) => brandTerms
+        .filter(term => term.trim().length > 0)
+        .sort((a, b) => b.length - a.length)
+        .reduce((out, term) => out.replace(new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}(?=$|[^\\p{L}\\p{N}])`, 'giu'), '$1'), text)
+        .replace(/\s+/g, ' ')
+        .trim();
+    return [strip(title), strip((description || '').slice(0, 500))].filter(Boolean).join('\n');
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// pgvector's text form: '[0.1,0.2,...]'. PostgREST returns vector columns this way.
+export const toVectorLiteral = (vector: number[]): string => `[${vector.map(v => Number(v.toFixed(6))).join(',')}]`;
+
+export const parseVector = (value: unknown): number[] | null => {
+    if (Array.isArray(value)) return value.map(Number);
+    if (typeof value !== 'string' || value.length < 2) return null;
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.map(Number) : null;
+    } catch {
+        return null;
+    }
+};
+
+export const normalizeVector = (vector: number[]): number[] => {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm ? vector.map(v => v / norm) : vector;
+};
@@ -0,0 +1,250 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { MAX_EXECUTION_RISK } from './risk-scorer';
+import type { ListingType } from './sources/adapter';
+
+// ==========================================
+// VOIDLOGIC NEXUS: EXECUTION GUARDRAILS
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Execution guard offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const CONTROLS_ID = 'global';
+
+export interface ExecutionControls {
+    id: string;
+    killSwitch: boolean;        // true halts every execution immediately
+    dailyBudget: number;
+    weeklyBudget: number;
+    monthlyBudget: number;
+    maxItemPrice: number;
+    maxItemsPerBrand: number;   // Per calendar month
+    minRoiPct: number;
+    approvalAmount: number;         // Items priced above this wait for a human approval
+    approvalMinCondition: number;   // Items graded below this (1-5) wait for a human approval
+    approvalExpiryMinutes: number;  // Undecided approvals lapse after this long
+    updatedAt: string;
+}
+
+// Conservative defaults until someone configures nexus_execution_controls
+export const DEFAULT_EXECUTION_CONTROLS: ExecutionControls = {
+    id: CONTROLS_ID,
+    killSwitch: false,
+    dailyBudget: 2000,
+    weeklyBudget: 7500,
+    monthlyBudget: 20000,
+    maxItemPrice: 1500,
+    maxItemsPerBrand: 5,
+    minRoiPct: 30,
+    approvalAmount: 750,
+    approvalMinCondition: 3,
+    approvalExpiryMinutes: 30,
+    updatedAt: new Date(0).toISOString()
+};
+
+export type GuardrailCode =
+    | 'KILL_SWITCH'
+    | 'AUCTION'
+    | 'RISK_TOO_HIGH'
+    | 'MAX_ITEM_PRICE'
+    | 'MIN_PROFIT_MARGIN'
+    | 'BRAND_LIMIT'
+    | 'DAILY_BUDGET'
+    | 'WEEKLY_BUDGET'
+    | 'MONTHLY_BUDGET';
+
+export interface GuardrailRejection {
+    code: GuardrailCode;
+    message: string;
+    limit?: number;
+    current?: number;
+}
+
+export interface BudgetState {
+    period: 'DAY' | 'WEEK' | 'MONTH';
+    limit: number;
+    spent: number;
+    remaining: number;
+    since: string;
+}
+
+export interface GuardState {
+    controls: ExecutionControls;
+    budgets: BudgetState[];
+    brandCounts: Record<string, number>; // Items executed this month per brand
+}
+
+// What the guard needs to know about the signal being bought
+export interface ExecutionCandidate {
+    id: string;
+    brandCategory: string;
+    amount: number;      // Base currency, like every limit in the controls
+    roiPct: number;
+    riskScore: number;
+    listingType?: ListingType;
+}
+
+export type ClaimResult =
+    | { outcome: 'CLAIMED' }
+    | { outcome: 'NOT_PENDING' }
+    | { outcome: 'KEY_REUSED' }
+    | { outcome: 'REJECTED'; reason: GuardrailRejection };
+
+const BUDGET_RULES: Record<BudgetState['period'], { code: GuardrailCode; label: string }> = {
+    DAY: { code: 'DAILY_BUDGET', label: 'Daily' },
+    WEEK: { code: 'WEEKLY_BUDGET', label: 'Weekly' },
+    MONTH: { code: 'MONTHLY_BUDGET', label: 'Monthly' }
+};
+
+// Calendar windows in UTC: today, this ISO week (Monday start) and this month
+const periodStarts = (now = new Date()) => {
+    const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const week = new Date(day);
+    week.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    return { day: day.toISOString(), week: week.toISOString(), month: month.toISOString() };
+};
+
+export class ExecutionGuard {
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    public async getControls(): Promise<ExecutionControls> {
+        const { data, error } = await this.supabase
+            .from('nexus_execution_controls')
+            .select('*')
+            .eq('id', CONTROLS_ID)
+            .maybeSingle();
+        if (error) throw new Error(`Controls lookup failed: ${error.message}`);
+        return data ? { ...DEFAULT_EXECUTION_CONTROLS, ...data } : DEFAULT_EXECUTION_CONTROLS;
+    }
+
+    public async updateControls(patch: Partial<ExecutionControls>): Promise<ExecutionControls> {
+        const next = { ...(await this.getControls()), ...patch, id: CONTROLS_ID, updatedAt: new Date().toISOString() };
+        const { error } = await this.supabase.from('nexus_execution_controls').upsert(next, { onConflict: 'id' });
+        if (error) throw new Error(`Controls update failed: ${error.message}`);
+        return next;
+    }
+
+    // Current spend (executed and in-flight) against every budget window plus this month's per-brand counts
+    public async getState(): Promise<GuardState> {
+        const controls = await this.getControls();
+        const starts = periodStarts();
+
+        const { data, error } = await this.supabase
+            .from('nexus_signals')
+            .select('brandCategory, executedAmount, executedAmountBase, executedAt')
+            .in('status', ['EXECUTING', 'EXECUTED']) // In-flight charges count against budgets too
+            .gte('executedAt', starts.month < starts.week ? starts.month : starts.week);
+        if (error) throw new Error(`Spend lookup failed: ${error.message}`);
+
+        // Charges made in other currencies count at the rate their signal was valued at
+        const rows = (data || []).map(r => ({ brand: r.brandCategory as string, amount: Number(r.executedAmountBase ?? r.executedAmount) || 0, at: r.executedAt as string }));
+        const spentSince = (since: string) => rows.filter(r => r.at >= since).reduce((sum, r) => sum + r.amount, 0);
+
+        const budget = (period: BudgetState['period'], limit: number, since: string): BudgetState => {
+            const spent = Math.round(spentSince(since) * 100) / 100;
+            return { period, limit, spent, remaining: Math.max(0, Math.round((limit - spent) * 100) / 100), since };
+        };
+
+        const brandCounts: Record<string, number> = {};
+        for (const r of rows.filter(r => r.at >= starts.month)) {
+            brandCounts[r.brand] = (brandCounts[r.brand] || 0) + 1;
+        }
+
+        return {
+            controls,
+            budgets: [
+                budget('DAY', controls.dailyBudget, starts.day),
+                budget('WEEK', controls.weeklyBudget, starts.week),
+                budget('MONTH', controls.monthlyBudget, starts.month)
+            ],
+            brandCounts
+        };
+    }
+
+    // Returns the first guardrail the candidate breaks, or null when it may be executed
+    public async check(candidate: ExecutionCandidate): Promise<GuardrailRejection | null> {
+        const state = await this.getState();
+        const { controls } = state;
+
+        if (controls.killSwitch) {
+            return { code: 'KILL_SWITCH', message: 'Global kill switch is engaged. All execution halted.' };
+        }
+        // A charge at the current bid buys nothing: auctions are won by bidding before the close
+        if (candidate.listingType === 'AUCTION') {
+            return { code: 'AUCTION', message: 'Auctions cannot be bought instantly. Bid on the listing before it ends.' };
+        }
+        if (candidate.riskScore >= MAX_EXECUTION_RISK) {
+            return { code: 'RISK_TOO_HIGH', message: 'Counterfeit risk exceeds the execution threshold.', limit: MAX_EXECUTION_RISK, current: candidate.riskScore };
+        }
+        if (candidate.amount > controls.maxItemPrice) {
+            return { code: 'MAX_ITEM_PRICE', message: 'Price exceeds the per-item cap.', limit: controls.maxItemPrice, current: candidate.amount };
+        }
+        if (candidate.roiPct < controls.minRoiPct) {
+            return { code: 'MIN_PROFIT_MARGIN', message: 'Net ROI is below the execution minimum.', limit: controls.minRoiPct, current: candidate.roiPct };
+        }
+
+        const brandCount = state.brandCounts[candidate.brandCategory] || 0;
+        if (brandCount >= controls.maxItemsPerBrand) {
+            return { code: 'BRAND_LIMIT', message: `Monthly item limit reached for ${candidate.brandCategory}.`, limit: controls.maxItemsPerBrand, current: brandCount };
+        }
+
+        for (const b of state.budgets) {
+            if (b.spent + candidate.amount > b.limit) {
+                const rule = BUDGET_RULES[b.period];
+                return { code: rule.code, message: `${rule.label} budget would be exceeded.`, limit: b.limit, current: b.spent };
+            }
+        }
+
+        return null;
+    }
+
+    // check() is advisory: two buys can both pass it before either is claimed. The claim itself re-checks
+    // the kill switch, brand limit and budgets inside nexus_claim_signal, under a lock, in the same
+    // transaction that moves the signal PENDING -> EXECUTING.
+    public async claim(candidate: ExecutionCandidate, claim: { idempotencyKey: string; chargedAmount: number }): Promise<ClaimResult> {
+        const controls = await this.getControls();
+        const starts = periodStarts();
+
+        const { data, error } = await this.supabase.rpc('nexus_claim_signal', {
+            p_signal_id: candidate.id,
+            p_key: claim.idempotencyKey,
+            p_amount: claim.chargedAmount,
+            p_amount_base: candidate.amount,
+            p_brand: candidate.brandCategory,
+            p_day_start: starts.day,
+            p_week_start: starts.week,
+            p_month_start: starts.month,
+            p_daily_budget: controls.dailyBudget,
+            p_weekly_budget: controls.weeklyBudget,
+            p_monthly_budget: controls.monthlyBudget,
+            p_max_items_per_brand: controls.maxItemsPerBrand
+        });
+        if (error) {
+            if (error.code === '23505') return { outcome: 'KEY_REUSED' };
+            throw new Error(`Signal claim failed: ${error.message}`);
+        }
+
+        const result = data as { outcome: 'CLAIMED' | 'NOT_PENDING' | 'REJECTED'; code?: GuardrailCode; limit?: number; current?: number };
+        if (result.outcome !== 'REJECTED') return { outcome: result.outcome };
+
+        const limit = result.limit !== undefined ? Number(result.limit) : undefined;
+        const current = result.current !== undefined ? Number(result.current) : undefined;
+        const code = result.code!;
+        if (code === 'KILL_SWITCH') {
+            return { outcome: 'REJECTED', reason: { code, message: 'Global kill switch is engaged. All execution halted.' } };
+        }
+        if (code === 'BRAND_LIMIT') {
+            return { outcome: 'REJECTED', reason: { code, message: `Monthly item limit reached for ${candidate.brandCategory}.`, limit, current } };
+        }
+        const rule = Object.values(BUDGET_RULES).find(r => r.code === code);
+        return { outcome: 'REJECTED', reason: { code, message: rule ? `${rule.label} budget would be exceeded.` : 'Execution guardrail tripped.', limit, current } };
+    }
+}
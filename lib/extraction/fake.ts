@@ -0,0 +1,71 @@
+import { DEFAULT_BRAND_CATALOG, normalizeText } from '../brand-catalog';
+import { estimateTokens, extractionPrompt, type ExtractionInput, type ExtractionProvider, type ExtractionResponse, type ListingAttributes } from './schema';
+
+// ==========================================
+// VOIDLOGIC NEXUS: FAKE LISTING EXTRACTION
+// ==========================================
+
+const COLORS = ['black', 'white', 'beige', 'brown', 'tan', 'red', 'pink', 'blue', 'navy', 'green', 'grey', 'gray', 'gold', 'silver', 'etoupe', 'ebene', 'azur', 'rouge', 'noir', 'cream', 'burgundy', 'camel'];
+const MATERIALS = ['monogram canvas', 'damier ebene', 'damier azur', 'epi leather', 'caviar', 'lambskin', 'calfskin', 'togo', 'clemence', 'epsom', 'saffiano', 'patent leather', 'suede', 'canvas', 'leather', 'nylon', 'denim', 'tweed'];
+const SIZES = ['nano', 'mini', 'small', 'medium', 'large', 'jumbo', 'maxi', 'pm', 'mm', 'gm', 'bb'];
+const ACCESSORIES = ['dust bag', 'dustbag', 'box', 'receipt', 'strap', 'shoulder strap', 'lock', 'keys', 'clochette', 'authenticity card', 'certificate', 'tags', 'rain cover'];
+const FLAWS = ['corner wear', 'worn corners', 'corners worn', 'handle darkening', 'patina', 'odor', 'smell', 'scratches', 'scratch', 'stain', 'stains', 'peeling', 'cracking', 'tear', 'scuffs', 'pen mark', 'discoloration', 'water damage', 'tarnish'];
+const NEGATORS = new Set(['no', 'not', 'without', 'never', 'free']);
+
+const words = (value: string) => normalizeText(value).trim().split(' ').filter(Boolean);
+
+const has = (haystack: string, phrase: string) => haystack.includes(normalizeText(phrase));
+
+// Phrases present and not preceded by a negator within two words ("no odor", "free of stains")
+const disclosed = (text: string, phrases: string[]): string[] => {
+    const tokens = words(text);
+    const found: string[] = [];
+    for (const phrase of phrases) {
+        const target = words(phrase);
+        for (let i = 0; i + target.length <= tokens.length; i++) {
+            if (target.every((t, j) => tokens[i + j] === t)) {
+                const before = tokens.slice(Math.max(0, i - 2), i);
+                if (!before.some(t => NEGATORS.has(t))) found.push(phrase);
+                break;
+            }
+        }
+    }
+    // "worn corners" and "corner wear" are the same flaw; keep the longer phrase of any overlap
+    return found.filter(f => !found.some(o => o !== f && o.includes(f)));
+};
+
+// Deterministic stand-in for the LLM: keyword rules over the same prompt, the same response shape
+// and a token count from the prompt length. Fixed answers can be supplied per title for tests.
+export class FakeExtractionProvider implements ExtractionProvider {
+    public readonly id = 'fake-rules-v1';
+    public readonly maxOutputTokens = 200;
+    public calls = 0;
+
+    constructor(private canned: Record<string, Partial<ListingAttributes> | string> = {}) {}
+
+    public async extract(input: ExtractionInput): Promise<ExtractionResponse> {
+        this.calls++;
+        const usage = { inputTokens: estimateTokens(extractionPrompt(input)), outputTokens: 60 };
+        if (input.title in this.canned) return { raw: this.canned[input.title], usage };
+
+        const title = normalizeText(input.title);
+        const all = normalizeText(`${input.title} ${input.description}`);
+        const brand = DEFAULT_BRAND_CATALOG.find(b => [b.name, ...b.aliases].some(a => has(title, a))) ?? null;
+        const model = brand?.models.find(m => has(title, m)) ?? null;
+        const yearMatch = all.match(/ (19[5-9]\d|20[0-4]\d) /);
+        const codeMatch = `${input.title} ${input.description}`.match(/\b([A-Z]{2}\d{4}|\d{4}[A-Z]{2})\b/);
+
+        const raw: ListingAttributes = {
+            brand: brand?.name ?? null,
+            model,
+            size: title.match(/ (\d{2}) /)?.[1] ?? SIZES.find(s => has(title, s))?.toUpperCase() ?? null,
+            color: COLORS.find(c => has(all, c)) ?? null,
+            material: MATERIALS.find(m => has(all, m)) ?? null,
+            year: yearMatch ? Number(yearMatch[1]) : null,
+            dateCode: codeMatch?.[1] ?? null,
+            accessories: disclosed(all, ACCESSORIES),
+            flaws: disclosed(all, FLAWS)
+        };
+        return { raw, usage };
+    }
+}
@@ -0,0 +1,60 @@
+import { GoogleGenAI } from '@google/genai';
+import { LISTING_ATTRIBUTES_SCHEMA, extractionPrompt, type ExtractionInput, type ExtractionProvider, type ExtractionResponse } from './schema';
+
+// ==========================================
+// VOIDLOGIC NEXUS: GEMINI LISTING EXTRACTION
+// ==========================================
+
+export interface GeminiExtractionConfig {
+    apiKey: string;
+    model: string;
+    timeoutMs: number;
+}
+
+export const geminiConfigFromEnv = (): GeminiExtractionConfig => ({
+    apiKey: process.env.GEMINI_API_KEY || '',
+    model: process.env.GEMINI_EXTRACTION_MODEL || 'gemini-2.5-flash',
+    timeoutMs: 20000
+});
+
+const SYSTEM_INSTRUCTION = [
+    'You extract facts from second-hand luxury handbag listings.',
+    'Use only what the listing states or what a date code unambiguously encodes. Never guess.',
+    'Use null for anything not stated and [] for empty lists.',
+    'Flaws are defects the seller discloses ("corner wear", "odor"), not reassurances ("no odor").'
+].join(' ');
+
+export class GeminiExtractionProvider implements ExtractionProvider {
+    public readonly id: string;
+    public readonly maxOutputTokens = 400;
+    private client: GoogleGenAI | null = null;
+
+    constructor(private config: GeminiExtractionConfig = geminiConfigFromEnv()) {
+        this.id = `gemini:${config.model}`;
+    }
+
+    public async extract(input: ExtractionInput): Promise<ExtractionResponse> {
+        if (!this.config.apiKey) throw new Error('GEMINI_API_KEY is not configured.');
+        this.client ??= new GoogleGenAI({ apiKey: this.config.apiKey, httpOptions: { timeout: this.config.timeoutMs } });
+
+        const response = await this.client.models.generateContent({
+            model: this.config.model,
+            contents: extractionPrompt(input),
+            config: {
+                systemInstruction: SYSTEM_INSTRUCTION,
+                responseMimeType: 'application/json',
+                responseJsonSchema: LISTING_ATTRIBUTES_SCHEMA,
+                temperature: 0,
+                maxOutputTokens: this.maxOutputTokens
+            }
+        });
+
+        return {
+            raw: response.text ?? '',
+            usage: {
+                inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+                outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0
+            }
+        };
+    }
+}
@@ -0,0 +1,26 @@
+import type { ExtractionProvider } from './schema';
+import { GeminiExtractionProvider } from './gemini';
+import { FakeExtractionProvider } from './fake';
+
+// ==========================================
+// VOIDLOGIC NEXUS: EXTRACTION PROVIDER REGISTRY
+// ==========================================
+
+// NEXUS_EXTRACTION_PROVIDER turns the sweep's enrichment step on. Unset or 'off' skips it entirely;
+// 'fake' runs the offline rules so local sweeps exercise the full path without a key.
+export const createExtractionProvider = (name = process.env.NEXUS_EXTRACTION_PROVIDER || 'off'): ExtractionProvider | null => {
+    switch (name) {
+        case 'off':
+            return null;
+        case 'gemini':
+            return new GeminiExtractionProvider();
+        case 'fake':
+            return new FakeExtractionProvider();
+        default:
+            throw new Error(`Unknown extraction provider '${name}'. Use 'off', 'gemini' or 'fake'.`);
+    }
+};
+
+export * from './schema';
+export { GeminiExtractionProvider, geminiConfigFromEnv, type GeminiExtractionConfig } from './gemini';
+export { FakeExtractionProvider } from './fake';
@@ -0,0 +1,139 @@
+// ==========================================
+// VOIDLOGIC NEXUS: LISTING EXTRACTION CONTRACT
+// ==========================================
+
+// Structured attributes pulled out of a messy title and description. Unknown = null / empty list.
+export interface ListingAttributes {
+    brand: string | null;
+    model: string | null;         // "Speedy", "Classic Flap"
+    size: string | null;          // "30", "Medium", "PM"
+    color: string | null;
+    material: string | null;      // "Monogram canvas", "Caviar leather"
+    year: number | null;          // Production year, when stated or decoded
+    dateCode: string | null;      // Maker's date code / serial as written ("SP0048")
+    accessories: string[];        // "dust bag", "box", "receipt", "strap"
+    flaws: string[];              // Defects the seller discloses, in their words
+}
+
+export interface ExtractionInput {
+    title: string;
+    description: string;
+}
+
+export interface ExtractionUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+// Providers return the raw model output; validateAttributes decides whether it is usable
+export interface ExtractionResponse {
+    raw: unknown;
+    usage: ExtractionUsage;
+}
+
+export interface ExtractionProvider {
+    id: string;                    // Part of the cache key, so switching providers re-extracts
+    maxOutputTokens: number;
+    extract(input: ExtractionInput): Promise<ExtractionResponse>;
+}
+
+export class ExtractionSchemaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExtractionSchemaError';
+    }
+}
+
+const MAX_TEXT = 80;
+const MAX_LIST = 12;
+const MIN_YEAR = 1900;
+
+// JSON Schema handed to the model as its response format; validateAttributes enforces the same shape
+export const LISTING_ATTRIBUTES_SCHEMA = {
+    type: 'object',
+    properties: {
+        brand: { type: ['string', 'null'], description: 'Designer brand, canonical spelling.' },
+        model: { type: ['string', 'null'], description: 'Model or line name without brand, size or color.' },
+        size: { type: ['string', 'null'], description: 'Size designation as the maker names it (e.g. 30, PM, Medium).' },
+        color: { type: ['string', 'null'] },
+        material: { type: ['string', 'null'], description: 'Canvas or leather type.' },
+        year: { type: ['integer', 'null'], description: 'Production year if stated or decodable from the date code.' },
+        dateCode: { type: ['string', 'null'], description: 'Date code or serial exactly as written.' },
+        accessories: { type: 'array', items: { type: 'string' }, description: 'Included items: dust bag, box, receipt, strap, lock, keys.' },
+        flaws: { type: 'array', items: { type: 'string' }, description: 'Every defect the seller mentions, short phrases.' }
+    },
+    required: ['brand', 'model', 'size', 'color', 'material', 'year', 'dateCode', 'accessories', 'flaws'],
+    additionalProperties: false
+} as const;
+
+export const EMPTY_ATTRIBUTES: ListingAttributes = {
+    brand: null, model: null, size: null, color: null, material: null, year: null, dateCode: null, accessories: [], flaws: []
+};
+
+const text = (value: unknown, field: string): string | null => {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'string') throw new ExtractionSchemaError(`${field} must be a string or null.`);
+    const trimmed = value.replace(/\s+/g, ' ').trim();
+    if (!trimmed || /^(n\/?a|none|unknown|null)$/i.test(trimmed)) return null;
+    return trimmed.slice(0, MAX_TEXT);
+};
+
+const list = (value: unknown, field: string): string[] => {
+    if (value === null || value === undefined) return [];
+    if (!Array.isArray(value)) throw new ExtractionSchemaError(`${field} must be an array of strings.`);
+    const seen = new Set<string>();
+    const items: string[] = [];
+    for (const item of value) {
+        const entry = text(item, `${field}[]`);
+        if (entry && !seen.has(entry.toLowerCase())) {
+            seen.add(entry.toLowerCase());
+            items.push(entry);
+        }
+    }
+    return items.slice(0, MAX_LIST);
+};
+
+// Validates untrusted model output. Accepts a JSON string or an object; throws ExtractionSchemaError.
+export const validateAttributes = (raw: unknown): ListingAttributes => {
+    let value = raw;
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+        } catch {
+            throw new ExtractionSchemaError('Response is not valid JSON.');
+        }
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new ExtractionSchemaError('Response must be a JSON object.');
+    const input = value as Record<string, unknown>;
+
+    const unknownKeys = Object.keys(input).filter(k => !(k in LISTING_ATTRIBUTES_SCHEMA.properties));
+    if (unknownKeys.length > 0) throw new ExtractionSchemaError(`Unexpected fields: ${unknownKeys.join(', ')}.`);
+
+    let year: number | null = null;
+    if (input.year !== null && input.year !== undefined && input.year !== '') {
+        const n = Number(input.year);
+        if (!Number.isInteger(n) || n < MIN_YEAR || n > new Date().getUTCFullYear() + 1) {
+            throw new ExtractionSchemaError(`year must be an integer between ${MIN_YEAR} and next year.`);
+        }
+        year = n;
+    }
+
+    return {
+        brand: text(input.brand, 'brand'),
+        model: text(input.model, 'model'),
+        size: text(input.size, 'size'),
+        color: text(input.color, 'color'),
+        material: text(input.material, 'material'),
+        year,
+        dateCode: text(input.dateCode, 'dateCode'),
+        accessories: list(input.accessories, 'accessories'),
+        flaws: list(input.flaws, 'flaws')
+    };
+};
+
+// The user turn every provider sees; the fake one counts its tokens the same way
+export const extractionPrompt = (input: ExtractionInput): string =>
+    `TITLE: ${input.title}\nDESCRIPTION: ${input.description || '(none)'}`;
+
+// Rough count (~4 characters per token) used to check the budget before a call is made
+export const estimateTokens = (value: string): number => Math.ceil(value.length / 4);
@@ -0,0 +1,113 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createFxRateSource, DEFAULT_BASE_CURRENCY, FxRateError, FxRateTable, type FxRate, type FxRateSource } from './fx';
+
+// ==========================================
+// VOIDLOGIC NEXUS: FX RATE STORE
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. FX rates offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+// Rates older than this (by when they were last fetched) are refreshed before a sweep uses them
+export const DEFAULT_FX_MAX_AGE_HOURS = Number(process.env.NEXUS_FX_MAX_AGE_HOURS) || 24;
+
+export interface StoredFxRate extends FxRate {
+    fetchedAt: string;
+}
+
+export interface FxRateState {
+    baseCurrency: string;
+    source: string;
+    rates: StoredFxRate[];
+    fetchedAt: string | null;
+    stale: boolean;
+}
+
+// Every fetched rate is kept, so a signal's recorded rate can always be traced back to its snapshot
+export class FxRateStore {
+    constructor(
+        private supabase: SupabaseClient = getSupabase(),
+        private source: FxRateSource = createFxRateSource(),
+        public readonly base: string = DEFAULT_BASE_CURRENCY,
+        private maxAgeHours = DEFAULT_FX_MAX_AGE_HOURS
+    ) {}
+
+    // 1. CURRENT TABLE: refreshed when stale; a failed refresh falls back to the last good rates
+    public async table(): Promise<FxRateTable> {
+        const state = await this.getState();
+        if (!state.stale) return new FxRateTable(this.base, state.rates);
+
+        try {
+            return await this.refresh();
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            if (state.rates.length === 0) throw new FxRateError(`No ${this.base} exchange rates stored and refresh failed: ${errorMsg}`);
+            await this.supabase.from('nexus_logs').insert({
+                level: 'WARN',
+                message: `FX refresh via ${this.source.id} failed (${errorMsg}). Using rates last fetched ${state.fetchedAt}.`,
+                timestamp: new Date().toISOString()
+            });
+            return new FxRateTable(this.base, state.rates);
+        }
+    }
+
+    // 2. REFRESH: pull from the configured source and record the snapshot
+    public async refresh(): Promise<FxRateTable> {
+        const rates = await this.source.fetchRates(this.base);
+        if (rates.length === 0) throw new FxRateError(`${this.source.id} returned no rates.`);
+
+        const fetchedAt = new Date().toISOString();
+        const { error } = await this.supabase
+            .from('nexus_fx_rates')
+            .upsert(rates.map(r => ({ ...r, fetchedAt })), { onConflict: 'base,currency,asOf' });
+        if (error) throw new Error(`FX rate save failed: ${error.message}`);
+
+        const table = new FxRateTable(this.base, rates);
+        await this.supabase.from('nexus_logs').insert({
+            level: 'INFO',
+            message: `FX rates refreshed via ${this.source.id}: ${rates.length} currencies against ${this.base}, as of ${table.oldestAsOf()}.`,
+            timestamp: fetchedAt
+        });
+        return table;
+    }
+
+    // 3. QUERY: newest rate per currency, plus whether the table is due for a refresh
+    public async getState(): Promise<FxRateState> {
+        const { data, error } = await this.supabase
+            .from('nexus_fx_rates')
+            .select('base, currency, rate, asOf, source, fetchedAt')
+            .eq('base', this.base)
+            .order('asOf', { ascending: false })
+            .limit(1000);
+        if (error) throw new Error(`FX rate lookup failed: ${error.message}`);
+
+        const latest = new Map<string, StoredFxRate>();
+        for (const row of data || []) {
+            if (!latest.has(row.currency)) latest.set(row.currency, { ...row, rate: Number(row.rate) } as StoredFxRate);
+        }
+        const rates = [...latest.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+        const fetchedAt = rates.reduce<string | null>((newest, r) => newest === null || r.fetchedAt > newest ? r.fetchedAt : newest, null);
+        const stale = !fetchedAt || Date.now() - new Date(fetchedAt).getTime() > this.maxAgeHours * 3600 * 1000;
+
+        return { baseCurrency: this.base, source: this.source.id, rates, fetchedAt, stale };
+    }
+
+    public async history(currency: string, limit = 60): Promise<StoredFxRate[]> {
+        const { data, error } = await this.supabase
+            .from('nexus_fx_rates')
+            .select('base, currency, rate, asOf, source, fetchedAt')
+            .eq('base', this.base)
+            .eq('currency', currency.toUpperCase())
+            .order('asOf', { ascending: false })
+            .limit(Math.min(Math.max(limit, 1), 500));
+        if (error) throw new Error(`FX history lookup failed: ${error.message}`);
+        return (data || []).map(r => ({ ...r, rate: Number(r.rate) })) as StoredFxRate[];
+    }
+}
@@ -0,0 +1,39 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { FxRateError, normalizeCurrency, rebaseRates, type FxRate, type FxRateSource } from './rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: FILE FX RATES
+// ==========================================
+
+export const DEFAULT_FX_RATES_FILE = path.join(process.cwd(), 'fixtures', 'fx', 'rates.json');
+
+// { "base": "USD", "asOf": "2026-10-01T00:00:00Z", "rates": { "EUR": 0.86, ... } }
+interface FxRatesFile {
+    base?: string;
+    asOf?: string;
+    rates?: Record<string, unknown>;
+}
+
+// Reads a hand-maintained rate sheet. Offline, deterministic, and the fallback when no rates API is configured.
+export class FileFxRateSource implements FxRateSource {
+    public readonly id = 'file';
+
+    constructor(private filePath = process.env.NEXUS_FX_RATES_FILE || DEFAULT_FX_RATES_FILE) {}
+
+    public async fetchRates(base: string): Promise<FxRate[]> {
+        const file = JSON.parse(await readFile(this.filePath, 'utf8')) as FxRatesFile;
+        const fileBase = normalizeCurrency(file.base);
+        const asOf = file.asOf && !Number.isNaN(Date.parse(file.asOf)) ? new Date(file.asOf).toISOString() : null;
+        if (!fileBase || !asOf || !file.rates) throw new FxRateError(`${this.filePath} needs a base currency, an asOf timestamp and a rates map.`);
+
+        const rates: FxRate[] = [];
+        for (const [code, value] of Object.entries(file.rates)) {
+            const currency = normalizeCurrency(code);
+            const rate = Number(value);
+            if (!currency || !(rate > 0)) throw new FxRateError(`${this.filePath}: invalid rate for '${code}'.`);
+            if (currency !== fileBase) rates.push({ base: fileBase, currency, rate, asOf, source: `file:${path.basename(this.filePath)}` });
+        }
+        return rebaseRates(rates, base);
+    }
+}
@@ -0,0 +1,38 @@
+import axios from 'axios';
+import { FxRateError, normalizeCurrency, type FxRate, type FxRateSource } from './rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: FRANKFURTER FX RATES (ECB)
+// ==========================================
+
+export interface FrankfurterConfig {
+    baseUrl: string;
+    timeoutMs: number;
+}
+
+export const frankfurterConfigFromEnv = (): FrankfurterConfig => ({
+    baseUrl: (process.env.NEXUS_FX_API_BASE_URL || 'https://api.frankfurter.app').replace(/\/+$/, ''),
+    timeoutMs: 10000
+});
+
+// European Central Bank reference rates, published once per working day. No key required; self-hostable.
+export class FrankfurterFxRateSource implements FxRateSource {
+    public readonly id = 'frankfurter';
+
+    constructor(private config: FrankfurterConfig = frankfurterConfigFromEnv()) {}
+
+    public async fetchRates(base: string): Promise<FxRate[]> {
+        const response = await axios.get(`${this.config.baseUrl}/latest`, {
+            params: { from: base },
+            timeout: this.config.timeoutMs
+        });
+        const { base: quoted, date, rates } = response.data || {};
+        if (normalizeCurrency(quoted) !== base || !date || !rates) throw new FxRateError(`Frankfurter returned no ${base} rates.`);
+
+        // ECB publishes around 16:00 CET; the date is all the API gives
+        const asOf = new Date(`${date}T16:00:00+01:00`).toISOString();
+        return Object.entries(rates as Record<string, unknown>)
+            .map(([code, value]) => ({ base, currency: normalizeCurrency(code) || '', rate: Number(value), asOf, source: this.id }))
+            .filter(r => r.currency && r.rate > 0);
+    }
+}
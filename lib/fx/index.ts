@@ -0,0 +1,23 @@
+import type { FxRateSource } from './rates';
+import { FileFxRateSource } from './file';
+import { FrankfurterFxRateSource } from './frankfurter';
+
+// ==========================================
+// VOIDLOGIC NEXUS: FX RATE SOURCE REGISTRY
+// ==========================================
+
+// NEXUS_FX_PROVIDER picks where rates come from. The file source needs no network.
+export const createFxRateSource = (name = process.env.NEXUS_FX_PROVIDER || 'file'): FxRateSource => {
+    switch (name) {
+        case 'file':
+            return new FileFxRateSource();
+        case 'frankfurter':
+            return new FrankfurterFxRateSource();
+        default:
+            throw new Error(`Unknown FX rate provider '${name}'. Use 'file' or 'frankfurter'.`);
+    }
+};
+
+export * from './rates';
+export { FileFxRateSource, DEFAULT_FX_RATES_FILE } from './file';
+export { FrankfurterFxRateSource, frankfurterConfigFromEnv, type FrankfurterConfig } from './frankfurter';
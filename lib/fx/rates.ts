@@ -0,0 +1,137 @@
+// ==========================================
+// VOIDLOGIC NEXUS: FX RATE CONTRACT
+// ==========================================
+
+// Every valuation, margin, budget and report is expressed in this currency
+export const DEFAULT_BASE_CURRENCY = (process.env.NEXUS_BASE_CURRENCY || 'USD').toUpperCase();
+
+// Stripe amounts are in minor units, except for these currencies which have none
+const ZERO_DECIMAL_CURRENCIES = new Set(['BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF']);
+
+// How many units of `currency` one unit of `base` buys, as published at `asOf`
+export interface FxRate {
+    base: string;
+    currency: string;
+    rate: number;
+    asOf: string;
+    source: string;
+}
+
+// Where rates come from: a local file, a rates API, ...
+export interface FxRateSource {
+    id: string;
+    fetchRates(base: string): Promise<FxRate[]>;
+}
+
+// An amount in the currency it was quoted in, next to its base-currency equivalent
+export interface ConvertedAmount {
+    amount: number;
+    currency: string;
+    amountBase: number;
+    baseCurrency: string;
+    fxRate: number;
+    fxAsOf: string;
+}
+
+export class FxRateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FxRateError';
+    }
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const normalizeCurrency = (code: unknown): string | null => {
+    const upper = typeof code === 'string' ? code.trim().toUpperCase() : '';
+    return /^[A-Z]{3}$/.test(upper) ? upper : null;
+};
+
+// Uses a rate already recorded on a row (signal, order), so later conversions match the original valuation
+export const toBaseAmount = (amount: number, fxRate: number | null | undefined) =>
+    round2(fxRate && fxRate > 0 ? amount / fxRate : amount);
+
+export const toMinorUnits = (amount: number, currency: string) =>
+    ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase()) ? Math.round(amount) : Math.round(amount * 100);
+
+export const fromMinorUnits = (amount: number, currency: string) =>
+    ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase()) ? amount : amount / 100;
+
+// Re-expresses rates quoted against another base, e.g. ECB rates against EUR turned into USD rates
+export const rebaseRates = (rates: FxRate[], base: string): FxRate[] => {
+    if (rates.every(r => r.base === base)) return rates;
+    const quoteBase = rates[0]?.base;
+    if (rates.some(r => r.base !== quoteBase)) throw new FxRateError('Rates to rebase must share one base currency.');
+
+    const pivot = rates.find(r => r.currency === base);
+    if (!pivot) throw new FxRateError(`Cannot rebase ${quoteBase} rates to ${base}: no ${base} rate.`);
+    return [
+        ...rates.filter(r => r.currency !== base).map(r => ({ ...r, base, rate: r.rate / pivot.rate })),
+        { ...pivot, base, currency: quoteBase, rate: 1 / pivot.rate }
+    ];
+};
+
+// Immutable snapshot of the latest rate per currency against one base
+export class FxRateTable {
+    private rates = new Map<string, FxRate>();
+
+    constructor(public readonly base: string = DEFAULT_BASE_CURRENCY, rates: FxRate[] = []) {
+        for (const r of rates) {
+            if (r.base !== base) throw new FxRateError(`Rate for ${r.currency} is quoted against ${r.base}, not ${base}.`);
+            if (!(r.rate > 0)) throw new FxRateError(`Rate for ${r.currency} must be positive.`);
+            const current = this.rates.get(r.currency);
+            if (!current || r.asOf > current.asOf) this.rates.set(r.currency, r);
+        }
+    }
+
+    public has(currency: string): boolean {
+        return currency.toUpperCase() === this.base || this.rates.has(currency.toUpperCase());
+    }
+
+    public rate(currency: string): FxRate {
+        const code = currency.toUpperCase();
+        if (code === this.base) return { base: this.base, currency: code, rate: 1, asOf: new Date(0).toISOString(), source: 'identity' };
+        const rate = this.rates.get(code);
+        if (!rate) throw new FxRateError(`No ${code}/${this.base} exchange rate loaded.`);
+        return rate;
+    }
+
+    public list(): FxRate[] {
+        return [...this.rates.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+    }
+
+    // Oldest rate in the table, which is what decides whether it needs refreshing
+    public oldestAsOf(): string | null {
+        return this.list().reduce<string | null>((oldest, r) => oldest === null || r.asOf < oldest ? r.asOf : oldest, null);
+    }
+
+    public toBase(amount: number, currency: string): number {
+        return round2(amount / this.rate(currency).rate);
+    }
+
+    public fromBase(amount: number, currency: string): number {
+        return round2(amount * this.rate(currency).rate);
+    }
+
+    public convert(amount: number, from: string, to: string): number {
+        return round2((amount / this.rate(from).rate) * this.rate(to).rate);
+    }
+
+    public normalize(amount: number, currency: string): ConvertedAmount {
+        const rate = this.rate(currency);
+        return {
+            amount,
+            currency: currency.toUpperCase(),
+            amountBase: round2(amount / rate.rate),
+            baseCurrency: this.base,
+            fxRate: rate.rate,
+            fxAsOf: rate.asOf
+        };
+    }
+
+    // Copy with one rate pinned, e.g. the rate a stored signal was valued at
+    public withRate(currency: string, rate: number, asOf: string, source = 'pinned'): FxRateTable {
+        if (currency.toUpperCase() === this.base) return this;
+        return new FxRateTable(this.base, [...this.list().filter(r => r.currency !== currency.toUpperCase()), { base: this.base, currency: currency.toUpperCase(), rate, asOf, source }]);
+    }
+}
@@ -0,0 +1,266 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { ProfitCalculator, RESALE_CHANNEL_FEES, type CostBreakdown } from './profit-calculator';
+import type { NexusOrder, OrderStatus } from './order-lifecycle';
+import { DEFAULT_BASE_CURRENCY } from './fx/rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: INVENTORY LEDGER
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Inventory ledger offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+export type InventoryStatus = 'INBOUND' | 'IN_STOCK' | 'LISTED' | 'SOLD' | 'RETURNED';
+export type PhotoKind = 'ARRIVAL' | 'DEFECT' | 'AUTHENTICATION' | 'LISTING';
+
+export interface InventoryPhoto {
+    url: string;
+    kind: PhotoKind;
+    caption?: string;
+    takenAt?: string;
+}
+
+export interface InventoryItem {
+    id: string;
+    signalId: string;
+    orderId: string | null;
+    source: string;
+    targetName: string;
+    brandCategory: string;
+    modelName: string | null;
+    status: InventoryStatus;
+
+    // What the engine believed at purchase time, frozen for later comparison
+    estimatedCondition: number;
+    estimatedValue: number;
+    expectedNetProfit: number;
+    expectedChannel: string;
+
+    // What actually happened. Every amount on the item is in `currency`, the base currency at intake.
+    currency: string;
+    purchaseCost: number;
+    salesTax: number;
+    inboundShipping: number;
+    actualCondition: number | null;
+    refurbishmentCost: number;
+    storageLocation: string | null;
+    photos: InventoryPhoto[];
+    notes: string | null;
+    salePrice: number | null;
+    saleChannel: string | null;
+    sellingCost: number | null;
+    realizedNetProfit: number | null;
+    soldAt: string | null;
+
+    acquiredAt: string;
+    updatedAt: string;
+}
+
+// Fields an operator may edit once the item is in hand
+export type InventoryUpdate = Partial<Pick<InventoryItem,
+    'inboundShipping' | 'actualCondition' | 'refurbishmentCost' | 'storageLocation' | 'photos' | 'notes'>>;
+
+export interface SaleInput {
+    salePrice: number;
+    channel: string;
+    sellingCost?: number;   // Actual fees when known; otherwise derived from the channel schedule
+    soldAt?: string;
+}
+
+// Estimate vs outcome for a single item; null where the outcome isn't known yet
+export interface EstimateVariance {
+    conditionDelta: number | null;   // actual - estimated, in condition grades
+    valueErrorPct: number | null;    // (salePrice - estimatedValue) / estimatedValue
+    profitErrorPct: number | null;   // (realized - expected) / |expected|
+}
+
+// Inventory follows the physical order status; payment states never reach inventory
+const INVENTORY_STATUS: Partial<Record<OrderStatus, InventoryStatus>> = {
+    PAID: 'INBOUND',
+    SHIPPED: 'INBOUND',
+    RECEIVED: 'IN_STOCK',
+    AUTHENTICATED: 'IN_STOCK',
+    LISTED: 'LISTED',
+    SOLD: 'SOLD',
+    RETURNED: 'RETURNED',
+    REFUNDED: 'RETURNED'
+};
+
+const PHOTO_KINDS: PhotoKind[] = ['ARRIVAL', 'DEFECT', 'AUTHENTICATION', 'LISTING'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const pct = (actual: number, expected: number) => expected !== 0 ? round2(((actual - expected) / Math.abs(expected)) * 100) : null;
+
+// Total landed cost of an item so far
+export const costBasis = (item: Pick<InventoryItem, 'purchaseCost' | 'salesTax' | 'inboundShipping' | 'refurbishmentCost'>) =>
+    round2(Number(item.purchaseCost) + Number(item.salesTax) + Number(item.inboundShipping) + Number(item.refurbishmentCost));
+
+export const compareToEstimate = (item: InventoryItem): EstimateVariance => ({
+    conditionDelta: item.actualCondition !== null ? item.actualCondition - item.estimatedCondition : null,
+    valueErrorPct: item.salePrice !== null ? pct(Number(item.salePrice), Number(item.estimatedValue)) : null,
+    profitErrorPct: item.realizedNetProfit !== null ? pct(Number(item.realizedNetProfit), Number(item.expectedNetProfit)) : null
+});
+
+// Validates untrusted input from the inventory routes
+export const parseInventoryUpdate = (input: Record<string, unknown>): InventoryUpdate => {
+    const update: InventoryUpdate = {};
+    const money = (field: 'inboundShipping' | 'refurbishmentCost') => {
+        if (input[field] === undefined) return;
+        const value = Number(input[field]);
+        if (!Number.isFinite(value) || value < 0) throw new Error(`${field} must be a non-negative number.`);
+        update[field] = round2(value);
+    };
+    money('inboundShipping');
+    money('refurbishmentCost');
+
+    if (input.actualCondition !== undefined && input.actualCondition !== null) {
+        const grade = Number(input.actualCondition);
+        if (!Number.isInteger(grade) || grade < 1 || grade > 5) throw new Error('actualCondition must be an integer from 1 to 5.');
+        update.actualCondition = grade;
+    }
+    if (input.storageLocation !== undefined) {
+        update.storageLocation = input.storageLocation ? String(input.storageLocation).trim() : null;
+    }
+    if (input.notes !== undefined) {
+        update.notes = input.notes ? String(input.notes) : null;
+    }
+    if (input.photos !== undefined) {
+        if (!Array.isArray(input.photos)) throw new Error('photos must be an array.');
+        update.photos = input.photos.map((raw, i) => {
+            const photo = raw as Record<string, unknown>;
+            if (typeof photo?.url !== 'string' || !photo.url) throw new Error(`photos[${i}].url is required.`);
+            const kind = String(photo.kind || 'ARRIVAL').toUpperCase() as PhotoKind;
+            if (!PHOTO_KINDS.includes(kind)) throw new Error(`photos[${i}].kind must be one of ${PHOTO_KINDS.join(', ')}.`);
+            return {
+                url: photo.url,
+                kind,
+                ...(typeof photo.caption === 'string' ? { caption: photo.caption } : {}),
+                ...(typeof photo.takenAt === 'string' ? { takenAt: photo.takenAt } : {})
+            };
+        });
+    }
+    return update;
+};
+
+export class InventoryLedger {
+    private calculator = new ProfitCalculator();
+
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    public async list(status?: InventoryStatus): Promise<InventoryItem[]> {
+        let query = this.supabase.from('nexus_inventory').select('*').order('acquiredAt', { ascending: false });
+        if (status) query = query.eq('status', status);
+        const { data, error } = await query;
+        if (error) throw new Error(`Inventory lookup failed: ${error.message}`);
+        return (data || []) as InventoryItem[];
+    }
+
+    public async get(id: string): Promise<InventoryItem | null> {
+        const { data, error } = await this.supabase.from('nexus_inventory').select('*').eq('id', id).maybeSingle();
+        if (error) throw new Error(`Inventory lookup failed: ${error.message}`);
+        return data as InventoryItem | null;
+    }
+
+    // 1. ORDER SYNC: called by the order lifecycle on every transition
+    public async syncFromOrder(order: NexusOrder): Promise<void> {
+        const status = INVENTORY_STATUS[order.status];
+        if (!status) return;
+
+        if (order.status === 'PAID') {
+            await this.openFromOrder(order);
+            return;
+        }
+
+        const { error } = await this.supabase
+            .from('nexus_inventory')
+            .update({ status, updatedAt: new Date().toISOString() })
+            .eq('orderId', order.id);
+        if (error) throw new Error(`Inventory status sync failed for order ${order.id}: ${error.message}`);
+    }
+
+    // Snapshots the signal's estimates next to what we actually paid
+    private async openFromOrder(order: NexusOrder): Promise<void> {
+        const { data: signal, error: signalError } = await this.supabase
+            .from('nexus_signals')
+            .select('source, targetName, brandCategory, modelName, conditionScore, estimatedValue, netProfit, costBreakdown')
+            .eq('id', order.signalId)
+            .maybeSingle();
+        if (signalError) throw new Error(`Signal lookup failed: ${signalError.message}`);
+        if (!signal) throw new Error(`Signal ${order.signalId} missing for order ${order.id}.`);
+
+        const breakdown = (signal.costBreakdown || {}) as Partial<CostBreakdown>;
+        const now = new Date().toISOString();
+        const purchaseCost = Number(order.amountBase ?? order.amount);
+        const salesTaxRate = breakdown.purchasePrice ? (breakdown.salesTax ?? 0) / breakdown.purchasePrice : 0;
+
+        const { error } = await this.supabase.from('nexus_inventory').upsert({
+            signalId: order.signalId,
+            orderId: order.id,
+            source: signal.source,
+            targetName: signal.targetName,
+            brandCategory: signal.brandCategory,
+            modelName: signal.modelName,
+            status: 'INBOUND',
+            estimatedCondition: signal.conditionScore,
+            estimatedValue: Number(signal.estimatedValue),
+            expectedNetProfit: Number(signal.netProfit),
+            expectedChannel: breakdown.resaleChannel || 'ebay',
+            currency: order.baseCurrency || breakdown.currency || DEFAULT_BASE_CURRENCY,
+            purchaseCost,
+            salesTax: round2(purchaseCost * salesTaxRate),
+            inboundShipping: breakdown.inboundShipping ?? 0, // Quoted until the operator records the real figure
+            refurbishmentCost: 0,
+            photos: [],
+            acquiredAt: now,
+            updatedAt: now
+        }, { onConflict: 'signalId', ignoreDuplicates: true });
+        if (error) throw new Error(`Inventory insert failed: ${error.message}`);
+    }
+
+    // 2. OPERATOR UPDATES
+    public async update(id: string, patch: InventoryUpdate): Promise<InventoryItem | null> {
+        const { data, error } = await this.supabase
+            .from('nexus_inventory')
+            .update({ ...patch, updatedAt: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .maybeSingle();
+        if (error) throw new Error(`Inventory update failed: ${error.message}`);
+        return data as InventoryItem | null;
+    }
+
+    // 3. SALE: realized numbers land next to the frozen estimates
+    public async recordSale(item: InventoryItem, sale: SaleInput): Promise<InventoryItem> {
+        if (!RESALE_CHANNEL_FEES[sale.channel] && sale.sellingCost === undefined) {
+            throw new Error(`Unknown resale channel '${sale.channel}'. Provide sellingCost explicitly.`);
+        }
+
+        // Authentication on our side already happened at intake, so the channel's fee schedule excludes it
+        const sellingCost = sale.sellingCost ?? this.calculator.sellingCosts(sale.salePrice, sale.channel).sellingCost;
+        const realizedNetProfit = round2(sale.salePrice - sellingCost - costBasis(item));
+
+        const { data, error } = await this.supabase
+            .from('nexus_inventory')
+            .update({
+                status: 'SOLD',
+                salePrice: round2(sale.salePrice),
+                saleChannel: sale.channel,
+                sellingCost: round2(sellingCost),
+                realizedNetProfit,
+                soldAt: sale.soldAt || new Date().toISOString(),
+                updatedAt: new Date().toISOString()
+            })
+            .eq('id', item.id)
+            .select()
+            .single();
+        if (error) throw new Error(`Sale record failed: ${error.message}`);
+        return data as InventoryItem;
+    }
+}
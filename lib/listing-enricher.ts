@@ -0,0 +1,135 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'node:crypto';
+import { ExtractionSchemaError, estimateTokens, extractionPrompt, validateAttributes, type ExtractionProvider, type ListingAttributes } from './extraction';
+
+// ==========================================
+// VOIDLOGIC NEXUS: LISTING ENRICHMENT (LLM EXTRACTION)
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Listing enrichment offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+// Tokens (prompt + response) the enrichment step may spend per UTC day, across all sweeps
+export const DEFAULT_DAILY_TOKEN_BUDGET = Number(process.env.NEXUS_EXTRACTION_DAILY_TOKENS) || 200000;
+
+const MAX_TITLE = 300;
+const MAX_DESCRIPTION = 2000;  // Long descriptions are mostly shipping and returns boilerplate
+
+export interface EnrichmentStats {
+    cached: number;
+    extracted: number;
+    invalid: number;        // Model answered, but not in the schema; cached so it is not paid for twice
+    failed: number;         // Provider errors; not cached, retried next sweep
+    overBudget: number;
+    tokens: number;
+}
+
+const dayStart = (now = new Date()) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+
+export class ListingEnricher {
+    public readonly stats: EnrichmentStats = { cached: 0, extracted: 0, invalid: 0, failed: 0, overBudget: 0, tokens: 0 };
+    private spent: number | null = null;
+
+    constructor(
+        private provider: ExtractionProvider,
+        private supabase: SupabaseClient = getSupabase(),
+        private dailyTokenBudget = DEFAULT_DAILY_TOKEN_BUDGET
+    ) {}
+
+    // Attributes for one listing, or null when unavailable. Never throws: enrichment is optional.
+    public async enrich(signalId: string, listing: { title: string; description?: string }): Promise<ListingAttributes | null> {
+        const input = { title: listing.title.slice(0, MAX_TITLE), description: (listing.description || '').slice(0, MAX_DESCRIPTION) };
+        const contentHash = createHash('sha256').update(`${this.provider.id}\n${input.title}\n${input.description}`).digest('hex');
+
+        try {
+            // 1. Cache: one row per listing, reused until the text or the provider changes
+            const { data: cached, error: cacheError } = await this.supabase
+                .from('nexus_listing_attributes')
+                .select('contentHash, attributes')
+                .eq('id', signalId)
+                .maybeSingle();
+            if (cacheError) throw new Error(`Attribute cache lookup failed: ${cacheError.message}`);
+            if (cached?.contentHash === contentHash) {
+                this.stats.cached++;
+                return cached.attributes as ListingAttributes | null;
+            }
+
+            // 2. Budget: refuse the call if its worst case would cross today's cap
+            const worstCase = estimateTokens(extractionPrompt(input)) + this.provider.maxOutputTokens;
+            if ((await this.spentToday()) + worstCase > this.dailyTokenBudget) {
+                this.stats.overBudget++;
+                return null;
+            }
+
+            // 3. Extract and validate against the schema
+            const response = await this.provider.extract(input);
+            const tokens = (response.usage.inputTokens + response.usage.outputTokens) || worstCase;
+            this.spent = (this.spent ?? 0) + tokens;
+            this.stats.tokens += tokens;
+
+            // Usage is appended, never upserted: the cache row below is overwritten when a listing is re-extracted
+            const { error: usageError } = await this.supabase.from('nexus_extraction_usage').insert({
+                signalId,
+                provider: this.provider.id,
+                inputTokens: response.usage.inputTokens,
+                outputTokens: response.usage.outputTokens
+            });
+            if (usageError) console.warn(`[NEXUS] Token usage write failed for ${signalId}: ${usageError.message}`);
+
+            let attributes: ListingAttributes | null = null;
+            let schemaError: string | null = null;
+            try {
+                attributes = validateAttributes(response.raw);
+                this.stats.extracted++;
+            } catch (error: unknown) {
+                if (!(error instanceof ExtractionSchemaError)) throw error;
+                schemaError = error.message;
+                this.stats.invalid++;
+            }
+
+            const { error: saveError } = await this.supabase.from('nexus_listing_attributes').upsert({
+                id: signalId,
+                contentHash,
+                provider: this.provider.id,
+                attributes,
+                error: schemaError,
+                inputTokens: response.usage.inputTokens,
+                outputTokens: response.usage.outputTokens,
+                extractedAt: new Date().toISOString()
+            }, { onConflict: 'id' });
+            if (saveError) console.warn(`[NEXUS] Attribute cache write failed for ${signalId}: ${saveError.message}`);
+            return attributes;
+
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            this.stats.failed++;
+            console.warn(`[NEXUS] Extraction failed for ${signalId}: ${errorMsg}`);
+            return null;
+        }
+    }
+
+    // Tokens recorded since UTC midnight, loaded once and then tracked in memory for this sweep
+    private async spentToday(): Promise<number> {
+        if (this.spent === null) {
+            const { data, error } = await this.supabase
+                .from('nexus_extraction_usage')
+                .select('inputTokens, outputTokens')
+                .gte('createdAt', dayStart());
+            if (error) throw new Error(`Extraction budget lookup failed: ${error.message}`);
+            this.spent = (data || []).reduce((sum, r) => sum + (Number(r.inputTokens) || 0) + (Number(r.outputTokens) || 0), 0);
+        }
+        return this.spent;
+    }
+
+    public summary(): string {
+        const s = this.stats;
+        return `${s.extracted} extracted, ${s.cached} cached, ${s.invalid} invalid, ${s.failed} failed, ${s.overBudget} over budget; ${s.tokens} tokens (${this.spent ?? 0}/${this.dailyTokenBudget} today) via ${this.provider.id}`;
+    }
+}
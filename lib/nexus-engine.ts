@@ -1,7 +1,24 @@
 import { createClient } from '@supabase/supabase-js';
-import axios from 'axios';
+import axios, { type AxiosRequestConfig } from 'axios';
 import { chromium } from 'playwright';
 import { ProxyCommander } from './proxy-core';
+import { createDefaultRegistry, type ListingType, type RawListing, type SourceAdapter, type SourceRegistry } from './sources';
+import { ValuationEngine, type ValuationConfidence } from './valuation-engine';
+import { ProfitCalculator, DEFAULT_MIN_ROI_PCT, type CostBreakdown } from './profit-calculator';
+import { BrandCatalog, type BrandTier } from './brand-catalog';
+import { RiskScorer } from './risk-scorer';
+import { SignalLedger, type ObservedListing } from './signal-ledger';
+import { matchesSearch, searchFilters, type SavedSearch } from './saved-searches';
+import { AlertDispatcher } from './alert-dispatcher';
+import { gradeCondition } from './condition-grader';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embeddings';
+import { SemanticMatcher, embedListing } from './semantic-matcher';
+import { createExtractionProvider, type ListingAttributes } from './extraction';
+import { ListingEnricher } from './listing-enricher';
+import { FxRateStore } from './fx-rate-store';
+import type { FxRateTable } from './fx';
+import { AuctionProjector, type ProjectionBasis } from './auction-projector';
+import { Autopilot } from './autopilot';
 
 // ==========================================
 // VOIDLOGIC NEXUS: AUTONOMOUS ENGINE CORE
@@ -28,33 +45,200 @@ export const CONDITION_SCALE = {
     5: { label: "Mint/NIB", multiplier: 1.00, action: "HOLD_FOR_APPRECIATION" }
 } as const;
 
-export const TARGET_BRANDS = [
-    "Hermès", "Chanel", "Louis Vuitton", "Gucci", "Prada", "Dior", "Goyard", 
-    "Bottega Veneta", "Celine", "Balenciaga", "Fendi", "Saint Laurent", 
-    "Valentino", "Givenchy", "Burberry", "Chloe", "Loewe", "Miu Miu", 
-    "Salvatore Ferragamo", "Versace"
-];
-
 // 3. TYPES & INTERFACES
 export interface MarketSignal {
     id: string;
     source: string;
     targetName: string;
     brandCategory: string;
+    brandTier: BrandTier;
+    modelName: string | null;
     conditionScore: 1 | 2 | 3 | 4 | 5;
-    listedPrice: number;
+    conditionReasons: string[]; // How the grader arrived at conditionScore
+    listedPrice: number;      // As quoted by the source, in `currency`; this is what gets charged (the current bid for auctions)
+    currency: string;
+    baseCurrency: string;     // estimatedValue, margins, costBreakdown and every *Base field are in this currency
+    listedPriceBase: number;
+    fxRate: number;           // Units of `currency` per one base unit, as used for this valuation
+    fxAsOf: string;
+    listingType: ListingType;
+    bidCount: number | null;  // Auction fields are null for fixed-price listings
+    endsAt: string | null;
+    projectedPrice: number | null;     // Projected closing price, in `currency`; margins and ROI are computed at it
+    projectedPriceBase: number | null;
+    projectionBasis: ProjectionBasis | null;
     estimatedValue: number;
-    profitMargin: number;
+    valuationConfidence: ValuationConfidence;
+    compsUsed: number;
+    profitMargin: number;     // Gross spread: estimatedValue - listedPriceBase (projectedPriceBase for auctions)
+    costBreakdown: CostBreakdown;
+    netProfit: number;
+    roiPct: number;
+    riskScore: number;        // 0..1 counterfeit likelihood
+    riskReasons: string[];
     url: string;
-    status: 'PENDING' | 'EXECUTED' | 'REJECTED';
+    status: 'PENDING' | 'EXECUTING' | 'EXECUTED' | 'FAILED' | 'REJECTED' | 'ENDED' | 'SOLD' | 'NOT_QUALIFIED';
     timestamp: string;
+    // Ledger fields, maintained across sweeps by SignalLedger
+    firstSeenAt?: string;
+    lastSeenAt?: string;
+    firstPrice?: number;
+    priceDropPct?: number;
+    relistCount?: number;
+    searchId?: string | null; // Saved search that last produced this signal; null for unscoped sweeps
+    // Semantic matching, maintained by the engine and SemanticMatcher
+    embedding?: number[] | null;
+    embeddingModel?: string | null;
+    productGroupId?: string | null; // Shared by listings of the same product across sources
+    attributes?: ListingAttributes | null; // LLM-extracted size, color, material, date code, accessories, flaws
+}
+
+export interface SweepOptions {
+    sources?: string[]; // Adapter IDs to enable for this sweep. Defaults to every registered source.
+    query?: string;     // Search query override handed to every adapter
+    search?: SavedSearch; // Scopes the sweep to a saved search: its keywords, sources, filters and ROI floor win
+}
+
+export interface SourceSweepStats {
+    listings: number;
+    signals: number;
+    unconverted?: number; // Listings skipped because no exchange rate exists for their currency
+    error?: string;
+}
+
+export interface SweepReport {
+    signals: MarketSignal[];
+    sources: Record<string, SourceSweepStats>;
+    errors: string[];
 }
 
-// 4. THE HUNTER CLASS
+// 4. LISTING EVALUATION
+// Shared by live sweeps and the backtest harness so both judge a listing identically
+export interface EvaluationContext {
+    catalog: BrandCatalog;
+    valuation: ValuationEngine;
+    profit: ProfitCalculator;
+    risk: RiskScorer;
+    fx: FxRateTable;                // Listing prices are converted to fx.base before valuation
+    embeddings?: EmbeddingProvider; // Enables nearest-neighbour comp matching; keyword matching without it
+    enricher?: ListingEnricher;     // Optional LLM attribute extraction for listings that become signals
+    auctions?: AuctionProjector;    // Closing-price curve for auctions; the default curve without it
+}
+
+export interface EvaluationOptions {
+    minRoiPct?: number;       // Defaults to NEXUS_MIN_ROI_PCT
+    resaleChannel?: string;   // Defaults to NEXUS_RESALE_CHANNEL
+    now?: Date;               // Clock for auction end times; backtests replay at the observation time
+}
+
+const DEFAULT_AUCTION_PROJECTOR = new AuctionProjector();
+
+// Runs a normalized listing through currency conversion, brand matching, condition grading, auction projection, comp valuation, the net ROI threshold and counterfeit scoring
+export const evaluateListing = async (
+    adapter: Pick<SourceAdapter, 'id' | 'label' | 'idPrefix'>,
+    listing: RawListing,
+    { catalog, valuation, profit, risk, fx, embeddings, enricher, auctions = DEFAULT_AUCTION_PROJECTOR }: EvaluationContext,
+    options: EvaluationOptions = {}
+): Promise<MarketSignal | null> => {
+    const now = options.now ?? new Date();
+    const listingType = listing.listingType ?? 'FIXED_PRICE';
+    if (listingType === 'AUCTION' && listing.endsAt && Date.parse(listing.endsAt) <= now.getTime()) return null; // Already closed
+
+    const match = catalog.match(listing.title, listing.description);
+    if (!match) return null;
+    const brandName = match.brand.name;
+
+    // Structured condition codes from the source beat the text grader
+    const grade = gradeCondition(listing);
+    const condition = grade.score;
+
+    // Comps, fees and ROI floors are all in the base currency; throws FxRateError for an unknown currency
+    const price = fx.normalize(listing.price, listing.currency);
+    const listedPrice = price.amountBase;
+
+    // An auction's current bid is not what it will sell for, so it is judged at the projected close
+    const projection = listingType === 'AUCTION' ? auctions.project(listing.price, listing.endsAt, now) : null;
+    const projectedPriceBase = projection ? fx.toBase(projection.price, listing.currency) : null;
+    const buyPrice = projectedPriceBase ?? listedPrice;
+    const minRoiPct = options.minRoiPct ?? DEFAULT_MIN_ROI_PCT;
+    const costsAt = (resalePrice: number) => profit.calculate({
+        sourceId: adapter.id,
+        purchasePrice: buyPrice,
+        resalePrice,
+        quotedShipping: listing.shippingCost !== undefined ? fx.toBase(listing.shippingCost, listing.currency) : undefined,
+        requiresAuthentication: true, // Every target brand is luxury
+        resaleChannel: options.resaleChannel,
+        currency: fx.base
+    });
+
+    // Cheap gate before the embedding call: if even the brand's best comp cannot clear the ROI floor,
+    // no narrower pool can either, so most listings in a sweep never reach the provider
+    const ceiling = await valuation.ceiling(brandName, condition);
+    if (ceiling <= 0 || costsAt(ceiling).roiPct < minRoiPct) return null;
+
+    // No comparable sales means no defensible value, so no signal
+    const embedding = embeddings ? await embedListing(embeddings, listing, match.brand) : null;
+    const estimate = await valuation.estimate(brandName, listing.title, condition, match.model, embedding);
+    if (estimate.confidence === 'NONE') return null;
+    const estValue = estimate.estimatedValue;
+
+    const costs = costsAt(estValue);
+    if (costs.roiPct < minRoiPct) return null; // Net ROI threshold
+
+    // High-risk signals are still recorded so they can be reviewed, but execution refuses them.
+    // Scored at the base-currency buy price, so a low opening bid does not read as too good to be true.
+    const assessment = risk.assess({ ...listing, price: buyPrice }, estValue);
+
+    // Enrichment runs last, so tokens are only spent on listings that became signals
+    const id = `${adapter.idPrefix}-${listing.externalId}`;
+    const attributes = enricher ? await enricher.enrich(id, listing) : null;
+
+    return {
+        id,
+        source: adapter.label,
+        targetName: listing.title,
+        brandCategory: brandName,
+        brandTier: match.brand.tier,
+        modelName: match.model ?? attributes?.model ?? null,
+        conditionScore: condition,
+        conditionReasons: grade.explanation,
+        listedPrice: listing.price,
+        currency: price.currency,
+        baseCurrency: price.baseCurrency,
+        listedPriceBase: listedPrice,
+        fxRate: price.fxRate,
+        fxAsOf: price.fxAsOf,
+        listingType,
+        bidCount: projection ? listing.bidCount ?? 0 : null,
+        endsAt: projection ? listing.endsAt ?? null : null,
+        projectedPrice: projection?.price ?? null,
+        projectedPriceBase,
+        projectionBasis: projection?.basis ?? null,
+        estimatedValue: estValue,
+        valuationConfidence: estimate.confidence,
+        compsUsed: estimate.compsUsed,
+        profitMargin: Math.round((estValue - buyPrice) * 100) / 100,
+        costBreakdown: costs,
+        netProfit: costs.netProfit,
+        roiPct: costs.roiPct,
+        riskScore: assessment.score,
+        riskReasons: assessment.reasons,
+        embedding: embedding?.vector ?? null,
+        embeddingModel: embedding?.model ?? null,
+        attributes,
+        url: listing.url,
+        status: 'PENDING',
+        timestamp: new Date().toISOString()
+    };
+};
+
+// 5. THE HUNTER CLASS
 export class NexusHunter {
     private proxyConfig: any;
+    private registry: SourceRegistry;
 
-    constructor() {
+    constructor(registry: SourceRegistry = createDefaultRegistry()) {
+        this.registry = registry;
         this.proxyConfig = {
             host: process.env.PROXY_HOST || '',
             port: Number(process.env.PROXY_PORT) || 80,
@@ -65,15 +249,19 @@ export class NexusHunter {
         };
     }
 
-    // Scrapes SalvageReseller and cross-references eBay API
-    public async runSweep(): Promise<MarketSignal[]> {
+    // Pulls listings from every enabled source adapter and evaluates them against the valuation matrices
+    public async runSweep(options: SweepOptions = {}): Promise<SweepReport> {
         const signals: MarketSignal[] = [];
+        const report: SweepReport = { signals, sources: {}, errors: [] };
         const timestamp = new Date().toISOString();
         const supabase = getSupabase();
 
-        console.log(`[${timestamp}] NEXUS: Initiating Sweep across all vectors...`);
+        console.log(`[${timestamp}] NEXUS: Initiating Sweep ${options.search ? `for '${options.search.name}'` : 'across all vectors'}...`);
 
         try {
+            const search = options.search;
+            const adapters = this.registry.resolve(search?.sources.length ? search.sources : options.sources);
+
             // Get an optimal proxy from the fleet
             const commander = new ProxyCommander();
             const proxy = await commander.getOptimalProxy();
@@ -88,76 +276,181 @@ export class NexusHunter {
                 console.warn(`[NEXUS] No active proxies found in fleet. Proceeding with direct connection.`);
             }
 
-            // Simulated API calls for demonstration of architecture. 
-            // In production, connect these to real endpoints.
-            const ebayResponse = await this.safeApiCall('https://api.ebay.com/buy/browse/v1/item_summary/search?q=designer+bag');
-            // const salvageResponse = await this.safeApiCall('https://api.salvagereseller.com/v1/listings/recent');
-
-            // Process Designer Bags
-            if (ebayResponse && ebayResponse.itemSummaries) {
-                for (const item of ebayResponse.itemSummaries) {
-                    const brandMatch = TARGET_BRANDS.find(b => item.title.includes(b));
-                    if (brandMatch) {
-                        const condition = this.calculateCondition(item.condition || 'used');
-                        const estValue = this.getBaseValue(brandMatch) * CONDITION_SCALE[condition].multiplier;
-                        const listedPrice = Number(item.price?.value || 0);
-                        
-                        if (estValue > listedPrice * 1.3) { // 30% margin threshold
-                            signals.push({
-                                id: `EBAY-${item.itemId}`,
-                                source: 'eBay',
-                                targetName: item.title,
-                                brandCategory: brandMatch,
-                                conditionScore: condition,
-                                listedPrice: listedPrice,
-                                estimatedValue: estValue,
-                                profitMargin: estValue - listedPrice,
-                                url: item.itemWebUrl,
-                                status: 'PENDING',
-                                timestamp: new Date().toISOString()
-                            });
-                        }
+            const catalog = await BrandCatalog.load();
+            const embeddings = createEmbeddingProvider();
+            const fx = await new FxRateStore(supabase).table();
+            const valuation = new ValuationEngine({ minSimilarity: embeddings.relatedSimilarity }, undefined, fx);
+            const extraction = createExtractionProvider();
+            const enricher = extraction ? new ListingEnricher(extraction, supabase) : undefined;
+            const auctions = await AuctionProjector.load(supabase);
+            const profit = new ProfitCalculator();
+            const risk = new RiskScorer();
+
+            // Each source runs in isolation: one failing vector never poisons the others
+            const batches = await Promise.all(adapters.map(adapter => this.collectListings(adapter, fx.base, search?.keywords ?? options.query, search)));
+            const observed: ObservedListing[] = [];
+            const unconverted = new Set<string>();
+
+            for (const { adapter, listings, error } of batches) {
+                const stats: SourceSweepStats = { listings: listings.length, signals: 0, error };
+                if (error) report.errors.push(`${adapter.label}: ${error}`);
+
+                for (const listing of listings) {
+                    // A saved search filters and sets its own ROI floor, so its misses say nothing about the default rules
+                    observed.push({
+                        id: `${adapter.idPrefix}-${listing.externalId}`,
+                        price: listing.price,
+                        currency: listing.currency,
+                        listingType: listing.listingType ?? 'FIXED_PRICE',
+                        bidCount: listing.bidCount,
+                        endsAt: listing.endsAt,
+                        judged: !search && fx.has(listing.currency)
+                    });
+                    if (!fx.has(listing.currency)) {
+                        unconverted.add(listing.currency);
+                        stats.unconverted = (stats.unconverted || 0) + 1;
+                        continue;
+                    }
+                    const signal = await evaluateListing(adapter, listing, { catalog, valuation, profit, risk, fx, embeddings, enricher, auctions }, {
+                        minRoiPct: search?.minRoiPct != null ? Number(search.minRoiPct) : undefined
+                    });
+                    if (signal && (!search || matchesSearch(signal, search))) {
+                        signals.push(search ? { ...signal, searchId: search.id } : signal);
+                        stats.signals++;
                     }
                 }
+                report.sources[adapter.id] = stats;
             }
 
-            // Log results to Supabase for the UI to pick up instantly
-            if (signals.length > 0) {
-                const { error } = await supabase.from('nexus_signals').insert(signals);
-                if (error) throw new Error(`Supabase Insert Failed: ${error.message}`);
+            if (unconverted.size > 0) {
+                const message = `No ${fx.base} exchange rate for ${[...unconverted].join(', ')}; those listings were skipped.`;
+                console.warn(`[NEXUS] ${message}`);
+                await supabase.from('nexus_logs').insert({ level: 'WARN', message, timestamp: new Date().toISOString() });
             }
 
-            return signals;
+            if (enricher) {
+                console.log(`[NEXUS] Enrichment: ${enricher.summary()}.`);
+                if (enricher.stats.overBudget > 0) {
+                    await supabase.from('nexus_logs').insert({ level: 'WARN', message: `Extraction token budget reached: ${enricher.stats.overBudget} signals left unenriched.`, timestamp: new Date().toISOString() });
+                }
+            }
+
+            // Upsert into the ledger for the UI to pick up instantly, tracking price moves and relists
+            const ledger = new SignalLedger(supabase);
+            const summary = await ledger.record(signals, observed);
+            const vanished = await this.resolveVanished(ledger, batches.filter(b => !b.error).map(b => b.adapter));
+
+            console.log(`[NEXUS] Ledger: ${summary.inserted} new, ${summary.updated} refreshed, ${summary.priceChanges} price moves, ${summary.relisted} relisted, ${summary.disqualified} no longer qualifying, ${vanished} ended.`);
+
+            // Same product cross-posted to several sources ends up in one group
+            try {
+                await new SemanticMatcher(supabase, embeddings).groupSignals(signals);
+            } catch (groupError: unknown) {
+                const groupMsg = groupError instanceof Error ? groupError.message : 'Unknown error';
+                console.warn(`[NEXUS] Product grouping failed: ${groupMsg}`);
+                await supabase.from('nexus_logs').insert({ level: 'WARN', message: `Product grouping failed: ${groupMsg}`, timestamp: new Date().toISOString() });
+            }
+
+            // Alerting never fails a sweep; undelivered alerts are retried by the scheduler
+            try {
+                const alerts = await new AlertDispatcher(supabase).dispatch(signals);
+                if (alerts > 0) console.log(`[NEXUS] Alerts: ${alerts} deliveries queued.`);
+            } catch (alertError: unknown) {
+                const alertMsg = alertError instanceof Error ? alertError.message : 'Unknown error';
+                console.warn(`[NEXUS] Alert dispatch failed: ${alertMsg}`);
+                await supabase.from('nexus_logs').insert({ level: 'WARN', message: `Alert dispatch failed: ${alertMsg}`, timestamp: new Date().toISOString() });
+            }
+
+            // God Mode runs here, server-side, so it buys whether or not anyone has the dashboard open
+            try {
+                const autopilot = await new Autopilot(supabase).consider(signals);
+                if (autopilot.executed.length > 0) console.log(`[NEXUS] Autopilot: executed ${autopilot.executed.join(', ')}.`);
+            } catch (autopilotError: unknown) {
+                const autopilotMsg = autopilotError instanceof Error ? autopilotError.message : 'Unknown error';
+                console.warn(`[NEXUS] Autopilot failed: ${autopilotMsg}`);
+                await supabase.from('nexus_logs').insert({ level: 'WARN', message: `Autopilot failed: ${autopilotMsg}`, timestamp: new Date().toISOString() });
+            }
+            return report;
 
         } catch (error: unknown) {
             const errorMsg = error instanceof Error ? error.message : 'Unknown error';
             console.error(`[CRITICAL FAILURE] Engine Sweep Halted: ${errorMsg}`);
             await supabase.from('nexus_logs').insert({ level: 'ERROR', message: errorMsg, timestamp: new Date().toISOString() });
-            return [];
+            return { signals: [], sources: report.sources, errors: [...report.errors, errorMsg] };
         }
     }
 
-    // Evaluates condition based on raw text to fit the 1-5 scale
-    private calculateCondition(rawCondition: string): 1 | 2 | 3 | 4 | 5 {
-        const text = rawCondition.toLowerCase();
-        if (text.includes('new') || text.includes('mint')) return 5;
-        if (text.includes('excellent')) return 4;
-        if (text.includes('good') || text.includes('used')) return 3;
-        if (text.includes('fair') || text.includes('parts')) return 2;
-        return 1; // Default to junk to be safe on margins
+    // Fetches and normalizes a single source. Failures are logged and yield an empty batch.
+    private async collectListings(
+        adapter: SourceAdapter,
+        baseCurrency: string,
+        query?: string,
+        search?: SavedSearch
+    ): Promise<{ adapter: SourceAdapter; listings: RawListing[]; error?: string }> {
+        try {
+            const rawItems = await adapter.fetchListings({
+                fetchJson: (url, config) => this.safeApiCall(url, config),
+                query,
+                filters: search ? searchFilters(search) : undefined,
+                baseCurrency
+            });
+
+            const listings: RawListing[] = [];
+            for (const raw of rawItems) {
+                const listing = adapter.normalize(raw);
+                if (listing) listings.push(listing);
+            }
+
+            console.log(`[NEXUS] Source ${adapter.label}: ${listings.length} listings normalized.`);
+            return { adapter, listings };
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`[NEXUS] Source ${adapter.label} failed: ${errorMsg}`);
+            await getSupabase().from('nexus_logs').insert({
+                level: 'WARN',
+                message: `Source ${adapter.label} failed during sweep: ${errorMsg}`,
+                timestamp: new Date().toISOString()
+            });
+            return { adapter, listings: [], error: errorMsg };
+        }
     }
 
-    // Dummy baseline value generator for the math trace
-    private getBaseValue(brand: string): number {
-        const highTier = ["Hermès", "Chanel"];
-        return highTier.includes(brand) ? 5000 : 1500;
+    // Marks PENDING listings that stopped showing up as ENDED, or SOLD when the source can tell
+    private async resolveVanished(ledger: SignalLedger, adapters: SourceAdapter[]): Promise<number> {
+        const byLabel = new Map(adapters.map(a => [a.label, a]));
+        const vanished = await ledger.findVanished(Array.from(byLabel.keys()));
+        let marked = 0;
+
+        for (const signalId of vanished) {
+            const adapter = adapters.find(a => signalId.startsWith(`${a.idPrefix}-`));
+            if (!adapter) continue;
+
+            let status: 'ACTIVE' | 'ENDED' | 'SOLD' = 'ENDED';
+            if (adapter.lookupStatus) {
+                try {
+                    status = await adapter.lookupStatus(signalId.slice(adapter.idPrefix.length + 1), {
+                        fetchJson: (url, config) => this.safeApiCall(url, config)
+                    });
+                } catch (error: unknown) {
+                    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+                    console.warn(`[NEXUS] Status lookup failed for ${signalId}: ${errorMsg}`);
+                    continue; // Try again next sweep rather than guess
+                }
+            }
+            if (status === 'ACTIVE') continue; // Still live, just outside this sweep's result window
+
+            await ledger.markVanished(signalId, status);
+            marked++;
+        }
+        return marked;
     }
 
     // Robust wrapper with exponential backoff and Playwright fallback for Cloudflare
-    private async safeApiCall(url: string, retries = 3): Promise<any> {
+    private async safeApiCall(url: string, config: AxiosRequestConfig = {}, retries = 3): Promise<any> {
         for (let attempt = 1; attempt <= retries; attempt++) {
             try {
                 const response = await axios.get(url, { 
+                    ...config,
                     timeout: 10000,
                     proxy: this.proxyConfig?.host ? this.proxyConfig : false
                 });
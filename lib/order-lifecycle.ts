@@ -0,0 +1,260 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type Stripe from 'stripe';
+import { InventoryLedger } from './inventory-ledger';
+import { DEFAULT_BASE_CURRENCY, fromMinorUnits, toBaseAmount } from './fx/rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: ORDER LIFECYCLE
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Order lifecycle offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+export type OrderStatus =
+    | 'PAYMENT_PENDING'  // PaymentIntent created, waiting on Stripe (processing, 3DS)
+    | 'PAYMENT_FAILED'
+    | 'PAID'
+    | 'SHIPPED'          // Seller shipped to us
+    | 'RECEIVED'
+    | 'AUTHENTICATED'
+    | 'LISTED'           // Listed on the resale channel
+    | 'SOLD'
+    | 'RETURNED'         // Sent back to the seller (failed authentication, not as described)
+    | 'REFUNDED';
+
+export type OrderActor = 'EXECUTION' | 'STRIPE' | 'OPERATOR';
+
+// Legal moves. Anything not listed is rejected, so replayed or out-of-order events cannot rewind an order.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    PAYMENT_PENDING: ['PAID', 'PAYMENT_FAILED'],
+    PAYMENT_FAILED: [],
+    PAID: ['SHIPPED', 'REFUNDED'],
+    SHIPPED: ['RECEIVED', 'RETURNED', 'REFUNDED'],
+    RECEIVED: ['AUTHENTICATED', 'RETURNED'],
+    AUTHENTICATED: ['LISTED', 'RETURNED'],
+    LISTED: ['SOLD', 'AUTHENTICATED'], // Delisting goes back to inventory
+    SOLD: [],
+    RETURNED: ['REFUNDED'],
+    REFUNDED: []
+};
+
+// Statuses an operator may set by hand; payment outcomes only ever come from Stripe
+export const OPERATOR_STATUSES: OrderStatus[] = ['SHIPPED', 'RECEIVED', 'AUTHENTICATED', 'LISTED', 'SOLD', 'RETURNED'];
+
+export interface NexusOrder {
+    id: string;
+    signalId: string;
+    paymentIntentId: string;
+    amount: number;              // Charged, in `currency`; refundedAmount is in the same currency
+    currency: string;
+    amountBase: number;          // At the rate the signal was valued at
+    baseCurrency: string;
+    status: OrderStatus;
+    refundedAmount: number;
+    disputeStatus: string | null;
+    disputeReason: string | null;
+    trackingNumber: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface NewOrder {
+    signalId: string;
+    paymentIntentId: string;
+    amount: number;
+    currency: string;
+    amountBase?: number;         // Derived from the signal's recorded rate when omitted
+    baseCurrency?: string;
+}
+
+export interface TransitionOptions {
+    actor: OrderActor;
+    note?: string;
+    stripeEventId?: string;
+    patch?: Partial<Pick<NexusOrder, 'trackingNumber' | 'refundedAmount'>>;
+}
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) => ORDER_TRANSITIONS[from].includes(to);
+
+const intentId = (ref: string | { id: string } | null | undefined) =>
+    typeof ref === 'string' ? ref : ref?.id ?? null;
+
+export class OrderLifecycle {
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    public async createOrder(input: NewOrder): Promise<NexusOrder> {
+        const now = new Date().toISOString();
+        const order = input.amountBase !== undefined ? input : { ...input, ...(await this.baseAmountFor(input.signalId, input.amount)) };
+        const { data, error } = await this.supabase
+            .from('nexus_orders')
+            .insert({ ...order, status: 'PAYMENT_PENDING', refundedAmount: 0, createdAt: now, updatedAt: now })
+            .select()
+            .single();
+        if (error) {
+            // The webhook can beat the execute route here; whoever inserts second adopts the existing order
+            if (error.code === '23505') {
+                const existing = await this.findByPaymentIntent(order.paymentIntentId);
+                if (existing) return existing;
+            }
+            throw new Error(`Order creation failed: ${error.message}`);
+        }
+
+        await this.recordEvent(data.id, null, 'PAYMENT_PENDING', { actor: 'EXECUTION', note: `PaymentIntent ${order.paymentIntentId}` });
+        return data as NexusOrder;
+    }
+
+    public async getOrder(id: string): Promise<NexusOrder | null> {
+        const { data, error } = await this.supabase.from('nexus_orders').select('*').eq('id', id).maybeSingle();
+        if (error) throw new Error(`Order lookup failed: ${error.message}`);
+        return data as NexusOrder | null;
+    }
+
+    public async findByPaymentIntent(paymentIntentId: string): Promise<NexusOrder | null> {
+        const { data, error } = await this.supabase
+            .from('nexus_orders')
+            .select('*')
+            .eq('paymentIntentId', paymentIntentId)
+            .maybeSingle();
+        if (error) throw new Error(`Order lookup failed: ${error.message}`);
+        return data as NexusOrder | null;
+    }
+
+    // Moves an order along the state machine. Returns null when the move is illegal or lost a race.
+    public async transition(order: NexusOrder, to: OrderStatus, options: TransitionOptions): Promise<NexusOrder | null> {
+        if (!canTransition(order.status, to)) return null;
+
+        const { data, error } = await this.supabase
+            .from('nexus_orders')
+            .update({ ...options.patch, status: to, updatedAt: new Date().toISOString() })
+            .eq('id', order.id)
+            .eq('status', order.status) // Optimistic lock: someone else may have moved it first
+            .select()
+            .maybeSingle();
+        if (error) throw new Error(`Order transition failed: ${error.message}`);
+        if (!data) return null;
+
+        await this.recordEvent(order.id, order.status, to, options);
+        await this.syncSignal(data as NexusOrder);
+        await new InventoryLedger(this.supabase).syncFromOrder(data as NexusOrder);
+        return data as NexusOrder;
+    }
+
+    // 1. STRIPE EVENTS: returns a short outcome line for the webhook log
+    public async applyStripeEvent(event: Stripe.Event): Promise<string> {
+        switch (event.type) {
+            case 'payment_intent.succeeded':
+                return this.settlePayment(event.data.object, 'PAID', event.id);
+            case 'payment_intent.payment_failed':
+                return this.settlePayment(event.data.object, 'PAYMENT_FAILED', event.id);
+            case 'charge.refunded':
+                return this.applyRefund(event.data.object, event.id);
+            case 'charge.dispute.created':
+                return this.applyDispute(event.data.object, event.id);
+            default:
+                return `Ignored ${event.type}.`;
+        }
+    }
+
+    private async settlePayment(intent: Stripe.PaymentIntent, to: 'PAID' | 'PAYMENT_FAILED', eventId: string): Promise<string> {
+        const signalId = intent.metadata?.signalId;
+        const order = await this.findByPaymentIntent(intent.id)
+            ?? (signalId ? await this.createOrder({ signalId, paymentIntentId: intent.id, amount: fromMinorUnits(intent.amount, intent.currency), currency: intent.currency.toUpperCase() }) : null);
+        if (!order) return `No order for ${intent.id}.`;
+        if (order.status === to) return `Order ${order.id} already ${to}.`;
+
+        const note = to === 'PAYMENT_FAILED' ? intent.last_payment_error?.message ?? 'Payment failed' : undefined;
+        const moved = await this.transition(order, to, { actor: 'STRIPE', stripeEventId: eventId, note });
+        return moved ? `Order ${order.id} ${order.status} -> ${to}.` : `Order ${order.id} is ${order.status}; ${to} not applied.`;
+    }
+
+    private async applyRefund(charge: Stripe.Charge, eventId: string): Promise<string> {
+        const piId = intentId(charge.payment_intent);
+        const order = piId ? await this.findByPaymentIntent(piId) : null;
+        if (!order) return `No order for charge ${charge.id}.`;
+
+        const refundedAmount = fromMinorUnits(charge.amount_refunded, charge.currency);
+        const fullRefund = charge.refunded;
+
+        if (fullRefund && canTransition(order.status, 'REFUNDED')) {
+            const moved = await this.transition(order, 'REFUNDED', { actor: 'STRIPE', stripeEventId: eventId, patch: { refundedAmount } });
+            if (moved) return `Order ${order.id} ${order.status} -> REFUNDED.`;
+        }
+
+        // Partial refunds, or refunds on an order we already have in hand, are recorded without moving it
+        const { error } = await this.supabase
+            .from('nexus_orders')
+            .update({ refundedAmount, updatedAt: new Date().toISOString() })
+            .eq('id', order.id);
+        if (error) throw new Error(`Refund update failed: ${error.message}`);
+        const recorded = await this.recordEvent(order.id, order.status, order.status, {
+            actor: 'STRIPE',
+            stripeEventId: eventId,
+            note: `${fullRefund ? 'Full' : 'Partial'} refund of ${refundedAmount.toFixed(2)} ${charge.currency.toUpperCase()}`
+        });
+        return `Order ${order.id} refund of ${refundedAmount.toFixed(2)} ${recorded ? 'recorded' : 'already recorded'}.`;
+    }
+
+    // Converts at the rate the signal was valued at, so the order's base cost matches its expected margin
+    private async baseAmountFor(signalId: string, amount: number): Promise<{ amountBase: number; baseCurrency: string }> {
+        const { data, error } = await this.supabase.from('nexus_signals').select('fxRate, baseCurrency').eq('id', signalId).maybeSingle();
+        if (error) throw new Error(`Signal lookup failed: ${error.message}`);
+        return { amountBase: toBaseAmount(amount, data?.fxRate ? Number(data.fxRate) : null), baseCurrency: data?.baseCurrency || DEFAULT_BASE_CURRENCY };
+    }
+
+    private async applyDispute(dispute: Stripe.Dispute, eventId: string): Promise<string> {
+        const piId = intentId(dispute.payment_intent);
+        const order = piId ? await this.findByPaymentIntent(piId) : null;
+        if (!order) return `No order for dispute ${dispute.id}.`;
+
+        const { error } = await this.supabase
+            .from('nexus_orders')
+            .update({ disputeStatus: dispute.status, disputeReason: dispute.reason, updatedAt: new Date().toISOString() })
+            .eq('id', order.id);
+        if (error) throw new Error(`Dispute update failed: ${error.message}`);
+        const recorded = await this.recordEvent(order.id, order.status, order.status, {
+            actor: 'STRIPE',
+            stripeEventId: eventId,
+            note: `Dispute opened: ${dispute.reason}`
+        });
+        return `Order ${order.id} disputed (${dispute.reason})${recorded ? '' : ', already recorded'}.`;
+    }
+
+    // The signal mirrors the payment outcome so budgets and the dashboard stay truthful
+    private async syncSignal(order: NexusOrder): Promise<void> {
+        const signalStatus = order.status === 'PAID' ? 'EXECUTED' : order.status === 'PAYMENT_FAILED' ? 'FAILED' : null;
+        if (!signalStatus) return;
+
+        const { error } = await this.supabase
+            .from('nexus_signals')
+            .update({ status: signalStatus, ...(signalStatus === 'FAILED' ? { executionError: 'Payment failed' } : {}) })
+            .eq('id', order.signalId)
+            .eq('status', 'EXECUTING');
+        if (error) throw new Error(`Signal sync failed for ${order.signalId}: ${error.message}`);
+    }
+
+    // False when this Stripe event already has its row: a reprocessed webhook re-applies the (absolute) order
+    // fields but must not append the history twice
+    private async recordEvent(orderId: string, fromStatus: OrderStatus | null, toStatus: OrderStatus, options: TransitionOptions): Promise<boolean> {
+        const { error } = await this.supabase.from('nexus_order_events').insert({
+            orderId,
+            fromStatus,
+            toStatus,
+            actor: options.actor,
+            note: options.note ?? null,
+            stripeEventId: options.stripeEventId ?? null,
+            createdAt: new Date().toISOString()
+        });
+        if (error) {
+            if (error.code === '23505' && options.stripeEventId) return false;
+            throw new Error(`Order event insert failed: ${error.message}`);
+        }
+        return true;
+    }
+}
@@ -0,0 +1,194 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { costBasis, type InventoryItem } from './inventory-ledger';
+import { DEFAULT_BASE_CURRENCY } from './fx/rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: REALIZED P&L ANALYTICS
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Analytics offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export type AnalyticsPeriod = 'WEEK' | 'MONTH';
+
+export interface AnalyticsOptions {
+    from?: string;             // ISO date; defaults to 90 days ago
+    to?: string;               // ISO date; defaults to now
+    period?: AnalyticsPeriod;  // Bucket size for the time series
+}
+
+// One row of an estimated-vs-realized breakdown. Only sold items contribute to the profit figures.
+export interface PnlBucket {
+    key: string;
+    acquired: number;
+    sold: number;
+    expectedNet: number;       // What the engine predicted for the sold items
+    realizedNet: number;
+    profitErrorPct: number | null;
+    avgValueRatio: number | null;  // salePrice / estimatedValue; 1.0 means the valuation was spot on
+    avgDaysToSell: number | null;
+}
+
+export interface PnlReport {
+    from: string;
+    to: string;
+    period: AnalyticsPeriod;
+    currency: string;              // Inventory amounts are recorded in the base currency
+    summary: {
+        signalsFound: number;
+        signalsExecuted: number;
+        hitRate: number | null;        // executed / found
+        itemsSold: number;
+        expectedNet: number;
+        realizedNet: number;
+        profitErrorPct: number | null;
+        capitalTiedUp: number;         // Landed cost of executed items not yet sold or returned
+        unsoldItems: number;
+        avgDaysToSell: number | null;
+        conditionMatchRate: number | null; // Share of graded items whose actual condition matched the estimate
+    };
+    byBrand: PnlBucket[];
+    byCondition: PnlBucket[];      // Keyed by the estimated condition the valuation used
+    bySource: PnlBucket[];
+    byPeriod: PnlBucket[];         // Keyed by acquisition bucket start
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+const roundOrNull = (n: number | null, digits = 2) => n === null ? null : Math.round(n * 10 ** digits) / 10 ** digits;
+const errorPct = (realized: number, expected: number) => expected !== 0 ? round2(((realized - expected) / Math.abs(expected)) * 100) : null;
+
+// UTC start of the week (Monday) or month containing the date
+export const periodKey = (iso: string, period: AnalyticsPeriod): string => {
+    const d = new Date(iso);
+    if (period === 'MONTH') return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1)).toISOString().slice(0, 10);
+    const day = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    return day.toISOString().slice(0, 10);
+};
+
+const daysToSell = (item: InventoryItem) =>
+    item.soldAt ? (new Date(item.soldAt).getTime() - new Date(item.acquiredAt).getTime()) / DAY_MS : null;
+
+const isSold = (item: InventoryItem) => item.status === 'SOLD' && item.realizedNetProfit !== null;
+
+const bucketize = (items: InventoryItem[], keyOf: (item: InventoryItem) => string): PnlBucket[] => {
+    const groups = new Map<string, InventoryItem[]>();
+    for (const item of items) {
+        const key = keyOf(item);
+        groups.set(key, [...(groups.get(key) || []), item]);
+    }
+
+    return [...groups.entries()].map(([key, group]) => {
+        const sold = group.filter(isSold);
+        const expectedNet = round2(sold.reduce((sum, i) => sum + Number(i.expectedNetProfit), 0));
+        const realizedNet = round2(sold.reduce((sum, i) => sum + Number(i.realizedNetProfit), 0));
+        return {
+            key,
+            acquired: group.length,
+            sold: sold.length,
+            expectedNet,
+            realizedNet,
+            profitErrorPct: sold.length ? errorPct(realizedNet, expectedNet) : null,
+            avgValueRatio: roundOrNull(mean(sold.filter(i => Number(i.estimatedValue) > 0).map(i => Number(i.salePrice) / Number(i.estimatedValue))), 3),
+            avgDaysToSell: roundOrNull(mean(sold.map(daysToSell).filter((d): d is number => d !== null)), 1)
+        };
+    }).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// Pure aggregation over already-loaded inventory, so it can run against fixtures as well as the database
+export const buildPnlReport = (
+    items: InventoryItem[],
+    signals: { found: number; executed: number },
+    options: Required<AnalyticsOptions>
+): PnlReport => {
+    const sold = items.filter(isSold);
+    const open = items.filter(i => i.status !== 'SOLD' && i.status !== 'RETURNED');
+    const graded = items.filter(i => i.actualCondition !== null);
+    const expectedNet = round2(sold.reduce((sum, i) => sum + Number(i.expectedNetProfit), 0));
+    const realizedNet = round2(sold.reduce((sum, i) => sum + Number(i.realizedNetProfit), 0));
+
+    return {
+        from: options.from,
+        to: options.to,
+        period: options.period,
+        currency: items[0]?.currency || DEFAULT_BASE_CURRENCY,
+        summary: {
+            signalsFound: signals.found,
+            signalsExecuted: signals.executed,
+            hitRate: signals.found > 0 ? round2((signals.executed / signals.found) * 100) : null,
+            itemsSold: sold.length,
+            expectedNet,
+            realizedNet,
+            profitErrorPct: sold.length ? errorPct(realizedNet, expectedNet) : null,
+            capitalTiedUp: round2(open.reduce((sum, i) => sum + costBasis(i), 0)),
+            unsoldItems: open.length,
+            avgDaysToSell: roundOrNull(mean(sold.map(daysToSell).filter((d): d is number => d !== null)), 1),
+            conditionMatchRate: graded.length
+                ? round2((graded.filter(i => i.actualCondition === i.estimatedCondition).length / graded.length) * 100)
+                : null
+        },
+        byBrand: bucketize(items, i => i.brandCategory),
+        byCondition: bucketize(items, i => String(i.estimatedCondition)),
+        bySource: bucketize(items, i => i.source),
+        byPeriod: bucketize(items, i => periodKey(i.acquiredAt, options.period))
+    };
+};
+
+export class PnlAnalytics {
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    public async report(options: AnalyticsOptions = {}): Promise<PnlReport> {
+        const resolved: Required<AnalyticsOptions> = {
+            from: options.from || new Date(Date.now() - 90 * DAY_MS).toISOString(),
+            to: options.to || new Date().toISOString(),
+            period: options.period || 'WEEK'
+        };
+
+        const { data, error } = await this.supabase
+            .from('nexus_inventory')
+            .select('*')
+            .gte('acquiredAt', resolved.from)
+            .lte('acquiredAt', resolved.to);
+        if (error) throw new Error(`Inventory lookup failed: ${error.message}`);
+
+        // Capital tied up is a right-now figure, so it looks at every open item regardless of the window
+        const { data: openData, error: openError } = await this.supabase
+            .from('nexus_inventory')
+            .select('*')
+            .lt('acquiredAt', resolved.from)
+            .not('status', 'in', '("SOLD","RETURNED")');
+        if (openError) throw new Error(`Open inventory lookup failed: ${openError.message}`);
+
+        const found = await this.countSignals('firstSeenAt', resolved);
+        const executed = await this.countSignals('executedAt', resolved, 'EXECUTED');
+
+        const report = buildPnlReport((data || []) as InventoryItem[], { found, executed }, resolved);
+        const olderOpen = (openData || []) as InventoryItem[];
+        report.summary.capitalTiedUp = round2(report.summary.capitalTiedUp + olderOpen.reduce((sum, i) => sum + costBasis(i), 0));
+        report.summary.unsoldItems += olderOpen.length;
+        return report;
+    }
+
+    private async countSignals(column: 'firstSeenAt' | 'executedAt', range: Required<AnalyticsOptions>, status?: string): Promise<number> {
+        let query = this.supabase
+            .from('nexus_signals')
+            .select('id', { count: 'exact', head: true })
+            .gte(column, range.from)
+            .lte(column, range.to);
+        if (status) query = query.eq('status', status);
+
+        const { count, error } = await query;
+        if (error) throw new Error(`Signal count failed: ${error.message}`);
+        return count || 0;
+    }
+}
@@ -0,0 +1,137 @@
+import { DEFAULT_BASE_CURRENCY } from './fx/rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: NET PROFIT CALCULATOR
+// ==========================================
+
+// 1. FEE SCHEDULES (fixed amounts are in the base currency)
+// Buy side: what it costs to get the item to us from a given source
+export interface SourceFeeSchedule {
+    inboundShipping: number;   // Flat fallback when the listing doesn't quote shipping
+    salesTaxRate: number;      // Fraction of the purchase price
+}
+
+// Sell side: what the resale platform and logistics take from the sale price
+export interface ResaleChannelFees {
+    finalValueFeeRate: number;     // Fraction of the sale price
+    finalValueFeeFixed: number;    // Per-order fixed fee
+    paymentProcessingRate: number; // Fraction of the sale price (0 when bundled into the FVF)
+    paymentProcessingFixed: number;
+    outboundShipping: number;
+    authenticationCost: number;    // Third-party authentication for luxury goods
+}
+
+export const SOURCE_FEE_SCHEDULES: Record<string, SourceFeeSchedule> = {
+    default: { inboundShipping: 25, salesTaxRate: 0.08 },
+    ebay: { inboundShipping: 20, salesTaxRate: 0.08 }
+};
+
+export const RESALE_CHANNEL_FEES: Record<string, ResaleChannelFees> = {
+    ebay: {
+        finalValueFeeRate: 0.1325, finalValueFeeFixed: 0.40,
+        paymentProcessingRate: 0, paymentProcessingFixed: 0,
+        outboundShipping: 25, authenticationCost: 0 // Authenticity Guarantee is free to the seller
+    },
+    poshmark: {
+        finalValueFeeRate: 0.20, finalValueFeeFixed: 0,
+        paymentProcessingRate: 0, paymentProcessingFixed: 0,
+        outboundShipping: 0, authenticationCost: 0 // Prepaid label and Posh Authenticate covered by the fee
+    },
+    direct: {
+        finalValueFeeRate: 0, finalValueFeeFixed: 0,
+        paymentProcessingRate: 0.029, paymentProcessingFixed: 0.30,
+        outboundShipping: 30, authenticationCost: 65
+    }
+};
+
+export const DEFAULT_RESALE_CHANNEL = process.env.NEXUS_RESALE_CHANNEL || 'ebay';
+export const DEFAULT_MIN_ROI_PCT = Number(process.env.NEXUS_MIN_ROI_PCT) || 30;
+
+// 2. TYPES
+export interface CostBreakdown {
+    resaleChannel: string;
+    currency: string;          // Every amount below is in this (base) currency
+    purchasePrice: number;
+    inboundShipping: number;
+    salesTax: number;
+    acquisitionCost: number;   // What leaves our account to buy the item
+    resalePrice: number;
+    finalValueFee: number;
+    paymentProcessing: number;
+    outboundShipping: number;
+    authentication: number;
+    sellingCost: number;       // What the resale side deducts
+    netProfit: number;
+    roiPct: number;            // netProfit / acquisitionCost
+}
+
+// Prices and shipping must already be converted to the base currency
+export interface ProfitInput {
+    sourceId: string;
+    purchasePrice: number;
+    resalePrice: number;
+    quotedShipping?: number;       // Shipping quoted by the listing itself
+    requiresAuthentication?: boolean;
+    resaleChannel?: string;
+    currency?: string;             // Defaults to NEXUS_BASE_CURRENCY
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// 3. THE CALCULATOR
+export class ProfitCalculator {
+    private sources: Record<string, SourceFeeSchedule>;
+    private channels: Record<string, ResaleChannelFees>;
+
+    constructor(
+        sources: Record<string, SourceFeeSchedule> = {},
+        channels: Record<string, ResaleChannelFees> = {}
+    ) {
+        this.sources = { ...SOURCE_FEE_SCHEDULES, ...sources };
+        this.channels = { ...RESALE_CHANNEL_FEES, ...channels };
+    }
+
+    public calculate(input: ProfitInput): CostBreakdown {
+        const channelName = input.resaleChannel || DEFAULT_RESALE_CHANNEL;
+        const source = this.sources[input.sourceId] || this.sources.default;
+
+        const inboundShipping = input.quotedShipping ?? source.inboundShipping;
+        const salesTax = input.purchasePrice * source.salesTaxRate;
+        const acquisitionCost = input.purchasePrice + inboundShipping + salesTax;
+
+        const selling = this.sellingCosts(input.resalePrice, channelName, input.requiresAuthentication);
+        const netProfit = input.resalePrice - selling.sellingCost - acquisitionCost;
+
+        return {
+            resaleChannel: channelName,
+            currency: input.currency || DEFAULT_BASE_CURRENCY,
+            purchasePrice: round2(input.purchasePrice),
+            inboundShipping: round2(inboundShipping),
+            salesTax: round2(salesTax),
+            acquisitionCost: round2(acquisitionCost),
+            resalePrice: round2(input.resalePrice),
+            ...selling,
+            netProfit: round2(netProfit),
+            roiPct: acquisitionCost > 0 ? round2((netProfit / acquisitionCost) * 100) : 0
+        };
+    }
+
+    // Sell side only: what a channel deducts from a given sale price (also used for realized sales)
+    public sellingCosts(resalePrice: number, channelName: string, requiresAuthentication = false) {
+        const channel = this.channels[channelName];
+        if (!channel) throw new Error(`Unknown resale channel '${channelName}'.`);
+
+        const finalValueFee = resalePrice * channel.finalValueFeeRate + channel.finalValueFeeFixed;
+        const paymentProcessing = resalePrice * channel.paymentProcessingRate + channel.paymentProcessingFixed;
+        const authentication = requiresAuthentication ? channel.authenticationCost : 0;
+        const sellingCost = finalValueFee + paymentProcessing + channel.outboundShipping + authentication;
+
+        return {
+            finalValueFee: round2(finalValueFee),
+            paymentProcessing: round2(paymentProcessing),
+            outboundShipping: round2(channel.outboundShipping),
+            authentication: round2(authentication),
+            sellingCost: round2(sellingCost)
+        };
+    }
+}
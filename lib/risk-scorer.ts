@@ -0,0 +1,100 @@
+import type { RawListing } from './sources';
+import { normalizeText } from './brand-catalog';
+
+// ==========================================
+// VOIDLOGIC NEXUS: COUNTERFEIT RISK SCORER
+// ==========================================
+
+// Signals at or above this score are never executed
+export const MAX_EXECUTION_RISK = Number(process.env.NEXUS_MAX_RISK) || 0.6;
+
+// "mirror" alone is too common in genuine listings ("comes with mirror"); only the replica-trade phrases count
+const REPLICA_KEYWORDS = [
+    'replica', 'rep', 'reps', 'mirror quality', 'mirror image', 'mirror grade', 'mirror copy', '1:1', 'aaa', 'super fake', 'superfake',
+    'unbranded', 'dupe', 'inspired', 'not authentic', 'no guarantee', 'cannot guarantee', 'unauthenticated', 'unknown authenticity'
+];
+
+const PROOF_KEYWORDS = [
+    'receipt', 'date code', 'serial', 'certificate', 'coa', 'entrupy', 'authenticated by',
+    'authenticity card', 'real authentication', 'authenticity guarantee', 'microchip'
+];
+
+const HIGH_RISK_COUNTRIES = (process.env.NEXUS_RISK_COUNTRIES || 'CN,HK')
+    .split(',').map(c => c.trim().toUpperCase()).filter(Boolean);
+
+export interface RiskAssessment {
+    score: number;        // 0 (clean) .. 1 (almost certainly fake)
+    reasons: string[];
+}
+
+const hasPhrase = (text: string, phrase: string) => text.includes(normalizeText(phrase));
+
+export class RiskScorer {
+    // Weighs price, seller reputation, wording, location and proof of authenticity into one score
+    public assess(listing: RawListing, estimatedValue: number): RiskAssessment {
+        let score = 0;
+        const reasons: string[] = [];
+        const text = normalizeText(`${listing.title} ${listing.description || ''}`);
+
+        // 1. Too good to be true
+        if (estimatedValue > 0) {
+            const ratio = listing.price / estimatedValue;
+            if (ratio < 0.25) {
+                score += 0.35;
+                reasons.push(`Priced at ${Math.round(ratio * 100)}% of estimated value`);
+            } else if (ratio < 0.4) {
+                score += 0.2;
+                reasons.push(`Priced at ${Math.round(ratio * 100)}% of estimated value`);
+            }
+        }
+
+        // 2. Replica vocabulary
+        const replicaHits = REPLICA_KEYWORDS.filter(k => hasPhrase(text, k));
+        if (replicaHits.length > 0) {
+            score += 0.5;
+            reasons.push(`Replica keywords: ${replicaHits.join(', ')}`);
+        }
+
+        // 3. Seller reputation
+        const seller = listing.seller;
+        if (seller) {
+            if (seller.feedbackScore !== undefined && seller.feedbackScore < 10) {
+                score += 0.15;
+                reasons.push(`Seller feedback score ${seller.feedbackScore}`);
+            }
+            if (seller.feedbackPercentage !== undefined && seller.feedbackPercentage < 97) {
+                score += 0.1;
+                reasons.push(`Seller positive feedback ${seller.feedbackPercentage}%`);
+            }
+            if (seller.registeredAt) {
+                const ageDays = (Date.now() - new Date(seller.registeredAt).getTime()) / 86400000;
+                if (ageDays < 90) {
+                    score += 0.15;
+                    reasons.push(`Seller account ${Math.floor(ageDays)} days old`);
+                }
+            }
+        } else {
+            score += 0.05;
+            reasons.push('No seller reputation data');
+        }
+
+        // 4. Ships from a known counterfeit hub
+        const country = listing.location?.country?.toUpperCase();
+        if (country && HIGH_RISK_COUNTRIES.includes(country)) {
+            score += 0.15;
+            reasons.push(`Ships from ${country}`);
+        }
+
+        // 5. Proof of authenticity pulls the score back down
+        const proofHits = PROOF_KEYWORDS.filter(k => hasPhrase(text, k));
+        if (proofHits.length > 0) {
+            score -= 0.15;
+            reasons.push(`Authenticity proof mentioned: ${proofHits.join(', ')}`);
+        }
+
+        return {
+            score: Math.round(Math.min(1, Math.max(0, score)) * 100) / 100,
+            reasons
+        };
+    }
+}
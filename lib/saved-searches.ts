@@ -0,0 +1,86 @@
+import type { MarketSignal } from './nexus-engine';
+import type { SearchFilters } from './sources';
+import { normalizeText } from './brand-catalog';
+import { parseCron } from './cron';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SAVED SEARCHES & WATCHLISTS
+// ==========================================
+
+export interface SavedSearch {
+    id: string;
+    name: string;
+    keywords: string;              // Query handed to every adapter
+    brands: string[];              // Canonical brand names; empty = any catalog brand
+    categories: string[];          // Source category IDs (eBay category_ids); empty = adapter default
+    minPrice: number | null;       // Base currency
+    maxPrice: number | null;
+    minCondition: number;          // 1-5; listings graded below this are dropped
+    minRoiPct: number | null;      // Null = NEXUS_MIN_ROI_PCT
+    sources: string[];             // Adapter IDs; empty = every registered source
+    cron: string | null;           // Null = run on demand only
+    enabled: boolean;              // Paused searches never fire on schedule
+    lastRunAt: string | null;
+}
+
+export type SavedSearchInput = Omit<SavedSearch, 'id' | 'lastRunAt'>;
+
+const list = (v: unknown) => Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(s => s.trim()) : [];
+
+const optionalNumber = (value: unknown, field: string): number | null => {
+    if (value === undefined || value === null || value === '') return null;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 0) throw new Error(`${field} must be a non-negative number.`);
+    return n;
+};
+
+// Validates and fills a saved search from untrusted input (used by the CRUD routes)
+export const parseSavedSearch = (input: any): SavedSearchInput => {
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    if (!name) throw new Error('Search name is required.');
+    const keywords = typeof input?.keywords === 'string' ? input.keywords.trim() : '';
+    if (!keywords) throw new Error('Search keywords are required.');
+
+    const minPrice = optionalNumber(input?.minPrice, 'minPrice');
+    const maxPrice = optionalNumber(input?.maxPrice, 'maxPrice');
+    if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) throw new Error('minPrice must not exceed maxPrice.');
+
+    const minCondition = input?.minCondition === undefined || input?.minCondition === null ? 1 : Number(input.minCondition);
+    if (!Number.isInteger(minCondition) || minCondition < 1 || minCondition > 5) throw new Error('minCondition must be an integer from 1 to 5.');
+
+    const minRoiPct = input?.minRoiPct === undefined || input?.minRoiPct === null || input?.minRoiPct === '' ? null : Number(input.minRoiPct);
+    if (minRoiPct !== null && !Number.isFinite(minRoiPct)) throw new Error('minRoiPct must be a number.');
+
+    const cron = typeof input?.cron === 'string' && input.cron.trim() ? input.cron.trim() : null;
+    if (cron) parseCron(cron); // Throws on a malformed expression
+
+    return {
+        name,
+        keywords,
+        brands: list(input?.brands),
+        categories: list(input?.categories),
+        minPrice,
+        maxPrice,
+        minCondition,
+        minRoiPct,
+        sources: list(input?.sources),
+        cron,
+        enabled: input?.enabled !== false
+    };
+};
+
+// Translates a search into the filters adapters can push down to their own APIs
+export const searchFilters = (search: SavedSearch): SearchFilters => ({
+    categoryIds: search.categories.length ? search.categories : undefined,
+    priceMin: search.minPrice !== null ? Number(search.minPrice) : undefined,
+    priceMax: search.maxPrice !== null ? Number(search.maxPrice) : undefined
+});
+
+// Applies the search's own filters to an evaluated signal; sources may ignore pushed-down filters
+export const matchesSearch = (signal: MarketSignal, search: SavedSearch): boolean => {
+    if (search.brands.length && !search.brands.some(b => normalizeText(b) === normalizeText(signal.brandCategory))) return false;
+    const price = signal.projectedPriceBase ?? signal.listedPriceBase; // Auctions are judged at their projected close
+    if (search.minPrice !== null && price < Number(search.minPrice)) return false;
+    if (search.maxPrice !== null && price > Number(search.maxPrice)) return false;
+    return signal.conditionScore >= search.minCondition;
+};
@@ -0,0 +1,268 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createEmbeddingProvider, listingText, toVectorLiteral, type EmbeddingProvider, type ListingEmbedding } from './embeddings';
+import { normalizeText, DEFAULT_BRAND_CATALOG, type BrandCatalog, type BrandEntry } from './brand-catalog';
+import type { MarketSignal } from './nexus-engine';
+import type { SoldComp } from './valuation-engine';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SEMANTIC MATCHER (PGVECTOR)
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Semantic matcher offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const MAX_RESULTS = 50;
+const GROUP_CANDIDATES = 5;
+
+// Row shape returned by nexus_match_signals
+export interface SimilarSignal {
+    id: string;
+    source: string;
+    targetName: string;
+    brandCategory: string;
+    listedPrice: number;
+    currency: string;
+    conditionScore: number;
+    roiPct: number;
+    status: string;
+    url: string;
+    productGroupId: string | null;
+    similarity: number;
+}
+
+// Row shape returned by nexus_match_comps
+export interface SimilarComp {
+    id: string;
+    source: string;
+    brand: string;
+    title: string;
+    conditionScore: number;
+    soldPrice: number;
+    currency: string;
+    soldAt: string;
+    similarity: number;
+}
+
+export interface SimilarityQuery {
+    signalId?: string;
+    text?: string;
+    brand?: string;
+    limit?: number;
+}
+
+export interface SimilarityResult {
+    model: string;
+    anchor: { id: string; targetName: string; brandCategory: string; productGroupId: string | null } | null;
+    signals: SimilarSignal[];
+    comps: SimilarComp[];
+    group: SimilarSignal[];     // Same product on other listings, when the anchor belongs to a group
+}
+
+export interface ReindexReport {
+    model: string;
+    signals: number;
+    comps: number;
+    remaining: boolean;         // More rows still need vectors; call again
+}
+
+// The brand's name and aliases, which listingText strips before embedding
+export const brandTerms = (brand: BrandEntry | string, catalog?: BrandCatalog): string[] => {
+    if (typeof brand !== 'string') return [brand.name, ...brand.aliases];
+    const entry = (catalog?.list() ?? DEFAULT_BRAND_CATALOG).find(b => normalizeText(b.name) === normalizeText(brand));
+    return entry ? [entry.name, ...entry.aliases] : [brand];
+};
+
+// Embeds one listing for the engine. Returns null instead of throwing so a provider outage only
+// costs the sweep its semantic comp matching, not its signals.
+export const embedListing = async (
+    provider: EmbeddingProvider,
+    listing: { title: string; description?: string },
+    brand: BrandEntry
+): Promise<ListingEmbedding | null> => {
+    try {
+        const [vector] = await provider.embed([listingText(listing.title, listing.description, brandTerms(brand))]);
+        return { model: provider.id, vector };
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[NEXUS] Embedding failed for '${listing.title}': ${errorMsg}`);
+        return null;
+    }
+};
+
+// Fills in vectors for comps that have none from this provider (ingestion and the backtest harness)
+export const embedComps = async (comps: SoldComp[], provider: EmbeddingProvider, catalog?: BrandCatalog): Promise<SoldComp[]> => {
+    const stale = comps.filter(c => !c.embedding || c.embeddingModel !== provider.id);
+    if (stale.length === 0) return comps;
+
+    const vectors = await provider.embed(stale.map(c => listingText(c.title, null, brandTerms(c.brand, catalog))));
+    const embedded = new Map(stale.map((c, i) => [c.id, vectors[i]]));
+    return comps.map(c => embedded.has(c.id) ? { ...c, embedding: embedded.get(c.id), embeddingModel: provider.id } : c);
+};
+
+export class SemanticMatcher {
+    constructor(
+        private supabase: SupabaseClient = getSupabase(),
+        private provider: EmbeddingProvider = createEmbeddingProvider()
+    ) {}
+
+    // 1. MORE LIKE THIS: neighbours of a stored signal, or of free text
+    public async findSimilar(query: SimilarityQuery): Promise<SimilarityResult | null> {
+        const limit = Math.min(Math.max(query.limit ?? 20, 1), MAX_RESULTS);
+        let anchor: SimilarityResult['anchor'] = null;
+        let vector: string;
+        let brand = query.brand || null;
+
+        if (query.signalId) {
+            const { data, error } = await this.supabase
+                .from('nexus_signals')
+                .select('id, targetName, brandCategory, productGroupId, embedding, embeddingModel')
+                .eq('id', query.signalId)
+                .maybeSingle();
+            if (error) throw new Error(`Signal lookup failed: ${error.message}`);
+            if (!data) return null;
+            anchor = { id: data.id, targetName: data.targetName, brandCategory: data.brandCategory, productGroupId: data.productGroupId };
+            brand = brand || data.brandCategory;
+
+            // Not indexed yet, or indexed by a different provider: embed the title now
+            vector = data.embedding && data.embeddingModel === this.provider.id
+                ? String(data.embedding)
+                : toVectorLiteral((await this.provider.embed([listingText(data.targetName, null, brandTerms(data.brandCategory))]))[0]);
+        } else {
+            const text = (query.text || '').trim();
+            if (!text) throw new Error('A signalId or search text is required.');
+            vector = toVectorLiteral((await this.provider.embed([listingText(text, null, brand ? brandTerms(brand) : [])]))[0]);
+        }
+
+        // A few typed words share less with a full title than two titles do, so text search ranks on a looser floor
+        const floor = anchor ? this.provider.relatedSimilarity : this.provider.relatedSimilarity / 2;
+        const [signals, comps, group] = await Promise.all([
+            this.matchSignals(vector, brand, floor, limit, anchor?.id ?? null),
+            this.matchComps(vector, brand, floor, limit),
+            anchor?.productGroupId ? this.groupMembers(anchor.productGroupId, anchor.id) : Promise.resolve([])
+        ]);
+        return { model: this.provider.id, anchor, signals, comps, group };
+    }
+
+    // 2. GROUPING: a new signal joins the group of its closest same-brand neighbour above the
+    //    duplicate threshold, so one bag cross-posted to several sources shows up as one product.
+    public async groupSignals(signals: MarketSignal[]): Promise<number> {
+        let grouped = 0;
+        for (const signal of signals) {
+            if (!signal.embedding || signal.embeddingModel !== this.provider.id) continue;
+
+            const neighbours = await this.matchSignals(toVectorLiteral(signal.embedding), signal.brandCategory, this.provider.duplicateSimilarity, GROUP_CANDIDATES, signal.id);
+            const best = neighbours[0];
+            if (!best) continue;
+
+            const groupId = best.productGroupId || signal.productGroupId || best.id;
+            if (!best.productGroupId) {
+                await this.supabase.from('nexus_signals').update({ productGroupId: groupId }).eq('id', best.id);
+            }
+            if (signal.productGroupId !== groupId) {
+                const { error } = await this.supabase.from('nexus_signals').update({ productGroupId: groupId }).eq('id', signal.id);
+                if (error) throw new Error(`Grouping failed for ${signal.id}: ${error.message}`);
+                signal.productGroupId = groupId;
+                grouped++;
+            }
+        }
+
+        if (grouped > 0) {
+            await this.supabase.from('nexus_logs').insert({
+                level: 'INFO',
+                message: `Semantic matcher: ${grouped} signal(s) grouped with the same product on other listings.`,
+                timestamp: new Date().toISOString()
+            });
+        }
+        return grouped;
+    }
+
+    // 3. REINDEX: embeds rows with no vector, or one from another provider. Runs in batches.
+    public async reindex(batchSize = 200, catalog?: BrandCatalog): Promise<ReindexReport> {
+        const model = this.provider.id;
+        const stale = `embeddingModel.is.null,embeddingModel.neq."${model}"`; // Quoted: model ids contain ':'
+
+        const { data: signals, error: signalError } = await this.supabase
+            .from('nexus_signals')
+            .select('id, targetName, brandCategory')
+            .or(stale)
+            .limit(batchSize);
+        if (signalError) throw new Error(`Signal reindex lookup failed: ${signalError.message}`);
+
+        const { data: comps, error: compError } = await this.supabase
+            .from('nexus_comps')
+            .select('id, brand, title')
+            .or(stale)
+            .limit(batchSize);
+        if (compError) throw new Error(`Comp reindex lookup failed: ${compError.message}`);
+
+        // Signals keep only their title, so that is all a reindex can embed
+        const signalVectors = await this.provider.embed((signals || []).map(s => listingText(s.targetName, null, brandTerms(s.brandCategory, catalog))));
+        for (const [i, s] of (signals || []).entries()) {
+            const { error } = await this.supabase.from('nexus_signals').update({ embedding: signalVectors[i], embeddingModel: model }).eq('id', s.id);
+            if (error) throw new Error(`Signal reindex failed for ${s.id}: ${error.message}`);
+        }
+
+        const compVectors = await this.provider.embed((comps || []).map(c => listingText(c.title, null, brandTerms(c.brand, catalog))));
+        for (const [i, c] of (comps || []).entries()) {
+            const { error } = await this.supabase.from('nexus_comps').update({ embedding: compVectors[i], embeddingModel: model }).eq('id', c.id);
+            if (error) throw new Error(`Comp reindex failed for ${c.id}: ${error.message}`);
+        }
+
+        const report: ReindexReport = {
+            model,
+            signals: signals?.length || 0,
+            comps: comps?.length || 0,
+            remaining: (signals?.length || 0) === batchSize || (comps?.length || 0) === batchSize
+        };
+        await this.supabase.from('nexus_logs').insert({
+            level: 'INFO',
+            message: `Embedding reindex (${model}): ${report.signals} signals, ${report.comps} comps${report.remaining ? '; more remain' : ''}.`,
+            timestamp: new Date().toISOString()
+        });
+        return report;
+    }
+
+    private async matchSignals(vector: string, brand: string | null, minSimilarity: number, limit: number, excludeId: string | null): Promise<SimilarSignal[]> {
+        const { data, error } = await this.supabase.rpc('nexus_match_signals', {
+            query_embedding: vector,
+            match_model: this.provider.id,
+            match_brand: brand,
+            min_similarity: minSimilarity,
+            match_count: limit,
+            exclude_id: excludeId
+        });
+        if (error) throw new Error(`Signal similarity search failed: ${error.message}`);
+        return (data || []) as SimilarSignal[];
+    }
+
+    private async matchComps(vector: string, brand: string | null, minSimilarity: number, limit: number): Promise<SimilarComp[]> {
+        const { data, error } = await this.supabase.rpc('nexus_match_comps', {
+            query_embedding: vector,
+            match_model: this.provider.id,
+            match_brand: brand,
+            min_similarity: minSimilarity,
+            match_count: limit
+        });
+        if (error) throw new Error(`Comp similarity search failed: ${error.message}`);
+        return (data || []) as SimilarComp[];
+    }
+
+    private async groupMembers(groupId: string, excludeId: string): Promise<SimilarSignal[]> {
+        const { data, error } = await this.supabase
+            .from('nexus_signals')
+            .select('id, source, targetName, brandCategory, listedPrice, currency, conditionScore, roiPct, status, url, productGroupId')
+            .eq('productGroupId', groupId)
+            .neq('id', excludeId)
+            .order('listedPrice', { ascending: true })
+            .limit(MAX_RESULTS);
+        if (error) throw new Error(`Product group lookup failed: ${error.message}`);
+        return (data || []).map(s => ({ ...s, similarity: 1 })) as SimilarSignal[];
+    }
+}
@@ -0,0 +1,239 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import Stripe from 'stripe';
+import { ExecutionGuard, type GuardrailRejection } from './execution-guard';
+import { OrderLifecycle } from './order-lifecycle';
+import { AuditLog, type AuditActor } from './audit-log';
+import { ApprovalQueue, approvalTriggers, type ApprovalTrigger } from './approval-queue';
+import { DEFAULT_BASE_CURRENCY, toMinorUnits } from './fx/rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SIGNAL EXECUTOR (STRIPE)
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Executor offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+export interface ExecutionRequest {
+    signalId: string;
+    price?: number;          // Only used to detect a stale client view; the stored price is what gets charged
+    idempotencyKey: string;
+    actor: AuditActor;
+    ip?: string | null;
+    approvalId?: string;     // Set only by the approval route, once an approver has confirmed this purchase
+}
+
+export type ExecutionResult =
+    | { outcome: 'SUCCESS'; transactionId: string; orderId?: string; amount: number; replayed?: boolean }
+    | { outcome: 'PAYMENT_PENDING'; transactionId: string; orderId: string; amount: number }
+    | { outcome: 'APPROVAL_REQUIRED'; approvalId: string; expiresAt: string; triggers: ApprovalTrigger[] }
+    | { outcome: 'NOT_FOUND' }
+    | { outcome: 'IN_PROGRESS' }
+    | { outcome: 'NOT_PENDING'; status: string }
+    | { outcome: 'PRICE_CHANGED'; listedPrice: number }
+    | { outcome: 'REJECTED'; reason: GuardrailRejection }
+    | { outcome: 'KEY_REUSED' }
+    | { outcome: 'FAILED'; error: string };
+
+// Shared by /api/nexus/execute and the God Mode autopilot, so both pass the same guardrails and claim
+export class SignalExecutor {
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    public async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+        const { signalId, price, idempotencyKey, actor } = request;
+        const ip = request.ip ?? null;
+        const audit = new AuditLog(this.supabase);
+        let claimedId: string | null = null;
+        let chargedTx: string | null = null;
+
+        try {
+            // 1. Load the signal: the database, not the caller, decides what gets charged
+            const { data: signal, error: signalError } = await this.supabase
+                .from('nexus_signals')
+                .select('id, brandCategory, conditionScore, listedPrice, currency, listedPriceBase, baseCurrency, listingType, roiPct, riskScore, status, executionKey, transactionId, executedAmount')
+                .eq('id', signalId)
+                .maybeSingle();
+            if (signalError) throw new Error(`Signal lookup failed: ${signalError.message}`);
+            if (!signal) return { outcome: 'NOT_FOUND' };
+
+            // A retry of an attempt that already went through gets the original result back
+            if (signal.executionKey === idempotencyKey) {
+                if (signal.status === 'EXECUTED') {
+                    return { outcome: 'SUCCESS', transactionId: signal.transactionId, amount: Number(signal.executedAmount), replayed: true };
+                }
+                if (signal.status === 'EXECUTING') return { outcome: 'IN_PROGRESS' };
+            }
+            if (signal.status !== 'PENDING') return { outcome: 'NOT_PENDING', status: signal.status };
+
+            const amount = Number(signal.listedPrice);
+            if (price !== undefined && Number(price) !== amount) return { outcome: 'PRICE_CHANGED', listedPrice: amount };
+
+            // The charge is in the listing's currency; caps, budgets and approval thresholds are in the base currency
+            const currency = signal.currency || DEFAULT_BASE_CURRENCY;
+            const amountBase = signal.listedPriceBase != null ? Number(signal.listedPriceBase) : amount;
+            const baseCurrency = signal.baseCurrency || DEFAULT_BASE_CURRENCY;
+
+            // 2. Guardrails: kill switch, auctions, counterfeit risk, per-item cap, margin floor, brand limits, budgets
+            const guard = new ExecutionGuard(this.supabase);
+            const candidate = {
+                id: signal.id,
+                brandCategory: signal.brandCategory,
+                amount: amountBase,
+                roiPct: Number(signal.roiPct),
+                riskScore: Number(signal.riskScore),
+                listingType: signal.listingType
+            };
+            const reject = async (rejection: GuardrailRejection): Promise<ExecutionResult> => {
+                await this.supabase.from('nexus_logs').insert({
+                    level: 'WARN',
+                    message: `Execution rejected for ${signalId}: [${rejection.code}] ${rejection.message}`,
+                    timestamp: new Date().toISOString()
+                });
+                await audit.record({
+                    actor,
+                    action: 'execution.reject',
+                    entityType: 'signal',
+                    entityId: signalId,
+                    before: { status: signal.status, listedPrice: amount, currency, listedPriceBase: amountBase },
+                    after: { reason: rejection },
+                    ip
+                });
+                return { outcome: 'REJECTED', reason: rejection };
+            };
+            const rejection = await guard.check(candidate);
+            if (rejection) return reject(rejection);
+
+            // 3. Approval: expensive or rough items wait for a human instead of being charged now
+            if (!request.approvalId) {
+                const controls = await guard.getControls();
+                const triggers = approvalTriggers({ amount: amountBase, conditionScore: Number(signal.conditionScore) }, controls);
+                if (triggers.length > 0) {
+                    const approval = await new ApprovalQueue(this.supabase).request({ signalId, amount, currency, amountBase, baseCurrency, triggers, idempotencyKey, actor, ip }, controls.approvalExpiryMinutes);
+                    return { outcome: 'APPROVAL_REQUIRED', approvalId: approval.id, expiresAt: approval.expiresAt, triggers: approval.triggers };
+                }
+            }
+
+            // 4. Claim: budgets are re-checked and PENDING -> EXECUTING applied in one locked transaction,
+            // so only one caller can win and concurrent buys cannot overspend between check and claim
+            const claim = await guard.claim(candidate, { idempotencyKey, chargedAmount: amount });
+            if (claim.outcome === 'KEY_REUSED') return { outcome: 'KEY_REUSED' };
+            if (claim.outcome === 'NOT_PENDING') return { outcome: 'IN_PROGRESS' };
+            if (claim.outcome === 'REJECTED') return reject(claim.reason);
+            claimedId = signalId;
+
+            // 5. Initialize Stripe
+            const stripeKey = process.env.STRIPE_SECRET_KEY || 'sk_test_dummy';
+            const stripe = new Stripe(stripeKey, { apiVersion: '2026-02-25.clover' });
+
+            // 6. Execute Payment (Simulated for autonomous bot)
+            // In a real autonomous system, you might use Stripe Issuing to generate a virtual card
+            // or process a direct payment intent if you are the merchant.
+            // Here we simulate a successful headless checkout.
+
+            let transactionId = `sim_tx_${Date.now()}`;
+            let paymentStatus: Stripe.PaymentIntent.Status = 'succeeded';
+
+            if (stripeKey !== 'sk_test_dummy') {
+                const paymentIntent = await stripe.paymentIntents.create({
+                    amount: toMinorUnits(amount, currency), // Cents, or whole units for JPY and other zero-decimal currencies
+                    currency: currency.toLowerCase(),
+                    payment_method: 'pm_card_visa', // Dummy test card
+                    confirm: true,
+                    automatic_payment_methods: { enabled: true, allow_redirects: 'never' },
+                    metadata: { signalId }
+                }, { idempotencyKey });
+                transactionId = paymentIntent.id;
+                paymentStatus = paymentIntent.status;
+
+                if (paymentStatus !== 'succeeded' && paymentStatus !== 'processing' && paymentStatus !== 'requires_action') {
+                    throw new Error(`Payment ${paymentIntent.id} ended in status ${paymentStatus}`);
+                }
+            } else {
+                // Simulate network delay for dummy key
+                await new Promise(res => setTimeout(res, 1500));
+            }
+
+            // The card is charged: from here on a failure must not release the claim. The signal stays
+            // EXECUTING (still counted by every budget) until the webhook settles it or someone reconciles it.
+            chargedTx = transactionId;
+            claimedId = null;
+
+            // 7. Open the order. Settled payments move it to PAID (and the signal to EXECUTED) now;
+            // anything still in flight is settled by the Stripe webhook.
+            await this.supabase.from('nexus_signals').update({ transactionId }).eq('id', signalId);
+
+            const lifecycle = new OrderLifecycle(this.supabase);
+            let order = await lifecycle.findByPaymentIntent(transactionId)
+                ?? await lifecycle.createOrder({ signalId, paymentIntentId: transactionId, amount, currency, amountBase, baseCurrency });
+
+            await audit.record({
+                actor,
+                action: 'execution.charge',
+                entityType: 'signal',
+                entityId: signalId,
+                before: { status: 'PENDING', listedPrice: amount },
+                after: { status: paymentStatus === 'succeeded' ? 'EXECUTED' : 'EXECUTING', paymentStatus, transactionId, orderId: order.id, amount, currency, amountBase, baseCurrency, idempotencyKey },
+                ip
+            });
+
+            if (paymentStatus !== 'succeeded') {
+                await this.supabase.from('nexus_logs').insert({
+                    level: 'WARN',
+                    message: `Payment ${transactionId} for ${signalId} is ${paymentStatus}. Awaiting Stripe webhook.`,
+                    timestamp: new Date().toISOString()
+                });
+                return { outcome: 'PAYMENT_PENDING', transactionId, orderId: order.id, amount };
+            }
+
+            order = await lifecycle.transition(order, 'PAID', { actor: 'EXECUTION' }) ?? order;
+            await this.supabase.from('nexus_logs').insert({
+                level: 'INFO',
+                message: `Target Executed: ${signalId} by ${actor.type === 'GOD_MODE' ? `God Mode (${actor.id})` : actor.id}. Transaction ID: ${transactionId}`,
+                timestamp: new Date().toISOString()
+            });
+            return { outcome: 'SUCCESS', transactionId, orderId: order.id, amount };
+
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+
+            if (chargedTx) {
+                await this.supabase.from('nexus_logs').insert({
+                    level: 'CRITICAL',
+                    message: `Payment ${chargedTx} for ${signalId} went through but recording it failed: ${errorMsg}. Signal left EXECUTING for reconciliation.`,
+                    timestamp: new Date().toISOString()
+                });
+                return { outcome: 'FAILED', error: `Charged as ${chargedTx}, but recording the purchase failed: ${errorMsg}` };
+            }
+
+            // Only the caller that moved the signal to EXECUTING may move it to FAILED
+            if (claimedId) {
+                await this.supabase.from('nexus_signals').update({
+                    status: 'FAILED',
+                    executionError: errorMsg
+                }).eq('id', claimedId).eq('status', 'EXECUTING');
+                await audit.record({
+                    actor,
+                    action: 'execution.charge',
+                    entityType: 'signal',
+                    entityId: claimedId,
+                    before: { status: 'PENDING' },
+                    after: { status: 'FAILED', error: errorMsg },
+                    ip
+                });
+            }
+
+            await this.supabase.from('nexus_logs').insert({
+                level: 'ERROR',
+                message: `Execution Failed: ${errorMsg}`,
+                timestamp: new Date().toISOString()
+            });
+            return { outcome: 'FAILED', error: errorMsg };
+        }
+    }
+}
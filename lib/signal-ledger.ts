@@ -0,0 +1,214 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { MarketSignal } from './nexus-engine';
+import { toBaseAmount } from './fx/rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SIGNAL LEDGER & PRICE HISTORY
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Signal ledger offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+// A PENDING listing must go unseen this long before we call it gone (paging caps, flaky sources)
+const ENDED_GRACE_MS = (Number(process.env.NEXUS_ENDED_GRACE_HOURS) || 24) * 3600 * 1000;
+const ID_CHUNK = 500;
+
+// Auctions log a BID on every sighting, moved or not, so closing prices can be projected from the history
+export type PriceEvent = 'FIRST_SEEN' | 'PRICE_DROP' | 'PRICE_RISE' | 'RELISTED' | 'BID';
+export type VanishedStatus = 'ENDED' | 'SOLD';
+
+// Every listing a source returned this sweep, qualifying or not
+export interface ObservedListing {
+    id: string;        // MarketSignal.id
+    price: number;
+    currency: string;
+    listingType: MarketSignal['listingType'];
+    bidCount?: number;
+    endsAt?: string;
+    judged: boolean;   // Evaluated under the default rules; a saved search's own filters do not count
+}
+
+interface HistoryEntry {
+    signalId: string;
+    price: number;
+    currency: string;
+    event: PriceEvent;
+    bidCount?: number | null;
+    observedAt: string;
+}
+
+export interface LedgerSummary {
+    inserted: number;
+    updated: number;
+    priceChanges: number;
+    relisted: number;
+    disqualified: number;   // PENDING listings moved to NOT_QUALIFIED after their price changed
+}
+
+// A row being charged or already bought keeps the price it was charged at; only its sighting is refreshed
+const CHARGED_STATUSES: MarketSignal['status'][] = ['EXECUTING', 'EXECUTED'];
+
+interface ExistingRow {
+    id: string;
+    status: MarketSignal['status'];
+    listedPrice: number;
+    fxRate: number | null;
+    firstPrice: number;
+    relistCount: number;
+}
+
+const dropPct = (firstPrice: number, price: number) =>
+    firstPrice > 0 ? Math.round(((firstPrice - price) / firstPrice) * 10000) / 100 : 0;
+
+export class SignalLedger {
+    constructor(private supabase: SupabaseClient = getSupabase()) {}
+
+    // Upserts this sweep's signals and records first-seen, price moves and relists per listing
+    public async record(signals: MarketSignal[], observed: ObservedListing[]): Promise<LedgerSummary> {
+        const now = new Date().toISOString();
+        const summary: LedgerSummary = { inserted: 0, updated: 0, priceChanges: 0, relisted: 0, disqualified: 0 };
+        const existing = await this.loadExisting(observed.map(o => o.id));
+        const history: HistoryEntry[] = [];
+        const qualifying = new Set(signals.map(s => s.id));
+
+        // 1. Qualifying signals: insert new ones, refresh market data on known ones without touching status
+        const inserts: MarketSignal[] = [];
+        for (const signal of signals) {
+            const prior = existing.get(signal.id);
+            if (!prior) {
+                inserts.push({ ...signal, firstSeenAt: now, lastSeenAt: now, firstPrice: signal.listedPrice, priceDropPct: 0, relistCount: 0 });
+                history.push({ signalId: signal.id, price: signal.listedPrice, currency: signal.currency, event: 'FIRST_SEEN', bidCount: signal.bidCount, observedAt: now });
+                continue;
+            }
+
+            const relisted = prior.status === 'ENDED' || prior.status === 'SOLD';
+            const requalified = prior.status === 'NOT_QUALIFIED';
+            const id = signal.id;
+            const marketFields: Partial<MarketSignal> = { ...signal };
+            delete marketFields.id;
+            delete marketFields.status;     // Status belongs to the operator, not the sweep
+            delete marketFields.timestamp;
+            if (CHARGED_STATUSES.includes(prior.status)) {
+                delete marketFields.listedPrice;
+                delete marketFields.listedPriceBase;
+            }
+
+            const { error } = await this.supabase.from('nexus_signals').update({
+                ...marketFields,
+                lastSeenAt: now,
+                priceDropPct: dropPct(prior.firstPrice, signal.listedPrice),
+                ...(relisted ? { status: 'PENDING', relistCount: prior.relistCount + 1 } : requalified ? { status: 'PENDING' } : {})
+            }).eq('id', id);
+            if (error) throw new Error(`Signal update failed for ${id}: ${error.message}`);
+
+            summary.updated++;
+            if (relisted) {
+                summary.relisted++;
+                history.push({ signalId: id, price: signal.listedPrice, currency: signal.currency, event: 'RELISTED', bidCount: signal.bidCount, observedAt: now });
+            } else if (signal.listingType === 'AUCTION') {
+                if (signal.listedPrice !== Number(prior.listedPrice)) summary.priceChanges++;
+                history.push({ signalId: id, price: signal.listedPrice, currency: signal.currency, event: 'BID', bidCount: signal.bidCount, observedAt: now });
+            } else if (signal.listedPrice !== Number(prior.listedPrice)) {
+                summary.priceChanges++;
+                history.push({ signalId: id, price: signal.listedPrice, currency: signal.currency, event: signal.listedPrice < Number(prior.listedPrice) ? 'PRICE_DROP' : 'PRICE_RISE', observedAt: now });
+            }
+        }
+
+        if (inserts.length > 0) {
+            const { error } = await this.supabase.from('nexus_signals').upsert(inserts, { onConflict: 'id', ignoreDuplicates: true });
+            if (error) throw new Error(`Supabase Insert Failed: ${error.message}`);
+            summary.inserted = inserts.length;
+        }
+
+        // 2. Known listings that did not come back as signals still get their sighting and price tracked. One that
+        //    failed the default rules at a new price can no longer be bought at its stored margins. One that was
+        //    only filtered out by a saved search (or never judged) just gets the price refresh.
+        for (const listing of observed) {
+            const prior = existing.get(listing.id);
+            if (!prior || qualifying.has(listing.id)) continue;
+
+            const moved = listing.price !== Number(prior.listedPrice);
+            const charged = CHARGED_STATUSES.includes(prior.status);
+            const { error } = await this.supabase.from('nexus_signals').update({
+                ...(charged ? {} : {
+                    listedPrice: listing.price,
+                    listedPriceBase: toBaseAmount(listing.price, prior.fxRate) // At the rate it was valued at
+                }),
+                lastSeenAt: now,
+                priceDropPct: dropPct(prior.firstPrice, listing.price),
+                ...(listing.listingType === 'AUCTION' ? { bidCount: listing.bidCount ?? 0, endsAt: listing.endsAt ?? null } : {})
+            }).eq('id', listing.id);
+            if (error) throw new Error(`Signal update failed for ${listing.id}: ${error.message}`);
+
+            if (moved && listing.judged && prior.status === 'PENDING') {
+                // Conditional, so a signal someone claimed mid-sweep keeps its status
+                const { error: statusError } = await this.supabase.from('nexus_signals')
+                    .update({ status: 'NOT_QUALIFIED' })
+                    .eq('id', listing.id)
+                    .eq('status', 'PENDING');
+                if (statusError) throw new Error(`Failed to mark ${listing.id} NOT_QUALIFIED: ${statusError.message}`);
+                summary.disqualified++;
+            }
+
+            if (listing.listingType === 'AUCTION') {
+                if (moved) summary.priceChanges++;
+                history.push({ signalId: listing.id, price: listing.price, currency: listing.currency, event: 'BID', bidCount: listing.bidCount ?? 0, observedAt: now });
+            } else if (moved) {
+                summary.priceChanges++;
+                history.push({ signalId: listing.id, price: listing.price, currency: listing.currency, event: listing.price < Number(prior.listedPrice) ? 'PRICE_DROP' : 'PRICE_RISE', observedAt: now });
+            }
+        }
+
+        if (history.length > 0) {
+            const { error } = await this.supabase.from('nexus_price_history').insert(history);
+            if (error) throw new Error(`Price history insert failed: ${error.message}`);
+        }
+
+        return summary;
+    }
+
+    // PENDING listings from the given sources that have not been seen for the grace period
+    public async findVanished(sources: string[]): Promise<string[]> {
+        if (sources.length === 0) return [];
+        const cutoff = new Date(Date.now() - ENDED_GRACE_MS).toISOString();
+        const { data, error } = await this.supabase
+            .from('nexus_signals')
+            .select('id')
+            .in('source', sources)
+            .eq('status', 'PENDING')
+            .lt('lastSeenAt', cutoff);
+
+        if (error) throw new Error(`Vanished lookup failed: ${error.message}`);
+        return (data || []).map(row => row.id as string);
+    }
+
+    public async markVanished(id: string, status: VanishedStatus): Promise<void> {
+        const { error } = await this.supabase
+            .from('nexus_signals')
+            .update({ status })
+            .eq('id', id)
+            .eq('status', 'PENDING'); // Never clobber a signal someone acted on mid-sweep
+        if (error) throw new Error(`Failed to mark ${id} ${status}: ${error.message}`);
+    }
+
+    private async loadExisting(ids: string[]): Promise<Map<string, ExistingRow>> {
+        const rows = new Map<string, ExistingRow>();
+        for (let i = 0; i < ids.length; i += ID_CHUNK) {
+            const chunk = ids.slice(i, i + ID_CHUNK);
+            const { data, error } = await this.supabase
+                .from('nexus_signals')
+                .select('id, status, listedPrice, fxRate, firstPrice, relistCount')
+                .in('id', chunk);
+            if (error) throw new Error(`Signal lookup failed: ${error.message}`);
+            for (const row of data || []) rows.set(row.id, row as ExistingRow);
+        }
+        return rows;
+    }
+}
@@ -0,0 +1,97 @@
+import type { AxiosRequestConfig } from 'axios';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SOURCE ADAPTER CONTRACT
+// ==========================================
+
+export type ConditionScore = 1 | 2 | 3 | 4 | 5;
+
+// FIXED_PRICE can be bought now at `price`; an AUCTION's `price` is only the current bid
+export type ListingType = 'FIXED_PRICE' | 'AUCTION';
+
+export interface ListingSeller {
+    username: string;
+    feedbackScore?: number;
+    feedbackPercentage?: number;
+    registeredAt?: string;   // ISO date the seller account was created, when the source exposes it
+}
+
+export interface ListingLocation {
+    country?: string;        // ISO 3166-1 alpha-2
+    postalCode?: string;
+}
+
+// Common shape every marketplace listing is normalized into before the engine sees it
+export interface RawListing {
+    externalId: string;   // The marketplace's own listing ID
+    title: string;
+    description?: string;
+    price: number;        // Asking price, or the current bid for auctions
+    currency: string;
+    listingType?: ListingType; // Defaults to FIXED_PRICE
+    bidCount?: number;    // Auctions only
+    endsAt?: string;      // ISO time the auction closes
+    shippingCost?: number; // Buy-side shipping quoted by the listing, when known, in `currency`
+    condition: string;    // Raw condition text as reported by the source
+    conditionScore?: ConditionScore; // Set when the source provides a structured condition code
+    url: string;
+    imageUrl?: string;
+    seller?: ListingSeller;
+    location?: ListingLocation;
+}
+
+// Narrowing a saved search asks for. Adapters apply what their API supports; the Hunter re-checks the rest.
+export interface SearchFilters {
+    categoryIds?: string[];
+    priceMin?: number;    // Base currency
+    priceMax?: number;
+}
+
+// Transport handed to adapters by the Hunter (proxy routing, retries, WAF fallback)
+export interface SourceFetchContext {
+    fetchJson: (url: string, config?: AxiosRequestConfig) => Promise<any>;
+    query?: string; // Overrides the adapter's default search query for this sweep
+    filters?: SearchFilters; // Overrides the adapter's default category and price filters
+    baseCurrency?: string;   // The sweep's base currency, which filters.priceMin/priceMax are in
+}
+
+export interface SourceAdapter<TRaw = any> {
+    id: string;        // Stable key used to enable a source for a sweep (e.g. 'ebay')
+    label: string;     // Stored on MarketSignal.source (e.g. 'eBay')
+    idPrefix: string;  // Prefix for MarketSignal.id (e.g. 'EBAY')
+    fetchListings(ctx: SourceFetchContext): Promise<TRaw[]>;
+    normalize(raw: TRaw): RawListing | null;
+    // Optional: tells a sold listing apart from one the seller simply pulled
+    lookupStatus?(externalId: string, ctx: SourceFetchContext): Promise<'ACTIVE' | 'ENDED' | 'SOLD'>;
+}
+
+export class SourceRegistry {
+    private adapters = new Map<string, SourceAdapter>();
+
+    public register(adapter: SourceAdapter): this {
+        if (this.adapters.has(adapter.id)) {
+            throw new Error(`Source adapter '${adapter.id}' is already registered.`);
+        }
+        this.adapters.set(adapter.id, adapter);
+        return this;
+    }
+
+    public get(id: string): SourceAdapter | undefined {
+        return this.adapters.get(id);
+    }
+
+    public list(): SourceAdapter[] {
+        return Array.from(this.adapters.values());
+    }
+
+    // Resolves the adapters enabled for a sweep. No selection means every registered source.
+    public resolve(enabled?: string[]): SourceAdapter[] {
+        if (!enabled || enabled.length === 0) return this.list();
+
+        const unknown = enabled.filter(id => !this.adapters.has(id));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown source adapter(s): ${unknown.join(', ')}`);
+        }
+        return enabled.map(id => this.adapters.get(id)!);
+    }
+}
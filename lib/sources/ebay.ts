@@ -0,0 +1,233 @@
+import axios from 'axios';
+import type { ConditionScore, ListingType, RawListing, SearchFilters, SourceAdapter, SourceFetchContext } from './adapter';
+import { DEFAULT_BASE_CURRENCY } from '../fx/rates';
+
+// ==========================================
+// VOIDLOGIC NEXUS: EBAY BROWSE API ADAPTER
+// ==========================================
+
+// Point EBAY_API_BASE_URL at a local mock server to exercise the adapter offline
+const EBAY_API_BASE_URL = process.env.EBAY_API_BASE_URL || 'https://api.ebay.com';
+const EBAY_OAUTH_SCOPE = 'https://api.ebay.com/oauth/api_scope';
+const TOKEN_REFRESH_SKEW_MS = 5 * 60 * 1000; // Refresh 5 minutes before eBay says the token dies
+const MAX_PAGE_SIZE = 200; // Browse API hard limit per request
+
+// eBay conditionId -> our 1-5 scale
+// https://developer.ebay.com/api-docs/sell/static/metadata/condition-id-values.html
+const EBAY_CONDITION_MAP: Record<string, ConditionScore> = {
+    '1000': 5, // New
+    '1500': 5, // New other (see details)
+    '1750': 4, // New with defects
+    '2000': 4, // Certified refurbished
+    '2500': 4, // Seller refurbished
+    '2750': 4, // Like New
+    '3000': 3, // Used
+    '4000': 4, // Very Good
+    '5000': 3, // Good
+    '6000': 2, // Acceptable
+    '7000': 1  // For parts or not working
+};
+
+interface EbayItemSummary {
+    itemId: string;
+    title: string;
+    shortDescription?: string;
+    condition?: string;
+    conditionId?: string;
+    price?: { value?: string; currency?: string };
+    buyingOptions?: string[];   // FIXED_PRICE, AUCTION, BEST_OFFER, CLASSIFIED_AD
+    currentBidPrice?: { value?: string; currency?: string };
+    bidCount?: number;
+    itemEndDate?: string;
+    shippingOptions?: { shippingCost?: { value?: string; currency?: string } }[];
+    itemWebUrl: string;
+    image?: { imageUrl?: string };
+    seller?: { username?: string; feedbackPercentage?: string; feedbackScore?: number };
+    itemLocation?: { country?: string; postalCode?: string };
+}
+
+interface EbaySearchPage {
+    itemSummaries?: EbayItemSummary[];
+    total?: number;
+    offset?: number;
+    limit?: number;
+    next?: string;
+}
+
+export interface EbaySearchConfig {
+    query: string;
+    categoryIds?: string[];
+    conditionIds?: string[];
+    priceMin?: number;
+    priceMax?: number;
+    priceCurrency?: string;
+    buyingOptions?: ('FIXED_PRICE' | 'AUCTION' | 'BEST_OFFER')[];
+    pageSize?: number;    // Items per request (max 200)
+    maxResults?: number;  // Stop paging once this many items are collected
+}
+
+// 1. OAUTH CLIENT-CREDENTIALS TOKEN CACHE
+export class EbayTokenManager {
+    private token: string | null = null;
+    private expiresAt = 0;
+    private inflight: Promise<string> | null = null;
+
+    constructor(
+        private clientId = process.env.EBAY_CLIENT_ID || '',
+        private clientSecret = process.env.EBAY_CLIENT_SECRET || '',
+        private baseUrl = EBAY_API_BASE_URL
+    ) {}
+
+    public async getToken(): Promise<string> {
+        if (this.token && Date.now() < this.expiresAt - TOKEN_REFRESH_SKEW_MS) {
+            return this.token;
+        }
+        // Collapse concurrent refreshes into a single token request
+        if (!this.inflight) {
+            this.inflight = this.fetchToken().finally(() => { this.inflight = null; });
+        }
+        return this.inflight;
+    }
+
+    private async fetchToken(): Promise<string> {
+        if (!this.clientId || !this.clientSecret) {
+            throw new Error('eBay credentials missing (EBAY_CLIENT_ID / EBAY_CLIENT_SECRET).');
+        }
+
+        const basic = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+        const body = new URLSearchParams({ grant_type: 'client_credentials', scope: EBAY_OAUTH_SCOPE });
+
+        const response = await axios.post(`${this.baseUrl}/identity/v1/oauth2/token`, body.toString(), {
+            timeout: 10000,
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'Authorization': `Basic ${basic}`
+            }
+        });
+
+        const { access_token, expires_in } = response.data || {};
+        if (!access_token) throw new Error('eBay OAuth response did not include an access_token.');
+
+        this.token = access_token;
+        this.expiresAt = Date.now() + Number(expires_in || 7200) * 1000;
+        console.log(`[EBAY] Application token refreshed. Valid for ${expires_in}s.`);
+        return access_token;
+    }
+}
+
+// Shared across sweeps so the token survives between runs in the same process
+const sharedTokenManager = new EbayTokenManager();
+
+// 2. BROWSE API ADAPTER
+export class EbayAdapter implements SourceAdapter<EbayItemSummary> {
+    public readonly id = 'ebay';
+    public readonly label = 'eBay';
+    public readonly idPrefix = 'EBAY';
+
+    constructor(
+        private config: EbaySearchConfig = { query: 'designer bag' },
+        private tokens: EbayTokenManager = sharedTokenManager,
+        private baseUrl = EBAY_API_BASE_URL,
+        private marketplaceId = process.env.EBAY_MARKETPLACE_ID || 'EBAY_US'
+    ) {}
+
+    public async fetchListings(ctx: SourceFetchContext): Promise<EbayItemSummary[]> {
+        const pageSize = Math.min(this.config.pageSize || 50, MAX_PAGE_SIZE);
+        const maxResults = this.config.maxResults || 200;
+        const items: EbayItemSummary[] = [];
+
+        for (let offset = 0; offset < maxResults; offset += pageSize) {
+            const token = await this.tokens.getToken();
+            const url = `${this.baseUrl}/buy/browse/v1/item_summary/search?${this.buildQuery(offset, pageSize, ctx.query, ctx.filters, ctx.baseCurrency)}`;
+
+            const page: EbaySearchPage | null = await ctx.fetchJson(url, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'X-EBAY-C-MARKETPLACE-ID': this.marketplaceId
+                }
+            });
+            if (!page) throw new Error(`Browse API search failed at offset ${offset}.`);
+
+            const summaries = page.itemSummaries || [];
+            items.push(...summaries);
+
+            const exhausted = !page.next || summaries.length < pageSize;
+            if (exhausted || (page.total !== undefined && offset + pageSize >= page.total)) break;
+        }
+
+        return items.slice(0, maxResults);
+    }
+
+    public normalize(item: EbayItemSummary): RawListing | null {
+        if (!item.itemId || !item.title) return null;
+        const shipping = item.shippingOptions?.[0]?.shippingCost?.value;
+        // An auction with a Buy It Now option still counts as an auction: the BIN price lapses with the first bid
+        const listingType: ListingType = item.buyingOptions?.includes('AUCTION') ? 'AUCTION' : 'FIXED_PRICE';
+        const price = listingType === 'AUCTION' ? item.currentBidPrice ?? item.price : item.price;
+        return {
+            externalId: item.itemId,
+            title: item.title,
+            description: item.shortDescription,
+            price: Number(price?.value || 0),
+            currency: price?.currency || 'USD',
+            listingType,
+            bidCount: listingType === 'AUCTION' ? item.bidCount ?? 0 : undefined,
+            endsAt: listingType === 'AUCTION' ? item.itemEndDate : undefined,
+            shippingCost: shipping !== undefined ? Number(shipping) : undefined,
+            condition: item.condition || 'used',
+            conditionScore: item.conditionId ? EBAY_CONDITION_MAP[item.conditionId] : undefined,
+            url: item.itemWebUrl,
+            imageUrl: item.image?.imageUrl,
+            seller: item.seller?.username ? {
+                username: item.seller.username,
+                feedbackScore: item.seller.feedbackScore,
+                feedbackPercentage: item.seller.feedbackPercentage !== undefined ? Number(item.seller.feedbackPercentage) : undefined
+            } : undefined,
+            location: item.itemLocation
+        };
+    }
+
+    // Browse getItem: 404 means the listing is gone, OUT_OF_STOCK means it sold
+    public async lookupStatus(externalId: string): Promise<'ACTIVE' | 'ENDED' | 'SOLD'> {
+        const token = await this.tokens.getToken();
+        try {
+            const response = await axios.get(`${this.baseUrl}/buy/browse/v1/item/${encodeURIComponent(externalId)}`, {
+                timeout: 10000,
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'X-EBAY-C-MARKETPLACE-ID': this.marketplaceId
+                }
+            });
+            const availability = response.data?.estimatedAvailabilities?.[0]?.estimatedAvailabilityStatus;
+            return availability === 'OUT_OF_STOCK' ? 'SOLD' : 'ACTIVE';
+        } catch (error: any) {
+            if (error.response?.status === 404) return 'ENDED';
+            throw error;
+        }
+    }
+
+    // Builds q/offset/limit plus the Browse API's category_ids and filter syntax
+    private buildQuery(offset: number, limit: number, queryOverride?: string, filterOverride: SearchFilters = {}, baseCurrency = DEFAULT_BASE_CURRENCY): string {
+        const { conditionIds, buyingOptions } = this.config;
+        const categoryIds = filterOverride.categoryIds ?? this.config.categoryIds;
+        const overridesPrice = filterOverride.priceMin !== undefined || filterOverride.priceMax !== undefined;
+        const priceMin = overridesPrice ? filterOverride.priceMin : this.config.priceMin;
+        const priceMax = overridesPrice ? filterOverride.priceMax : this.config.priceMax;
+        // Saved-search bounds are in the sweep's base currency; the adapter's own bounds may name another
+        const priceCurrency = overridesPrice ? baseCurrency : this.config.priceCurrency || baseCurrency;
+        const params = new URLSearchParams({ q: queryOverride || this.config.query, offset: String(offset), limit: String(limit) });
+
+        if (categoryIds?.length) params.set('category_ids', categoryIds.join(','));
+
+        const filters: string[] = [];
+        if (conditionIds?.length) filters.push(`conditionIds:{${conditionIds.join('|')}}`);
+        if (priceMin !== undefined || priceMax !== undefined) {
+            filters.push(`price:[${priceMin ?? ''}..${priceMax ?? ''}]`);
+            filters.push(`priceCurrency:${priceCurrency}`);
+        }
+        if (buyingOptions?.length) filters.push(`buyingOptions:{${buyingOptions.join('|')}}`);
+        if (filters.length) params.set('filter', filters.join(','));
+
+        return params.toString();
+    }
+}
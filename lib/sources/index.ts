@@ -0,0 +1,15 @@
+import { SourceRegistry } from './adapter';
+import { EbayAdapter } from './ebay';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SOURCE REGISTRY
+// ==========================================
+
+// New marketplaces plug in here. The engine core never references a concrete source.
+export const createDefaultRegistry = (): SourceRegistry => {
+    return new SourceRegistry()
+        .register(new EbayAdapter());
+};
+
+export * from './adapter';
+export { EbayAdapter, EbayTokenManager, type EbaySearchConfig } from './ebay';
@@ -0,0 +1,338 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'node:crypto';
+import { NexusHunter, type SweepOptions, type SweepReport, type SourceSweepStats } from './nexus-engine';
+import { parseCron, lastMatchBetween } from './cron';
+import type { SavedSearch } from './saved-searches';
+import { AlertDispatcher } from './alert-dispatcher';
+import { ApprovalQueue } from './approval-queue';
+import { AuditLog, SCHEDULER_ACTOR, type AuditActor } from './audit-log';
+
+// ==========================================
+// VOIDLOGIC NEXUS: SWEEP SCHEDULER & RUN LEDGER
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Scheduler offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+const SWEEP_LOCK = 'nexus-sweep';
+const LEASE_TTL_MS = (Number(process.env.NEXUS_SWEEP_LEASE_SECONDS) || 600) * 1000;
+// A running sweep extends its lease this often, so a long sweep never looks abandoned
+const LEASE_RENEW_MS = LEASE_TTL_MS / 3;
+const TICK_MS = 60 * 1000;
+// Minutes missed while a tick was busy are caught up, but never further back than this
+const MAX_CATCH_UP_MS = 24 * 60 * 60 * 1000;
+
+export type SweepTrigger = 'MANUAL' | 'SCHEDULED';
+export type SweepRunStatus = 'RUNNING' | 'SUCCESS' | 'PARTIAL' | 'FAILED' | 'SKIPPED';
+
+export interface SweepRun {
+    id: string;
+    trigger: SweepTrigger;
+    scheduleId: string | null;
+    searchId: string | null;
+    status: SweepRunStatus;
+    startedAt: string;
+    endedAt: string | null;
+    durationMs: number | null;
+    signalsFound: number;
+    sourceCounts: Record<string, SourceSweepStats>;
+    errors: string[];
+}
+
+export interface SweepSchedule {
+    id: string;
+    name: string;
+    cron: string;
+    sources: string[];     // Empty means every registered source
+    query: string | null;  // Null means each adapter's default query
+    enabled: boolean;
+    lastRunAt: string | null;
+}
+
+export type SweepScheduleInput = Omit<SweepSchedule, 'id' | 'lastRunAt'>;
+
+const list = (v: unknown) => Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(s => s.trim()) : [];
+
+// Validates a schedule from untrusted input (used by the schedule routes)
+export const parseSweepSchedule = (input: any): SweepScheduleInput => {
+    const name = typeof input?.name === 'string' ? input.name.trim() : '';
+    if (!name) throw new Error('Schedule name is required.');
+    const cron = typeof input?.cron === 'string' ? input.cron.trim() : '';
+    if (!cron) throw new Error('Schedule cron is required.');
+    parseCron(cron); // Throws on a malformed expression
+
+    const sources = list(input?.sources);
+    const query = typeof input?.query === 'string' && input.query.trim() ? input.query.trim() : null;
+    return { name, cron, sources, query, enabled: input?.enabled !== false };
+};
+
+// 1. LEASE: one sweep at a time across every process sharing the database
+export class SweepLease {
+    private holder = randomUUID();
+
+    constructor(private supabase: SupabaseClient, private name = SWEEP_LOCK) {}
+
+    public async acquire(ttlMs = LEASE_TTL_MS): Promise<boolean> {
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+
+        // Make sure the row exists; losing this race to another process is fine
+        await this.supabase.from('nexus_locks').upsert(
+            { name: this.name, holder: null, expiresAt: now.toISOString() },
+            { onConflict: 'name', ignoreDuplicates: true }
+        );
+
+        // Conditional update is atomic per row: only an expired or already-ours lease can be taken
+        const { data, error } = await this.supabase
+            .from('nexus_locks')
+            .update({ holder: this.holder, expiresAt })
+            .eq('name', this.name)
+            .or(`expiresAt.lt."${now.toISOString()}",holder.eq.${this.holder}`)
+            .select('name');
+
+        if (error) throw new Error(`Lease acquire failed: ${error.message}`);
+        return (data || []).length === 1;
+    }
+
+    // Extends a lease we still hold; false means it expired and someone else may have taken it
+    public async renew(ttlMs = LEASE_TTL_MS): Promise<boolean> {
+        const { data, error } = await this.supabase
+            .from('nexus_locks')
+            .update({ expiresAt: new Date(Date.now() + ttlMs).toISOString() })
+            .eq('name', this.name)
+            .eq('holder', this.holder)
+            .select('name');
+        if (error) throw new Error(`Lease renew failed: ${error.message}`);
+        return (data || []).length === 1;
+    }
+
+    public async release(): Promise<void> {
+        await this.supabase
+            .from('nexus_locks')
+            .update({ holder: null, expiresAt: new Date(0).toISOString() })
+            .eq('name', this.name)
+            .eq('holder', this.holder);
+    }
+}
+
+const runStatusFor = (report: SweepReport, sourceCount: number): SweepRunStatus => {
+    const failedSources = Object.values(report.sources).filter(s => s.error).length;
+    if (report.errors.length === 0) return 'SUCCESS';
+    if (sourceCount > 0 && failedSources < sourceCount && failedSources === report.errors.length) return 'PARTIAL';
+    return 'FAILED';
+};
+
+// 2. RECORDED SWEEP: every run, manual or scheduled, lands in nexus_sweep_runs
+export const runRecordedSweep = async (
+    trigger: SweepTrigger,
+    options: SweepOptions = {},
+    scheduleId: string | null = null,
+    actor: AuditActor = SCHEDULER_ACTOR,
+    ip: string | null = null
+): Promise<{ run: SweepRun; report: SweepReport | null }> => {
+    const supabase = getSupabase();
+    const audit = (outcome: SweepRun) => new AuditLog(supabase).record({
+        actor,
+        action: 'sweep.run',
+        entityType: 'sweep_run',
+        entityId: outcome.id,
+        after: {
+            trigger,
+            status: outcome.status,
+            scheduleId,
+            searchId: outcome.searchId,
+            sources: options.sources ?? null,
+            query: options.query ?? null,
+            signalsFound: outcome.signalsFound,
+            errors: outcome.errors
+        },
+        ip
+    });
+    const startedAt = new Date();
+    const run: SweepRun = {
+        id: randomUUID(),
+        trigger,
+        scheduleId,
+        searchId: options.search?.id ?? null,
+        status: 'RUNNING',
+        startedAt: startedAt.toISOString(),
+        endedAt: null,
+        durationMs: null,
+        signalsFound: 0,
+        sourceCounts: {},
+        errors: []
+    };
+
+    const lease = new SweepLease(supabase);
+    if (!(await lease.acquire())) {
+        const skipped: SweepRun = { ...run, status: 'SKIPPED', endedAt: run.startedAt, durationMs: 0, errors: ['Another sweep holds the lease.'] };
+        await supabase.from('nexus_sweep_runs').insert(skipped);
+        console.warn(`[SCHEDULER] ${trigger} sweep skipped: another sweep is still running.`);
+        await audit(skipped);
+        return { run: skipped, report: null };
+    }
+
+    await supabase.from('nexus_sweep_runs').insert(run);
+
+    const heartbeat = setInterval(() => {
+        lease.renew()
+            .then(held => { if (!held) console.warn(`[SCHEDULER] Sweep ${run.id} lost its lease; another sweep may start.`); })
+            .catch((error: unknown) => console.warn(`[SCHEDULER] ${error instanceof Error ? error.message : 'Lease renew failed'}`));
+    }, LEASE_RENEW_MS);
+
+    try {
+        const report = await new NexusHunter().runSweep(options);
+        const endedAt = new Date();
+        const finished: SweepRun = {
+            ...run,
+            status: runStatusFor(report, Object.keys(report.sources).length),
+            endedAt: endedAt.toISOString(),
+            durationMs: endedAt.getTime() - startedAt.getTime(),
+            signalsFound: report.signals.length,
+            sourceCounts: report.sources,
+            errors: report.errors
+        };
+        await supabase.from('nexus_sweep_runs').update(finished).eq('id', run.id);
+        if (options.search) {
+            await supabase.from('nexus_searches').update({ lastRunAt: finished.startedAt }).eq('id', options.search.id);
+        }
+        await audit(finished);
+        return { run: finished, report };
+    } catch (error: unknown) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        const endedAt = new Date();
+        const failed: SweepRun = {
+            ...run,
+            status: 'FAILED',
+            endedAt: endedAt.toISOString(),
+            durationMs: endedAt.getTime() - startedAt.getTime(),
+            errors: [errorMsg]
+        };
+        await supabase.from('nexus_sweep_runs').update(failed).eq('id', run.id);
+        await audit(failed);
+        return { run: failed, report: null };
+    } finally {
+        clearInterval(heartbeat);
+        await lease.release();
+    }
+};
+
+// 3. IN-PROCESS SCHEDULER (started from instrumentation.ts under `next start`)
+export class NexusScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+    private checkedUntil: Date | null = null; // Every minute up to here has been evaluated
+
+    // One scheduler per process, even if Next re-evaluates this module
+    public static start(): NexusScheduler {
+        const registry = globalThis as typeof globalThis & { __nexusScheduler?: NexusScheduler };
+        if (!registry.__nexusScheduler) {
+            registry.__nexusScheduler = new NexusScheduler();
+            registry.__nexusScheduler.start();
+        }
+        return registry.__nexusScheduler;
+    }
+
+    public start(): void {
+        if (this.timer) return;
+        console.log('[SCHEDULER] Autonomous sweep scheduler online.');
+
+        // Align ticks to the top of each minute so cron matching is exact
+        const delay = TICK_MS - (Date.now() % TICK_MS);
+        this.timer = setTimeout(() => {
+            this.tick();
+            this.timer = setInterval(() => this.tick(), TICK_MS);
+        }, delay);
+    }
+
+    public stop(): void {
+        if (this.timer) clearTimeout(this.timer); // clearTimeout also clears intervals
+        this.timer = null;
+    }
+
+    private async tick(): Promise<void> {
+        if (this.ticking) return; // Previous sweeps still running; the next tick catches these minutes up
+        this.ticking = true;
+        const now = new Date();
+        // Everything since the last evaluated minute, so a schedule due while a sweep ran still fires once
+        const since = this.checkedUntil && now.getTime() - this.checkedUntil.getTime() < MAX_CATCH_UP_MS
+            ? this.checkedUntil
+            : new Date(now.getTime() - TICK_MS);
+        this.checkedUntil = now;
+        const dueAt = (cron: string) => lastMatchBetween(parseCron(cron), since, now);
+        const late = (due: Date) => now.getTime() - due.getTime() >= TICK_MS ? ` (catching up ${due.toISOString()})` : '';
+
+        // Failed alert deliveries whose backoff has elapsed
+        try {
+            const retried = await new AlertDispatcher(getSupabase()).retryDue();
+            if (retried > 0) console.log(`[SCHEDULER] Retried ${retried} alert deliveries.`);
+        } catch (error: unknown) {
+            console.warn(`[SCHEDULER] Alert retry failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        // Approvals nobody decided in time
+        try {
+            const expired = await new ApprovalQueue(getSupabase()).expireStale();
+            if (expired > 0) console.log(`[SCHEDULER] Expired ${expired} approval requests.`);
+        } catch (error: unknown) {
+            console.warn(`[SCHEDULER] Approval expiry failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        try {
+            const { data, error } = await getSupabase().from('nexus_sweep_schedules').select('*').eq('enabled', true);
+            if (error) throw new Error(error.message);
+
+            for (const schedule of (data || []) as SweepSchedule[]) {
+                let due: Date | null;
+                try {
+                    due = dueAt(schedule.cron);
+                } catch (cronError: unknown) {
+                    console.warn(`[SCHEDULER] Schedule '${schedule.name}' has an invalid cron: ${cronError instanceof Error ? cronError.message : cronError}`);
+                    continue;
+                }
+                if (!due) continue;
+
+                console.log(`[SCHEDULER] Firing schedule '${schedule.name}' (${schedule.cron})${late(due)}.`);
+                await runRecordedSweep('SCHEDULED', {
+                    sources: schedule.sources?.length ? schedule.sources : undefined,
+                    query: schedule.query || undefined
+                }, schedule.id);
+                await getSupabase().from('nexus_sweep_schedules').update({ lastRunAt: now.toISOString() }).eq('id', schedule.id);
+            }
+
+            // Saved searches carry their own cron; paused or on-demand searches never fire here
+            const { data: searches, error: searchError } = await getSupabase()
+                .from('nexus_searches')
+                .select('*')
+                .eq('enabled', true)
+                .not('cron', 'is', null);
+            if (searchError) throw new Error(searchError.message);
+
+            for (const search of (searches || []) as SavedSearch[]) {
+                let due: Date | null;
+                try {
+                    due = dueAt(search.cron!);
+                } catch (cronError: unknown) {
+                    console.warn(`[SCHEDULER] Saved search '${search.name}' has an invalid cron: ${cronError instanceof Error ? cronError.message : cronError}`);
+                    continue;
+                }
+                if (!due) continue;
+
+                console.log(`[SCHEDULER] Firing saved search '${search.name}' (${search.cron})${late(due)}.`);
+                await runRecordedSweep('SCHEDULED', { search });
+            }
+        } catch (error: unknown) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`[SCHEDULER] Tick failed: ${errorMsg}`);
+        } finally {
+            this.ticking = false;
+        }
+    }
+}
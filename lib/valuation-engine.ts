@@ -0,0 +1,220 @@
+import { createClient } from '@supabase/supabase-js';
+import type { ConditionScore } from './sources';
+import { cosineSimilarity, parseVector, type ListingEmbedding } from './embeddings';
+import type { FxRateTable } from './fx';
+
+// ==========================================
+// VOIDLOGIC NEXUS: COMPARABLE-SALES VALUATION
+// ==========================================
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const getSupabase = () => {
+    if (!supabaseUrl || !supabaseKey) {
+        throw new Error("FATAL: Supabase credentials missing. Valuation offline.");
+    }
+    return createClient(supabaseUrl, supabaseKey);
+};
+
+// Words that say nothing about which model a listing is
+const STOPWORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'with', 'for', 'in', 'of', 'authentic', 'genuine', 'bag', 'bags',
+    'womens', 'women', 'mens', 'men', 'new', 'used', 'vintage', 'preowned', 'pre', 'owned', 'rare', 'excellent'
+]);
+
+export interface SoldComp {
+    id: string;
+    source: string;
+    brand: string;
+    title: string;
+    conditionScore: ConditionScore;
+    soldPrice: number;
+    currency?: string;               // Currency of soldPrice; converted to the valuation's base currency on load
+    soldAt: string;
+    embedding?: number[] | null;     // Title embedding; null until indexed
+    embeddingModel?: string | null;
+}
+
+export type ValuationConfidence = 'HIGH' | 'MEDIUM' | 'LOW' | 'NONE';
+export type ValuationMethod = 'MEDIAN' | 'TRIMMED_MEAN';
+export type CompMatch = 'SEMANTIC' | 'MODEL' | 'BRAND'; // How the comp pool was chosen
+
+export interface ValuationResult {
+    estimatedValue: number;
+    confidence: ValuationConfidence;
+    compsUsed: number;
+    method: ValuationMethod;
+    compMatch: CompMatch;
+}
+
+export interface ValuationConfig {
+    method: ValuationMethod;
+    trimRatio: number;         // Fraction cut from each tail for TRIMMED_MEAN
+    maxConditionDelta: number; // Comps further than this from the target's condition are ignored
+    lookbackDays: number;      // Only sales inside this window count
+    minModelComps: number;     // Below this, fall back to brand-wide comps
+    minSimilarity: number;     // Cosine floor for a comp to count as a semantic match
+    maxSemanticComps: number;  // Nearest N semantic matches are used
+    conditionMultipliers: Record<ConditionScore, number>; // Normalizes comps graded differently from the target
+}
+
+export const DEFAULT_VALUATION_CONFIG: ValuationConfig = {
+    method: 'MEDIAN',
+    trimRatio: 0.2,
+    maxConditionDelta: 1,
+    lookbackDays: 180,
+    minModelComps: 3,
+    minSimilarity: 0.5,
+    maxSemanticComps: 15,
+    // Mirrors CONDITION_SCALE in nexus-engine
+    conditionMultipliers: { 1: 0.10, 2: 0.40, 3: 0.65, 4: 0.85, 5: 1.00 }
+};
+
+export type CompLoader = (brand: string, sinceIso: string) => Promise<SoldComp[]>;
+
+const loadCompsFromDatabase: CompLoader = async (brand, sinceIso) => {
+    const { data, error } = await getSupabase()
+        .from('nexus_comps')
+        .select('*')
+        .eq('brand', brand)
+        .gte('soldAt', sinceIso);
+
+    if (error) throw new Error(`Comp lookup failed: ${error.message}`);
+    return (data || []).map(c => ({ ...c, embedding: parseVector(c.embedding) })) as SoldComp[];
+};
+
+export const extractModelKeywords = (title: string, brand: string): string[] => {
+    const brandTokens = new Set(tokenize(brand));
+    return tokenize(title).filter(t => t.length > 2 && !STOPWORDS.has(t) && !brandTokens.has(t));
+};
+
+const tokenize = (text: string): string[] =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const trimmedMean = (values: number[], ratio: number): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const cut = Math.floor(sorted.length * ratio);
+    const kept = sorted.length - cut * 2 > 0 ? sorted.slice(cut, sorted.length - cut) : sorted;
+    return kept.reduce((sum, v) => sum + v, 0) / kept.length;
+};
+
+export class ValuationEngine {
+    private compCache = new Map<string, Promise<SoldComp[]>>();
+    private config: ValuationConfig;
+
+    // With an FX table, comps are converted to its base currency and comps in unknown currencies are dropped
+    constructor(
+        config: Partial<ValuationConfig> = {},
+        private loadComps: CompLoader = loadCompsFromDatabase,
+        private fx: FxRateTable | null = null
+    ) {
+        this.config = { ...DEFAULT_VALUATION_CONFIG, ...config };
+    }
+
+    // Estimates resale value for a listing from sold comps of the same brand, model and condition band
+    public async estimate(
+        brand: string,
+        title: string,
+        conditionScore: ConditionScore,
+        model: string | null = null,
+        embedding: ListingEmbedding | null = null
+    ): Promise<ValuationResult> {
+        const comps = (await this.getComps(brand))
+            .filter(c => Math.abs(c.conditionScore - conditionScore) <= this.config.maxConditionDelta);
+
+        // 1. Narrow to comps of the same model: nearest neighbours by embedding first, then the catalog
+        //    model name, then shared title keywords. Fall back to the brand pool when too few match.
+        const semanticComps = embedding ? this.nearestComps(comps, embedding) : [];
+        const keywords = model ? extractModelKeywords(model, brand) : extractModelKeywords(title, brand);
+        const modelComps = keywords.length > 0
+            ? comps.filter(c => {
+                const compKeywords = new Set(extractModelKeywords(c.title, brand));
+                return model
+                    ? keywords.every(k => compKeywords.has(k))
+                    : keywords.some(k => compKeywords.has(k));
+            })
+            : [];
+        const compMatch: CompMatch = semanticComps.length >= this.config.minModelComps ? 'SEMANTIC'
+            : modelComps.length >= this.config.minModelComps ? 'MODEL'
+            : 'BRAND';
+        const pool = compMatch === 'SEMANTIC' ? semanticComps : compMatch === 'MODEL' ? modelComps : comps;
+
+        if (pool.length === 0) {
+            return { estimatedValue: 0, confidence: 'NONE', compsUsed: 0, method: this.config.method, compMatch };
+        }
+
+        // 2. Normalize each sale to the target's condition grade
+        const multipliers = this.config.conditionMultipliers;
+        const adjusted = pool.map(c => c.soldPrice * (multipliers[conditionScore] / multipliers[c.conditionScore]));
+
+        const estimatedValue = this.config.method === 'MEDIAN'
+            ? median(adjusted)
+            : trimmedMean(adjusted, this.config.trimRatio);
+
+        return {
+            estimatedValue: Math.round(estimatedValue * 100) / 100,
+            confidence: this.scoreConfidence(adjusted, compMatch !== 'BRAND'),
+            compsUsed: pool.length,
+            method: this.config.method,
+            compMatch
+        };
+    }
+
+    // Upper bound on what estimate() can return for this brand and grade: the best condition-adjusted sale
+    // in the band. Every pool estimate() picks is a subset, so its median or mean never exceeds this. 0 without comps.
+    public async ceiling(brand: string, conditionScore: ConditionScore): Promise<number> {
+        const multipliers = this.config.conditionMultipliers;
+        return (await this.getComps(brand))
+            .filter(c => Math.abs(c.conditionScore - conditionScore) <= this.config.maxConditionDelta)
+            .reduce((max, c) => Math.max(max, c.soldPrice * (multipliers[conditionScore] / multipliers[c.conditionScore])), 0);
+    }
+
+    // Comps embedded by the same provider, most similar first. Vectors from another provider are skipped.
+    private nearestComps(comps: SoldComp[], embedding: ListingEmbedding): SoldComp[] {
+        return comps
+            .filter(c => c.embedding && c.embeddingModel === embedding.model)
+            .map(c => ({ comp: c, similarity: cosineSimilarity(embedding.vector, c.embedding as number[]) }))
+            .filter(m => m.similarity >= this.config.minSimilarity)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, this.config.maxSemanticComps)
+            .map(m => m.comp);
+    }
+
+    // More comps, tighter spread and model-level matches all raise confidence
+    private scoreConfidence(values: number[], modelLevel: boolean): ValuationConfidence {
+        const sorted = [...values].sort((a, b) => a - b);
+        const q1 = sorted[Math.floor((sorted.length - 1) * 0.25)];
+        const q3 = sorted[Math.floor((sorted.length - 1) * 0.75)];
+        const spread = (q3 - q1) / median(sorted);
+
+        if (modelLevel && values.length >= 8 && spread < 0.35) return 'HIGH';
+        if (values.length >= 4 && spread < 0.6) return 'MEDIUM';
+        return 'LOW';
+    }
+
+    private getComps(brand: string): Promise<SoldComp[]> {
+        let cached = this.compCache.get(brand);
+        if (!cached) {
+            const since = new Date(Date.now() - this.config.lookbackDays * 86400000).toISOString();
+            cached = this.loadComps(brand, since).then(comps => this.toBaseCurrency(comps));
+            cached.catch(() => this.compCache.delete(brand)); // Don't pin a failed lookup for the whole sweep
+            this.compCache.set(brand, cached);
+        }
+        return cached;
+    }
+
+    private toBaseCurrency(comps: SoldComp[]): SoldComp[] {
+        const fx = this.fx;
+        if (!fx) return comps;
+        return comps
+            .filter(c => fx.has(c.currency || fx.base))
+            .map(c => !c.currency || c.currency === fx.base ? c : { ...c, soldPrice: fx.toBase(Number(c.soldPrice), c.currency), currency: fx.base });
+    }
+}
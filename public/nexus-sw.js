@@ -0,0 +1,24 @@
+// ==========================================
+// VOIDLOGIC NEXUS: WEB PUSH SERVICE WORKER
+// ==========================================
+// Registered by /alerts. Shows one notification per alert and opens the listing on click.
+
+self.addEventListener('push', (event) => {
+    let alert = { title: 'NEXUS signal', body: '', url: '/', tag: undefined };
+    try {
+        alert = { ...alert, ...event.data.json() };
+    } catch {
+        if (event.data) alert.body = event.data.text();
+    }
+
+    event.waitUntil(self.registration.showNotification(alert.title, {
+        body: alert.body,
+        tag: alert.tag,
+        data: { url: alert.url }
+    }));
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    event.waitUntil(self.clients.openWindow(event.notification.data?.url || '/'));
+});
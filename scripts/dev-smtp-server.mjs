@@ -0,0 +1,69 @@
+// ==========================================
+// VOIDLOGIC NEXUS: STAND-IN SMTP SERVER
+// ==========================================
+// Accepts every message and prints it, so email alerts can be tested without a real mail server.
+//
+//   node scripts/dev-smtp-server.mjs [--port 2525]
+//   SMTP_HOST=localhost SMTP_PORT=2525 npm run dev
+//
+// Speaks plain SMTP only (no STARTTLS); AUTH is accepted with any credentials.
+
+import net from 'node:net';
+
+const args = process.argv.slice(2);
+const portFlag = args.indexOf('--port');
+const port = portFlag === -1 ? 2525 : Number(args[portFlag + 1]);
+
+const decodeBody = (message) => {
+    const [head, ...rest] = message.split('\r\n\r\n');
+    const body = rest.join('\r\n\r\n');
+    return /content-transfer-encoding:\s*base64/i.test(head)
+        ? `${head}\n\n${Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8')}`
+        : message;
+};
+
+const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let envelope = { from: '', to: [] };
+    const reply = (line) => socket.write(`${line}\r\n`);
+
+    reply('220 nexus-dev-smtp ready');
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk) => {
+        buffer += chunk;
+        while (true) {
+            if (inData) {
+                const end = buffer.indexOf('\r\n.\r\n');
+                if (end === -1) return;
+                const message = buffer.slice(0, end).replace(/^\.\./gm, '.');
+                buffer = buffer.slice(end + 5);
+                inData = false;
+                console.log(`\n===== MAIL ${new Date().toISOString()} =====`);
+                console.log(`FROM ${envelope.from}  TO ${envelope.to.join(', ')}`);
+                console.log(decodeBody(message));
+                envelope = { from: '', to: [] };
+                reply('250 OK: message accepted');
+                continue;
+            }
+
+            const index = buffer.indexOf('\r\n');
+            if (index === -1) return;
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            const verb = line.split(' ')[0].toUpperCase();
+
+            if (verb === 'EHLO') socket.write('250-nexus-dev-smtp\r\n250 AUTH PLAIN LOGIN\r\n');
+            else if (verb === 'HELO') reply('250 nexus-dev-smtp');
+            else if (verb === 'AUTH') reply('235 Authentication succeeded');
+            else if (verb === 'MAIL') { envelope.from = line.slice(10); reply('250 OK'); }
+            else if (verb === 'RCPT') { envelope.to.push(line.slice(8)); reply('250 OK'); }
+            else if (verb === 'DATA') { inData = true; reply('354 End data with <CR><LF>.<CR><LF>'); }
+            else if (verb === 'RSET' || verb === 'NOOP') reply('250 OK');
+            else if (verb === 'QUIT') { reply('221 Bye'); socket.end(); return; }
+            else reply('502 Command not implemented');
+        }
+    });
+});
+
+server.listen(port, () => console.log(`[DEV SMTP] Listening on :${port}. Ctrl+C to stop.`));
@@ -0,0 +1,62 @@
+// ==========================================
+// VOIDLOGIC NEXUS: STAND-IN WEBHOOK RECEIVER
+// ==========================================
+// Verifies the HMAC signature on alert webhooks and prints each payload.
+//
+//   node scripts/dev-webhook-receiver.mjs --secret <rule secret> [--port 4040] [--fail 2]
+//
+// Point a WEBHOOK rule at http://localhost:4040/. --fail N answers the first N deliveries with
+// HTTP 503 to exercise the retry path. Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`).
+
+import http from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const flag = (name) => {
+    const i = args.indexOf(`--${name}`);
+    return i === -1 ? undefined : args[i + 1];
+};
+
+const secret = flag('secret');
+const port = Number(flag('port') || 4040);
+let failuresLeft = Number(flag('fail') || 0);
+const MAX_SKEW_SECONDS = 300;
+
+if (!secret) {
+    console.error('Usage: node scripts/dev-webhook-receiver.mjs --secret <rule secret> [--port 4040] [--fail N]');
+    process.exit(1);
+}
+
+const verify = (timestamp, body, signature) => {
+    if (!timestamp || !signature) return 'missing signature headers';
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SKEW_SECONDS) return 'timestamp outside tolerance';
+    const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`);
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given) ? null : 'signature mismatch';
+};
+
+http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+        const problem = verify(req.headers['x-nexus-timestamp'], body, req.headers['x-nexus-signature']);
+        const delivery = req.headers['x-nexus-delivery'];
+
+        if (problem) {
+            console.warn(`[DEV WEBHOOK] Rejected ${delivery}: ${problem}`);
+            res.writeHead(401).end();
+            return;
+        }
+        if (failuresLeft > 0) {
+            failuresLeft--;
+            console.warn(`[DEV WEBHOOK] Simulating outage for ${delivery} (${failuresLeft} left).`);
+            res.writeHead(503).end();
+            return;
+        }
+
+        console.log(`\n===== ${req.headers['x-nexus-event']} ${delivery} =====`);
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+        res.writeHead(204).end();
+    });
+}).listen(port, () => console.log(`[DEV WEBHOOK] Listening on :${port}. Ctrl+C to stop.`));
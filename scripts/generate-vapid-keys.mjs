@@ -0,0 +1,17 @@
+// ==========================================
+// VOIDLOGIC NEXUS: VAPID KEY GENERATOR
+// ==========================================
+// Prints a P-256 key pair for Web Push in the base64url format .env expects.
+//
+//   node scripts/generate-vapid-keys.mjs >> .env.local
+
+import { generateKeyPairSync } from 'node:crypto';
+
+const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const jwk = privateKey.export({ format: 'jwk' });
+
+// Public key in the uncompressed point form browsers expect: 0x04 || x || y
+const publicKey = Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x, 'base64url'), Buffer.from(jwk.y, 'base64url')]);
+
+console.log(`VAPID_PUBLIC_KEY="${publicKey.toString('base64url')}"`);
+console.log(`VAPID_PRIVATE_KEY="${jwk.d}"`);
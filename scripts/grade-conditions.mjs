@@ -0,0 +1,51 @@
+// ==========================================
+// VOIDLOGIC NEXUS: CONDITION GRADER ACCURACY CHECK
+// ==========================================
+// Grades a labeled fixture set offline (no server, database or login) and exits 1 below the floor.
+//
+//   node scripts/grade-conditions.mjs [fixtures/condition/labeled.json ...] [--floor 0.85] [--verbose]
+//
+// Same report as GET /api/nexus/condition. With no files it grades every fixture in fixtures/condition.
+// --verbose prints the grader's reasoning for each miss.
+
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { loadTs, ROOT } from './load-ts.mjs';
+
+const { measureAccuracy, ACCURACY_FLOOR } = loadTs('lib/condition-grader.ts');
+
+const args = process.argv.slice(2);
+let floor = ACCURACY_FLOOR;
+let verbose = false;
+const files = [];
+for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--floor') floor = Number(args[++i]);
+    else if (args[i] === '--verbose') verbose = true;
+    else files.push(args[i]);
+}
+
+if (!(floor > 0 && floor <= 1)) {
+    console.error('Usage: node scripts/grade-conditions.mjs [fixture.json ...] [--floor 0.85] [--verbose]');
+    process.exit(1);
+}
+
+const fixtureDir = path.join(ROOT, 'fixtures', 'condition');
+const paths = files.length > 0
+    ? files.map(f => path.resolve(f))
+    : readdirSync(fixtureDir).filter(f => f.endsWith('.json')).sort().map(f => path.join(fixtureDir, f));
+
+const pct = (n) => `${(n * 100).toFixed(1)}%`;
+
+let failed = false;
+for (const file of paths) {
+    const report = measureAccuracy(JSON.parse(readFileSync(file, 'utf8')), floor);
+    console.log(`${report.passed ? 'PASS' : 'FAIL'} ${report.fixture} (${path.relative(ROOT, file)})`);
+    console.log(`  exact ${report.exact}/${report.total} = ${pct(report.accuracy)} (floor ${pct(report.floor)}), within one ${pct(report.withinOneAccuracy)}, MAE ${report.meanAbsoluteError}`);
+    for (const miss of report.misses) {
+        console.log(`  miss ${miss.id}: labeled ${miss.label}, graded ${miss.predicted}`);
+        if (verbose) for (const line of miss.explanation) console.log(`      ${line}`);
+    }
+    if (!report.passed) failed = true;
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,34 @@
+// ==========================================
+// VOIDLOGIC NEXUS: TYPESCRIPT MODULE LOADER
+// ==========================================
+// Lets the offline scripts require lib/*.ts without a build step. Each file is transpiled on load
+// with the repo's own TypeScript (no type check: run tsc for that) and `@/` resolves to the repo root.
+//
+//   import { loadTs } from './load-ts.mjs';
+//   const { measureAccuracy } = loadTs('lib/condition-grader.ts');
+
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import Module from 'node:module';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const require = createRequire(import.meta.url);
+const ts = require('typescript');
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+    return resolveFilename.call(this, request.startsWith('@/') ? path.join(ROOT, request.slice(2)) : request, ...rest);
+};
+
+require.extensions['.ts'] = (module, filename) => {
+    const { outputText } = ts.transpileModule(readFileSync(filename, 'utf8'), {
+        fileName: filename,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+    });
+    module._compile(outputText, filename);
+};
+
+export const loadTs = (file) => require(path.join(ROOT, file));
@@ -0,0 +1,51 @@
+// ==========================================
+// VOIDLOGIC NEXUS: STRIPE FIXTURE REPLAY
+// ==========================================
+// Signs a fixture event with STRIPE_WEBHOOK_SECRET and posts it to the local webhook route.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_... node scripts/replay-stripe-event.mjs fixtures/stripe/payment_intent.succeeded.json \
+//       [--intent pi_123] [--signal EBAY-v1|...] [--url http://localhost:3000/api/stripe/webhook] [--keep-id]
+//
+// --intent/--signal retarget the fixture at a real order. Each replay gets a fresh event id so the
+// route's deduplication does not swallow it; pass --keep-id to test deduplication itself.
+
+import { readFileSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import Stripe from 'stripe';
+
+const args = process.argv.slice(2);
+const flag = (name) => {
+    const i = args.indexOf(`--${name}`);
+    return i === -1 ? undefined : args[i + 1];
+};
+
+const fixturePath = args.find(a => a.endsWith('.json'));
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+if (!fixturePath || !secret) {
+    console.error('Usage: STRIPE_WEBHOOK_SECRET=whsec_... node scripts/replay-stripe-event.mjs <fixture.json> [--intent pi_...] [--signal id] [--url ...] [--keep-id]');
+    process.exit(1);
+}
+
+const event = JSON.parse(readFileSync(fixturePath, 'utf8'));
+if (!args.includes('--keep-id')) event.id = `evt_replay_${randomUUID().replace(/-/g, '')}`;
+
+const object = event.data.object;
+const intent = flag('intent');
+if (intent) {
+    if (object.object === 'payment_intent') object.id = intent;
+    else object.payment_intent = intent;
+}
+const signal = flag('signal');
+if (signal && object.metadata) object.metadata.signalId = signal;
+
+const payload = JSON.stringify(event);
+const signature = new Stripe('sk_test_dummy').webhooks.generateTestHeaderString({ payload, secret });
+const url = flag('url') || 'http://localhost:3000/api/stripe/webhook';
+
+const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+    body: payload
+});
+console.log(`[REPLAY] ${event.type} (${event.id}) -> ${response.status}`);
+console.log(await response.text());
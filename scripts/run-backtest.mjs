@@ -0,0 +1,73 @@
+// ==========================================
+// VOIDLOGIC NEXUS: OFFLINE BACKTEST
+// ==========================================
+// Replays a backtest dataset through a candidate rule set and the current rules, with no server,
+// database or login. Comps are matched with the local embedding provider whatever .env says.
+//
+//   node scripts/run-backtest.mjs [--candidate '{"minRoiPct": 20}'] [--baseline '{...}']
+//       [--dataset fixtures/backtest/dataset.json] [--cases] [--json]
+//
+// Rule JSON takes the same fields as POST /api/nexus/backtest. --cases lists each case's decision;
+// --json prints the full comparison instead of the summary.
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { loadTs, ROOT } from './load-ts.mjs';
+
+const { compareRules, resolveRules } = loadTs('lib/backtest.ts');
+const { LocalEmbeddingProvider } = loadTs('lib/embeddings/index.ts');
+
+const args = process.argv.slice(2);
+const flag = (name) => {
+    const i = args.indexOf(`--${name}`);
+    return i === -1 ? undefined : args[i + 1];
+};
+
+let candidate;
+let baseline;
+try {
+    candidate = resolveRules({ label: 'candidate', ...JSON.parse(flag('candidate') || '{}') });
+    baseline = resolveRules(JSON.parse(flag('baseline') || '{}'));
+} catch (error) {
+    console.error(`Invalid rules: ${error.message}`);
+    console.error(`Usage: node scripts/run-backtest.mjs [--candidate '{"minRoiPct": 20}'] [--baseline '{...}'] [--dataset file] [--cases] [--json]`);
+    process.exit(1);
+}
+
+const datasetPath = path.resolve(flag('dataset') || path.join(ROOT, 'fixtures', 'backtest', 'dataset.json'));
+const dataset = JSON.parse(readFileSync(datasetPath, 'utf8'));
+const comparison = await compareRules(dataset, candidate, baseline, new LocalEmbeddingProvider());
+
+if (args.includes('--json')) {
+    console.log(JSON.stringify(comparison, null, 2));
+    process.exit(0);
+}
+
+const { baseline: base, candidate: cand, delta } = comparison;
+const fmt = (v) => v === null ? '-' : String(v);
+const signed = (v) => v === null ? '-' : `${v > 0 ? '+' : ''}${v}`;
+const rows = [
+    ['signals', base.signals, cand.signals, delta.signals],
+    ['executed', base.executed, cand.executed, delta.executed],
+    ['capital deployed', base.capitalDeployed, cand.capitalDeployed, delta.capitalDeployed],
+    ['expected net', base.expectedNet, cand.expectedNet, null],
+    ['simulated net', base.simulatedNet, cand.simulatedNet, delta.simulatedNet],
+    ['simulated ROI %', base.simulatedRoiPct, cand.simulatedRoiPct, null],
+    ['false positive %', base.falsePositiveRate, cand.falsePositiveRate, delta.falsePositiveRate],
+    ['missed opportunities', base.missedOpportunities, cand.missedOpportunities, delta.missedOpportunities]
+];
+
+console.log(`${dataset.name}: ${base.cases} cases (${path.relative(ROOT, datasetPath)})`);
+console.log(`${''.padEnd(22)}${base.label.padStart(12)}${cand.label.padStart(12)}${'delta'.padStart(10)}`);
+for (const [name, b, c, d] of rows) {
+    console.log(`${name.padEnd(22)}${fmt(b).padStart(12)}${fmt(c).padStart(12)}${signed(d).padStart(10)}`);
+}
+
+if (args.includes('--cases')) {
+    console.log('');
+    base.results.forEach((r, i) => {
+        const c = cand.results[i];
+        const changed = r.decision !== c.decision ? ' *' : '';
+        console.log(`${r.id.padEnd(22)}${r.decision.padStart(16)}${c.decision.padStart(16)}${changed}  ${r.title}`);
+    });
+}
@@ -0,0 +1,128 @@
+// ==========================================
+// VOIDLOGIC NEXUS: STRIPE WEBHOOK TESTS
+// ==========================================
+// Drives app/api/stripe/webhook/route.ts against an in-memory stand-in for the Supabase tables it touches.
+//
+//   npm test
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import Stripe from 'stripe';
+import { ROOT, loadTs } from '../scripts/load-ts.mjs';
+
+const WEBHOOK_SECRET = 'whsec_test_nexus';
+
+// Unique columns per table, as in the README schema; a clash fails the insert with 23505 like Postgres does
+const UNIQUE = {
+    nexus_stripe_events: ['id'],
+    nexus_order_events: ['stripeEventId']
+};
+
+// Just the PostgREST builder surface the webhook and OrderLifecycle use
+const createFakeSupabase = (tables) => {
+    const rows = (table) => (tables[table] ??= []);
+
+    const query = (table) => {
+        const filters = [];
+        let action = { type: 'select' };
+        let returning = false;
+
+        const matching = () => rows(table).filter(row => filters.every(f => f(row)));
+        const run = () => {
+            if (action.type === 'insert') {
+                for (const column of UNIQUE[table] || []) {
+                    const value = action.values[column];
+                    if (value != null && rows(table).some(row => row[column] === value)) {
+                        return { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint on ${table}.${column}` } };
+                    }
+                }
+                const row = { id: rows(table).length + 1, ...action.values };
+                rows(table).push(row);
+                return { data: returning ? [row] : null, error: null };
+            }
+            if (action.type === 'update') {
+                const hit = matching();
+                hit.forEach(row => Object.assign(row, action.values));
+                return { data: returning ? hit : null, error: null };
+            }
+            if (action.type === 'delete') {
+                const hit = matching();
+                tables[table] = rows(table).filter(row => !hit.includes(row));
+                return { data: returning ? hit : null, error: null };
+            }
+            return { data: matching(), error: null };
+        };
+
+        const builder = {
+            select: () => { returning = true; return builder; },
+            insert: (values) => { action = { type: 'insert', values }; return builder; },
+            update: (values) => { action = { type: 'update', values }; return builder; },
+            delete: () => { action = { type: 'delete' }; return builder; },
+            eq: (column, value) => { filters.push(row => row[column] === value); return builder; },
+            is: (column, value) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+            lt: (column, value) => { filters.push(row => row[column] < value); return builder; },
+            maybeSingle: async () => {
+                const { data, error } = run();
+                return { data: Array.isArray(data) ? data[0] ?? null : data, error };
+            },
+            single: async () => {
+                const { data, error } = run();
+                return { data: Array.isArray(data) ? data[0] : data, error };
+            },
+            then: (resolve, reject) => Promise.resolve(run()).then(resolve, reject)
+        };
+        return builder;
+    };
+
+    return { from: query };
+};
+
+// The route builds its own client, so the Supabase module is swapped out before the route is loaded
+const tables = {};
+const require = createRequire(path.join(ROOT, 'package.json'));
+const supabaseModule = require.resolve('@supabase/supabase-js');
+require.cache[supabaseModule] = { id: supabaseModule, filename: supabaseModule, loaded: true, exports: { createClient: () => createFakeSupabase(tables) } };
+
+process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.test';
+process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-test';
+process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+const { POST } = loadTs('app/api/stripe/webhook/route.ts');
+
+const deliver = (payload) => POST(new Request('http://localhost/api/stripe/webhook', {
+    method: 'POST',
+    headers: {
+        'Content-Type': 'application/json',
+        'Stripe-Signature': new Stripe('sk_test_dummy').webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET })
+    },
+    body: payload
+}));
+
+test('reprocessing a stale claim writes the order event only once', async () => {
+    const payload = readFileSync(path.join(ROOT, 'fixtures/stripe/charge.refunded.json'), 'utf8');
+    const event = JSON.parse(payload);
+
+    // Already in hand, so the refund is recorded on the order without a transition
+    tables.nexus_orders = [{ id: 'order-1', signalId: 'SIG-1', paymentIntentId: 'pi_fixture_0001', amount: 845, currency: 'USD', status: 'RECEIVED', refundedAmount: 0 }];
+    tables.nexus_order_events = [];
+    tables.nexus_stripe_events = [];
+    tables.nexus_logs = [];
+
+    const first = await deliver(payload);
+    assert.equal(first.status, 200);
+
+    // The delivery dies after applying the event but before marking it processed, and the claim goes stale
+    const claim = tables.nexus_stripe_events.find(row => row.id === event.id);
+    claim.processedAt = null;
+    claim.receivedAt = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+
+    const retry = await deliver(payload);
+    assert.equal(retry.status, 200);
+    assert.match((await retry.json()).outcome, /already recorded/);
+
+    assert.equal(tables.nexus_order_events.filter(row => row.stripeEventId === event.id).length, 1);
+    assert.ok(tables.nexus_stripe_events.find(row => row.id === event.id).processedAt);
+    assert.equal(tables.nexus_orders[0].refundedAmount, 845);
+});